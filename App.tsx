@@ -1,23 +1,29 @@
 import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
-import { Undo2, Redo2, X, Download, Upload, Info, LayoutTemplate, Menu, Plus, Minus } from 'lucide-react';
+import { Undo2, Redo2, X, Download, Upload, Info, LayoutTemplate, Menu, Plus, Minus, FileCode, ExternalLink, Link, Check, FolderOpen, BarChart3, Waves, Grid3x3, GitCompare, Atom, Cpu, Wand2, SlidersHorizontal, TrendingDown, Group, FlipHorizontal2 } from 'lucide-react';
 import {
   GateType,
   CircuitGrid,
+  CircuitFile,
   GateParams,
   Complex,
+  ComplexArray,
   CustomGateDefinition,
+  WireInitialState,
+  CircuitParameter,
   isValidGateType,
   isParameterizedGate,
   isTimeParameterizedGate,
   isExponentialGate,
   isControlGate,
   isAllFixed2x1Gate,
+  getFixedSpanSize,
   isArithmeticInputGate,
   isArithmeticDarkBlueGate,
   isArithmeticLilacGate,
   isSpanningGate,
   isResizableSpanningGate,
   isVisualizationGate,
+  isNoiseGate,
 } from './types';
 import { INITIAL_ROWS, INITIAL_COLS, MAX_ROWS, ROW_HEIGHT, CELL_WIDTH, GRID_CELL_SIZE, GATE_DEFS } from './constants';
 import { GateLibrary } from './components/GateLibrary';
@@ -27,19 +33,63 @@ import { InlineBlochSphere } from './components/InlineBlochSphere';
 import { InlinePercentage } from './components/InlinePercentage';
 import { AmplitudeGrid } from './components/AmplitudeGrid';
 import { AngleInput } from './components/AngleInput';
+import { PauliStringInput } from './components/PauliStringInput';
+import { NoiseStrengthInput } from './components/NoiseStrengthInput';
 import { CustomGateDialog } from './components/CustomGateDialog';
+import { MacroGateDialog } from './components/MacroGateDialog';
 import { TemplatesDropdown } from './components/TemplatesDropdown';
+import { WorkspacePanel } from './components/WorkspacePanel';
+import { ShotsPanel } from './components/ShotsPanel';
+import { UnitaryPanel } from './components/UnitaryPanel';
+import { StatsPanel } from './components/StatsPanel';
+import { ComparePanel } from './components/ComparePanel';
+import { EntanglementPanel } from './components/EntanglementPanel';
+import { TranspilePanel } from './components/TranspilePanel';
+import { NoisePanel } from './components/NoisePanel';
+import { ParametersPanel } from './components/ParametersPanel';
+import { VariationalPanel } from './components/VariationalPanel';
+import { InitialStatePicker } from './components/InitialStatePicker';
 import { InfoModal } from './components/InfoModal';
-import { runCircuitWithMeasurements, getBlochVector, validateCircuit, ValidationError } from './utils/quantum';
-import { downloadCircuitFile, readCircuitFile } from './utils/circuitSerializer';
+import {
+  hasNoiseGates,
+  getBlochVector,
+  validateCircuit,
+  ValidationError,
+  NoiseModel,
+} from './utils/quantum';
+import { DensityMatrix, getDensityBlochVector } from './utils/densityMatrix';
+import { getObservableExpectation, resizePauliString } from './utils/observables';
+import { downloadCircuitFile, downloadQasmFile, readCircuitFile, QasmVersion, buildCircuitLink, decodeCircuitLink } from './utils/circuitSerializer';
+import { parseQasm } from './utils/parser';
+import { formatInitialState, isDefaultInitialState } from './utils/initialStates';
+import { exportQuirkCircuit, importQuirkCircuit, quirkCircuitToUrl } from './utils/quirkConverter';
+import { optimizeCircuit } from './utils/circuitOptimizer';
+import { appendInverse } from './utils/circuitInverse';
+import {
+  closeMacroEditor,
+  expandMacroGate,
+  extractRegion,
+  getMacroEditorCircuit,
+  getMacroEditorError,
+  getMacroRegionError,
+  MacroEditSession,
+  openMacroEditor,
+  placeMacroInstance,
+  replaceMacroDefinition,
+  updateMacroInstances,
+} from './utils/macroGates';
+import { bindCircuitParameters } from './utils/circuitParameters';
 import { SimulationTimeline } from './components/SimulationTimeline';
 import { MeasurementPanel } from './components/MeasurementPanel';
 import { AlgorithmTemplate } from './data/algorithms';
 import { useCircuitHistory } from './hooks/useCircuitHistory';
+import { useWorkspace, WorkspaceDocument } from './hooks/useWorkspace';
 import { useSelection } from './hooks/useSelection';
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
 import { useIsMobile } from './hooks/useIsMobile';
 import { useMobileGateSelection } from './hooks/useMobileGateSelection';
+import { useSimulationWorker, SimulationRunMode } from './hooks/useSimulationWorker';
+import { SimulationResponse } from './utils/simulationRunner';
 import { MobileGateDrawer } from './components/MobileGateDrawer';
 import { MobileGateIndicator } from './components/MobileGateIndicator';
 import { MobileHeaderMenu } from './components/MobileHeaderMenu';
@@ -51,6 +101,16 @@ interface PendingAngleInput {
   position: { x: number; y: number };
 }
 
+/** Whether placing a gate from the library must first prompt for its angle, noise strength or Pauli string */
+const needsParameterPrompt = (type: GateType, params?: GateParams): boolean =>
+  (isParameterizedGate(type) && !params?.angle) ||
+  (isNoiseGate(type) && params?.noiseStrength === undefined) ||
+  (type === GateType.PAULI_VIS && !params?.pauliString);
+
+/** Trim a moved Pauli display gate's string to the wires that fit below its new anchor */
+const fitPauliString = (params: GateParams | undefined, spanLength: number): GateParams | undefined =>
+  params?.pauliString === undefined ? params : { ...params, pauliString: params.pauliString.slice(0, spanLength) };
+
 // Time Parameter Display component - editable when frozen
 const TimeParameterDisplay: React.FC<{
   timeParameter: number;
@@ -136,6 +196,7 @@ const MobileAwareCell: React.FC<{
   isHovered: boolean;
   isRowHighlighted: boolean;
   isColHighlighted: boolean;
+  isInMacroEditor: boolean;
   onDesktopClick: (e: React.MouseEvent) => void;
   onMobileTap: (el?: HTMLElement) => void;
   onMobileDelete: () => void;
@@ -155,6 +216,7 @@ const MobileAwareCell: React.FC<{
   isHovered,
   isRowHighlighted,
   isColHighlighted,
+  isInMacroEditor,
   onDesktopClick,
   onMobileTap,
   onMobileDelete,
@@ -256,7 +318,9 @@ const MobileAwareCell: React.FC<{
                 ? 'bg-accent/30'
                 : (isRowHighlighted || isColHighlighted)
                   ? 'bg-accent/15'
-                  : ''
+                  : isInMacroEditor
+                    ? 'bg-indigo-500/15'
+                    : ''
       }`}
       style={{ height: ROW_HEIGHT, width: CELL_WIDTH }}
     >
@@ -286,26 +350,94 @@ const getTemplatePopulatedDimensions = (template: AlgorithmTemplate): { rows: nu
   };
 };
 
+// Empty grid for the first start and for new workspace documents
+const createInitialGrid = (): CircuitGrid =>
+  Array(INITIAL_ROWS).fill(null).map((_, r) =>
+    Array(INITIAL_COLS).fill(null).map((_, c) => ({
+      gate: null,
+      id: `cell-${r}-${c}`
+    }))
+  );
+
+// Empty wire for a grid with the given column count
+const createEmptyRow = (row: number, cols: number) =>
+  Array(cols).fill(null).map((_, c) => ({
+    gate: null,
+    id: `cell-${row}-${c}`
+  }));
+
+// Pad a loaded grid with empty rows up to INITIAL_ROWS
+const padToInitialRows = (loadedGrid: CircuitGrid): CircuitGrid => {
+  const paddedGrid: CircuitGrid = [];
+
+  for (let r = 0; r < Math.max(INITIAL_ROWS, loadedGrid.length); r++) {
+    if (r < loadedGrid.length) {
+      paddedGrid.push(loadedGrid[r]);
+    } else {
+      // Add empty rows to reach INITIAL_ROWS
+      paddedGrid.push(createEmptyRow(r, loadedGrid[0]?.length ?? INITIAL_COLS));
+    }
+  }
+
+  return paddedGrid;
+};
+
 const App: React.FC = () => {
-  // Rows are always fixed at 8 (q0-q7)
+  // Local workspace of named circuits; the active one is restored on startup
+  const {
+    documents: workspaceDocuments,
+    activeDocument,
+    saveActiveDocument,
+    openDocument,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  } = useWorkspace(createInitialGrid);
+  const [initialDocument] = useState(() => activeDocument);
+
   const [pendingAngle, setPendingAngle] = useState<PendingAngleInput | null>(null);
   const [showCustomDialog, setShowCustomDialog] = useState(false);
-  const [customGates, setCustomGates] = useState<CustomGateDefinition[]>([]);
+  const [showMacroDialog, setShowMacroDialog] = useState(false);
+  // A macro definition laid out after the circuit for editing
+  const [macroEdit, setMacroEdit] = useState<MacroEditSession | null>(null);
+  const [customGates, setCustomGates] = useState<CustomGateDefinition[]>(
+    () => initialDocument.file.customGates ?? []
+  );
+  // Starting state per wire (missing entries start in |0⟩)
+  const [initialStates, setInitialStates] = useState<WireInitialState[]>(
+    () => initialDocument.file.circuit.initialStates ?? []
+  );
+  // Named angle parameters (not undoable, like initial states)
+  const [parameters, setParameters] = useState<CircuitParameter[]>(
+    () => initialDocument.file.circuit.parameters ?? []
+  );
+  const [pendingInitialState, setPendingInitialState] = useState<{ row: number; position: { x: number; y: number } } | null>(null);
 
 
   // Run workflow state
   const [hasRun, setHasRun] = useState(false);
-  const [finalState, setFinalState] = useState<Complex[] | null>(null);
+  const [finalState, setFinalState] = useState<ComplexArray | null>(null);
   const [measurements, setMeasurements] = useState<{ qubit: number; result: 0 | 1; probability: number }[]>([]);
   const [populatedRows, setPopulatedRows] = useState<number[]>([]);
 
   // Step mode state
   const [stepMode, setStepMode] = useState(false);
   const [stepIndex, setStepIndex] = useState(0);
-  const [stateHistory, setStateHistory] = useState<Complex[][]>([]);
+  const [stateHistory, setStateHistory] = useState<(ComplexArray | null)[]>([]);
+  const [densityHistory, setDensityHistory] = useState<(DensityMatrix | null)[]>([]);
+  // Only one history is filled, depending on which engine ran last
+  const historyLength = Math.max(stateHistory.length, densityHistory.length);
+  // Large runs keep only the states visualization gates show, which is too few to step through
+  const canStep = historyLength > 1 && stateHistory.every(Boolean) && densityHistory.every(Boolean);
   const [activeColumns, setActiveColumns] = useState<number[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
 
+  // Global noise model (null = noiseless)
+  const [noiseModel, setNoiseModel] = useState<NoiseModel | null>(null);
+  // Why the last run produced no results (e.g. too many qubits for noise simulation)
+  const [simulationError, setSimulationError] = useState<string | null>(null);
+
   // Time-parameterized gates animation state
   const [timeParameter, setTimeParameter] = useState(0);
   const [isFrozen, setIsFrozen] = useState(false);
@@ -327,7 +459,21 @@ const App: React.FC = () => {
 
   // Header panel state
   const [isTemplatesOpen, setIsTemplatesOpen] = useState(false);
+  const [isWorkspaceOpen, setIsWorkspaceOpen] = useState(false);
+  const [isShotsOpen, setIsShotsOpen] = useState(false);
+  const [isUnitaryOpen, setIsUnitaryOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isEntanglementOpen, setIsEntanglementOpen] = useState(false);
+  const [isTranspileOpen, setIsTranspileOpen] = useState(false);
+  const [isNoiseOpen, setIsNoiseOpen] = useState(false);
+  const [isParametersOpen, setIsParametersOpen] = useState(false);
+  const [isVariationalOpen, setIsVariationalOpen] = useState(false);
   const [isInfoOpen, setIsInfoOpen] = useState(false);
+  const [isQasmMenuOpen, setIsQasmMenuOpen] = useState(false);
+  const [isQuirkMenuOpen, setIsQuirkMenuOpen] = useState(false);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [optimizeReport, setOptimizeReport] = useState<string | null>(null);
+  const [inverseReport, setInverseReport] = useState<string[] | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   // Mobile support
@@ -355,16 +501,6 @@ const App: React.FC = () => {
   // Ref for circuit scrolling
   const circuitScrollRef = useRef<HTMLDivElement>(null);
 
-  // Create initial grid
-  const initialGrid = React.useMemo(() => {
-    return Array(INITIAL_ROWS).fill(null).map((_, r) =>
-      Array(INITIAL_COLS).fill(null).map((_, c) => ({
-        gate: null,
-        id: `cell-${r}-${c}`
-      }))
-    );
-  }, []);
-
   // Circuit history with undo/redo support
   const {
     grid,
@@ -376,15 +512,29 @@ const App: React.FC = () => {
     redo,
     canUndo,
     canRedo,
-  } = useCircuitHistory(initialGrid);
+    past,
+    future,
+    restore,
+  } = useCircuitHistory(initialDocument.file.circuit.grid, 50, initialDocument);
+
+  // Autosave the editor into the active workspace document
+  useEffect(() => {
+    saveActiveDocument({ grid, customGates, initialStates, parameters, past, future });
+  }, [grid, customGates, initialStates, parameters, past, future, saveActiveDocument]);
+
+  // The grid with parameterized angles at the current parameter values;
+  // simulation, analysis and exports run on this one
+  const boundGrid = useMemo(() => bindCircuitParameters(grid, parameters), [grid, parameters]);
 
   // Selection state for keyboard navigation
   const {
     selectedCell,
+    selectionRange,
     selectCell,
+    extendSelection,
     clearSelection,
     isSelected,
-  } = useSelection(MAX_ROWS, grid[0]?.length ?? INITIAL_COLS);
+  } = useSelection(grid.length, grid[0]?.length ?? INITIAL_COLS);
 
   // Check if circuit has any time-parameterized or exponential gates
   const hasTimeGates = useMemo(() => {
@@ -398,6 +548,9 @@ const App: React.FC = () => {
     return false;
   }, [grid]);
 
+  // Noise needs mixed states, so simulate on density matrices instead of state vectors
+  const isDensityMode = noiseModel !== null || hasNoiseGates(grid);
+
   // Auto-disable step mode when time gates are present
   useEffect(() => {
     if (hasTimeGates && stepMode) {
@@ -406,6 +559,14 @@ const App: React.FC = () => {
     }
   }, [hasTimeGates, stepMode]);
 
+  // Auto-disable step mode when a run is too large to keep every column's state
+  useEffect(() => {
+    if (hasRun && !canStep && stepMode) {
+      setStepMode(false);
+      setIsPlaying(false);
+    }
+  }, [hasRun, canStep, stepMode]);
+
   // Auto-disable freeze when all time gates are removed
   useEffect(() => {
     if (!hasTimeGates && isFrozen) {
@@ -479,34 +640,73 @@ const App: React.FC = () => {
     setValidationErrors(errors);
   }, [grid]);
 
+  // Store a finished run's results
+  const applySimulationResponse = useCallback((response: SimulationResponse) => {
+    setSimulationError(null);
+    setPopulatedRows(response.result.populatedRows);
+    setActiveColumns(response.result.activeColumns);
+    let historyLength: number;
+    if (response.engine === 'densityMatrix') {
+      setFinalState(null);
+      setMeasurements([]);
+      setStateHistory([]);
+      setDensityHistory(response.result.densityHistory);
+      historyLength = response.result.densityHistory.length;
+    } else {
+      setFinalState(response.result.finalState);
+      setMeasurements(response.result.measurements);
+      setStateHistory(response.result.stateHistory);
+      setDensityHistory([]);
+      historyLength = response.result.stateHistory.length;
+    }
+    setHasRun(true);
+    // Reset step index if it exceeds new history length
+    setStepIndex(prev => Math.min(prev, historyLength - 1));
+  }, []);
+
+  const handleSimulationError = useCallback((message: string) => {
+    setSimulationError(message);
+    setHasRun(false);
+  }, []);
+
+  const {
+    run: runSimulationInWorker,
+    cancel: cancelSimulation,
+    progress: simulationProgress,
+  } = useSimulationWorker({ onResult: applySimulationResponse, onError: handleSimulationError });
+
+  // Simulate the current circuit off the main thread.
+  // Noise (gates or the global model) switches to density-matrix simulation.
+  const runSimulation = useCallback((mode: SimulationRunMode) => {
+    runSimulationInWorker(isDensityMode
+      ? { engine: 'densityMatrix', grid: boundGrid, noiseModel, timeParameter, initialStates }
+      : { engine: 'stateVector', grid: boundGrid, timeParameter, measurementSeed: measurementSeedRef.current, initialStates },
+    mode);
+  }, [runSimulationInWorker, boundGrid, timeParameter, isDensityMode, noiseModel, initialStates]);
+
   // Auto-run circuit with 100ms debounce whenever grid changes and circuit is valid
   const lastGridRef = useRef<string>('');
 
   useEffect(() => {
-    // For grid changes, use debounce
-    const gridKey = JSON.stringify(grid.map(row => row.map(cell => cell.gate)));
+    // For grid changes, use debounce (a new noise model, initial state or parameter value also needs a re-run).
+    // Gate params are part of the key so editing an angle, matrix or macro re-runs too.
+    const gridKey = JSON.stringify([grid.map(row => row.map(cell => [cell.gate, cell.params])), noiseModel, initialStates, parameters]);
     if (gridKey !== lastGridRef.current) {
       lastGridRef.current = gridKey;
+      // A run for the previous circuit is stale
+      cancelSimulation();
       // Generate new measurement seed when grid changes
       measurementSeedRef.current = Date.now();
       const timeoutId = setTimeout(() => {
         // Only run if circuit is valid (no validation errors)
         const errors = validateCircuit(grid);
         if (errors.length === 0) {
-          const result = runCircuitWithMeasurements(grid, timeParameter, measurementSeedRef.current);
-          setFinalState(result.finalState);
-          setMeasurements(result.measurements);
-          setPopulatedRows(result.populatedRows);
-          setStateHistory(result.stateHistory);
-          setActiveColumns(result.activeColumns);
-          setHasRun(true);
-          // Reset step index if it exceeds new history length
-          setStepIndex(prev => Math.min(prev, result.stateHistory.length - 1));
+          runSimulation('replace');
         }
       }, 100);
       return () => clearTimeout(timeoutId);
     }
-  }, [grid, timeParameter]);
+  }, [grid, timeParameter, noiseModel, initialStates, parameters, runSimulation, cancelSimulation]);
 
   // Separate effect for time parameter updates (no debounce when animating)
   // Uses cached measurement seed for stable results during animation
@@ -515,14 +715,9 @@ const App: React.FC = () => {
 
     const errors = validateCircuit(grid);
     if (errors.length === 0) {
-      // Use the cached seed so measurements don't change randomly during animation
-      const result = runCircuitWithMeasurements(grid, timeParameter, measurementSeedRef.current);
-      setFinalState(result.finalState);
-      setMeasurements(result.measurements);
-      setPopulatedRows(result.populatedRows);
-      setStateHistory(result.stateHistory);
-      setActiveColumns(result.activeColumns);
-      setHasRun(true);
+      // Use the cached seed so measurements don't change randomly during animation.
+      // Frames queue behind a run in progress instead of cancelling it.
+      runSimulation('queue');
     }
   }, [timeParameter, hasTimeGates]);
 
@@ -544,25 +739,67 @@ const App: React.FC = () => {
     return validationErrors.some(err => err.column === col && err.row === row);
   }, [validationErrors]);
 
-  // Clear circuit (always keeps 8 rows)
+  // Clear circuit (back to INITIAL_ROWS wires)
   const handleClear = useCallback(() => {
-    pushState(
-      Array(MAX_ROWS).fill(null).map((_, r) =>
-        Array(INITIAL_COLS).fill(null).map((_, c) => ({
-          gate: null,
-          id: `cell-${r}-${c}`
-        }))
-      )
-    );
+    cancelSimulation();
+    pushState(createInitialGrid());
+    setInitialStates([]);
+    setParameters([]);
     setHasRun(false);
     setFinalState(null);
     setMeasurements([]);
     setPopulatedRows([]);
     setStepIndex(0);
     setStateHistory([]);
+    setDensityHistory([]);
     setActiveColumns([]);
     setIsPlaying(false);
-  }, [pushState]);
+  }, [pushState, cancelSimulation]);
+
+  // Cancel and merge gates in one undoable step, briefly reporting what was removed
+  const handleOptimize = useCallback(() => {
+    const result = optimizeCircuit(grid);
+    if (result.changed) {
+      pushState(result.grid);
+      const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+      setOptimizeReport(`Removed ${plural(result.gatesRemoved, 'gate')}, ${plural(result.depthRemoved, 'column')} of depth`);
+    } else {
+      setOptimizeReport('Nothing to optimize');
+    }
+    setTimeout(() => setOptimizeReport(null), 2000);
+  }, [grid, pushState]);
+
+  // Append the inverse of the selected columns (the range, or the selected cell's
+  // column) after the last gate; gates with no inverse are listed instead
+  const handleAppendInverse = useCallback(() => {
+    const startCol = selectionRange?.startCol ?? selectedCell?.col;
+    const endCol = selectionRange?.endCol ?? selectedCell?.col;
+    if (startCol === undefined || endCol === undefined) return;
+    const result = appendInverse(grid, startCol, endCol);
+    if (result.unsupported.length > 0) {
+      setInverseReport(result.unsupported);
+      setTimeout(() => setInverseReport(null), 4000);
+      return;
+    }
+    if (result.grid !== grid) pushState(result.grid);
+  }, [grid, selectionRange, selectedCell, pushState]);
+
+  // Wires can be added up to MAX_ROWS; the bottom wire can be removed while it
+  // is empty, down to INITIAL_ROWS
+  const canAddWire = grid.length < MAX_ROWS;
+  const canRemoveWire = grid.length > INITIAL_ROWS &&
+    grid[grid.length - 1].every(cell => cell.gate === null) &&
+    isDefaultInitialState(initialStates[grid.length - 1]);
+
+  const handleAddWire = useCallback(() => {
+    if (!canAddWire) return;
+    pushState(prev => [...prev, createEmptyRow(prev.length, prev[0]?.length ?? INITIAL_COLS)]);
+  }, [canAddWire, pushState]);
+
+  const handleRemoveWire = useCallback(() => {
+    if (!canRemoveWire) return;
+    pushState(prev => prev.slice(0, -1));
+  }, [canRemoveWire, pushState]);
 
   // File input ref for loading circuits
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -570,10 +807,84 @@ const App: React.FC = () => {
   // Save circuit to file
   const handleSaveCircuit = useCallback(() => {
     downloadCircuitFile(grid, customGates, undefined, {
-      name: 'circuit',
+      name: activeDocument.file.metadata.name,
       description: 'Quantum circuit exported from QCVO',
-    });
-  }, [grid, customGates]);
+    }, initialStates, parameters);
+  }, [grid, customGates, initialStates, parameters, activeDocument]);
+
+  // Export circuit as OpenQASM, surfacing gates that could not be expressed
+  const handleExportQasm = useCallback((version: QasmVersion) => {
+    const warnings = downloadQasmFile(boundGrid, { version, timeParameter, initialStates });
+    if (warnings.length > 0) {
+      console.warn('OpenQASM export warnings:', warnings);
+      alert(`Exported OpenQASM ${version} with ${warnings.length} warning(s):\n\n${warnings.join('\n')}`);
+    }
+  }, [boundGrid, timeParameter, initialStates]);
+
+  // Reset simulation state after the circuit is swapped out
+  const resetSimulation = useCallback(() => {
+    cancelSimulation();
+    setHasRun(false);
+    setFinalState(null);
+    setMeasurements([]);
+    setStepIndex(0);
+    setStateHistory([]);
+    setDensityHistory([]);
+    setActiveColumns([]);
+    setIsPlaying(false);
+  }, [cancelSimulation]);
+
+  // Replace the circuit with a loaded file, padding to INITIAL_ROWS
+  const applyCircuitFile = useCallback((circuitFile: CircuitFile) => {
+    pushState(padToInitialRows(circuitFile.circuit.grid));
+    setMacroEdit(null);
+    setInitialStates(circuitFile.circuit.initialStates ?? []);
+    setParameters(circuitFile.circuit.parameters ?? []);
+
+    // Load custom gates if present
+    if (circuitFile.customGates && circuitFile.customGates.length > 0) {
+      setCustomGates(circuitFile.customGates);
+    }
+
+    resetSimulation();
+  }, [pushState, resetSimulation]);
+
+  // Load a workspace document into the editor, replacing grid, history and custom gates
+  const loadWorkspaceDocument = useCallback((doc: WorkspaceDocument) => {
+    restore({ grid: doc.file.circuit.grid, past: doc.past, future: doc.future });
+    setCustomGates(doc.file.customGates ?? []);
+    setInitialStates(doc.file.circuit.initialStates ?? []);
+    setParameters(doc.file.circuit.parameters ?? []);
+    resetSimulation();
+  }, [restore, resetSimulation]);
+
+  const handleOpenDocument = useCallback((id: string) => {
+    if (id === activeDocument.id) return;
+    const doc = openDocument(id);
+    if (doc) loadWorkspaceDocument(doc);
+  }, [activeDocument.id, openDocument, loadWorkspaceDocument]);
+
+  const handleCreateDocument = useCallback(() => {
+    loadWorkspaceDocument(createDocument());
+  }, [createDocument, loadWorkspaceDocument]);
+
+  // Transpiled circuits replace the editor's grid (undoable) or open in a new document
+  const handleTranspileReplace = useCallback((transpiled: CircuitGrid) => {
+    pushState(transpiled);
+    setIsTranspileOpen(false);
+  }, [pushState]);
+
+  const handleTranspileOpenAsNew = useCallback((transpiled: CircuitGrid, basisName: string) => {
+    createDocument(`${activeDocument.file.metadata.name} (${basisName})`);
+    restore({ grid: transpiled, past: [], future: [] });
+    resetSimulation();
+    setIsTranspileOpen(false);
+  }, [activeDocument.file.metadata.name, createDocument, restore, resetSimulation]);
+
+  const handleDeleteDocument = useCallback((id: string) => {
+    const next = deleteDocument(id);
+    if (next) loadWorkspaceDocument(next);
+  }, [deleteDocument, loadWorkspaceDocument]);
 
   // Load circuit from file
   const handleLoadCircuit = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -581,42 +892,21 @@ const App: React.FC = () => {
     if (!file) return;
 
     try {
-      const circuitFile = await readCircuitFile(file);
-
-      // Ensure grid has at least MAX_ROWS rows
-      const loadedGrid = circuitFile.circuit.grid;
-      const paddedGrid: CircuitGrid = [];
-
-      for (let r = 0; r < Math.max(MAX_ROWS, loadedGrid.length); r++) {
-        if (r < loadedGrid.length) {
-          paddedGrid.push(loadedGrid[r]);
-        } else {
-          // Add empty rows to reach MAX_ROWS
-          const cols = loadedGrid[0]?.length ?? INITIAL_COLS;
-          paddedGrid.push(
-            Array(cols).fill(null).map((_, c) => ({
-              gate: null,
-              id: `cell-${r}-${c}`
-            }))
-          );
+      let circuitFile: CircuitFile;
+      if (file.name.toLowerCase().endsWith('.qasm')) {
+        const result = parseQasm(await file.text(), file.name.replace(/\.qasm$/i, ''));
+        if (!result.success) {
+          throw new Error(result.error.message);
         }
+        if (result.value.circuit.rows > MAX_ROWS) {
+          throw new Error(`Circuit uses ${result.value.circuit.rows} qubits; at most ${MAX_ROWS} are supported`);
+        }
+        circuitFile = result.value;
+      } else {
+        circuitFile = await readCircuitFile(file);
       }
 
-      pushState(paddedGrid);
-
-      // Load custom gates if present
-      if (circuitFile.customGates && circuitFile.customGates.length > 0) {
-        setCustomGates(circuitFile.customGates);
-      }
-
-      // Reset simulation state
-      setHasRun(false);
-      setFinalState(null);
-      setMeasurements([]);
-      setStepIndex(0);
-      setStateHistory([]);
-      setActiveColumns([]);
-      setIsPlaying(false);
+      applyCircuitFile(circuitFile);
     } catch (error) {
       console.error('Failed to load circuit:', error);
       alert(error instanceof Error ? error.message : 'Failed to load circuit file');
@@ -624,7 +914,77 @@ const App: React.FC = () => {
 
     // Reset the file input so the same file can be loaded again
     event.target.value = '';
-  }, [pushState]);
+  }, [applyCircuitFile]);
+
+  // Restore a circuit shared through the URL fragment, on startup and when the hash changes
+  useEffect(() => {
+    const restoreFromHash = () => {
+      try {
+        const circuitFile = decodeCircuitLink(window.location.hash);
+        if (!circuitFile) return;
+        // Open the link as a new workspace document
+        createDocument(circuitFile.metadata.name);
+        restore({ grid: padToInitialRows(circuitFile.circuit.grid), past: [], future: [] });
+        setCustomGates(circuitFile.customGates ?? []);
+        setInitialStates(circuitFile.circuit.initialStates ?? []);
+        setParameters(circuitFile.circuit.parameters ?? []);
+        resetSimulation();
+        // The circuit now lives in the workspace; drop the hash so a reload does not import it again
+        window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      } catch (error) {
+        console.error('Failed to load circuit link:', error);
+        alert(error instanceof Error ? error.message : 'Failed to load circuit link');
+      }
+    };
+
+    restoreFromHash();
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => window.removeEventListener('hashchange', restoreFromHash);
+  }, [createDocument, restore, resetSimulation]);
+
+  // Copy a link that encodes the circuit in its fragment
+  const handleCopyLink = useCallback(async () => {
+    const url = buildCircuitLink(grid, customGates, { name: activeDocument.file.metadata.name }, initialStates, parameters);
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy circuit link:', error);
+      window.prompt('Copy this link to share the circuit', url);
+    }
+  }, [grid, customGates, initialStates, parameters, activeDocument]);
+
+  // Open the circuit in Quirk, surfacing gates that could not be converted
+  const handleOpenInQuirk = useCallback(() => {
+    const { circuit, report } = exportQuirkCircuit(boundGrid, initialStates);
+    if (report.warnings.length > 0) {
+      console.warn('Quirk export warnings:', report.warnings);
+      alert(`Exported to Quirk with ${report.warnings.length} warning(s):\n\n${report.warnings.join('\n')}`);
+    }
+    window.open(quirkCircuitToUrl(circuit), '_blank', 'noopener');
+  }, [boundGrid, initialStates]);
+
+  // Import a pasted Quirk link or circuit JSON
+  const handleImportQuirk = useCallback(() => {
+    const input = window.prompt('Paste a Quirk link or circuit JSON');
+    if (!input) return;
+
+    const { file, report } = importQuirkCircuit(input);
+    if (!file) {
+      alert(report.errors.join('\n'));
+      return;
+    }
+    if (file.circuit.rows > MAX_ROWS) {
+      alert(`Circuit uses ${file.circuit.rows} qubits; at most ${MAX_ROWS} are supported`);
+      return;
+    }
+    applyCircuitFile(file);
+    if (report.warnings.length > 0) {
+      console.warn('Quirk import warnings:', report.warnings);
+      alert(`Imported from Quirk with ${report.warnings.length} warning(s):\n\n${report.warnings.join('\n')}`);
+    }
+  }, [applyCircuitFile]);
 
   // Step mode handlers
   const handleStepModeToggle = useCallback(() => {
@@ -644,12 +1004,12 @@ const App: React.FC = () => {
   }, [hasTimeGates, isFrozen]);
 
   const handleStepChange = useCallback((step: number) => {
-    setStepIndex(Math.max(0, Math.min(step, stateHistory.length - 1)));
-  }, [stateHistory.length]);
+    setStepIndex(Math.max(0, Math.min(step, historyLength - 1)));
+  }, [historyLength]);
 
   const handleStepForward = useCallback(() => {
-    setStepIndex(prev => Math.min(prev + 1, stateHistory.length - 1));
-  }, [stateHistory.length]);
+    setStepIndex(prev => Math.min(prev + 1, historyLength - 1));
+  }, [historyLength]);
 
   const handleStepBack = useCallback(() => {
     setStepIndex(prev => Math.max(prev - 1, 0));
@@ -657,13 +1017,13 @@ const App: React.FC = () => {
 
   const handlePlayPause = useCallback(() => {
     setIsPlaying(prev => {
-      if (!prev && stepIndex >= stateHistory.length - 1) {
+      if (!prev && stepIndex >= historyLength - 1) {
         // If at end and pressing play, restart from beginning
         setStepIndex(0);
       }
       return !prev;
     });
-  }, [stepIndex, stateHistory.length]);
+  }, [stepIndex, historyLength]);
 
   // Auto-play effect for step mode
   useEffect(() => {
@@ -671,7 +1031,7 @@ const App: React.FC = () => {
 
     const interval = setInterval(() => {
       setStepIndex(prev => {
-        if (prev >= stateHistory.length - 1) {
+        if (prev >= historyLength - 1) {
           setIsPlaying(false);
           return prev;
         }
@@ -680,7 +1040,7 @@ const App: React.FC = () => {
     }, 500); // 500ms per step
 
     return () => clearInterval(interval);
-  }, [isPlaying, stepMode, stateHistory.length]);
+  }, [isPlaying, stepMode, historyLength]);
 
   // Compute display state based on step mode
   const displayState = React.useMemo(() => {
@@ -697,49 +1057,72 @@ const App: React.FC = () => {
     return activeColumns[stepIndex - 1] ?? -1;
   }, [stepMode, stepIndex, activeColumns]);
 
-  // Helper to get quantum state at a specific column position for visualization gates
-  const getStateAtColumn = useCallback((colIndex: number): Complex[] | null => {
-    if (!hasRun || stateHistory.length === 0) return null;
-
-    // stateHistory[0] = initial state (before any gates)
-    // stateHistory[i+1] = state after activeColumns[i]
+  // Compute display density matrix based on step mode (density-matrix runs only)
+  const displayDensity = React.useMemo(() => {
+    if (!hasRun || densityHistory.length === 0) return null;
+    const finalDensity = densityHistory[densityHistory.length - 1];
+    return stepMode ? densityHistory[stepIndex] ?? finalDensity : finalDensity;
+  }, [hasRun, densityHistory, stepMode, stepIndex]);
+
+  // Helper to get the history index for a visualization gate at a specific column
+  const getHistoryIndexAtColumn = useCallback((colIndex: number): number => {
+    // history[0] = initial state (before any gates)
+    // history[i+1] = state after activeColumns[i]
     // We want the state AFTER the column with the visualization gate
 
-    // Find which stateHistory index corresponds to this column
-    const historyIndex = activeColumns.findIndex(c => c === colIndex);
-    if (historyIndex === -1) {
+    // Find which history index corresponds to this column
+    const activeIndex = activeColumns.findIndex(c => c === colIndex);
+    if (activeIndex === -1) {
       // Column is not an active column (no gates were applied)
-      // Find the last active column before this one
-      const prevActiveIndex = activeColumns.findLastIndex(c => c < colIndex);
-      if (prevActiveIndex === -1) {
-        return stateHistory[0]; // Initial state (before any gates)
-      }
-      return stateHistory[prevActiveIndex + 1] ?? stateHistory[stateHistory.length - 1];
+      // Use the state after the last active column before this one (-1 → initial state)
+      return activeColumns.findLastIndex(c => c < colIndex) + 1;
     }
-    // Return state AFTER this column (historyIndex + 1)
-    return stateHistory[historyIndex + 1] ?? stateHistory[stateHistory.length - 1];
-  }, [hasRun, stateHistory, activeColumns]);
+    // Return state AFTER this column
+    return activeIndex + 1;
+  }, [activeColumns]);
+
+  // Helper to get a qubit's Bloch vector at a specific column, from whichever engine ran
+  const getBlochVectorAtColumn = useCallback((colIndex: number, qubit: number): [number, number, number] | null => {
+    if (!hasRun) return null;
+    const historyIndex = getHistoryIndexAtColumn(colIndex);
+    if (densityHistory.length > 0) {
+      const density = densityHistory[historyIndex] ?? densityHistory[densityHistory.length - 1];
+      return density ? getDensityBlochVector(density, qubit) : null;
+    }
+    const state = stateHistory[historyIndex] ?? stateHistory[stateHistory.length - 1];
+    return state ? getBlochVector(state, qubit, populatedRows.length) : null;
+  }, [hasRun, getHistoryIndexAtColumn, densityHistory, stateHistory, populatedRows.length]);
+
+  // Helper to get a Pauli string's expectation value at a specific column (string starts at startRow)
+  const getPauliExpectationAtColumn = useCallback((colIndex: number, startRow: number, pauliString: string): number | null => {
+    if (!hasRun) return null;
+    const historyIndex = getHistoryIndexAtColumn(colIndex);
+    const state = densityHistory.length > 0
+      ? densityHistory[historyIndex] ?? densityHistory[densityHistory.length - 1]
+      : stateHistory[historyIndex] ?? stateHistory[stateHistory.length - 1];
+    if (!state) return null;
+    return getObservableExpectation(state, [{ coefficient: 1, pauli: 'I'.repeat(startRow) + pauliString }], populatedRows);
+  }, [hasRun, getHistoryIndexAtColumn, densityHistory, stateHistory, populatedRows]);
 
   const handleDrop = useCallback((row: number, dropCol: number, type: GateType, params?: GateParams) => {
     pushState(prev => {
       const newGrid = prev.map(r => r.map(c => ({...c})));
       const totalRows = newGrid.length;
 
-      // Check if this is a fixed 2x1 gate
-      const isFixed2x1 = isAllFixed2x1Gate(type);
+      // Fixed-size spanning gates: 2x1 arithmetic blocks and multi-qubit custom gates
+      const fixedSize = getFixedSpanSize(type, params);
 
       // Check if this is a resizable spanning gate (REVERSE)
       const isResizableSpanning = isResizableSpanningGate(type);
 
-      if (isFixed2x1) {
-        // Fixed 2x1 gates always span exactly 2 rows
-        // Check if there's room for 2 rows
-        if (row + 1 >= totalRows) {
+      if (fixedSize !== null) {
+        // Check if there's room for every row of the span
+        if (row + fixedSize > totalRows) {
           // Not enough room - don't place the gate
           return prev;
         }
 
-        const fixedSpan = { startRow: row, endRow: row + 1 };
+        const fixedSpan = { startRow: row, endRow: row + fixedSize - 1 };
 
         // Place anchor cell
         newGrid[row][dropCol] = {
@@ -748,20 +1131,35 @@ const App: React.FC = () => {
           params: { ...params, reverseSpan: fixedSpan, isSpanContinuation: false }
         };
 
-        // Place continuation cell
-        newGrid[row + 1][dropCol] = {
-          ...newGrid[row + 1][dropCol],
-          gate: type,
-          params: { ...params, reverseSpan: fixedSpan, isSpanContinuation: true }
-        };
+        // Place continuation cells
+        for (let r = row + 1; r <= fixedSpan.endRow; r++) {
+          newGrid[r][dropCol] = {
+            ...newGrid[r][dropCol],
+            gate: type,
+            params: { ...params, reverseSpan: fixedSpan, isSpanContinuation: true }
+          };
+        }
       } else if (isResizableSpanning) {
         // REVERSE gate - can have variable span
         const reverseSpan = params?.reverseSpan || { startRow: row, endRow: row };
+        // A span given up front (Pauli string length) must not overwrite gates below the anchor
+        for (let r = reverseSpan.startRow + 1; r <= reverseSpan.endRow; r++) {
+          if (newGrid[r][dropCol].gate) {
+            return shiftColumnsForSpanningGate(newGrid, dropCol, reverseSpan.startRow, reverseSpan.endRow, type, params);
+          }
+        }
         newGrid[row][dropCol] = {
           ...newGrid[row][dropCol],
           gate: type,
           params: { ...params, reverseSpan, isSpanContinuation: false }
         };
+        for (let r = reverseSpan.startRow + 1; r <= reverseSpan.endRow; r++) {
+          newGrid[r][dropCol] = {
+            ...newGrid[r][dropCol],
+            gate: type,
+            params: { ...params, reverseSpan, isSpanContinuation: true }
+          };
+        }
       } else {
         // Regular single-cell gate
         newGrid[row][dropCol] = {
@@ -785,6 +1183,7 @@ const App: React.FC = () => {
 
       const oldSpan = anchorCell.params?.reverseSpan;
       if (!oldSpan) return prev;
+      const pauliString = anchorCell.params?.pauliString;
 
       // Clear all old span cells
       for (let r = oldSpan.startRow; r <= oldSpan.endRow; r++) {
@@ -799,22 +1198,26 @@ const App: React.FC = () => {
       const clampedEnd = Math.max(0, Math.min(newEndRow, newGrid.length - 1));
       const finalStart = Math.min(clampedStart, clampedEnd);
       const finalEnd = Math.max(clampedStart, clampedEnd);
+      const newSpan = { startRow: finalStart, endRow: finalEnd };
+      // Pauli display gates keep the letters of wires still covered
+      const spanParams: GateParams = pauliString === undefined
+        ? {}
+        : { pauliString: resizePauliString(pauliString, oldSpan, newSpan) };
 
       // Check for collisions in the new span (excluding empty cells and same gate type)
       for (let r = finalStart; r <= finalEnd; r++) {
         const cell = newGrid[r]?.[col];
         if (cell && cell.gate && cell.gate !== gateType) {
           // Collision detected - need to shift columns
-          return shiftColumnsForSpanningGate(newGrid, col, finalStart, finalEnd, gateType);
+          return shiftColumnsForSpanningGate(newGrid, col, finalStart, finalEnd, gateType, spanParams);
         }
       }
 
       // Place anchor cell at the start of the span
-      const newSpan = { startRow: finalStart, endRow: finalEnd };
       newGrid[finalStart][col] = {
         ...newGrid[finalStart][col],
         gate: gateType,
-        params: { reverseSpan: newSpan, isSpanContinuation: false }
+        params: { ...spanParams, reverseSpan: newSpan, isSpanContinuation: false }
       };
 
       // Place continuation cells for the rest of the span
@@ -822,7 +1225,7 @@ const App: React.FC = () => {
         newGrid[r][col] = {
           ...newGrid[r][col],
           gate: gateType,
-          params: { reverseSpan: newSpan, isSpanContinuation: true }
+          params: { ...spanParams, reverseSpan: newSpan, isSpanContinuation: true }
         };
       }
 
@@ -831,7 +1234,7 @@ const App: React.FC = () => {
   }, []);
 
   // Helper to shift columns when a spanning gate has a collision
-  const shiftColumnsForSpanningGate = (grid: CircuitGrid, targetCol: number, startRow: number, endRow: number, gateType: GateType): CircuitGrid => {
+  const shiftColumnsForSpanningGate = (grid: CircuitGrid, targetCol: number, startRow: number, endRow: number, gateType: GateType, params: GateParams = {}): CircuitGrid => {
     const numCols = grid[0]?.length || 0;
     const newGrid = grid.map(row => [...row, { gate: null, id: `cell-${grid.indexOf(row)}-${numCols}` }]);
 
@@ -849,14 +1252,14 @@ const App: React.FC = () => {
     newGrid[startRow][targetCol] = {
       ...newGrid[startRow][targetCol],
       gate: gateType,
-      params: { reverseSpan: newSpan, isSpanContinuation: false }
+      params: { ...params, reverseSpan: newSpan, isSpanContinuation: false }
     };
 
     for (let r = startRow + 1; r <= endRow; r++) {
       newGrid[r][targetCol] = {
         ...newGrid[r][targetCol],
         gate: gateType,
-        params: { reverseSpan: newSpan, isSpanContinuation: true }
+        params: { ...params, reverseSpan: newSpan, isSpanContinuation: true }
       };
     }
 
@@ -893,7 +1296,7 @@ const App: React.FC = () => {
     selectedCell,
     selectCell,
     clearSelection,
-    maxRows: MAX_ROWS,
+    maxRows: grid.length,
     displayColCount,
     grid,
     pushState,
@@ -919,7 +1322,7 @@ const App: React.FC = () => {
       // Account for padding (pt-4 = 16px + py-4 = 16px top)
       const relativeY = e.clientY - rect.top - 16 + circuitContainer.scrollTop;
       const targetRow = Math.floor(relativeY / ROW_HEIGHT);
-      const clampedRow = Math.max(0, Math.min(targetRow, MAX_ROWS - 1));
+      const clampedRow = Math.max(0, Math.min(targetRow, grid.length - 1));
 
       const { col, originalSpan, edge, gateType } = resizingGate;
 
@@ -953,7 +1356,7 @@ const App: React.FC = () => {
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [resizingGate, updateSpanningGateSpan, commitDrag]);
+  }, [resizingGate, updateSpanningGateSpan, commitDrag, grid.length]);
 
   const handleDragOver = (e: React.DragEvent, row: number, col: number) => {
     e.preventDefault();
@@ -1020,7 +1423,7 @@ const App: React.FC = () => {
         const totalRows = newGrid.length;
 
         // Clear source cell(s) - for spanning gates, clear ALL cells in the span
-        if (isResizableSpanningGate(type) && existingParams?.reverseSpan) {
+        if (isSpanningGate(type) && existingParams?.reverseSpan) {
           const srcSpan = existingParams.reverseSpan;
           for (let r = srcSpan.startRow; r <= srcSpan.endRow; r++) {
             if (newGrid[r]?.[sourceCol]) {
@@ -1034,27 +1437,29 @@ const App: React.FC = () => {
         }
 
         // Place target cell (same logic as handleDrop)
-        const isFixed2x1 = isAllFixed2x1Gate(type);
+        const fixedSize = getFixedSpanSize(type, existingParams);
         const isResizableSpanning = isResizableSpanningGate(type);
 
-        if (isFixed2x1) {
-          if (row + 1 >= totalRows) {
+        if (fixedSize !== null) {
+          if (row + fixedSize > totalRows) {
             // Not enough room - only clear source
             return newGrid;
           }
 
-          const fixedSpan = { startRow: row, endRow: row + 1 };
+          const fixedSpan = { startRow: row, endRow: row + fixedSize - 1 };
 
           newGrid[row][col] = {
             ...newGrid[row][col],
             gate: type,
             params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: false }
           };
-          newGrid[row + 1][col] = {
-            ...newGrid[row + 1][col],
-            gate: type,
-            params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: true }
-          };
+          for (let r = row + 1; r <= fixedSpan.endRow; r++) {
+            newGrid[r][col] = {
+              ...newGrid[r][col],
+              gate: type,
+              params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: true }
+            };
+          }
         } else if (isResizableSpanning) {
           // Calculate span size from existing params (preserve the size during move)
           const oldSpan = existingParams?.reverseSpan;
@@ -1063,12 +1468,13 @@ const App: React.FC = () => {
           // Create new span at drop location, clamped to grid bounds
           const newEndRow = Math.min(row + spanSize, totalRows - 1);
           const newSpan = { startRow: row, endRow: newEndRow };
+          const movedParams = fitPauliString(existingParams, newEndRow - row + 1);
 
           // Place anchor cell
           newGrid[row][col] = {
             ...newGrid[row][col],
             gate: type,
-            params: { ...existingParams, reverseSpan: newSpan, isSpanContinuation: false }
+            params: { ...movedParams, reverseSpan: newSpan, isSpanContinuation: false }
           };
 
           // Place continuation cells
@@ -1076,7 +1482,7 @@ const App: React.FC = () => {
             newGrid[r][col] = {
               ...newGrid[r][col],
               gate: type,
-              params: { ...existingParams, reverseSpan: newSpan, isSpanContinuation: true }
+              params: { ...movedParams, reverseSpan: newSpan, isSpanContinuation: true }
             };
           }
         } else {
@@ -1093,7 +1499,7 @@ const App: React.FC = () => {
     }
 
     // Check if this is a parameterized gate (only prompt for new gates from sidebar)
-    if (!existingParams && isParameterizedGate(type)) {
+    if (!existingParams && (isParameterizedGate(type) || isNoiseGate(type) || type === GateType.PAULI_VIS)) {
       // Show angle input popup
       const rect = (e.target as HTMLElement).getBoundingClientRect();
       setPendingAngle({
@@ -1116,10 +1522,47 @@ const App: React.FC = () => {
     setPendingAngle(null);
   };
 
+  const handleNoiseStrengthConfirm = (noiseStrength: number) => {
+    if (!pendingAngle) return;
+    handleDrop(pendingAngle.row, pendingAngle.col, pendingAngle.type, { noiseStrength });
+    setPendingAngle(null);
+  };
+
+  const handlePauliStringConfirm = (pauliString: string) => {
+    if (!pendingAngle) return;
+    const { row, col, type } = pendingAngle;
+    handleDrop(row, col, type, {
+      pauliString,
+      reverseSpan: { startRow: row, endRow: row + pauliString.length - 1 }
+    });
+    setPendingAngle(null);
+  };
+
   const handleAngleCancel = () => {
     setPendingAngle(null);
   };
 
+  // Clicking a wire label picks the state that wire starts in
+  const handleWireLabelClick = (row: number, e: React.MouseEvent) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setPendingInitialState({ row, position: { x: rect.left, y: rect.bottom + 4 } });
+  };
+
+  const handleInitialStateConfirm = (state: WireInitialState) => {
+    if (!pendingInitialState) return;
+    const { row } = pendingInitialState;
+    setInitialStates(prev => {
+      const next = Array.from({ length: Math.max(prev.length, row + 1) }, (_, r) => prev[r] ?? '0');
+      next[row] = state;
+      return next;
+    });
+    setPendingInitialState(null);
+  };
+
+  const handleInitialStateCancel = useCallback(() => {
+    setPendingInitialState(null);
+  }, []);
+
   // Mobile: tap-to-place/move handler for grid cells
   const handleMobileCellTap = useCallback((row: number, col: number, cellElement?: HTMLElement) => {
     const { state: mobileState } = mobileGateSelection;
@@ -1145,15 +1588,7 @@ const App: React.FC = () => {
           const existingParams = mobileState.selectedGateParams;
 
           // Clear source
-          if (isResizableSpanningGate(type) && existingParams?.reverseSpan) {
-            const srcSpan = existingParams.reverseSpan;
-            for (let r = srcSpan.startRow; r <= srcSpan.endRow; r++) {
-              if (newGrid[r]?.[sourceCol]) {
-                newGrid[r][sourceCol].gate = null;
-                newGrid[r][sourceCol].params = undefined;
-              }
-            }
-          } else if (isAllFixed2x1Gate(type) && existingParams?.reverseSpan) {
+          if (isSpanningGate(type) && existingParams?.reverseSpan) {
             const srcSpan = existingParams.reverseSpan;
             for (let r = srcSpan.startRow; r <= srcSpan.endRow; r++) {
               if (newGrid[r]?.[sourceCol]) {
@@ -1167,22 +1602,25 @@ const App: React.FC = () => {
           }
 
           // Place target (same as handleDrop logic)
-          const isFixed2x1 = isAllFixed2x1Gate(type);
+          const fixedSize = getFixedSpanSize(type, existingParams);
           const isResizableSpanning = isResizableSpanningGate(type);
 
-          if (isFixed2x1) {
-            if (row + 1 >= totalRows) return newGrid;
-            const fixedSpan = { startRow: row, endRow: row + 1 };
+          if (fixedSize !== null) {
+            if (row + fixedSize > totalRows) return newGrid;
+            const fixedSpan = { startRow: row, endRow: row + fixedSize - 1 };
             newGrid[row][col] = { ...newGrid[row][col], gate: type, params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: false } };
-            newGrid[row + 1][col] = { ...newGrid[row + 1][col], gate: type, params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: true } };
+            for (let r = row + 1; r <= fixedSpan.endRow; r++) {
+              newGrid[r][col] = { ...newGrid[r][col], gate: type, params: { ...existingParams, reverseSpan: fixedSpan, isSpanContinuation: true } };
+            }
           } else if (isResizableSpanning) {
             const oldSpan = existingParams?.reverseSpan;
             const spanSize = oldSpan ? (oldSpan.endRow - oldSpan.startRow) : 0;
             const newEndRow = Math.min(row + spanSize, totalRows - 1);
             const newSpan = { startRow: row, endRow: newEndRow };
-            newGrid[row][col] = { ...newGrid[row][col], gate: type, params: { ...existingParams, reverseSpan: newSpan, isSpanContinuation: false } };
+            const movedParams = fitPauliString(existingParams, newEndRow - row + 1);
+            newGrid[row][col] = { ...newGrid[row][col], gate: type, params: { ...movedParams, reverseSpan: newSpan, isSpanContinuation: false } };
             for (let r = row + 1; r <= newEndRow; r++) {
-              newGrid[r][col] = { ...newGrid[r][col], gate: type, params: { ...existingParams, reverseSpan: newSpan, isSpanContinuation: true } };
+              newGrid[r][col] = { ...newGrid[r][col], gate: type, params: { ...movedParams, reverseSpan: newSpan, isSpanContinuation: true } };
             }
           } else {
             newGrid[row][col] = { ...newGrid[row][col], gate: type, params: existingParams };
@@ -1194,7 +1632,7 @@ const App: React.FC = () => {
         const type = mobileState.selectedGateType;
         const params = mobileState.selectedGateParams;
 
-        if (isParameterizedGate(type) && !params?.angle) {
+        if (needsParameterPrompt(type, params)) {
           // Need angle input
           const rect = cellElement?.getBoundingClientRect();
           setPendingAngle({
@@ -1258,7 +1696,7 @@ const App: React.FC = () => {
     let newEnd = span.endRow;
 
     if (direction === 'expand-top' && newStart > 0) newStart--;
-    else if (direction === 'expand-bottom' && newEnd < MAX_ROWS - 1) newEnd++;
+    else if (direction === 'expand-bottom' && newEnd < grid.length - 1) newEnd++;
     else if (direction === 'contract-top' && newEnd - newStart > 0) newStart++;
     else if (direction === 'contract-bottom' && newEnd - newStart > 0) newEnd--;
     else return;
@@ -1282,6 +1720,58 @@ const App: React.FC = () => {
     setShowCustomDialog(false);
   };
 
+  // The selected gates as a macro sub-circuit, or why they cannot be one
+  const macroSelectionError = selectionRange ? getMacroRegionError(grid, selectionRange) : null;
+  const macroSelectionCircuit = useMemo(
+    () => (showMacroDialog && selectionRange && !getMacroRegionError(grid, selectionRange) ? extractRegion(grid, selectionRange) : null),
+    [showMacroDialog, grid, selectionRange]
+  );
+
+  // Replace the selection with a macro instance; reusing a macro's name
+  // redefines it, updating its instances in the grid and in other macros
+  const handleMacroConfirm = (label: string) => {
+    if (!selectionRange || !macroSelectionCircuit) return;
+    const definition: CustomGateDefinition = { label, circuit: macroSelectionCircuit };
+    const isUpdate = customGates.some(g => g.label === label);
+    setCustomGates(prev => isUpdate ? replaceMacroDefinition(prev, definition) : [...prev, definition]);
+    pushState(prev => placeMacroInstance(isUpdate ? updateMacroInstances(prev, definition) : prev, selectionRange, definition));
+    clearSelection();
+    setShowMacroDialog(false);
+  };
+
+  // Edit a macro's definition in place: its sub-circuit is laid out after the
+  // circuit, and saving it updates every instance
+  const macroEditError = macroEdit ? getMacroEditorError(grid, macroEdit) : null;
+
+  const handleEditMacro = (label: string) => {
+    const definition = customGates.find(g => g.label === label);
+    if (macroEdit || !definition) return;
+    const opened = openMacroEditor(grid, definition);
+    if (!opened) return;
+    pushState(opened.grid);
+    setMacroEdit(opened.session);
+    clearSelection();
+  };
+
+  const handleMacroEditSave = () => {
+    if (!macroEdit || macroEditError) return;
+    const definition: CustomGateDefinition = { label: macroEdit.label, circuit: getMacroEditorCircuit(grid, macroEdit) };
+    setCustomGates(prev => replaceMacroDefinition(prev, definition));
+    pushState(prev => updateMacroInstances(closeMacroEditor(prev, macroEdit), definition));
+    setMacroEdit(null);
+  };
+
+  const handleMacroEditCancel = () => {
+    if (!macroEdit) return;
+    pushState(prev => closeMacroEditor(prev, macroEdit));
+    setMacroEdit(null);
+  };
+
+  // An editing area belongs to the document it was opened in
+  useEffect(() => {
+    setMacroEdit(null);
+  }, [activeDocument.id]);
+
   // Handle dropping a template at a specific position
   const handleDropTemplate = useCallback((template: AlgorithmTemplate, dropRow: number, dropCol: number) => {
     const templateRows = template.qubits;
@@ -1289,7 +1779,7 @@ const App: React.FC = () => {
 
     // Check if template would exceed max rows
     const endRow = dropRow + templateRows - 1;
-    if (endRow >= MAX_ROWS) {
+    if (endRow >= grid.length) {
       // Cannot place - would exceed max rows
       return;
     }
@@ -1367,7 +1857,7 @@ const App: React.FC = () => {
     setFinalState(null);
     setMeasurements([]);
     setPopulatedRows([]);
-  }, [pushState]);
+  }, [grid.length, pushState]);
 
 
   const clearCell = (row: number, col: number, e: React.MouseEvent) => {
@@ -1432,6 +1922,30 @@ const App: React.FC = () => {
         hoverBgClass: 'bg-purple-500',
       };
     }
+    // Purple border like single-qubit custom gates
+    if (gateType === GateType.CUSTOM_MULTI) {
+      return {
+        borderClass: 'border-purple-400',
+        textClass: 'text-purple-400',
+        hoverBgClass: 'bg-purple-400',
+      };
+    }
+    // Indigo - macro gates (named sub-circuits)
+    if (gateType === GateType.MACRO) {
+      return {
+        borderClass: 'border-indigo-400',
+        textClass: 'text-indigo-400',
+        hoverBgClass: 'bg-indigo-400',
+      };
+    }
+    // Emerald - Pauli expectation display, like the other visualization gates
+    if (gateType === GateType.PAULI_VIS) {
+      return {
+        borderClass: 'border-emerald-500',
+        textClass: 'text-emerald-400',
+        hoverBgClass: 'bg-emerald-500',
+      };
+    }
     // Phase Gradient - yellow
     if (gateType === GateType.PHASE_GRADIENT) {
       return {
@@ -1448,13 +1962,40 @@ const App: React.FC = () => {
     };
   };
 
-  // Helper to render a spanning gate (REVERSE, arithmetic 2x1 gates, input markers)
+  // Helper to render a Pauli display gate's body: one letter per wire, and ⟨P⟩ once the circuit has run
+  const renderPauliDisplay = (col: number, span: { startRow: number; endRow: number }) => {
+    const pauliString = resizePauliString(grid[span.startRow][col].params?.pauliString ?? '', span, span);
+    const value = getPauliExpectationAtColumn(col, span.startRow, pauliString);
+    const title = `⟨${pauliString.split('').join('⊗')}⟩${value === null ? '' : ` = ${value.toFixed(4)}`}`;
+    return (
+      <div className="absolute inset-0 text-emerald-400" title={title}>
+        {/* Each letter is centered on its wire (the body starts 8px below the first wire's cell) */}
+        {pauliString.split('').map((letter, i) => (
+          <span
+            key={i}
+            className={`absolute left-0 right-0 text-center font-bold text-sm leading-none ${letter === 'I' ? 'opacity-40' : ''}`}
+            style={{ top: i * ROW_HEIGHT + ROW_HEIGHT / 2 - 15 }}
+          >
+            {letter}
+          </span>
+        ))}
+        {value !== null && (
+          <span className="absolute left-0 right-0 bottom-1 text-center font-bold text-xs text-white">
+            {value.toFixed(2)}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  // Helper to render a spanning gate (REVERSE, arithmetic 2x1 gates, input markers, Pauli display, multi-qubit custom and macro gates)
   const renderSpanningGate = (col: number, gateType: GateType, span: { startRow: number; endRow: number }, hasError: boolean = false) => {
     const spanHeight = (span.endRow - span.startRow + 1) * ROW_HEIGHT;
     const isHovered = hoveredReverseGate?.col === col && hoveredReverseGate?.anchorRow === span.startRow;
     const style = getSpanningGateStyle(gateType);
     const gateDef = GATE_DEFS[gateType];
-    const label = gateDef?.label || gateType;
+    const isNamedGate = gateType === GateType.CUSTOM_MULTI || gateType === GateType.MACRO;
+    const label = (isNamedGate && grid[span.startRow][col].params?.customLabel) || gateDef?.label || gateType;
 
     // Only REVERSE gate is resizable
     const isResizable = isResizableSpanningGate(gateType);
@@ -1497,11 +2038,19 @@ const App: React.FC = () => {
           onDragStart={isMobile ? undefined : (e) => {
             e.dataTransfer.setData('gateType', gateType);
             e.dataTransfer.setData('sourceCellId', `cell-${span.startRow}-${col}`);
-            e.dataTransfer.setData('gateParams', JSON.stringify({ reverseSpan: span }));
+            // Carry the anchor's params so Pauli strings and custom matrices survive the move
+            e.dataTransfer.setData('gateParams', JSON.stringify({ ...grid[span.startRow][col].params, reverseSpan: span }));
             e.dataTransfer.effectAllowed = 'move';
           }}
+          onDoubleClick={gateType === GateType.MACRO ? (e) => {
+            e.stopPropagation();
+            pushState(prev => expandMacroGate(prev, col, span.startRow));
+          } : undefined}
+          title={gateType === GateType.MACRO ? 'Double-click to expand' : undefined}
         >
-          <span className={`${style.textClass} font-bold text-xs`}>{label}</span>
+          {gateType === GateType.PAULI_VIS
+            ? renderPauliDisplay(col, span)
+            : <span className={`${style.textClass} font-bold text-xs`}>{label}</span>}
         </div>
 
         {/* Desktop: Resize handles - only show on hover for resizable gates */}
@@ -1544,7 +2093,7 @@ const App: React.FC = () => {
               </button>
             )}
             {/* Bottom expand */}
-            {span.endRow < MAX_ROWS - 1 && (
+            {span.endRow < grid.length - 1 && (
               <button
                 className={`absolute -bottom-3 left-1/2 -translate-x-1/2 w-6 h-6 rounded-full ${style.hoverBgClass} text-background flex items-center justify-center z-50`}
                 onClick={(e) => { e.stopPropagation(); handleMobileSpanResize(col, span.startRow, 'expand-bottom', gateType); }}
@@ -1577,7 +2126,7 @@ const App: React.FC = () => {
     const arithmeticSpans: { startRow: number; endRow: number }[] = [];
     const inputSpans: { startRow: number; endRow: number }[] = [];
 
-    for (let r = 0; r < MAX_ROWS; r++) {
+    for (let r = 0; r < grid.length; r++) {
         const cell = grid[r][colIdx];
         const g = cell.gate;
         if (!g) continue;
@@ -1718,6 +2267,10 @@ const App: React.FC = () => {
                 isOpen={isMobileMenuOpen}
                 onClose={() => setIsMobileMenuOpen(false)}
                 onSave={handleSaveCircuit}
+                onExportQasm={() => handleExportQasm('3.0')}
+                onCopyLink={handleCopyLink}
+                onOpenInQuirk={handleOpenInQuirk}
+                onImportQuirk={handleImportQuirk}
                 onUpload={() => fileInputRef.current?.click()}
                 onClear={handleClear}
                 onInfo={() => setIsInfoOpen(true)}
@@ -1735,25 +2288,31 @@ const App: React.FC = () => {
               {/* Step Mode Toggle */}
               <button
                 onClick={handleStepModeToggle}
-                disabled={hasTimeGates || isFrozen || !hasRun || stateHistory.length <= 1}
+                disabled={hasTimeGates || isFrozen || !canStep}
                 className={`flex items-center gap-2 px-4 py-2 border-2 transition-colors text-base font-bold uppercase ${
                   stepMode
                     ? 'bg-emerald-600 border-emerald-600 text-white'
                     : hasTimeGates || isFrozen
                       ? 'border-foreground/30 text-foreground/30 cursor-not-allowed'
-                      : hasRun && stateHistory.length > 1
+                      : canStep
                         ? 'border-foreground hover:bg-foreground hover:text-background'
                         : 'border-foreground/30 text-foreground/30 cursor-not-allowed'
                 }`}
-                title={hasTimeGates ? 'Step mode unavailable with time-parameterized gates' : isFrozen ? 'Unfreeze to enable step mode' : 'Toggle step-through simulation mode'}
+                title={hasTimeGates
+                  ? 'Step mode unavailable with time-parameterized gates'
+                  : isFrozen
+                    ? 'Unfreeze to enable step mode'
+                    : hasRun && historyLength > 1 && !canStep
+                      ? 'Step mode unavailable: this circuit is too large to keep the state after every column'
+                      : 'Toggle step-through simulation mode'}
               >
                 <span>Step Mode</span>
               </button>
 
               {/* Simulation Timeline - visible when step mode is active */}
-              {stepMode && hasRun && stateHistory.length > 1 && (
+              {stepMode && hasRun && canStep && (
                 <SimulationTimeline
-                  totalSteps={stateHistory.length - 1}
+                  totalSteps={historyLength - 1}
                   currentStep={stepIndex}
                   onStepChange={handleStepChange}
                   isPlaying={isPlaying}
@@ -1800,6 +2359,34 @@ const App: React.FC = () => {
                 <span>Info</span>
               </button>
 
+              {/* Workspace Button + Panel */}
+              <div className="relative">
+                <button
+                  id="workspace-header-btn"
+                  onClick={() => setIsWorkspaceOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isWorkspaceOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Open the circuit workspace"
+                >
+                  <FolderOpen size={18} />
+                  <span className="max-w-[10rem] truncate">{activeDocument.file.metadata.name}</span>
+                </button>
+                <WorkspacePanel
+                  isOpen={isWorkspaceOpen}
+                  onClose={() => setIsWorkspaceOpen(false)}
+                  documents={workspaceDocuments}
+                  activeId={activeDocument.id}
+                  onOpen={handleOpenDocument}
+                  onCreate={handleCreateDocument}
+                  onRename={renameDocument}
+                  onDuplicate={duplicateDocument}
+                  onDelete={handleDeleteDocument}
+                />
+              </div>
+
               {/* Templates Button + Dropdown */}
               <div className="relative">
                 <button
@@ -1826,6 +2413,205 @@ const App: React.FC = () => {
                 />
               </div>
 
+              {/* Shots Button + Histogram Panel */}
+              <div className="relative">
+                <button
+                  id="shots-header-btn"
+                  onClick={() => setIsShotsOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isShotsOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Run many shots and show an outcome histogram"
+                >
+                  <BarChart3 size={18} />
+                  <span>Shots</span>
+                </button>
+                <ShotsPanel
+                  isOpen={isShotsOpen}
+                  onClose={() => setIsShotsOpen(false)}
+                  grid={boundGrid}
+                  initialStates={initialStates}
+                  timeParameter={timeParameter}
+                  canRun={validationErrors.length === 0}
+                />
+              </div>
+
+              {/* Unitary Button + Matrix Panel */}
+              <div className="relative">
+                <button
+                  id="unitary-header-btn"
+                  onClick={() => setIsUnitaryOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isUnitaryOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Show the matrix the circuit implements"
+                >
+                  <Grid3x3 size={18} />
+                  <span>Unitary</span>
+                </button>
+                <UnitaryPanel
+                  isOpen={isUnitaryOpen}
+                  onClose={() => setIsUnitaryOpen(false)}
+                  grid={boundGrid}
+                  timeParameter={timeParameter}
+                />
+              </div>
+
+              {/* Compare Button + Equivalence Panel */}
+              <div className="relative">
+                <button
+                  id="compare-header-btn"
+                  onClick={() => setIsCompareOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isCompareOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Check whether two circuits implement the same unitary"
+                >
+                  <GitCompare size={18} />
+                  <span>Compare</span>
+                </button>
+                <ComparePanel
+                  isOpen={isCompareOpen}
+                  onClose={() => setIsCompareOpen(false)}
+                  grid={boundGrid}
+                  documents={workspaceDocuments}
+                  activeId={activeDocument.id}
+                  timeParameter={timeParameter}
+                />
+              </div>
+
+              {/* Transpile Button + Basis Rewrite Panel */}
+              <div className="relative">
+                <button
+                  id="transpile-header-btn"
+                  onClick={() => setIsTranspileOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isTranspileOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Rewrite the circuit into a basis gate set"
+                >
+                  <Cpu size={18} />
+                  <span>Transpile</span>
+                </button>
+                <TranspilePanel
+                  isOpen={isTranspileOpen}
+                  onClose={() => setIsTranspileOpen(false)}
+                  grid={boundGrid}
+                  timeParameter={timeParameter}
+                  onReplace={handleTranspileReplace}
+                  onOpenAsNew={handleTranspileOpenAsNew}
+                />
+              </div>
+
+              {/* Entanglement Button + Bipartition Panel */}
+              <div className="relative">
+                <button
+                  id="entanglement-header-btn"
+                  onClick={() => setIsEntanglementOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isEntanglementOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Analyze entanglement between two groups of wires"
+                >
+                  <Atom size={18} />
+                  <span>Entanglement</span>
+                </button>
+                <EntanglementPanel
+                  isOpen={isEntanglementOpen}
+                  onClose={() => setIsEntanglementOpen(false)}
+                  state={displayDensity ?? displayState}
+                  populatedRows={populatedRows}
+                  stateLabel={!stepMode ? 'Final state' : currentStepColumn === -1 ? 'Initial state' : `After column ${currentStepColumn + 1}`}
+                />
+              </div>
+
+              {/* Noise Button + Noise Model Panel */}
+              <div className="relative">
+                <button
+                  id="noise-header-btn"
+                  onClick={() => setIsNoiseOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isNoiseOpen || noiseModel
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title={noiseModel ? 'Noise model on' : 'Configure a noise model'}
+                >
+                  <Waves size={18} />
+                  <span>Noise</span>
+                </button>
+                <NoisePanel
+                  isOpen={isNoiseOpen}
+                  onClose={() => setIsNoiseOpen(false)}
+                  noiseModel={noiseModel}
+                  onChange={setNoiseModel}
+                />
+              </div>
+
+              {/* Parameters Button + Sliders and Sweep Panel */}
+              <div className="relative">
+                <button
+                  id="parameters-header-btn"
+                  onClick={() => setIsParametersOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isParametersOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Define named angle parameters and sweep them"
+                >
+                  <SlidersHorizontal size={18} />
+                  <span>Parameters</span>
+                </button>
+                <ParametersPanel
+                  isOpen={isParametersOpen}
+                  onClose={() => setIsParametersOpen(false)}
+                  parameters={parameters}
+                  onChange={setParameters}
+                  grid={grid}
+                  initialStates={initialStates}
+                  timeParameter={timeParameter}
+                  canRun={validationErrors.length === 0}
+                />
+              </div>
+
+              {/* Variational Button + Optimizer Panel */}
+              <div className="relative">
+                <button
+                  id="variational-header-btn"
+                  onClick={() => setIsVariationalOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isVariationalOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Optimize the parameters against a cost (VQE, QAOA)"
+                >
+                  <TrendingDown size={18} />
+                  <span>Variational</span>
+                </button>
+                <VariationalPanel
+                  isOpen={isVariationalOpen}
+                  onClose={() => setIsVariationalOpen(false)}
+                  parameters={parameters}
+                  onChange={setParameters}
+                  grid={grid}
+                  initialStates={initialStates}
+                  timeParameter={timeParameter}
+                  canRun={validationErrors.length === 0}
+                />
+              </div>
+
               {/* Save Button */}
               <button
                 onClick={handleSaveCircuit}
@@ -1836,6 +2622,86 @@ const App: React.FC = () => {
                 <span>Save</span>
               </button>
 
+              {/* Copy Link Button */}
+              <button
+                onClick={handleCopyLink}
+                className="flex items-center gap-2 px-4 py-2 border-2 border-foreground hover:bg-foreground hover:text-background transition-colors text-base font-bold uppercase"
+                title="Copy a shareable link to this circuit"
+              >
+                {isLinkCopied ? <Check size={18} /> : <Link size={18} />}
+                <span>{isLinkCopied ? 'Copied' : 'Link'}</span>
+              </button>
+
+              {/* QASM Export Button + Version Menu */}
+              <div className="relative">
+                <button
+                  onClick={() => setIsQasmMenuOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isQasmMenuOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Export circuit as OpenQASM"
+                >
+                  <FileCode size={18} />
+                  <span>QASM</span>
+                </button>
+                {isQasmMenuOpen && (
+                  <div className="absolute top-full right-0 mt-1 w-48 bg-background border-2 border-foreground z-50 shadow-lg">
+                    {(['3.0', '2.0'] as const).map(version => (
+                      <button
+                        key={version}
+                        onClick={() => {
+                          handleExportQasm(version);
+                          setIsQasmMenuOpen(false);
+                        }}
+                        className="w-full px-4 py-2 text-left text-sm font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+                      >
+                        OpenQASM {version}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Quirk Interop Button + Menu */}
+              <div className="relative">
+                <button
+                  onClick={() => setIsQuirkMenuOpen(prev => !prev)}
+                  className={`flex items-center gap-2 px-4 py-2 border-2 border-foreground transition-colors text-base font-bold uppercase ${
+                    isQuirkMenuOpen
+                      ? 'bg-foreground text-background'
+                      : 'hover:bg-foreground hover:text-background'
+                  }`}
+                  title="Exchange circuits with Quirk"
+                >
+                  <ExternalLink size={18} />
+                  <span>Quirk</span>
+                </button>
+                {isQuirkMenuOpen && (
+                  <div className="absolute top-full right-0 mt-1 w-48 bg-background border-2 border-foreground z-50 shadow-lg">
+                    <button
+                      onClick={() => {
+                        handleOpenInQuirk();
+                        setIsQuirkMenuOpen(false);
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+                    >
+                      Open in Quirk
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsQuirkMenuOpen(false);
+                        handleImportQuirk();
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+                    >
+                      Import from Quirk
+                    </button>
+                  </div>
+                )}
+              </div>
+
               {/* Upload Button */}
               <button
                 onClick={() => fileInputRef.current?.click()}
@@ -1893,9 +2759,11 @@ const App: React.FC = () => {
                   // Get Bloch vector for this row (post-run only)
                   const filteredIdx = populatedRows.indexOf(rIdx);
                   const isPopulated = filteredIdx !== -1;
-                  const [bx, by, bz] = (hasRun && displayState && isPopulated)
-                    ? getBlochVector(displayState, filteredIdx, populatedRows.length)
-                    : [0, 0, 1];
+                  const [bx, by, bz] = (hasRun && isPopulated && displayDensity)
+                    ? getDensityBlochVector(displayDensity, filteredIdx)
+                    : (hasRun && isPopulated && displayState)
+                      ? getBlochVector(displayState, filteredIdx, populatedRows.length)
+                      : [0, 0, 1];
                   // Clamp bz to [-1, 1] to handle floating point errors
                   const bzClamped = Math.max(-1, Math.min(1, bz));
                   const prob1Raw = hasRun ? ((1 - bzClamped) / 2 * 100) : 0;
@@ -1904,10 +2772,17 @@ const App: React.FC = () => {
 
                   return (
                     <div key={`row-${rIdx}`} className="flex items-center group relative" style={{ height: ROW_HEIGHT }}>
-                      {/* Qubit Label */}
-                      <div className="w-12 text-left font-mono font-bold text-sm text-foreground select-none">
-                        |q{rIdx}⟩
-                      </div>
+                      {/* Qubit Label (click to pick the initial state) */}
+                      <button
+                        onClick={(e) => handleWireLabelClick(rIdx, e)}
+                        className="w-12 flex flex-col items-start leading-tight text-left font-mono font-bold text-sm text-foreground select-none hover:text-accent transition-colors"
+                        title={`q${rIdx} starts in ${formatInitialState(initialStates[rIdx])} (click to change)`}
+                      >
+                        <span>|q{rIdx}⟩</span>
+                        {!isDefaultInitialState(initialStates[rIdx]) && (
+                          <span className="text-xs text-accent">{formatInitialState(initialStates[rIdx])}</span>
+                        )}
+                      </button>
 
                       {/* Wire and Gates */}
                       <div className="relative flex items-center">
@@ -1943,7 +2818,7 @@ const App: React.FC = () => {
                               isTemplateAnchor = rIdx === startRow && cIdx === startCol;
                               isInTemplateArea = rIdx >= startRow && rIdx <= endRow && cIdx >= startCol && cIdx <= endCol;
                               // Check if template would exceed max rows
-                              isTemplateInvalid = endRow >= MAX_ROWS;
+                              isTemplateInvalid = endRow >= grid.length;
                             }
 
                             // Check if this cell is selected
@@ -1967,9 +2842,14 @@ const App: React.FC = () => {
                                 isHovered={isHovered}
                                 isRowHighlighted={isRowHighlighted}
                                 isColHighlighted={isColHighlighted}
+                                isInMacroEditor={macroEdit !== null && rIdx < macroEdit.wires && cIdx >= macroEdit.startCol}
                                 onDesktopClick={(e) => {
                                   e.stopPropagation();
-                                  selectCell(rIdx, cIdx);
+                                  if (e.shiftKey) {
+                                    extendSelection(rIdx, cIdx);
+                                  } else {
+                                    selectCell(rIdx, cIdx);
+                                  }
                                 }}
                                 onMobileTap={(el) => handleMobileCellTap(rIdx, cIdx, el)}
                                 onMobileDelete={() => handleMobileDelete(rIdx, cIdx)}
@@ -1978,23 +2858,21 @@ const App: React.FC = () => {
                                 onDrop={isMobile ? undefined : (e) => handleDropEvent(e, rIdx, cIdx)}
                                 onContextMenu={isMobile ? undefined : (e) => clearCell(rIdx, cIdx, e)}
                               >
-                                {/* Regular gates (non-spanning, non-visualization) */}
+                                {/* Regular gates (non-spanning, non-visualization); angles at the current parameter values */}
                                 {cell.gate && !isSpanningGate(cell.gate) && !isVisualizationGate(cell.gate) && (
-                                  <Gate type={cell.gate} onHover={handleGateHover} params={cell.params} cellId={cell.id} hasError={cellHasError(rIdx, cIdx)} isMobile={isMobile} />
+                                  <Gate type={cell.gate} onHover={handleGateHover} params={boundGrid[rIdx][cIdx].params} cellId={cell.id} hasError={cellHasError(rIdx, cIdx)} isMobile={isMobile} />
                                 )}
                                 {/* Visualization gates - show inline visualization when circuit has run */}
-                                {cell.gate && isVisualizationGate(cell.gate) && hasRun && (() => {
-                                  const stateAtCol = getStateAtColumn(cIdx);
+                                {cell.gate && isVisualizationGate(cell.gate) && !isSpanningGate(cell.gate) && hasRun && (() => {
                                   const filteredIdx = populatedRows.indexOf(rIdx);
-                                  if (!stateAtCol || filteredIdx === -1) {
+                                  const vector = filteredIdx === -1 ? null : getBlochVectorAtColumn(cIdx, filteredIdx);
+                                  if (!vector) {
                                     return <Gate type={cell.gate} onHover={handleGateHover} params={cell.params} cellId={cell.id} hasError={cellHasError(rIdx, cIdx)} isMobile={isMobile} />;
                                   }
                                   if (cell.gate === GateType.BLOCH_VIS) {
                                     return (
                                       <InlineBlochSphere
-                                        state={stateAtCol}
-                                        qubitIndex={filteredIdx}
-                                        numQubits={populatedRows.length}
+                                        vector={vector}
                                         row={rIdx}
                                         cellId={cell.id}
                                         onHover={noopHover}
@@ -2003,9 +2881,7 @@ const App: React.FC = () => {
                                   } else if (cell.gate === GateType.PERCENT_VIS) {
                                     return (
                                       <InlinePercentage
-                                        state={stateAtCol}
-                                        qubitIndex={filteredIdx}
-                                        numQubits={populatedRows.length}
+                                        vector={vector}
                                         row={rIdx}
                                         cellId={cell.id}
                                         onHover={noopHover}
@@ -2015,7 +2891,7 @@ const App: React.FC = () => {
                                   return null;
                                 })()}
                                 {/* Visualization gates - show icon when circuit hasn't run */}
-                                {cell.gate && isVisualizationGate(cell.gate) && !hasRun && (
+                                {cell.gate && isVisualizationGate(cell.gate) && !isSpanningGate(cell.gate) && !hasRun && (
                                   <Gate type={cell.gate} onHover={handleGateHover} params={cell.params} cellId={cell.id} hasError={cellHasError(rIdx, cIdx)} isMobile={isMobile} />
                                 )}
                                 {/* Render spanning gate anchor (REVERSE, arithmetic spanning, input markers) */}
@@ -2049,7 +2925,7 @@ const App: React.FC = () => {
 
                             // Place the gate after expansion
                             setTimeout(() => {
-                              if (isParameterizedGate(type) && !params?.angle) {
+                              if (needsParameterPrompt(type, params)) {
                                 setPendingAngle({
                                   row: rIdx, col: dropCol, type,
                                   position: { x: 100, y: 200 }
@@ -2090,7 +2966,7 @@ const App: React.FC = () => {
                                 const dims = getTemplatePopulatedDimensions(template);
 
                                 // Check if template would exceed max rows
-                                if (rIdx + dims.rows > MAX_ROWS) {
+                                if (rIdx + dims.rows > grid.length) {
                                   return; // Can't place - would exceed rows
                                 }
 
@@ -2127,15 +3003,15 @@ const App: React.FC = () => {
                             if (!isValidGateType(typeStr)) return;
                             const type = typeStr;
 
-                            // Check 2x1 gate row constraint
-                            const isFixed2x1 = isAllFixed2x1Gate(type);
-                            if (isFixed2x1 && rIdx + 1 >= MAX_ROWS) {
-                              return; // Can't place 2x1 gate on row 7
-                            }
-
                             const paramsStr = e.dataTransfer.getData('gateParams');
                             const existingParams = paramsStr ? JSON.parse(paramsStr) as GateParams : undefined;
 
+                            // Fixed-size spans need every row below the drop row
+                            const fixedSize = getFixedSpanSize(type, existingParams);
+                            if (fixedSize !== null && rIdx + fixedSize > grid.length) {
+                              return;
+                            }
+
                             // Add one column and drop the gate
                             const dropCol = displayColCount;
                             setGrid((prev: CircuitGrid) => {
@@ -2150,7 +3026,7 @@ const App: React.FC = () => {
 
                             // Drop the gate after grid expansion
                             setTimeout(() => {
-                              if (isParameterizedGate(type) && !existingParams) {
+                              if ((isParameterizedGate(type) || isNoiseGate(type)) && !existingParams) {
                                 const rect = (e.target as HTMLElement).getBoundingClientRect();
                                 setPendingAngle({
                                   row: rIdx,
@@ -2171,7 +3047,7 @@ const App: React.FC = () => {
                                     const dims = getTemplatePopulatedDimensions(draggingTemplate);
                                     const isInArea = rIdx >= templateDragHover.row && rIdx < templateDragHover.row + dims.rows;
                                     const isAnchor = rIdx === templateDragHover.row;
-                                    const isInvalid = templateDragHover.row + dims.rows > MAX_ROWS;
+                                    const isInvalid = templateDragHover.row + dims.rows > grid.length;
                                     if (!isInArea) return '';
                                     if (isInvalid) return 'bg-red-500/30';
                                     return isAnchor ? 'bg-yellow-400/60' : 'bg-yellow-400/30';
@@ -2215,15 +3091,64 @@ const App: React.FC = () => {
                     </div>
                   );
                 })}
+
+                {/* Add / remove wires */}
+                <div className="flex items-center gap-1 pl-1" style={{ height: ROW_HEIGHT }}>
+                  <button
+                    onClick={handleAddWire}
+                    disabled={!canAddWire}
+                    className="p-1 border border-foreground/30 hover:bg-foreground/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    title={canAddWire ? 'Add wire' : `At most ${MAX_ROWS} wires`}
+                  >
+                    <Plus size={14} />
+                  </button>
+                  <button
+                    onClick={handleRemoveWire}
+                    disabled={!canRemoveWire}
+                    className="p-1 border border-foreground/30 hover:bg-foreground/10 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                    title={canRemoveWire ? 'Remove bottom wire' : 'Only an empty bottom wire can be removed'}
+                  >
+                    <Minus size={14} />
+                  </button>
+                </div>
                 </div>
 
+                {/* Progress of a long simulation run */}
+                {simulationProgress && (
+                  <div className="ml-4 flex items-center gap-2 border border-foreground/30 px-3 py-2 text-sm">
+                    <span className="font-mono whitespace-nowrap">
+                      Simulating {simulationProgress.completedColumns}/{simulationProgress.totalColumns}
+                    </span>
+                    <div className="w-24 h-1.5 bg-foreground/20">
+                      <div
+                        className="h-full bg-accent"
+                        style={{ width: `${100 * simulationProgress.completedColumns / Math.max(1, simulationProgress.totalColumns)}%` }}
+                      />
+                    </div>
+                    <button
+                      onClick={cancelSimulation}
+                      className="p-0.5 hover:bg-foreground/10 transition-colors"
+                      title="Cancel simulation"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+
+                {/* Simulation error - e.g. too many qubits for noise simulation */}
+                {simulationError && (
+                  <div className="ml-4 max-w-xs border border-red-400 px-3 py-2 text-sm text-red-400">
+                    {simulationError}
+                  </div>
+                )}
+
                 {/* Amplitude Grid - fixed position to the right of rows */}
                 {hasRun && displayState && populatedRows.length > 0 && (
                   <div className="ml-4 transition-opacity duration-200">
                     <AmplitudeGrid
                       amplitudes={displayState}
                       numQubits={populatedRows.length}
-                      maxHeight={MAX_ROWS * ROW_HEIGHT}
+                      maxHeight={grid.length * ROW_HEIGHT}
                       rowHeight={ROW_HEIGHT}
                       onHover={noopHover}
                     />
@@ -2234,7 +3159,7 @@ const App: React.FC = () => {
                 {hasRun && measurements.length > 0 && (
                   <MeasurementPanel
                     measurements={measurements}
-                    numRows={MAX_ROWS}
+                    numRows={grid.length}
                     rowHeight={ROW_HEIGHT}
                   />
                 )}
@@ -2244,6 +3169,11 @@ const App: React.FC = () => {
               </div>
             </div>
 
+            {/* Floating Stats Panel - outside scrollable area */}
+            <div className={`absolute ${isMobile ? 'bottom-16' : 'bottom-4'} left-4 z-20`}>
+              <StatsPanel grid={boundGrid} timeParameter={timeParameter} />
+            </div>
+
             {/* Floating Undo/Redo/Clear Buttons - outside scrollable area */}
             <div className={`absolute ${isMobile ? 'bottom-16' : 'bottom-4'} right-4 z-20 flex items-center gap-2 bg-background/90 border border-foreground/30 rounded-lg p-2 shadow-lg`}>
               {/* Undo Button */}
@@ -2276,6 +3206,90 @@ const App: React.FC = () => {
                 {!isMobile && <span>Redo</span>}
               </button>
 
+              {/* Macro editing - save or drop the definition laid out after the circuit */}
+              {!isMobile && macroEdit && (
+                <div className="relative flex items-center gap-2">
+                  {macroEditError && (
+                    <div className="absolute bottom-full right-0 mb-2 px-2 py-1 border border-foreground bg-background text-xs w-72 text-red-400">
+                      {macroEditError}
+                    </div>
+                  )}
+                  <span className="text-sm font-bold text-indigo-400 uppercase">
+                    Editing {macroEdit.label} (q0–q{macroEdit.wires - 1}, from column {macroEdit.startCol + 1})
+                  </span>
+                  <button
+                    onClick={handleMacroEditSave}
+                    disabled={macroEditError !== null}
+                    className={`flex items-center gap-2 px-3 py-1.5 border-2 transition-colors text-sm font-bold uppercase ${
+                      macroEditError === null
+                        ? 'border-indigo-400 text-indigo-400 hover:bg-indigo-400 hover:text-background'
+                        : 'border-foreground/30 text-foreground/30 cursor-not-allowed'
+                    }`}
+                    title={`Save ${macroEdit.label} and update every instance`}
+                  >
+                    <Check size={16} />
+                    <span>Save</span>
+                  </button>
+                  <button
+                    onClick={handleMacroEditCancel}
+                    className="flex items-center gap-2 px-3 py-1.5 border-2 border-foreground hover:bg-foreground hover:text-background transition-colors text-sm font-bold uppercase"
+                    title="Discard the changes to the definition"
+                  >
+                    <X size={16} />
+                    <span>Cancel</span>
+                  </button>
+                </div>
+              )}
+
+              {/* Create Gate Button - while a range of cells is selected (Shift+click) */}
+              {!isMobile && selectionRange && (
+                <button
+                  onClick={() => setShowMacroDialog(true)}
+                  className="flex items-center gap-2 px-3 py-1.5 border-2 border-indigo-400 text-indigo-400 hover:bg-indigo-400 hover:text-background transition-colors text-sm font-bold uppercase"
+                  title={macroSelectionError ?? 'Create gate from selection'}
+                >
+                  <Group size={16} />
+                  <span>Create Gate</span>
+                </button>
+              )}
+
+              {/* Append Inverse Button - for the selected columns */}
+              {!isMobile && selectedCell && (
+                <div className="relative">
+                  {inverseReport && (
+                    <div className="absolute bottom-full right-0 mb-2 px-2 py-1 border border-foreground bg-background text-xs w-72">
+                      <div className="font-bold">No inverse appended:</div>
+                      {inverseReport.map(message => <div key={message}>{message}</div>)}
+                    </div>
+                  )}
+                  <button
+                    onClick={handleAppendInverse}
+                    className="flex items-center gap-2 px-3 py-1.5 border-2 border-foreground hover:bg-foreground hover:text-background transition-colors text-sm font-bold uppercase"
+                    title="Append the inverse (dagger) of the selected columns after the last gate"
+                  >
+                    <FlipHorizontal2 size={16} />
+                    <span>Inverse</span>
+                  </button>
+                </div>
+              )}
+
+              {/* Optimize Button */}
+              <div className="relative">
+                {optimizeReport && (
+                  <div className="absolute bottom-full right-0 mb-2 px-2 py-1 whitespace-nowrap border border-foreground bg-background text-xs">
+                    {optimizeReport}
+                  </div>
+                )}
+                <button
+                  onClick={handleOptimize}
+                  className={`flex items-center gap-2 ${isMobile ? 'px-2 py-1.5' : 'px-3 py-1.5'} border-2 border-foreground hover:bg-foreground hover:text-background transition-colors text-sm font-bold uppercase`}
+                  title="Cancel and merge adjacent gates"
+                >
+                  <Wand2 size={16} />
+                  {!isMobile && <span>Optimize</span>}
+                </button>
+              </div>
+
               {/* Clear Button - hidden on mobile (available in hamburger menu) */}
               {!isMobile && (
                 <button
@@ -2290,7 +3304,7 @@ const App: React.FC = () => {
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".json,.qbw.json"
+                accept=".json,.qbw.json,.qasm"
                 onChange={handleLoadCircuit}
                 className="hidden"
               />
@@ -2304,6 +3318,7 @@ const App: React.FC = () => {
             onHoverGate={handleGateHover}
             customGates={customGates}
             onAddCustomGate={handleAddCustomGate}
+            onEditMacro={macroEdit ? undefined : handleEditMacro}
           />
         )}
       </div>
@@ -2330,16 +3345,45 @@ const App: React.FC = () => {
         />
       )}
 
-      {/* Angle Input Popup */}
-      {pendingAngle && (
+      {/* Angle / Noise Strength Input Popup */}
+      {pendingAngle && isNoiseGate(pendingAngle.type) && (
+        <NoiseStrengthInput
+          gateType={GATE_DEFS[pendingAngle.type]?.fullName ?? pendingAngle.type}
+          position={pendingAngle.position}
+          onConfirm={handleNoiseStrengthConfirm}
+          onCancel={handleAngleCancel}
+        />
+      )}
+      {pendingAngle && pendingAngle.type === GateType.PAULI_VIS && (
+        <PauliStringInput
+          row={pendingAngle.row}
+          maxLength={grid.length - pendingAngle.row}
+          position={pendingAngle.position}
+          onConfirm={handlePauliStringConfirm}
+          onCancel={handleAngleCancel}
+        />
+      )}
+      {pendingAngle && !isNoiseGate(pendingAngle.type) && pendingAngle.type !== GateType.PAULI_VIS && (
         <AngleInput
           gateType={pendingAngle.type}
           position={pendingAngle.position}
+          parameters={parameters}
           onConfirm={handleAngleConfirm}
           onCancel={handleAngleCancel}
         />
       )}
 
+      {/* Initial State Picker */}
+      {pendingInitialState && (
+        <InitialStatePicker
+          row={pendingInitialState.row}
+          value={initialStates[pendingInitialState.row]}
+          position={pendingInitialState.position}
+          onConfirm={handleInitialStateConfirm}
+          onCancel={handleInitialStateCancel}
+        />
+      )}
+
       {/* Custom Gate Dialog */}
       {showCustomDialog && (
         <CustomGateDialog
@@ -2349,6 +3393,17 @@ const App: React.FC = () => {
         />
       )}
 
+      {/* Macro Gate Dialog */}
+      {showMacroDialog && (
+        <MacroGateDialog
+          circuit={macroSelectionCircuit}
+          selectionError={macroSelectionError ?? (selectionRange ? null : 'Select a range of cells with Shift+click')}
+          onConfirm={handleMacroConfirm}
+          onCancel={() => setShowMacroDialog(false)}
+          customGates={customGates}
+        />
+      )}
+
       {/* Info Modal */}
       {isInfoOpen && (
         <InfoModal onClose={() => setIsInfoOpen(false)} />
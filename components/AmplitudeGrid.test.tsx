@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AmplitudeGrid, getPageProbabilities, MAX_PAGE_QUBITS } from './AmplitudeGrid';
+import { createComplexArray, setComplexValues } from '../utils/quantum';
+
+/** State over `numQubits` with the given probability on each basis index */
+const createState = (numQubits: number, probabilities: Record<number, number>) => {
+  const state = createComplexArray(1 << numQubits);
+  for (const [index, probability] of Object.entries(probabilities)) {
+    setComplexValues(state, Number(index), Math.sqrt(probability), 0);
+  }
+  return state;
+};
+
+describe('AmplitudeGrid', () => {
+  it('should draw every basis state of small registers without paging', () => {
+    const { container } = render(
+      <AmplitudeGrid amplitudes={createState(2, { 0: 1 })} numQubits={2} maxHeight={320} rowHeight={40} />
+    );
+    expect(container.querySelectorAll('svg:not(.lucide)')).toHaveLength(4);
+    expect(screen.queryByTitle('Next page with amplitude')).toBeNull();
+  });
+
+  it('should page large registers, starting on the most likely page', () => {
+    const numQubits = MAX_PAGE_QUBITS + 2;
+    const lastPage = 3 << MAX_PAGE_QUBITS;
+    const { container } = render(
+      <AmplitudeGrid
+        amplitudes={createState(numQubits, { 0: 0.36, [lastPage]: 0.64 })}
+        numQubits={numQubits}
+        maxHeight={320}
+        rowHeight={40}
+      />
+    );
+    expect(container.querySelectorAll('svg:not(.lucide)')).toHaveLength(1 << MAX_PAGE_QUBITS);
+    expect(screen.getByText('page 4/4 · P = 64.0%')).toBeInTheDocument();
+    expect(screen.getByTitle('Next page with amplitude')).toBeDisabled();
+
+    // Empty pages are skipped
+    fireEvent.click(screen.getByTitle('Previous page with amplitude'));
+    expect(screen.getByText('page 1/4 · P = 36.0%')).toBeInTheDocument();
+    expect(screen.getByTitle('Previous page with amplitude')).toBeDisabled();
+  });
+
+  it('should sum probabilities per page', () => {
+    const pages = getPageProbabilities(createState(3, { 1: 0.25, 2: 0.25, 7: 0.5 }), 2);
+    expect(Array.from(pages)).toEqual([0.5, 0.5].map(v => expect.closeTo(v, 10)));
+  });
+});
@@ -1,17 +1,25 @@
-import React from 'react';
-import { Complex } from '../types';
+import React, { useState, useMemo } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Complex, ComplexArray } from '../types';
 import { HoverInfo } from './InfoBox';
 import { abs, arg, absSq } from '../utils/complex';
+import { getComplex } from '../utils/quantum';
+
+/** Largest number of qubits drawn as one grid (2^10 = 1024 cells); larger states are paged */
+export const MAX_PAGE_QUBITS = 10;
+
+/** Pages whose total probability is below this are skipped when paging */
+const EMPTY_PAGE_PROBABILITY = 1e-12;
 
 interface AmplitudeGridProps {
-  amplitudes: Complex[];
+  amplitudes: ComplexArray;
   numQubits: number;
   maxHeight: number;    // Max height in px (e.g., 8 * ROW_HEIGHT = 320)
   rowHeight: number;    // Base row height (e.g., ROW_HEIGHT = 40)
   onHover?: (info: HoverInfo) => void;
 }
 
-interface AmplitudeCellProps {
+export interface AmplitudeCellProps {
   amplitude: Complex;
   size: number;
   basisIndex: number;
@@ -46,9 +54,33 @@ function toBinaryLabel(value: number, numBits: number): string {
   return value.toString(2).padStart(numBits, '0');
 }
 
+/**
+ * Total probability of each page of 2^pageQubits consecutive basis states.
+ * Page p holds the states whose leading (top-row) qubits spell p.
+ */
+export function getPageProbabilities(amplitudes: ComplexArray, pageQubits: number): Float64Array {
+  const numStates = amplitudes.length / 2;
+  const pages = new Float64Array(Math.max(1, numStates >> pageQubits));
+  for (let i = 0; i < numStates; i++) {
+    const re = amplitudes[i * 2];
+    const im = amplitudes[i * 2 + 1];
+    pages[i >> pageQubits] += re * re + im * im;
+  }
+  return pages;
+}
+
+/** Nearest page in `direction` that holds any probability, or -1 if there is none */
+function findOccupiedPage(pageProbabilities: Float64Array, from: number, direction: 1 | -1): number {
+  for (let page = from + direction; page >= 0 && page < pageProbabilities.length; page += direction) {
+    if (pageProbabilities[page] > EMPTY_PAGE_PROBABILITY) return page;
+  }
+  return -1;
+}
+
 // Use abs, arg, absSq from utils/complex
 
-const AmplitudeCell: React.FC<AmplitudeCellProps> = ({
+/** One amplitude: probability fill, magnitude circle and phase line (also used by UnitaryPanel) */
+export const AmplitudeCell: React.FC<AmplitudeCellProps> = ({
   amplitude,
   size,
   basisIndex,
@@ -151,11 +183,31 @@ export const AmplitudeGrid: React.FC<AmplitudeGridProps> = ({
   rowHeight,
   onHover
 }) => {
+  // States above MAX_PAGE_QUBITS are shown one page at a time; the leading
+  // qubits select the page and the trailing ones are laid out as a grid
+  const pageQubits = Math.min(numQubits, MAX_PAGE_QUBITS);
+  const prefixQubits = numQubits - pageQubits;
+  const pageProbabilities = useMemo(
+    () => prefixQubits > 0 ? getPageProbabilities(amplitudes, pageQubits) : null,
+    [amplitudes, pageQubits, prefixQubits]
+  );
+  // Start on the most likely page; kept until the user pages away
+  const [selectedPage, setSelectedPage] = useState<number | null>(null);
+
   if (numQubits === 0 || amplitudes.length === 0) {
     return null;
   }
 
-  const { numRows, numCols, rowQubits, colQubits } = getGridDimensions(numQubits);
+  const numPages = pageProbabilities?.length ?? 1;
+  const mostLikelyPage = pageProbabilities
+    ? pageProbabilities.reduce((best, p, page) => p > pageProbabilities[best] ? page : best, 0)
+    : 0;
+  const page = selectedPage !== null && selectedPage < numPages ? selectedPage : mostLikelyPage;
+  const pageOffset = page << pageQubits;
+  const previousPage = pageProbabilities ? findOccupiedPage(pageProbabilities, page, -1) : -1;
+  const nextPage = pageProbabilities ? findOccupiedPage(pageProbabilities, page, 1) : -1;
+
+  const { numRows, numCols, rowQubits, colQubits } = getGridDimensions(pageQubits);
 
   // Calculate cell size: scale down if grid has more than 8 rows
   const maxRows = Math.floor(maxHeight / rowHeight); // typically 8
@@ -169,6 +221,37 @@ export const AmplitudeGrid: React.FC<AmplitudeGridProps> = ({
 
   return (
     <div className="amplitude-grid relative">
+      {/* Page navigation - shown when the state has more than 2^MAX_PAGE_QUBITS amplitudes */}
+      {pageProbabilities && (
+        <div
+          className="absolute left-0 flex items-center gap-1 font-mono text-xs text-white/80 whitespace-nowrap"
+          style={{ top: -labelHeight - 24, height: 20 }}
+        >
+          <button
+            onClick={() => setSelectedPage(previousPage)}
+            disabled={previousPage === -1}
+            className="p-0.5 hover:bg-foreground/10 disabled:opacity-30"
+            title="Previous page with amplitude"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span title={`Basis states ${toBinaryLabel(page, prefixQubits)}${'x'.repeat(pageQubits)}`}>
+            |{toBinaryLabel(page, prefixQubits)}…⟩
+          </span>
+          <button
+            onClick={() => setSelectedPage(nextPage)}
+            disabled={nextPage === -1}
+            className="p-0.5 hover:bg-foreground/10 disabled:opacity-30"
+            title="Next page with amplitude"
+          >
+            <ChevronRight size={14} />
+          </button>
+          <span className="text-white/60">
+            page {page + 1}/{numPages} · P = {(pageProbabilities[page] * 100).toFixed(1)}%
+          </span>
+        </div>
+      )}
+
       {/* Column labels row - positioned absolutely above grid */}
       <div className="absolute left-0 flex" style={{ top: -labelHeight, height: labelHeight }}>
         {/* Corner spacer */}
@@ -198,12 +281,11 @@ export const AmplitudeGrid: React.FC<AmplitudeGridProps> = ({
 
           {/* Cells */}
           {Array.from({ length: numCols }).map((_, col) => {
-            const basisIndex = gridToBasisIndex(row, col, colQubits);
-            const amplitude = amplitudes[basisIndex] || { re: 0, im: 0 };
+            const basisIndex = pageOffset + gridToBasisIndex(row, col, colQubits);
             return (
               <AmplitudeCell
                 key={`cell-${row}-${col}`}
-                amplitude={amplitude}
+                amplitude={getComplex(amplitudes, basisIndex)}
                 size={cellSize}
                 basisIndex={basisIndex}
                 numQubits={numQubits}
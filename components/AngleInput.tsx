@@ -1,20 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
-import { parseAngleExpression, formatAngle } from '../utils/angleParser';
+import { parseAngleExpression, parseAngleExpressionDetailed, formatAngle } from '../utils/angleParser';
+import { ParseErrorCode } from '../utils/parser';
+import { getParameterScope } from '../utils/circuitParameters';
+import { CircuitParameter } from '../types';
 
 interface AngleInputProps {
   gateType: string;
   onConfirm: (angle: number, expression: string) => void;
   onCancel: () => void;
   position: { x: number; y: number };
+  /** Parameters the expression may refer to by name */
+  parameters?: CircuitParameter[];
 }
 
+const NO_PARAMETERS: CircuitParameter[] = [];
+
 export const AngleInput: React.FC<AngleInputProps> = ({
   gateType,
   onConfirm,
   onCancel,
   position,
+  parameters = NO_PARAMETERS,
 }) => {
   const [value, setValue] = useState('pi/2');
   const [error, setError] = useState<string | null>(null);
@@ -25,13 +33,16 @@ export const AngleInput: React.FC<AngleInputProps> = ({
     inputRef.current?.select();
   }, []);
 
+  const scope = getParameterScope(parameters);
+
   const handleSubmit = () => {
-    const parsed = parseAngleExpression(value);
-    if (parsed === null) {
-      setError('Invalid angle expression');
+    const parsed = parseAngleExpressionDetailed(value, scope);
+    if (!parsed.success) {
+      // Name the unknown parameter; other errors keep the short message
+      setError(parsed.error.code === ParseErrorCode.UNKNOWN_PARAMETER ? parsed.error.message : 'Invalid angle expression');
       return;
     }
-    onConfirm(parsed, value);
+    onConfirm(parsed.value, value);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -42,7 +53,7 @@ export const AngleInput: React.FC<AngleInputProps> = ({
     }
   };
 
-  const previewAngle = parseAngleExpression(value);
+  const previewAngle = parseAngleExpression(value, scope);
 
   return (
     <div
@@ -61,7 +72,7 @@ export const AngleInput: React.FC<AngleInputProps> = ({
             setError(null);
           }}
           onKeyDown={handleKeyDown}
-          placeholder="e.g., pi/4, 0.5"
+          placeholder={parameters.length > 0 ? `e.g., pi/4, 2*${parameters[0].name}` : 'e.g., pi/4, 0.5'}
           className="w-32 bg-background border-border text-foreground text-sm"
         />
         <Button
@@ -83,6 +94,11 @@ export const AngleInput: React.FC<AngleInputProps> = ({
       {error && (
         <div className="text-red-400 text-xs mt-1">{error}</div>
       )}
+      {parameters.length > 0 && (
+        <div className="text-neutral-500 text-xs mt-1">
+          Parameters: {parameters.map(p => p.name).join(', ')}
+        </div>
+      )}
       {previewAngle !== null && !error && (
         <div className="text-neutral-500 text-xs mt-1">
           = {formatAngle(previewAngle)} ({previewAngle.toFixed(4)} rad)
@@ -52,8 +52,12 @@ const formatCoefficient = (re: number, im: number, isFirst: boolean): string =>
 };
 
 export const BlochSphere: React.FC<BlochSphereProps> = ({ x, y, z, size = 48, row, col, onHover }) => {
-  // Calculate polar coordinates for the Bloch vector
-  const theta = Math.acos(Math.max(-1, Math.min(1, z))); // Angle from +Z axis
+  // Mixed states have shorter Bloch vectors (1 = pure, 0 = maximally mixed)
+  const length = Math.min(1, Math.sqrt(x * x + y * y + z * z));
+  const isMixed = length < 0.99;
+
+  // Calculate polar coordinates for the Bloch vector direction
+  const theta = length > 1e-9 ? Math.acos(Math.max(-1, Math.min(1, z / length))) : 0; // Angle from +Z axis
   const phi = Math.atan2(y, x); // Angle in XY plane
 
   // Convert to needle rotation (0° = pointing up/+Z, 180° = pointing down/-Z)
@@ -88,7 +92,8 @@ export const BlochSphere: React.FC<BlochSphereProps> = ({ x, y, z, size = 48, ro
       notation += beta1 + '|1⟩';
     }
 
-    return notation || '|0⟩';
+    notation = notation || '|0⟩';
+    return isMixed ? `${notation} (mixed, |r| = ${length.toFixed(2)})` : notation;
   };
 
   const diracNotation = buildDiracNotation();
@@ -108,9 +113,12 @@ export const BlochSphere: React.FC<BlochSphereProps> = ({ x, y, z, size = 48, ro
 
   // Calculate radius for the arrow (from center to edge)
   const radius = size * 0.42;
+  // Arrow shrinks with the Bloch vector; the head is hidden once it would overlap the center
+  const arrowLength = radius * length;
   // Arrow dimensions
   const arrowHeadSize = 4;
   const vectorWidth = 1;
+  const lineLength = arrowLength > arrowHeadSize ? arrowLength - arrowHeadSize / 2 : arrowLength;
 
   return (
     <div
@@ -185,15 +193,17 @@ export const BlochSphere: React.FC<BlochSphereProps> = ({ x, y, z, size = 48, ro
             x1={0}
             y1={0}
             x2={0}
-            y2={-radius + arrowHeadSize/2}
+            y2={-lineLength}
             stroke={isExcited ? '#ef4444' : 'rgba(255,255,255,0.7)'}
             strokeWidth={vectorWidth}
           />
           {/* Arrow head */}
-          <polygon
-            points={`0,${-radius} ${arrowHeadSize/2},${-radius + arrowHeadSize} ${-arrowHeadSize/2},${-radius + arrowHeadSize}`}
-            fill={isExcited ? '#ef4444' : 'rgba(255,255,255,0.7)'}
-          />
+          {arrowLength > arrowHeadSize && (
+            <polygon
+              points={`0,${-arrowLength} ${arrowHeadSize/2},${-arrowLength + arrowHeadSize} ${-arrowHeadSize/2},${-arrowLength + arrowHeadSize}`}
+              fill={isExcited ? '#ef4444' : 'rgba(255,255,255,0.7)'}
+            />
+          )}
         </g>
       </svg>
 
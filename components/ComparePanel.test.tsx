@@ -0,0 +1,38 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ComparePanel } from './ComparePanel';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const renderPanel = (grid: CircuitGrid) =>
+  render(<ComparePanel isOpen onClose={vi.fn()} grid={grid} documents={[]} activeId="doc-1" timeParameter={0} />);
+
+describe('ComparePanel', () => {
+  it('should confirm a template rewrite', () => {
+    const grid = createGrid(2, 1);
+    grid[0][0].gate = GateType.SWAP;
+    grid[1][0].gate = GateType.SWAP;
+    renderPanel(grid);
+
+    fireEvent.change(screen.getByLabelText('Circuit B'), { target: { value: 'template:swap-decomposition' } });
+
+    expect(screen.getByText('Equivalent')).toBeTruthy();
+  });
+
+  it('should show the first difference between two column ranges', () => {
+    const grid = createGrid(1, 2);
+    grid[0][0].gate = GateType.S;
+    grid[0][1].gate = GateType.T;
+    renderPanel(grid);
+
+    fireEvent.change(screen.getByLabelText('Last column of A'), { target: { value: '1' } });
+    fireEvent.change(screen.getByLabelText('First column of B'), { target: { value: '2' } });
+
+    expect(screen.getByText('Not equivalent')).toBeTruthy();
+    expect(screen.getByText('|1⟩')).toBeTruthy();
+  });
+});
@@ -0,0 +1,229 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Check } from 'lucide-react';
+import { CircuitGrid } from '../types';
+import { WorkspaceDocument } from '../hooks/useWorkspace';
+import { ALGORITHM_TEMPLATES } from '../data/algorithms';
+import { checkCircuitEquivalence } from '../utils/quantum';
+import { formatComplex } from '../utils/complexParser';
+import { formatAngle } from '../utils/angleParser';
+
+const PANEL_WIDTH = 460;
+const CURRENT_SOURCE = 'current';
+
+/** Where a side of the comparison comes from, and which of its columns (1-indexed, blank = all) */
+interface SectionChoice {
+  source: string;
+  start: string;
+  end: string;
+}
+
+interface ComparePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The circuit being edited */
+  grid: CircuitGrid;
+  documents: WorkspaceDocument[];
+  activeId: string;
+  timeParameter: number;
+}
+
+interface SectionPickerProps {
+  label: string;
+  choice: SectionChoice;
+  onChange: (choice: SectionChoice) => void;
+  documents: WorkspaceDocument[];
+}
+
+const toBinaryLabel = (value: number, numBits: number): string =>
+  numBits === 0 ? '' : value.toString(2).padStart(numBits, '0');
+
+/** 0-indexed column from a 1-indexed input; blank or invalid means "unbounded" */
+const parseColumn = (text: string): number | undefined => {
+  const value = Math.floor(Number(text));
+  return text.trim() !== '' && value >= 1 ? value - 1 : undefined;
+};
+
+const SectionPicker: React.FC<SectionPickerProps> = ({ label, choice, onChange, documents }) => {
+  const inputClass = "w-14 px-1 bg-background border border-foreground text-base font-bold";
+  return (
+    <div className="px-3 py-2 border-b border-border flex items-center gap-2 text-sm">
+      <span className="font-bold w-4">{label}</span>
+      <select
+        value={choice.source}
+        onChange={(e) => onChange({ ...choice, source: e.target.value })}
+        className="flex-1 min-w-0 px-1 py-0.5 bg-background border border-foreground"
+        aria-label={`Circuit ${label}`}
+      >
+        <option value={CURRENT_SOURCE}>This circuit</option>
+        {documents.length > 0 && (
+          <optgroup label="Workspace">
+            {documents.map(doc => (
+              <option key={doc.id} value={`doc:${doc.id}`}>{doc.file.metadata.name}</option>
+            ))}
+          </optgroup>
+        )}
+        <optgroup label="Templates">
+          {ALGORITHM_TEMPLATES.map(template => (
+            <option key={template.id} value={`template:${template.id}`}>{template.name}</option>
+          ))}
+        </optgroup>
+      </select>
+      <span className="text-muted-foreground">cols</span>
+      <input
+        type="number"
+        min={1}
+        value={choice.start}
+        placeholder="1"
+        onChange={(e) => onChange({ ...choice, start: e.target.value })}
+        className={inputClass}
+        aria-label={`First column of ${label}`}
+      />
+      <span className="text-muted-foreground">–</span>
+      <input
+        type="number"
+        min={1}
+        value={choice.end}
+        placeholder="end"
+        onChange={(e) => onChange({ ...choice, end: e.target.value })}
+        className={inputClass}
+        aria-label={`Last column of ${label}`}
+      />
+    </div>
+  );
+};
+
+export const ComparePanel: React.FC<ComparePanelProps> = ({
+  isOpen,
+  onClose,
+  grid,
+  documents,
+  activeId,
+  timeParameter,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [choiceA, setChoiceA] = useState<SectionChoice>({ source: CURRENT_SOURCE, start: '', end: '' });
+  const [choiceB, setChoiceB] = useState<SectionChoice>({ source: CURRENT_SOURCE, start: '', end: '' });
+  // The active document's saved grid may lag behind the editor, so it is offered as "This circuit"
+  const otherDocuments = useMemo(() => documents.filter(doc => doc.id !== activeId), [documents, activeId]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#compare-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const comparison = useMemo(() => {
+    if (!isOpen) return null;
+    const gridFor = (source: string): CircuitGrid => {
+      if (source.startsWith('doc:')) {
+        const doc = otherDocuments.find(d => `doc:${d.id}` === source);
+        if (doc) return doc.file.circuit.grid;
+      } else if (source.startsWith('template:')) {
+        const template = ALGORITHM_TEMPLATES.find(t => `template:${t.id}` === source);
+        if (template) return template.grid;
+      }
+      return grid;
+    };
+    const section = (choice: SectionChoice) => ({
+      grid: gridFor(choice.source),
+      startColumn: parseColumn(choice.start),
+      endColumn: parseColumn(choice.end),
+    });
+    try {
+      return { result: checkCircuitEquivalence(section(choiceA), section(choiceB), timeParameter), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Could not compare the circuits' };
+    }
+  }, [isOpen, grid, otherDocuments, choiceA, choiceB, timeParameter]);
+
+  if (!isOpen || !comparison) return null;
+
+  const { result, error } = comparison;
+  const numQubits = result?.rows.length ?? 0;
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxHeight: '70vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Compare</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close compare panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      <SectionPicker label="A" choice={choiceA} onChange={setChoiceA} documents={otherDocuments} />
+      <SectionPicker label="B" choice={choiceB} onChange={setChoiceB} documents={otherDocuments} />
+
+      {/* Verdict */}
+      <div className="px-3 py-3 text-sm">
+        {error || !result ? (
+          <div className="text-red-400">{error}</div>
+        ) : result.equivalent ? (
+          <div className="flex items-center gap-2">
+            <Check size={16} className="text-green-400" />
+            <span>
+              <span className="font-bold">Equivalent</span>
+              {Math.abs(result.globalPhase) > 1e-9 && (
+                <span className="text-muted-foreground"> up to global phase e^(i·{formatAngle(result.globalPhase)})</span>
+              )}
+            </span>
+          </div>
+        ) : result.difference && (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <X size={16} className="text-red-400" />
+              <span className="font-bold">Not equivalent</span>
+            </div>
+            <div>
+              First differing input{' '}
+              <span className="font-mono font-bold">|{toBinaryLabel(result.difference.input, numQubits)}⟩</span>
+              , output amplitude{' '}
+              <span className="font-mono font-bold">⟨{toBinaryLabel(result.difference.output, numQubits)}|</span>
+            </div>
+            <div className="font-mono text-xs grid grid-cols-[auto_1fr] gap-x-3">
+              <span className="text-muted-foreground">A</span>
+              <span>{formatComplex(result.difference.amplitudeA)}</span>
+              <span className="text-muted-foreground">B</span>
+              <span>{formatComplex(result.difference.amplitudeB)}</span>
+              <span className="text-muted-foreground">A − B</span>
+              <span>{formatComplex(result.difference.delta)}</span>
+            </div>
+          </div>
+        )}
+        {result && (
+          <div className="pt-2 text-xs text-muted-foreground">
+            {numQubits === 0
+              ? 'Neither side has gates in its columns.'
+              : `Compared as ${1 << numQubits}×${1 << numQubits} unitaries on q${result.rows.join(' q')}`}
+            {result.difference && Math.abs(result.globalPhase) > 1e-9 && ', after removing the global phase'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
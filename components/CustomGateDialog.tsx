@@ -2,52 +2,30 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Input } from './ui/input';
 import { Button } from './ui/button';
 import { Complex } from '../types';
-import { parseComplexExpression } from '../utils/complexParser';
-import { add, mul, conj, ZERO } from '../utils/complex';
+import { MAX_CUSTOM_GATE_QUBITS } from '../constants';
+import { parseComplex } from '../utils/parser';
+import { isUnitaryMatrix, parseMatrixEntries, parseMatrixText } from '../utils/customGates';
 
 interface CustomGateDialogProps {
+  /** Called with a 2x2 matrix for a single-qubit gate, up to 16x16 for a spanning one */
   onConfirm: (matrix: Complex[][], label: string) => void;
   onCancel: () => void;
   existingNames: string[];
 }
 
-const isUnitary = (matrix: Complex[][]): boolean => {
-  // Compute U * U^dagger
-  const result: Complex[][] = [
-    [ZERO, ZERO],
-    [ZERO, ZERO],
-  ];
-
-  for (let i = 0; i < 2; i++) {
-    for (let j = 0; j < 2; j++) {
-      for (let k = 0; k < 2; k++) {
-        result[i][j] = add(result[i][j], mul(matrix[i][k], conj(matrix[j][k])));
-      }
-    }
-  }
-
-  // Check if result is approximately identity
-  const eps = 0.01;
-  const isClose = (a: number, b: number) => Math.abs(a - b) < eps;
-
-  return (
-    isClose(result[0][0].re, 1) && isClose(result[0][0].im, 0) &&
-    isClose(result[0][1].re, 0) && isClose(result[0][1].im, 0) &&
-    isClose(result[1][0].re, 0) && isClose(result[1][0].im, 0) &&
-    isClose(result[1][1].re, 1) && isClose(result[1][1].im, 0)
-  );
-};
+/** Identity of the given size, as entry text */
+const identityEntries = (size: number): string[][] =>
+  Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => (r === c ? '1' : '0')));
 
 export const CustomGateDialog: React.FC<CustomGateDialogProps> = ({
   onConfirm,
   onCancel,
   existingNames,
 }) => {
-  const [m00, setM00] = useState('1');
-  const [m01, setM01] = useState('0');
-  const [m10, setM10] = useState('0');
-  const [m11, setM11] = useState('1');
+  const [entries, setEntries] = useState<string[][]>(() => identityEntries(2));
   const [label, setLabel] = useState('');
+  const [pasteText, setPasteText] = useState('');
+  const [pasteError, setPasteError] = useState<string | null>(null);
 
   const labelInputRef = useRef<HTMLInputElement>(null);
 
@@ -55,22 +33,19 @@ export const CustomGateDialog: React.FC<CustomGateDialogProps> = ({
     labelInputRef.current?.focus();
   }, []);
 
-  // Parse all matrix entries
-  const c00 = parseComplexExpression(m00);
-  const c01 = parseComplexExpression(m01);
-  const c10 = parseComplexExpression(m10);
-  const c11 = parseComplexExpression(m11);
+  const qubits = Math.log2(entries.length);
 
-  const allValid = c00 !== null && c01 !== null && c10 !== null && c11 !== null;
-  const matrix: Complex[][] | null = allValid ? [[c00!, c01!], [c10!, c11!]] : null;
-  const isUnitaryMatrix = matrix ? isUnitary(matrix) : false;
+  // Parse all matrix entries
+  const parsed = parseMatrixEntries(entries);
+  const matrix = parsed.success ? parsed.value : null;
+  const isUnitary = matrix ? isUnitaryMatrix(matrix) : false;
 
   // Check name validity
   const trimmedLabel = label.trim().toUpperCase();
   const nameValid = trimmedLabel.length > 0 && trimmedLabel.length <= 2;
   const nameExists = existingNames.includes(trimmedLabel);
 
-  const canSubmit = allValid && isUnitaryMatrix && nameValid && !nameExists;
+  const canSubmit = matrix !== null && isUnitary && nameValid && !nameExists;
 
   const handleSubmit = () => {
     if (!canSubmit || !matrix) return;
@@ -78,13 +53,28 @@ export const CustomGateDialog: React.FC<CustomGateDialogProps> = ({
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && canSubmit) {
+    // Enter inside the paste box is a newline
+    if (e.key === 'Enter' && canSubmit && !(e.target instanceof HTMLTextAreaElement)) {
       handleSubmit();
     } else if (e.key === 'Escape') {
       onCancel();
     }
   };
 
+  const setEntry = (row: number, col: number, value: string) => {
+    setEntries(prev => prev.map((r, i) => (i === row ? r.map((v, j) => (j === col ? value : v)) : r)));
+  };
+
+  const handleFillFromText = () => {
+    const result = parseMatrixText(pasteText);
+    if (!result.success) {
+      setPasteError(result.error.message);
+      return;
+    }
+    setEntries(result.value);
+    setPasteError(null);
+  };
+
   const getNameError = (): string | null => {
     if (label.trim() === '') return null;
     if (trimmedLabel.length > 2) return 'Max 2 characters';
@@ -93,11 +83,12 @@ export const CustomGateDialog: React.FC<CustomGateDialogProps> = ({
   };
 
   const nameError = getNameError();
+  const cellWidth = entries.length <= 2 ? 'w-24' : entries.length <= 4 ? 'w-20' : 'w-14';
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
       <div
-        className="bg-neutral-900 border border-neutral-700 rounded-lg p-5 shadow-xl max-w-md"
+        className="bg-neutral-900 border border-neutral-700 rounded-lg p-5 shadow-xl max-w-[95vw] max-h-[90vh] overflow-auto"
         onKeyDown={handleKeyDown}
       >
         <div className="text-sm text-neutral-300 mb-4 font-bold">
@@ -120,52 +111,79 @@ export const CustomGateDialog: React.FC<CustomGateDialogProps> = ({
           )}
         </div>
 
-        {/* 2x2 Matrix input */}
+        {/* Qubit count; changing it resets the matrix to the identity */}
+        <div className="flex items-center gap-3 mb-4">
+          <span className="text-xs text-neutral-400 w-16">Qubits:</span>
+          <select
+            value={qubits}
+            onChange={(e) => setEntries(identityEntries(2 ** Number(e.target.value)))}
+            className="h-8 bg-black border border-neutral-600 rounded-md text-white text-sm px-2"
+            aria-label="Qubits"
+          >
+            {Array.from({ length: MAX_CUSTOM_GATE_QUBITS }, (_, k) => k + 1).map(n => (
+              <option key={n} value={n}>{n} ({2 ** n}x{2 ** n})</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Matrix input */}
         <div className="text-xs text-neutral-500 mb-2">
           Matrix (supports: 1+2i, 1/sqrt(2), pi/4, -i, etc.)
+          {qubits > 1 && ' · top wire is the most significant bit'}
         </div>
         <div className="flex flex-col gap-2 mb-4">
-          <div className="flex items-center gap-2">
-            <span className="text-neutral-600 text-2xl font-light">[</span>
-            <Input
-              value={m00}
-              onChange={(e) => setM00(e.target.value)}
-              placeholder="1"
-              className={`w-24 bg-black border-neutral-600 text-white text-sm px-2 text-center ${c00 === null && m00 ? 'border-red-500' : ''}`}
-            />
-            <Input
-              value={m01}
-              onChange={(e) => setM01(e.target.value)}
-              placeholder="0"
-              className={`w-24 bg-black border-neutral-600 text-white text-sm px-2 text-center ${c01 === null && m01 ? 'border-red-500' : ''}`}
-            />
-            <span className="text-neutral-600 text-2xl font-light">]</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <span className="text-neutral-600 text-2xl font-light">[</span>
-            <Input
-              value={m10}
-              onChange={(e) => setM10(e.target.value)}
-              placeholder="0"
-              className={`w-24 bg-black border-neutral-600 text-white text-sm px-2 text-center ${c10 === null && m10 ? 'border-red-500' : ''}`}
-            />
-            <Input
-              value={m11}
-              onChange={(e) => setM11(e.target.value)}
-              placeholder="1"
-              className={`w-24 bg-black border-neutral-600 text-white text-sm px-2 text-center ${c11 === null && m11 ? 'border-red-500' : ''}`}
-            />
-            <span className="text-neutral-600 text-2xl font-light">]</span>
-          </div>
+          {entries.map((row, r) => (
+            <div key={r} className="flex items-center gap-2">
+              <span className="text-neutral-600 text-2xl font-light">[</span>
+              {row.map((value, c) => (
+                <Input
+                  key={c}
+                  value={value}
+                  onChange={(e) => setEntry(r, c, e.target.value)}
+                  aria-label={`Row ${r + 1}, column ${c + 1}`}
+                  className={`${cellWidth} bg-black border-neutral-600 text-white text-sm px-2 text-center ${!parseComplex(value).success ? 'border-red-500' : ''}`}
+                />
+              ))}
+              <span className="text-neutral-600 text-2xl font-light">]</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Paste from CSV or NumPy */}
+        <div className="text-xs text-neutral-500 mb-2">
+          Or paste CSV rows or NumPy output, e.g. array([[1.+0.j, 0.+0.j], [0.+0.j, 1.+0.j]])
+        </div>
+        <div className="flex items-start gap-2 mb-4">
+          <textarea
+            value={pasteText}
+            onChange={(e) => setPasteText(e.target.value)}
+            rows={3}
+            aria-label="Matrix text"
+            className="flex-1 min-w-0 bg-black border border-neutral-600 rounded-md text-white text-xs font-mono px-2 py-1"
+          />
+          <Button
+            onClick={handleFillFromText}
+            size="sm"
+            variant="outline"
+            disabled={pasteText.trim() === ''}
+            className="border-neutral-600 text-neutral-400 hover:text-white"
+          >
+            Fill
+          </Button>
         </div>
+        {pasteError && (
+          <div className="text-red-400 text-xs mb-3">
+            {pasteError}
+          </div>
+        )}
 
         {/* Status messages */}
-        {!allValid && (m00 || m01 || m10 || m11) && (
+        {!parsed.success && (
           <div className="text-red-400 text-xs mb-3">
-            Invalid expression in matrix
+            Invalid expression in matrix ({parsed.error.message})
           </div>
         )}
-        {allValid && !isUnitaryMatrix && (
+        {matrix && !isUnitary && (
           <div className="text-yellow-500 text-xs mb-3">
             Matrix is not unitary (required for quantum gates)
           </div>
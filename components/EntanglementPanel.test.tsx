@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EntanglementPanel } from './EntanglementPanel';
+import { densityMatrixFromState } from '../utils/densityMatrix';
+
+const SQRT1_2 = Math.SQRT1_2;
+
+/** (|000⟩ + |110⟩)/√2 on rows 0, 2, 3: a Bell pair on rows 0 and 2, row 3 left in |0⟩ */
+const bellPlusZero = (): Float64Array => {
+  const state = new Float64Array(16);
+  state[0] = SQRT1_2;
+  state[6 * 2] = SQRT1_2;
+  return state;
+};
+
+describe('EntanglementPanel', () => {
+  it('should show purity, entropy and Schmidt coefficients of the chosen wires', () => {
+    const { container } = render(
+      <EntanglementPanel isOpen onClose={vi.fn()} state={bellPlusZero()} populatedRows={[0, 2, 3]} stateLabel="Final state" />
+    );
+
+    // A defaults to the first wire: half of the Bell pair
+    expect(screen.getByText('Final state · A = q0 · B = q2 q3')).toBeTruthy();
+    expect(screen.getByText('0.5000')).toBeTruthy();
+    expect(screen.getByText('1.0000 bits')).toBeTruthy();
+    expect(screen.getByText('0.7071, 0.7071')).toBeTruthy();
+    expect(screen.getByText('A and B are entangled.')).toBeTruthy();
+    expect(container.querySelectorAll('.unitary-matrix svg')).toHaveLength(4);
+
+    // Moving the whole pair into A leaves it unentangled with q3
+    fireEvent.click(screen.getByText('q2'));
+    expect(screen.getByText('Final state · A = q0 q2 · B = q3')).toBeTruthy();
+    expect(screen.getByText('0.0000 bits')).toBeTruthy();
+    expect(screen.getByText('A and B are not entangled.')).toBeTruthy();
+    expect(screen.getByTitle('⟨11|ρ_A|00⟩ = 0.5')).toBeTruthy();
+  });
+
+  it('should keep at least one wire in A', () => {
+    render(
+      <EntanglementPanel isOpen onClose={vi.fn()} state={bellPlusZero()} populatedRows={[0, 2, 3]} stateLabel="Final state" />
+    );
+    fireEvent.click(screen.getByText('q0'));
+    expect(screen.getByText('q0').getAttribute('aria-pressed')).toBe('true');
+  });
+
+  it('should explain that a mixed state has no Schmidt decomposition', () => {
+    render(
+      <EntanglementPanel
+        isOpen
+        onClose={vi.fn()}
+        state={densityMatrixFromState(bellPlusZero())}
+        populatedRows={[0, 2, 3]}
+        stateLabel="After column 2"
+      />
+    );
+    expect(screen.getByText('1.0000 bits')).toBeTruthy();
+    expect(screen.queryByText('Schmidt rank')).toBeNull();
+    expect(screen.getByText(/no Schmidt decomposition/)).toBeTruthy();
+  });
+});
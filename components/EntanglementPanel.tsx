@@ -0,0 +1,224 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { ComplexArray } from '../types';
+import { DensityMatrix, analyzeBipartition, MAX_REDUCED_QUBITS } from '../utils/densityMatrix';
+import { formatComplex } from '../utils/complexParser';
+import { AmplitudeCell } from './AmplitudeGrid';
+
+const PANEL_WIDTH = 460;
+/** Width available to the matrix cells */
+const MATRIX_WIDTH = 400;
+const MAX_CELL_SIZE = 40;
+/** Matrices up to this many rows get basis-state labels */
+const MAX_LABELED_DIM = 16;
+
+interface EntanglementPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** State being displayed (final state, or the selected step); null before a run */
+  state: ComplexArray | DensityMatrix | null;
+  /** Circuit row of each qubit of `state` */
+  populatedRows: number[];
+  /** Which state is shown, e.g. "Final state" */
+  stateLabel: string;
+}
+
+const toBinaryLabel = (value: number, numBits: number): string =>
+  numBits === 0 ? '' : value.toString(2).padStart(numBits, '0');
+
+const formatNumber = (value: number): string => {
+  const rounded = value.toFixed(4);
+  return rounded === '-0.0000' ? '0.0000' : rounded;
+};
+
+export const EntanglementPanel: React.FC<EntanglementPanelProps> = ({
+  isOpen,
+  onClose,
+  state,
+  populatedRows,
+  stateLabel,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  // Circuit rows on side A; the remaining populated rows are side B
+  const [chosenRows, setChosenRows] = useState<number[]>([]);
+  const subsystemRows = useMemo(() => {
+    const chosen = populatedRows.filter(row => chosenRows.includes(row));
+    return chosen.length > 0 ? chosen : populatedRows.slice(0, 1);
+  }, [populatedRows, chosenRows]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#entanglement-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const analyzed = useMemo(() => {
+    if (!isOpen || !state || subsystemRows.length === 0) return null;
+    try {
+      const qubits = subsystemRows.map(row => populatedRows.indexOf(row));
+      return { analysis: analyzeBipartition(state, qubits), error: null };
+    } catch (error) {
+      return { analysis: null, error: error instanceof Error ? error.message : 'Could not analyze the state' };
+    }
+  }, [isOpen, state, populatedRows, subsystemRows]);
+
+  if (!isOpen) return null;
+
+  const toggleRow = (row: number) => {
+    // A always keeps at least one wire
+    if (subsystemRows.length === 1 && subsystemRows[0] === row) return;
+    setChosenRows(subsystemRows.includes(row)
+      ? subsystemRows.filter(r => r !== row)
+      : [...subsystemRows, row]);
+  };
+
+  const otherRows = populatedRows.filter(row => !subsystemRows.includes(row));
+  const analysis = analyzed?.analysis ?? null;
+  const numQubits = analysis?.reduced.numQubits ?? 0;
+  const dim = 1 << numQubits;
+  const labeled = dim <= MAX_LABELED_DIM;
+  const cellSize = Math.max(4, Math.min(MAX_CELL_SIZE, Math.floor(MATRIX_WIDTH / dim)));
+  const labelWidth = labeled ? Math.max(16, numQubits * 8) : 0;
+  const labelA = `q${subsystemRows.join(' q')}`;
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxHeight: '80vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Entanglement</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close entanglement panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {!state || populatedRows.length === 0 ? (
+        <div className="px-3 py-4 text-sm text-muted-foreground">Run the circuit to analyze its state.</div>
+      ) : (
+        <>
+          {/* Bipartition */}
+          <div className="px-3 py-2 border-b border-border text-sm">
+            <div className="pb-1 text-muted-foreground">
+              Wires in A (the rest are B), up to {MAX_REDUCED_QUBITS}
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {populatedRows.map(row => (
+                <button
+                  key={row}
+                  onClick={() => toggleRow(row)}
+                  className={`w-11 py-1 font-mono text-sm border transition-colors ${
+                    subsystemRows.includes(row)
+                      ? 'border-accent bg-accent text-background'
+                      : 'border-border text-foreground hover:bg-foreground/10'
+                  }`}
+                  aria-pressed={subsystemRows.includes(row)}
+                >
+                  q{row}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {analyzed?.error || !analysis ? (
+            <div className="px-3 py-4 text-sm text-red-400">{analyzed?.error}</div>
+          ) : (
+            <div className="px-3 py-2 text-sm">
+              <div className="pb-2 text-xs text-muted-foreground">
+                {stateLabel} · A = {labelA} · B = {otherRows.length > 0 ? `q${otherRows.join(' q')}` : 'none'}
+              </div>
+
+              {/* Measures */}
+              <div className="font-mono grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 pb-2">
+                <span className="text-muted-foreground">Purity Tr(ρ_A²)</span>
+                <span>{formatNumber(analysis.purity)}</span>
+                <span className="text-muted-foreground">Entropy S(ρ_A)</span>
+                <span>{formatNumber(analysis.entropy)} bits</span>
+                {analysis.schmidtCoefficients && (
+                  <>
+                    <span className="text-muted-foreground">Schmidt rank</span>
+                    <span>{analysis.schmidtCoefficients.length}</span>
+                    <span className="text-muted-foreground">Schmidt coefficients</span>
+                    <span className="break-words">{analysis.schmidtCoefficients.map(formatNumber).join(', ')}</span>
+                  </>
+                )}
+              </div>
+              <div className="pb-2 text-xs text-muted-foreground">
+                {analysis.schmidtCoefficients
+                  ? analysis.schmidtCoefficients.length === 1
+                    ? 'A and B are not entangled.'
+                    : 'A and B are entangled.'
+                  : 'The state is mixed (noise), so entropy also counts classical mixing and there is no Schmidt decomposition.'}
+              </div>
+
+              {/* Reduced density matrix */}
+              <div className="pb-1 text-xs text-muted-foreground">ρ_A ({dim}×{dim} on {labelA})</div>
+              <div className="unitary-matrix">
+                {labeled && (
+                  <div className="flex" style={{ paddingLeft: labelWidth }}>
+                    {Array.from({ length: dim }, (_, col) => (
+                      <div
+                        key={`col-${col}`}
+                        className="text-muted-foreground font-mono text-center"
+                        style={{ width: cellSize, fontSize: Math.max(8, cellSize * 0.25) }}
+                      >
+                        {toBinaryLabel(col, numQubits)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {Array.from({ length: dim }, (_, row) => (
+                  <div key={`row-${row}`} className="flex items-center">
+                    {labeled && (
+                      <div
+                        className="text-muted-foreground font-mono text-right pr-1"
+                        style={{ width: labelWidth, fontSize: Math.max(8, cellSize * 0.25) }}
+                      >
+                        {toBinaryLabel(row, numQubits)}
+                      </div>
+                    )}
+                    {Array.from({ length: dim }, (_, col) => {
+                      const idx = (row * dim + col) * 2;
+                      const entry = { re: analysis.reduced.data[idx], im: analysis.reduced.data[idx + 1] };
+                      return (
+                        <div
+                          key={`cell-${row}-${col}`}
+                          title={`⟨${toBinaryLabel(row, numQubits)}|ρ_A|${toBinaryLabel(col, numQubits)}⟩ = ${formatComplex(entry)}`}
+                        >
+                          <AmplitudeCell amplitude={entry} size={cellSize} basisIndex={row} numQubits={numQubits} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -11,8 +11,10 @@ import {
   isExponentialGate,
   isQFTGate,
   isInputParameterizedGate,
+  isNoiseGate,
 } from '../types';
 import { formatAngle } from '../utils/angleParser';
+import { GATE_DEFS, DEFAULT_NOISE_STRENGTH } from '../constants';
 
 interface GateProps {
   type: GateType;
@@ -82,6 +84,14 @@ export const Gate: React.FC<GateProps> = ({ type, onHover, params, cellId, isGat
       // Y-basis anti-control (conditions on |-i⟩)
       content = <span className="text-sm font-bold">YA</span>;
       specificStyles = "bg-background border-2 border-green-400 text-green-400";
+  } else if (type === GateType.CLASSICAL_CONTROL) {
+      // Double-ringed filled circle: conditions on a measured bit being 1
+      content = <div className="w-4 h-4 rounded-full bg-sky-400 ring-2 ring-sky-400 ring-offset-2 ring-offset-background"></div>;
+      specificStyles = "bg-background border-2 border-sky-400 rounded-none";
+  } else if (type === GateType.CLASSICAL_ANTI_CONTROL) {
+      // Double-ringed empty circle: conditions on a measured bit being 0
+      content = <div className="w-4 h-4 rounded-full border-2 border-sky-400 bg-background ring-2 ring-sky-400 ring-offset-2 ring-offset-background"></div>;
+      specificStyles = "bg-background border-2 border-sky-400 rounded-none";
   } else if (type === GateType.CX) {
       // CNOT target - circle with plus
       content = (
@@ -120,6 +130,9 @@ export const Gate: React.FC<GateProps> = ({ type, onHover, params, cellId, isGat
         </div>
       );
       specificStyles = "bg-background border-2 border-foreground text-foreground";
+  } else if (type === GateType.RESET) {
+      content = <span className="text-sm font-bold">|0⟩</span>;
+      specificStyles = "bg-background border-2 border-dashed border-foreground text-foreground";
   } else if (type === GateType.RX || type === GateType.RY || type === GateType.RZ) {
       // Rotation gates - show Rx, Ry, Rz with angle
       const axis = type.slice(1); // X, Y, or Z
@@ -175,11 +188,16 @@ export const Gate: React.FC<GateProps> = ({ type, onHover, params, cellId, isGat
       // Inverse square root of Y
       content = <span className="text-sm font-bold">√Y†</span>;
       specificStyles = "bg-background border-2 border-foreground text-foreground";
-  } else if (type === GateType.CUSTOM) {
+  } else if (type === GateType.CUSTOM || type === GateType.CUSTOM_MULTI) {
       // Custom gate - show label or 'U'
       const label = params?.customLabel || 'U';
       content = <span className="text-sm font-bold">{label}</span>;
       specificStyles = "bg-background border-2 border-purple-400 text-purple-400";
+  } else if (type === GateType.MACRO) {
+      // Macro gate - show the name of its definition
+      const label = params?.customLabel || 'M';
+      content = <span className="text-sm font-bold">{label}</span>;
+      specificStyles = "bg-background border-2 border-indigo-400 text-indigo-400";
   } else if (type === GateType.REVERSE) {
       // Reverse gate - bit-reversal permutation
       content = <span className="text-sm font-bold">Rv</span>;
@@ -454,7 +472,7 @@ export const Gate: React.FC<GateProps> = ({ type, onHover, params, cellId, isGat
       }
   }
   // ============================================================================
-  // VISUALIZATION GATES - Emerald (Bloch sphere, percentage)
+  // VISUALIZATION GATES - Emerald (Bloch sphere, percentage, Pauli expectation)
   // ============================================================================
   else if (type === GateType.BLOCH_VIS) {
       // Mini Bloch sphere icon
@@ -479,6 +497,23 @@ export const Gate: React.FC<GateProps> = ({ type, onHover, params, cellId, isGat
       content = <span className="text-base font-bold">%</span>;
       specificStyles = "bg-background border-2 border-emerald-500 text-emerald-400";
   }
+  else if (type === GateType.PAULI_VIS) {
+      content = <span className="text-sm font-bold">⟨P⟩</span>;
+      specificStyles = "bg-background border-2 border-emerald-500 text-emerald-400";
+  }
+  // ============================================================================
+  // NOISE GATES - Amber dashed (Kraus channels with strength p)
+  // ============================================================================
+  else if (isNoiseGate(type)) {
+      const strength = params?.noiseStrength ?? DEFAULT_NOISE_STRENGTH;
+      content = (
+        <div className="flex flex-col items-center leading-none">
+          <span className="text-sm">{GATE_DEFS[type]?.label}</span>
+          <span className="text-xs text-amber-200 -mt-0.5">{Math.round(strength * 100)}%</span>
+        </div>
+      );
+      specificStyles = "bg-background border-2 border-dashed border-amber-400 text-amber-400";
+  }
 
   return (
     <div
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { GateType, CustomGateDefinition, GateParams } from '../types';
+import { Pencil } from 'lucide-react';
+import { GateType, CustomGateDefinition, GateParams, getFixedSpanSize } from '../types';
 import { GATE_DEFS } from '../constants';
 import { Gate } from './Gate';
+import { getCustomGateType } from '../utils/customGates';
 import { Input } from './ui/input';
 
 // Fixed height for the Gate Library bottom pane (in pixels)
@@ -12,6 +14,8 @@ interface GateLibraryProps {
   onHoverGate: (type: GateType | null, params?: GateParams) => void;
   customGates: CustomGateDefinition[];
   onAddCustomGate: () => void;
+  /** Open a macro's definition for editing; no edit buttons without it */
+  onEditMacro?: (label: string) => void;
   /** Mobile: tap-to-select instead of drag */
   onSelectGate?: (type: GateType, params?: GateParams) => void;
   /** Mobile mode flag */
@@ -19,9 +23,9 @@ interface GateLibraryProps {
 }
 
 // Sub-library categories
-type SubLibrary = 'Standard' | 'Parameterized' | 'Arithmetic' | 'Custom';
+type SubLibrary = 'Standard' | 'Parameterized' | 'Arithmetic' | 'Noise' | 'Custom';
 
-const SUB_LIBRARIES: SubLibrary[] = ['Standard', 'Parameterized', 'Arithmetic', 'Custom'];
+const SUB_LIBRARIES: SubLibrary[] = ['Standard', 'Parameterized', 'Arithmetic', 'Noise', 'Custom'];
 
 // Parameterized sub-library gates (each column ordered X, Y, Z):
 // Col 1: RX, RY, RZ (angle-prompted)
@@ -45,24 +49,26 @@ const PARAMETERIZED_GATE_COLUMNS: GateType[][] = [
 // Col 1: X, Y, Z, H
 // Col 2: CTRL, ANTI-CTRL, CNOT, CCX
 // Col 3: SWAP, MEASURE, Bloch, %
-// Col 4: Rv, T, CZ
+// Col 4: Rv, T, CZ, ⟨P⟩
 // Col 5: S, √Y, √X
 // Col 6: S†, √Y†, √X†
 // Col 7: RX(π/2), RX(π/4), RX(π/8), RX(π/12)
 // Col 8: RY(π/2), RY(π/4), RY(π/8), RY(π/12)
 // Col 9: RZ(π/2), RZ(π/4), RZ(π/8), RZ(π/12)
 // Col 10: XC, XA, YC, YA
+// Col 11: classical control, classical anti-control, reset
 const STANDARD_GATE_COLUMNS: GateType[][] = [
   [GateType.X, GateType.Y, GateType.Z, GateType.H],
   [GateType.CONTROL, GateType.ANTI_CONTROL, GateType.CX, GateType.CCX],
   [GateType.SWAP, GateType.MEASURE, GateType.BLOCH_VIS, GateType.PERCENT_VIS],
-  [GateType.REVERSE, GateType.T, GateType.CZ],
+  [GateType.REVERSE, GateType.T, GateType.CZ, GateType.PAULI_VIS],
   [GateType.S, GateType.SQRT_Y, GateType.SQRT_X],
   [GateType.SDG, GateType.SQRT_Y_DG, GateType.SQRT_X_DG],
   [GateType.RX_PI_2, GateType.RX_PI_4, GateType.RX_PI_8, GateType.RX_PI_12],
   [GateType.RY_PI_2, GateType.RY_PI_4, GateType.RY_PI_8, GateType.RY_PI_12],
   [GateType.RZ_PI_2, GateType.RZ_PI_4, GateType.RZ_PI_8, GateType.RZ_PI_12],
   [GateType.X_CONTROL, GateType.X_ANTI_CONTROL, GateType.Y_CONTROL, GateType.Y_ANTI_CONTROL],
+  [GateType.CLASSICAL_CONTROL, GateType.CLASSICAL_ANTI_CONTROL, GateType.RESET],
 ];
 
 // Arithmetic sub-library gates (max 4 per column):
@@ -83,7 +89,15 @@ const ARITHMETIC_GATE_COLUMNS: GateType[][] = [
   [GateType.INPUT_B, GateType.INPUT_R, GateType.INPUT_A],
 ];
 
-export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGates, onAddCustomGate, onSelectGate, isMobile = false }) => {
+// Noise sub-library gates (density-matrix simulation):
+// Col 1: Depolarizing, Amplitude damping, Phase damping
+// Col 2: Bit flip, Phase flip
+const NOISE_GATE_COLUMNS: GateType[][] = [
+  [GateType.DEPOLARIZE, GateType.AMPLITUDE_DAMP, GateType.PHASE_DAMP],
+  [GateType.BIT_FLIP, GateType.PHASE_FLIP],
+];
+
+export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGates, onAddCustomGate, onEditMacro, onSelectGate, isMobile = false }) => {
   const [activeSubLibrary, setActiveSubLibrary] = useState<SubLibrary>('Standard');
   const [searchQuery, setSearchQuery] = useState('');
   const [debouncedQuery, setDebouncedQuery] = useState('');
@@ -112,6 +126,7 @@ export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGat
     ...STANDARD_GATE_COLUMNS.flat(),
     ...PARAMETERIZED_GATE_COLUMNS.flat(),
     ...ARITHMETIC_GATE_COLUMNS.flat(),
+    ...NOISE_GATE_COLUMNS.flat(),
   ].filter(Boolean), []);
 
   // Search results - filter and sort gates by query relevance
@@ -208,13 +223,18 @@ export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGat
 
         {/* Custom gates from library */}
         {customGates.slice(0, 3).map((customGate) => {
-          const customParams = { customLabel: customGate.label, customMatrix: customGate.matrix };
+          // Macro definitions carry a sub-circuit, the others a matrix
+          const customParams: GateParams = customGate.circuit
+            ? { customLabel: customGate.label, customCircuit: customGate.circuit }
+            : { customLabel: customGate.label, customMatrix: customGate.matrix };
+          const customType = customGate.circuit ? GateType.MACRO : getCustomGateType(customGate.matrix ?? []);
+          const qubits = getFixedSpanSize(customType, customParams);
           return (
             <div
               key={customGate.label}
               draggable={!onSelectGate}
-              onDragStart={onSelectGate ? undefined : (e) => handleGateDragStart(e, GateType.CUSTOM, customParams)}
-              onClick={onSelectGate ? () => onSelectGate(GateType.CUSTOM, customParams) : undefined}
+              onDragStart={onSelectGate ? undefined : (e) => handleGateDragStart(e, customType, customParams)}
+              onClick={onSelectGate ? () => onSelectGate(customType, customParams) : undefined}
               className={`flex items-center gap-2 group py-0.5 transition-colors ${
                 onSelectGate
                   ? 'cursor-pointer active:bg-accent/30 min-h-[44px]'
@@ -222,7 +242,7 @@ export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGat
               }`}
             >
               <Gate
-                type={GateType.CUSTOM}
+                type={customType}
                 onHover={onHoverGate}
                 params={customParams}
                 isGateLibrary
@@ -230,7 +250,23 @@ export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGat
               />
               <span className={`${isMobile ? 'text-sm' : 'text-base'} font-bold text-purple-400 uppercase truncate`}>
                 {customGate.label}
+                {qubits !== null && (
+                  <span className="text-xs text-muted-foreground normal-case"> {qubits}q</span>
+                )}
               </span>
+              {customGate.circuit && onEditMacro && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onEditMacro(customGate.label);
+                  }}
+                  className="p-1 text-indigo-400 opacity-0 group-hover:opacity-100 hover:bg-indigo-400/20 transition-opacity"
+                  title={`Edit ${customGate.label}`}
+                  aria-label={`Edit ${customGate.label}`}
+                >
+                  <Pencil size={14} />
+                </button>
+              )}
             </div>
           );
         })}
@@ -295,6 +331,8 @@ export const GateLibrary: React.FC<GateLibraryProps> = ({ onHoverGate, customGat
         return renderGateColumns(PARAMETERIZED_GATE_COLUMNS);
       case 'Arithmetic':
         return renderGateColumns(ARITHMETIC_GATE_COLUMNS);
+      case 'Noise':
+        return renderGateColumns(NOISE_GATE_COLUMNS);
       case 'Custom':
         return renderCustomGates();
       default:
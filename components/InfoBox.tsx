@@ -131,6 +131,12 @@ function GateContent({ gate, params }: { gate: GateType; params?: GateParams })
     );
   }
 
+  // Custom gates show their own matrix; 8x8 and larger do not fit the box.
+  // Macro gates describe their sub-circuit instead
+  const matrix = params?.customMatrix ??
+    (gate === GateType.CUSTOM_MULTI || gate === GateType.MACRO ? undefined : gateDef.matrix);
+  const macroCircuit = gate === GateType.MACRO ? params?.customCircuit : undefined;
+
   return (
     <div>
       <div className="text-foreground font-bold">{gateDef.fullName}</div>
@@ -140,7 +146,12 @@ function GateContent({ gate, params }: { gate: GateType; params?: GateParams })
           θ = {params.angleExpression || params.angle.toFixed(4)}
         </div>
       )}
-      {gateDef.matrix && <MatrixDisplay matrix={gateDef.matrix} />}
+      {macroCircuit && (
+        <div className="text-purple-400 text-sm mt-2">
+          {params?.customLabel}: {macroCircuit.length} wire{macroCircuit.length === 1 ? '' : 's'}, {macroCircuit[0]?.length ?? 0} column{macroCircuit[0]?.length === 1 ? '' : 's'}
+        </div>
+      )}
+      {matrix && matrix.length <= 4 && <MatrixDisplay matrix={matrix} />}
     </div>
   );
 }
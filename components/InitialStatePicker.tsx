@@ -0,0 +1,122 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { INITIAL_STATE_PRESETS, WireInitialState } from '../types';
+import { formatInitialState, isCustomInitialState, parseCustomInitialState } from '../utils/initialStates';
+import { formatComplex } from '../utils/complexParser';
+
+interface InitialStatePickerProps {
+  row: number;
+  value: WireInitialState | undefined;
+  onConfirm: (state: WireInitialState) => void;
+  onCancel: () => void;
+  position: { x: number; y: number };
+}
+
+export const InitialStatePicker: React.FC<InitialStatePickerProps> = ({
+  row,
+  value,
+  onConfirm,
+  onCancel,
+  position,
+}) => {
+  const custom = value !== undefined && isCustomInitialState(value) ? value : null;
+  const [alphaText, setAlphaText] = useState(custom?.expressions?.[0] ?? (custom ? formatComplex(custom.alpha) : '1/sqrt(2)'));
+  const [betaText, setBetaText] = useState(custom?.expressions?.[1] ?? (custom ? formatComplex(custom.beta) : 'i/sqrt(2)'));
+  const [error, setError] = useState<string | null>(null);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  // Close on Escape
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  // Close on click outside
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) onCancel();
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [onCancel]);
+
+  const handleSubmitCustom = () => {
+    const parsed = parseCustomInitialState(alphaText, betaText);
+    if ('error' in parsed) {
+      setError(parsed.error);
+      return;
+    }
+    onConfirm(parsed.state);
+  };
+
+  const handleInputKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') handleSubmitCustom();
+  };
+
+  const selected = value ?? '0';
+
+  return (
+    <div
+      ref={pickerRef}
+      className="fixed z-50 bg-card border border-border rounded-lg p-3 shadow-xl"
+      style={{ left: position.x, top: position.y }}
+      onKeyDown={handleInputKeyDown}
+    >
+      <div className="text-xs text-muted-foreground mb-2">
+        Initial state of q{row}
+      </div>
+      <div className="flex gap-1 mb-3">
+        {INITIAL_STATE_PRESETS.map(preset => (
+          <button
+            key={preset}
+            onClick={() => onConfirm(preset)}
+            className={`w-11 py-1 font-mono text-sm border transition-colors ${
+              selected === preset
+                ? 'border-accent bg-accent text-background'
+                : 'border-border text-foreground hover:bg-foreground/10'
+            }`}
+          >
+            {formatInitialState(preset)}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-muted-foreground mb-1">
+        Custom α|0⟩ + β|1⟩ (supports: 1/sqrt(2), i/2, (1+i)/2, etc.)
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">α</span>
+        <Input
+          value={alphaText}
+          onChange={(e) => {
+            setAlphaText(e.target.value);
+            setError(null);
+          }}
+          className="w-28 bg-background border-border text-foreground text-sm"
+        />
+        <span className="text-sm text-muted-foreground">β</span>
+        <Input
+          value={betaText}
+          onChange={(e) => {
+            setBetaText(e.target.value);
+            setError(null);
+          }}
+          className="w-28 bg-background border-border text-foreground text-sm"
+        />
+        <Button
+          onClick={handleSubmitCustom}
+          size="sm"
+          className="bg-cyan-600 hover:bg-cyan-700 text-white"
+        >
+          OK
+        </Button>
+      </div>
+      {error && (
+        <div className="text-red-400 text-xs mt-1">{error}</div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,11 @@
 import React from 'react';
-import { Complex, GateType } from '../types';
-import { getBlochVector } from '../utils/quantum';
+import { GateType } from '../types';
 import { HoverInfo } from './InfoBox';
 import { CELL_WIDTH, ROW_HEIGHT } from '../constants';
 
 interface InlineBlochSphereProps {
-  state: Complex[];
-  qubitIndex: number;
-  numQubits: number;
+  /** Bloch vector of the qubit; shorter than 1 for mixed states */
+  vector: [number, number, number];
   row: number;
   cellId: string;
   onHover: (info: HoverInfo) => void;
@@ -50,20 +48,22 @@ const formatCoefficient = (re: number, im: number, isFirst: boolean): string =>
 };
 
 export const InlineBlochSphere: React.FC<InlineBlochSphereProps> = ({
-  state,
-  qubitIndex,
-  numQubits,
+  vector,
   row,
   cellId,
   onHover
 }) => {
-  const [x, y, z] = getBlochVector(state, qubitIndex, numQubits);
+  const [x, y, z] = vector;
 
   // Size to fit within circuit cell
   const size = Math.min(CELL_WIDTH - 16, ROW_HEIGHT - 32);
 
-  // Calculate polar coordinates for the Bloch vector
-  const theta = Math.acos(Math.max(-1, Math.min(1, z)));
+  // Mixed states have shorter Bloch vectors (1 = pure, 0 = maximally mixed)
+  const length = Math.min(1, Math.sqrt(x * x + y * y + z * z));
+  const isMixed = length < 0.99;
+
+  // Calculate polar coordinates for the Bloch vector direction
+  const theta = length > 1e-9 ? Math.acos(Math.max(-1, Math.min(1, z / length))) : 0;
   const phi = Math.atan2(y, x);
   const needleRotation = theta * (180 / Math.PI);
   const horizontalOffset = Math.sin(theta) * Math.cos(phi) * 0.3;
@@ -89,7 +89,8 @@ export const InlineBlochSphere: React.FC<InlineBlochSphereProps> = ({
       notation += beta1 + '|1⟩';
     }
 
-    return notation || '|0⟩';
+    notation = notation || '|0⟩';
+    return isMixed ? `${notation} (mixed, |r| = ${length.toFixed(2)})` : notation;
   };
 
   const handleMouseEnter = () => {
@@ -112,7 +113,10 @@ export const InlineBlochSphere: React.FC<InlineBlochSphereProps> = ({
   };
 
   const radius = size * 0.38;
+  // Arrow shrinks with the Bloch vector; the head is hidden once it would overlap the center
+  const arrowLength = radius * length;
   const arrowHeadSize = 3;
+  const lineLength = arrowLength > arrowHeadSize ? arrowLength - arrowHeadSize / 2 : arrowLength;
 
   return (
     <div
@@ -168,14 +172,16 @@ export const InlineBlochSphere: React.FC<InlineBlochSphereProps> = ({
         {/* State vector arrow */}
         <g transform={`translate(${size/2}, ${size/2}) rotate(${needleRotation + horizontalOffset * 60})`}>
           <line
-            x1={0} y1={0} x2={0} y2={-radius + arrowHeadSize/2}
+            x1={0} y1={0} x2={0} y2={-lineLength}
             stroke={isExcited ? '#10b981' : 'rgba(255,255,255,0.7)'}
             strokeWidth={1.5}
           />
-          <polygon
-            points={`0,${-radius} ${arrowHeadSize/2},${-radius + arrowHeadSize} ${-arrowHeadSize/2},${-radius + arrowHeadSize}`}
-            fill={isExcited ? '#10b981' : 'rgba(255,255,255,0.7)'}
-          />
+          {arrowLength > arrowHeadSize && (
+            <polygon
+              points={`0,${-arrowLength} ${arrowHeadSize/2},${-arrowLength + arrowHeadSize} ${-arrowHeadSize/2},${-arrowLength + arrowHeadSize}`}
+              fill={isExcited ? '#10b981' : 'rgba(255,255,255,0.7)'}
+            />
+          )}
         </g>
       </svg>
 
@@ -1,27 +1,23 @@
 import React from 'react';
-import { Complex, GateType } from '../types';
-import { getBlochVector } from '../utils/quantum';
+import { GateType } from '../types';
 import { HoverInfo } from './InfoBox';
 import { CELL_WIDTH, ROW_HEIGHT } from '../constants';
 
 interface InlinePercentageProps {
-  state: Complex[];
-  qubitIndex: number;
-  numQubits: number;
+  /** Bloch vector of the qubit (only z is used) */
+  vector: [number, number, number];
   row: number;
   cellId: string;
   onHover: (info: HoverInfo) => void;
 }
 
 export const InlinePercentage: React.FC<InlinePercentageProps> = ({
-  state,
-  qubitIndex,
-  numQubits,
+  vector,
   row,
   cellId,
   onHover
 }) => {
-  const [, , z] = getBlochVector(state, qubitIndex, numQubits);
+  const [, , z] = vector;
 
   // Calculate |1⟩ probability from Bloch z-component: P(|1⟩) = (1 - z) / 2
   const bzClamped = Math.max(-1, Math.min(1, z));
@@ -0,0 +1,62 @@
+import React from 'react';
+
+const DEFAULT_WIDTH = 440;
+const DEFAULT_HEIGHT = 180;
+const MARGIN = { left: 40, right: 8, top: 8, bottom: 20 };
+
+interface LinePlotProps {
+  points: { x: number; y: number }[];
+  /** Range of the y axis */
+  yMin: number;
+  yMax: number;
+  /** Accessible name of the plot */
+  label: string;
+  /** Caption under the x axis */
+  xLabel: string;
+  formatX?: (x: number) => string;
+  /** x value drawn as a dashed marker, when inside the plotted range */
+  marker?: number;
+  width?: number;
+  height?: number;
+}
+
+const formatValue = (value: number): string => Number(value.toFixed(4)).toString();
+
+/** Line plot with labelled axis ends, a zero line and an optional marker */
+export const LinePlot: React.FC<LinePlotProps> = ({
+  points,
+  yMin,
+  yMax,
+  label,
+  xLabel,
+  formatX = formatValue,
+  marker,
+  width = DEFAULT_WIDTH,
+  height = DEFAULT_HEIGHT,
+}) => {
+  const xMin = points[0]?.x ?? 0;
+  const xMax = points[points.length - 1]?.x ?? 0;
+  const innerWidth = width - MARGIN.left - MARGIN.right;
+  const innerHeight = height - MARGIN.top - MARGIN.bottom;
+  const x = (value: number) => MARGIN.left + ((value - xMin) / (xMax - xMin || 1)) * innerWidth;
+  const y = (value: number) => MARGIN.top + (1 - (value - yMin) / (yMax - yMin || 1)) * innerHeight;
+  const path = points.map(p => `${x(p.x).toFixed(2)},${y(p.y).toFixed(2)}`).join(' ');
+
+  return (
+    <svg width={width} height={height} className="text-foreground" role="img" aria-label={label}>
+      <rect x={MARGIN.left} y={MARGIN.top} width={innerWidth} height={innerHeight} fill="none" stroke="currentColor" opacity={0.3} />
+      {yMin < 0 && yMax > 0 && (
+        <line x1={MARGIN.left} x2={MARGIN.left + innerWidth} y1={y(0)} y2={y(0)} stroke="currentColor" opacity={0.2} />
+      )}
+      <text x={MARGIN.left - 4} y={MARGIN.top + 8} fontSize={10} textAnchor="end" fill="currentColor">{formatValue(yMax)}</text>
+      <text x={MARGIN.left - 4} y={MARGIN.top + innerHeight} fontSize={10} textAnchor="end" fill="currentColor">{formatValue(yMin)}</text>
+      <text x={MARGIN.left} y={height - 4} fontSize={10} fill="currentColor">{formatX(xMin)}</text>
+      <text x={MARGIN.left + innerWidth} y={height - 4} fontSize={10} textAnchor="end" fill="currentColor">{formatX(xMax)}</text>
+      <text x={MARGIN.left + innerWidth / 2} y={height - 4} fontSize={10} textAnchor="middle" fill="currentColor" opacity={0.6}>{xLabel}</text>
+      {marker !== undefined && marker >= xMin && marker <= xMax && (
+        <line x1={x(marker)} x2={x(marker)} y1={MARGIN.top} y2={MARGIN.top + innerHeight} stroke="currentColor" strokeDasharray="3 3" opacity={0.6} />
+      )}
+      <polyline points={path} fill="none" className="stroke-accent" strokeWidth={2} />
+    </svg>
+  );
+};
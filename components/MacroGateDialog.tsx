@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { CircuitGrid, CustomGateDefinition } from '../types';
+import { circuitUsesMacro } from '../utils/macroGates';
+
+interface MacroGateDialogProps {
+  /** The selected gates as a stand-alone circuit, or null when the selection cannot become a gate */
+  circuit: CircuitGrid | null;
+  /** Why the selection cannot become a gate */
+  selectionError: string | null;
+  /** Called with the new name, or the name of the macro whose definition is replaced */
+  onConfirm: (label: string) => void;
+  onCancel: () => void;
+  customGates: CustomGateDefinition[];
+}
+
+export const MacroGateDialog: React.FC<MacroGateDialogProps> = ({
+  circuit,
+  selectionError,
+  onConfirm,
+  onCancel,
+  customGates,
+}) => {
+  const [label, setLabel] = useState('');
+  const labelInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    labelInputRef.current?.focus();
+  }, []);
+
+  const wires = circuit?.length ?? 0;
+  const trimmedLabel = label.trim().toUpperCase();
+  const existing = customGates.find(g => g.label === trimmedLabel);
+
+  // Reusing a macro's name replaces its definition, which must keep its wire count
+  const getNameError = (): string | null => {
+    if (!existing || !circuit) return null;
+    if (!existing.circuit) return 'Name already used by a custom matrix gate';
+    if (existing.circuit.length !== wires) {
+      return `${existing.label} spans ${existing.circuit.length} wires; the selection covers ${wires}`;
+    }
+    if (circuitUsesMacro(circuit, existing.label)) return `${existing.label} cannot contain itself`;
+    return null;
+  };
+
+  const nameError = getNameError();
+  const canSubmit = circuit !== null && trimmedLabel.length > 0 && trimmedLabel.length <= 2 && nameError === null;
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    onConfirm(trimmedLabel);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && canSubmit) {
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div
+        className="bg-neutral-900 border border-neutral-700 rounded-lg p-5 shadow-xl max-w-[95vw]"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="text-sm text-neutral-300 mb-4 font-bold">
+          Create Gate from Selection
+        </div>
+
+        {circuit && (
+          <div className="text-xs text-neutral-500 mb-4">
+            {wires} wire{wires === 1 ? '' : 's'}, {circuit[0]?.length ?? 0} column{circuit[0]?.length === 1 ? '' : 's'} of gates
+          </div>
+        )}
+
+        {/* Label input */}
+        <div className="flex items-center gap-3 mb-4">
+          <span className="text-xs text-neutral-400 w-16">Name:</span>
+          <Input
+            ref={labelInputRef}
+            value={label}
+            onChange={(e) => setLabel(e.target.value.slice(0, 2))}
+            placeholder="e.g. B"
+            className="w-20 bg-black border-neutral-600 text-white text-sm px-2 uppercase"
+            maxLength={2}
+            disabled={circuit === null}
+          />
+          {nameError && (
+            <span className="text-red-400 text-xs">{nameError}</span>
+          )}
+        </div>
+
+        {/* Status messages */}
+        {selectionError && (
+          <div className="text-red-400 text-xs mb-3">
+            {selectionError}
+          </div>
+        )}
+        {existing?.circuit && nameError === null && (
+          <div className="text-yellow-500 text-xs mb-3">
+            Every instance of {existing.label} will use the selected gates
+          </div>
+        )}
+
+        {/* Buttons */}
+        <div className="flex gap-2 justify-end">
+          <Button
+            onClick={onCancel}
+            size="sm"
+            variant="outline"
+            className="border-neutral-600 text-neutral-400 hover:text-white"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            size="sm"
+            disabled={!canSubmit}
+            className={canSubmit
+              ? "bg-indigo-600 hover:bg-indigo-700 text-white"
+              : "bg-neutral-700 text-neutral-500 cursor-not-allowed"
+            }
+          >
+            {existing?.circuit ? 'Update Definition' : 'Add to Library'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
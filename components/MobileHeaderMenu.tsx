@@ -1,10 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Download, Upload, X as XIcon, Info } from 'lucide-react';
+import { Download, Upload, X as XIcon, Info, FileCode, ExternalLink, Link } from 'lucide-react';
 
 interface MobileHeaderMenuProps {
   isOpen: boolean;
   onClose: () => void;
   onSave: () => void;
+  onExportQasm: () => void;
+  onCopyLink: () => void;
+  onOpenInQuirk: () => void;
+  onImportQuirk: () => void;
   onUpload: () => void;
   onClear: () => void;
   onInfo: () => void;
@@ -14,6 +18,10 @@ export const MobileHeaderMenu: React.FC<MobileHeaderMenuProps> = ({
   isOpen,
   onClose,
   onSave,
+  onExportQasm,
+  onCopyLink,
+  onOpenInQuirk,
+  onImportQuirk,
   onUpload,
   onClear,
   onInfo,
@@ -54,6 +62,22 @@ export const MobileHeaderMenu: React.FC<MobileHeaderMenuProps> = ({
         <Download size={18} />
         <span>Save</span>
       </button>
+      <button onClick={() => { onCopyLink(); onClose(); }} className={buttonClass}>
+        <Link size={18} />
+        <span>Copy link</span>
+      </button>
+      <button onClick={() => { onExportQasm(); onClose(); }} className={buttonClass}>
+        <FileCode size={18} />
+        <span>Export QASM</span>
+      </button>
+      <button onClick={() => { onOpenInQuirk(); onClose(); }} className={buttonClass}>
+        <ExternalLink size={18} />
+        <span>Open in Quirk</span>
+      </button>
+      <button onClick={() => { onClose(); onImportQuirk(); }} className={buttonClass}>
+        <ExternalLink size={18} />
+        <span>Import Quirk</span>
+      </button>
       <button onClick={() => { onUpload(); onClose(); }} className={buttonClass}>
         <Upload size={18} />
         <span>Upload</span>
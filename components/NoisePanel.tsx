@@ -0,0 +1,134 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { NOISE_GATES, NoiseGate } from '../types';
+import { GATE_DEFS, DEFAULT_NOISE_STRENGTH } from '../constants';
+import { NoiseModel } from '../utils/quantum';
+import { parseNoiseStrength } from './NoiseStrengthInput';
+
+const PANEL_WIDTH = 320;
+
+interface NoisePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Current noise model, or null when disabled */
+  noiseModel: NoiseModel | null;
+  onChange: (model: NoiseModel | null) => void;
+}
+
+export const NoisePanel: React.FC<NoisePanelProps> = ({
+  isOpen,
+  onClose,
+  noiseModel,
+  onChange,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  // Remember the last settings so toggling off and on restores them
+  const [channel, setChannel] = useState<NoiseGate>(noiseModel?.channel ?? NOISE_GATES[0]);
+  const [strengthText, setStrengthText] = useState(String(noiseModel?.strength ?? DEFAULT_NOISE_STRENGTH));
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#noise-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const strength = parseNoiseStrength(strengthText);
+  const isEnabled = noiseModel !== null;
+
+  const handleToggle = () => {
+    if (isEnabled) {
+      onChange(null);
+    } else if (strength !== null) {
+      onChange({ channel, strength });
+    }
+  };
+
+  const handleChannelChange = (next: NoiseGate) => {
+    setChannel(next);
+    if (noiseModel) onChange({ channel: next, strength: noiseModel.strength });
+  };
+
+  const handleStrengthChange = (text: string) => {
+    setStrengthText(text);
+    const parsed = parseNoiseStrength(text);
+    if (isEnabled && parsed !== null) onChange({ channel, strength: parsed });
+  };
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background"
+      style={{ width: PANEL_WIDTH }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Noise</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close noise panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="px-3 py-2 flex flex-col gap-2 text-sm">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isEnabled}
+            onChange={handleToggle}
+            disabled={!isEnabled && strength === null}
+          />
+          <span className="font-bold">Apply noise after every gate</span>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 text-muted-foreground">Channel</span>
+          <select
+            value={channel}
+            onChange={(e) => handleChannelChange(e.target.value as NoiseGate)}
+            className="flex-1 px-1 bg-background border border-foreground"
+          >
+            {NOISE_GATES.map(gate => (
+              <option key={gate} value={gate}>{GATE_DEFS[gate]?.fullName ?? gate}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 text-muted-foreground">Strength</span>
+          <input
+            value={strengthText}
+            onChange={(e) => handleStrengthChange(e.target.value)}
+            placeholder="e.g., 0.01, 1%"
+            className="w-24 px-1 bg-background border border-foreground"
+          />
+          {strength === null && <span className="text-red-400 text-xs">0 to 1</span>}
+        </label>
+        <div className="text-xs text-muted-foreground">
+          Noise switches the simulator to density matrices: Bloch vectors shrink as qubits mix, and
+          MEASURE averages over outcomes instead of sampling one.
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { DEFAULT_NOISE_STRENGTH } from '../constants';
+
+interface NoiseStrengthInputProps {
+  gateType: string;
+  onConfirm: (strength: number) => void;
+  onCancel: () => void;
+  position: { x: number; y: number };
+}
+
+/**
+ * Parse a noise strength: a probability in [0, 1] or a percentage ("5%").
+ * Returns null for anything else.
+ */
+export const parseNoiseStrength = (input: string): number | null => {
+  const trimmed = input.trim();
+  const isPercent = trimmed.endsWith('%');
+  const text = isPercent ? trimmed.slice(0, -1).trim() : trimmed;
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) return null;
+  const value = Number(text) / (isPercent ? 100 : 1);
+  return value >= 0 && value <= 1 ? value : null;
+};
+
+export const NoiseStrengthInput: React.FC<NoiseStrengthInputProps> = ({
+  gateType,
+  onConfirm,
+  onCancel,
+  position,
+}) => {
+  const [value, setValue] = useState(String(DEFAULT_NOISE_STRENGTH));
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleSubmit = () => {
+    const parsed = parseNoiseStrength(value);
+    if (parsed === null) {
+      setError('Enter a probability between 0 and 1');
+      return;
+    }
+    onConfirm(parsed);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const preview = parseNoiseStrength(value);
+
+  return (
+    <div
+      className="fixed z-50 bg-card border border-border rounded-lg p-3 shadow-xl"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="text-xs text-muted-foreground mb-2">
+        {gateType} strength p
+      </div>
+      <div className="flex gap-2">
+        <Input
+          ref={inputRef}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g., 0.1, 5%"
+          className="w-32 bg-background border-border text-foreground text-sm"
+        />
+        <Button
+          onClick={handleSubmit}
+          size="sm"
+          className="bg-amber-600 hover:bg-amber-700 text-white"
+        >
+          OK
+        </Button>
+        <Button
+          onClick={onCancel}
+          size="sm"
+          variant="outline"
+          className="border-border text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </Button>
+      </div>
+      {error && (
+        <div className="text-red-400 text-xs mt-1">{error}</div>
+      )}
+      {preview !== null && !error && (
+        <div className="text-neutral-500 text-xs mt-1">
+          = {(preview * 100).toFixed(1)}% per application
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ParametersPanel } from './ParametersPanel';
+import { CircuitGrid, CircuitParameter, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** RY(θ) on q0 */
+const ryGrid = (): CircuitGrid => {
+  const grid = createGrid(2, 1);
+  grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: 'θ' } };
+  return grid;
+};
+
+const renderPanel = (parameters: CircuitParameter[], onChange = vi.fn()) =>
+  render(
+    <ParametersPanel
+      isOpen
+      onClose={vi.fn()}
+      parameters={parameters}
+      onChange={onChange}
+      grid={ryGrid()}
+      initialStates={[]}
+      timeParameter={0}
+      canRun
+    />
+  );
+
+describe('ParametersPanel', () => {
+  it('should add, change and protect parameters', () => {
+    const onChange = vi.fn();
+    const theta = { name: 'θ', value: 1, min: 0, max: 2 };
+    renderPanel([theta], onChange);
+
+    fireEvent.change(screen.getByLabelText('θ slider'), { target: { value: '1.5' } });
+    expect(onChange).toHaveBeenLastCalledWith([{ ...theta, value: 1.5 }]);
+    // Narrowing the range pulls the value inside it
+    fireEvent.change(screen.getByLabelText('θ maximum'), { target: { value: '0.5' } });
+    expect(onChange).toHaveBeenLastCalledWith([{ ...theta, max: 0.5, value: 0.5 }]);
+    expect(screen.getByTitle('Used by 1 gate')).toHaveProperty('disabled', true);
+
+    fireEvent.click(screen.getByText('Add'));
+    expect(onChange).toHaveBeenLastCalledWith([theta, { name: 'φ', value: 0, min: 0, max: 2 * Math.PI }]);
+    fireEvent.change(screen.getByLabelText('New parameter name'), { target: { value: 'Θ' } });
+    fireEvent.click(screen.getByText('Add'));
+    expect(screen.getByText("'θ' already exists")).toBeTruthy();
+  });
+
+  it('should plot a sweep of the chosen quantity', () => {
+    renderPanel([{ name: 'θ', value: 0, min: 0, max: Math.PI }]);
+
+    fireEvent.click(screen.getByText('Run'));
+    expect(screen.getByRole('img', { name: '⟨Z⟩ against θ' })).toBeTruthy();
+    expect(screen.getByText('⟨Z⟩ over 41 values of θ')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Sweep quantity'), { target: { value: 'probability' } });
+    fireEvent.change(screen.getByLabelText('Outcome'), { target: { value: '01' } });
+    fireEvent.click(screen.getByText('Run'));
+    expect(screen.getByText('Outcome must be 1 bit, one per measured wire (q0)')).toBeTruthy();
+  });
+});
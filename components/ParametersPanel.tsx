@@ -0,0 +1,363 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Play, Trash2 } from 'lucide-react';
+import { CircuitGrid, CircuitParameter, WireInitialState } from '../types';
+import {
+  countParameterUses,
+  isValidParameterName,
+  suggestParameterName,
+  DEFAULT_PARAMETER_RANGE,
+} from '../utils/circuitParameters';
+import { sweepParameter, parseSweepQuantity, SweepPoint, SweepQuantity, MIN_SWEEP_STEPS, MAX_SWEEP_STEPS } from '../utils/parameterSweep';
+import { formatAngle } from '../utils/angleParser';
+import { LinePlot } from './LinePlot';
+
+const PANEL_WIDTH = 480;
+const DEFAULT_SWEEP_STEPS = 41;
+/** Slider positions across a parameter's range */
+const SLIDER_STEPS = 1000;
+
+interface ParametersPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parameters: CircuitParameter[];
+  /** Replace the parameter list (values, ranges, additions and removals) */
+  onChange: (parameters: CircuitParameter[]) => void;
+  /** The circuit being edited, with parameterized angles unbound */
+  grid: CircuitGrid;
+  initialStates: WireInitialState[];
+  timeParameter: number;
+  /** False while the circuit has validation errors */
+  canRun: boolean;
+}
+
+/** A finished sweep, with what it measured */
+interface SweepResult {
+  name: string;
+  label: string;
+  points: SweepPoint[];
+  /** Range of the quantity, for the y axis */
+  yMin: number;
+  yMax: number;
+}
+
+const formatValue = (value: number): string => Number(value.toFixed(4)).toString();
+
+/** Number typed into an input, or null while it is blank or incomplete */
+const readNumber = (text: string): number | null => {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) ? value : null;
+};
+
+export const ParametersPanel: React.FC<ParametersPanelProps> = ({
+  isOpen,
+  onClose,
+  parameters,
+  onChange,
+  grid,
+  initialStates,
+  timeParameter,
+  canRun,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [newName, setNewName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [sweepName, setSweepName] = useState('');
+  const [quantityKind, setQuantityKind] = useState<SweepQuantity['kind']>('expectation');
+  const [quantityText, setQuantityText] = useState('Z');
+  const [steps, setSteps] = useState(DEFAULT_SWEEP_STEPS);
+  const [sweep, setSweep] = useState<SweepResult | null>(null);
+  const [sweepError, setSweepError] = useState<string | null>(null);
+
+  const swept = parameters.find(p => p.name === (sweepName || parameters[0]?.name));
+  // Everything a sweep depends on except the swept parameter's own value
+  const sweepKey = JSON.stringify(parameters.map(p => (p.name === swept?.name ? { ...p, value: 0 } : p)));
+
+  // Results describe a specific circuit; drop them when it changes
+  useEffect(() => {
+    setSweep(null);
+    setSweepError(null);
+  }, [grid, initialStates, sweepKey]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#parameters-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const uses = useMemo(
+    () => new Map(parameters.map(p => [p.name, countParameterUses(grid, p.name)])),
+    [grid, parameters]
+  );
+
+  if (!isOpen) return null;
+
+  const suggestedName = suggestParameterName(parameters);
+
+  const update = (name: string, changes: Partial<CircuitParameter>) => {
+    onChange(parameters.map(p => {
+      if (p.name !== name) return p;
+      const next = { ...p, ...changes };
+      if (!(next.min < next.max)) return p;
+      return { ...next, value: Math.min(next.max, Math.max(next.min, next.value)) };
+    }));
+  };
+
+  const handleAdd = () => {
+    const name = (newName.trim() || suggestedName).toLowerCase();
+    if (!isValidParameterName(name)) {
+      setNameError(`'${name}' is not a valid name; use letters, digits and _ (not pi, sqrt or i)`);
+      return;
+    }
+    if (parameters.some(p => p.name === name)) {
+      setNameError(`'${name}' already exists`);
+      return;
+    }
+    onChange([...parameters, { name, value: 0, ...DEFAULT_PARAMETER_RANGE }]);
+    setNewName('');
+    setNameError(null);
+  };
+
+  const handleSweep = () => {
+    if (!swept) return;
+    const parsed = parseSweepQuantity(quantityKind, quantityText);
+    if (!parsed.success) {
+      setSweepError(parsed.error.message);
+      return;
+    }
+    const { quantity, label, min: yMin, max: yMax } = parsed.value;
+
+    try {
+      const points = sweepParameter(grid, parameters, swept.name, quantity, { min: swept.min, max: swept.max, steps }, timeParameter, initialStates);
+      setSweep({ name: swept.name, label, points, yMin, yMax });
+      setSweepError(null);
+    } catch (error) {
+      setSweep(null);
+      setSweepError(error instanceof Error ? error.message : 'Could not run the sweep');
+    }
+  };
+
+  const inputClass = "px-1 bg-background border border-foreground text-sm";
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxWidth: '95vw', maxHeight: '80vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Parameters</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close parameters panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Parameters */}
+      {parameters.length === 0 ? (
+        <div className="px-3 py-3 text-sm text-muted-foreground border-b border-border">
+          Add a parameter, then use it in a rotation angle, e.g. RX with angle 2*{suggestedName}.
+        </div>
+      ) : (
+        <div className="border-b border-border">
+          {parameters.map(p => {
+            const useCount = uses.get(p.name) ?? 0;
+            return (
+              <div key={p.name} className="px-3 py-2 border-b border-border/50 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="font-mono font-bold w-16 truncate" title={p.name}>{p.name}</span>
+                  <input
+                    type="range"
+                    min={p.min}
+                    max={p.max}
+                    step={(p.max - p.min) / SLIDER_STEPS}
+                    value={p.value}
+                    onChange={(e) => update(p.name, { value: Number(e.target.value) })}
+                    className="flex-1 accent-cyan-500"
+                    aria-label={`${p.name} slider`}
+                  />
+                  <input
+                    type="number"
+                    step="any"
+                    value={formatValue(p.value)}
+                    onChange={(e) => {
+                      const value = readNumber(e.target.value);
+                      if (value !== null) update(p.name, { value });
+                    }}
+                    className={`${inputClass} w-20`}
+                    aria-label={`${p.name} value`}
+                  />
+                  <button
+                    onClick={() => onChange(parameters.filter(q => q.name !== p.name))}
+                    disabled={useCount > 0}
+                    className={`p-1 transition-colors ${useCount > 0 ? 'text-foreground/30 cursor-not-allowed' : 'hover:bg-foreground/10'}`}
+                    title={useCount > 0 ? `Used by ${useCount} gate${useCount === 1 ? '' : 's'}` : `Remove ${p.name}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2 pt-1 text-xs text-muted-foreground">
+                  <span className="w-16">{formatAngle(p.value)}</span>
+                  <label className="flex items-center gap-1">
+                    from
+                    <input
+                      type="number"
+                      step="any"
+                      value={formatValue(p.min)}
+                      onChange={(e) => {
+                        const min = readNumber(e.target.value);
+                        if (min !== null) update(p.name, { min });
+                      }}
+                      className={`${inputClass} w-20 text-xs`}
+                      aria-label={`${p.name} minimum`}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    to
+                    <input
+                      type="number"
+                      step="any"
+                      value={formatValue(p.max)}
+                      onChange={(e) => {
+                        const max = readNumber(e.target.value);
+                        if (max !== null) update(p.name, { max });
+                      }}
+                      className={`${inputClass} w-20 text-xs`}
+                      aria-label={`${p.name} maximum`}
+                    />
+                  </label>
+                  <span className="ml-auto">{useCount} gate{useCount === 1 ? '' : 's'}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add */}
+      <div className="px-3 py-2 border-b border-border text-sm">
+        <div className="flex items-center gap-2">
+          <input
+            value={newName}
+            onChange={(e) => {
+              setNewName(e.target.value);
+              setNameError(null);
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder={suggestedName}
+            className={`${inputClass} flex-1 font-mono`}
+            aria-label="New parameter name"
+          />
+          <button
+            onClick={handleAdd}
+            className="px-2 py-0.5 border-2 border-foreground font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+          >
+            Add
+          </button>
+        </div>
+        {nameError && <div className="pt-1 text-xs text-red-400">{nameError}</div>}
+      </div>
+
+      {/* Sweep */}
+      {swept && (
+        <div className="px-3 py-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="font-bold uppercase">Sweep</span>
+            <select
+              value={swept.name}
+              onChange={(e) => setSweepName(e.target.value)}
+              className={inputClass}
+              aria-label="Sweep parameter"
+            >
+              {parameters.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <select
+              value={quantityKind}
+              onChange={(e) => {
+                const kind = e.target.value as SweepQuantity['kind'];
+                setQuantityKind(kind);
+                setQuantityText(kind === 'expectation' ? 'Z' : '0');
+              }}
+              className={inputClass}
+              aria-label="Sweep quantity"
+            >
+              <option value="expectation">Expectation ⟨O⟩</option>
+              <option value="probability">Probability P(outcome)</option>
+            </select>
+            <input
+              value={quantityText}
+              onChange={(e) => setQuantityText(e.target.value)}
+              className={`${inputClass} w-28 font-mono`}
+              aria-label={quantityKind === 'expectation' ? 'Observable' : 'Outcome'}
+              title={quantityKind === 'expectation'
+                ? 'Pauli sum, letter k on wire k, e.g. ZZ or 0.5*XI - YY'
+                : 'Bitstring over the measured wires (every used wire when nothing is measured), top first'}
+            />
+            <label className="flex items-center gap-1">
+              <span className="text-muted-foreground">Steps</span>
+              <input
+                type="number"
+                min={MIN_SWEEP_STEPS}
+                max={MAX_SWEEP_STEPS}
+                value={steps}
+                onChange={(e) => setSteps(Math.max(MIN_SWEEP_STEPS, Math.min(MAX_SWEEP_STEPS, Math.floor(Number(e.target.value)) || MIN_SWEEP_STEPS)))}
+                className={`${inputClass} w-14`}
+              />
+            </label>
+            <button
+              onClick={handleSweep}
+              disabled={!canRun}
+              className={`ml-auto flex items-center gap-1 px-2 py-0.5 border-2 font-bold uppercase transition-colors ${
+                canRun
+                  ? 'border-foreground hover:bg-foreground hover:text-background'
+                  : 'border-foreground/30 text-foreground/30 cursor-not-allowed'
+              }`}
+              title={canRun ? `Run the circuit across ${swept.name} from ${formatAngle(swept.min)} to ${formatAngle(swept.max)}` : 'Fix circuit errors first'}
+            >
+              <Play size={14} />
+              <span>Run</span>
+            </button>
+          </div>
+
+          {sweepError && <div className="pt-2 text-xs text-red-400">{sweepError}</div>}
+          {sweep && (
+            <div className="pt-2">
+              <div className="pb-1 text-xs text-muted-foreground">
+                {sweep.label} over {sweep.points.length} values of {sweep.name}
+              </div>
+              <LinePlot
+                points={sweep.points.map(p => ({ x: p.value, y: p.result }))}
+                yMin={sweep.yMin}
+                yMax={sweep.yMax}
+                label={`${sweep.label} against ${sweep.name}`}
+                xLabel={sweep.name}
+                formatX={formatAngle}
+                marker={parameters.find(p => p.name === sweep.name)?.value}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Input } from './ui/input';
+import { Button } from './ui/button';
+import { isPauliString } from '../utils/observables';
+
+interface PauliStringInputProps {
+  /** Top wire of the gate */
+  row: number;
+  /** Wires available from `row` down to the last wire */
+  maxLength: number;
+  onConfirm: (pauliString: string) => void;
+  onCancel: () => void;
+  position: { x: number; y: number };
+}
+
+export const PauliStringInput: React.FC<PauliStringInputProps> = ({
+  row,
+  maxLength,
+  onConfirm,
+  onCancel,
+  position,
+}) => {
+  const [value, setValue] = useState('Z'.repeat(Math.min(2, maxLength)));
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, []);
+
+  const handleSubmit = () => {
+    if (!isPauliString(value)) {
+      setError('Use one of I, X, Y, Z per wire');
+      return;
+    }
+    if (value.length > maxLength) {
+      setError(`Only ${maxLength} wire${maxLength === 1 ? '' : 's'} from q${row} down`);
+      return;
+    }
+    onConfirm(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleSubmit();
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  const isValid = isPauliString(value) && value.length <= maxLength;
+
+  return (
+    <div
+      className="fixed z-50 bg-card border border-border rounded-lg p-3 shadow-xl"
+      style={{ left: position.x, top: position.y }}
+    >
+      <div className="text-xs text-muted-foreground mb-2">
+        Pauli string, one letter per wire from q{row} down
+      </div>
+      <div className="flex gap-2">
+        <Input
+          ref={inputRef}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value.toUpperCase().replace(/\s+/g, ''));
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="e.g., ZZ, XIX"
+          className="w-32 bg-background border-border text-foreground text-sm font-mono"
+          aria-label="Pauli string"
+        />
+        <Button
+          onClick={handleSubmit}
+          size="sm"
+          className="bg-cyan-600 hover:bg-cyan-700 text-white"
+        >
+          OK
+        </Button>
+        <Button
+          onClick={onCancel}
+          size="sm"
+          variant="outline"
+          className="border-border text-muted-foreground hover:text-foreground"
+        >
+          Cancel
+        </Button>
+      </div>
+      {error && (
+        <div className="text-red-400 text-xs mt-1">{error}</div>
+      )}
+      {isValid && !error && (
+        <div className="text-neutral-500 text-xs mt-1">
+          = ⟨{value.split('').join('⊗')}⟩ on {value.length === 1 ? `q${row}` : `q${row}–q${row + value.length - 1}`}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ShotsPanel, MAX_HISTOGRAM_ROWS } from './ShotsPanel';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const renderPanel = (grid: CircuitGrid) =>
+  render(
+    <ShotsPanel
+      isOpen
+      onClose={vi.fn()}
+      grid={grid}
+      initialStates={[]}
+      timeParameter={0}
+      canRun
+    />
+  );
+
+describe('ShotsPanel', () => {
+  it('should show counts next to exact probabilities for a Bell pair', () => {
+    const grid = createGrid(2, 3);
+    grid[0][0].gate = GateType.H;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.CX;
+    grid[0][2].gate = GateType.MEASURE;
+    grid[1][2].gate = GateType.MEASURE;
+    renderPanel(grid);
+
+    fireEvent.click(screen.getByRole('button', { name: /Run/ }));
+    expect(screen.getByText('|00⟩')).toBeTruthy();
+    expect(screen.getByText('|11⟩')).toBeTruthy();
+    expect(screen.queryByText('|01⟩')).toBeNull();
+    expect(screen.getAllByText('50.0%')).toHaveLength(2);
+  });
+
+  it('should cap the histogram at the most likely outcomes', () => {
+    // H on 9 wires: 512 equally likely outcomes
+    const grid = createGrid(9, 1);
+    for (let row = 0; row < 9; row++) grid[row][0].gate = GateType.H;
+    renderPanel(grid);
+
+    fireEvent.click(screen.getByRole('button', { name: /Run/ }));
+    expect(screen.getAllByText(/^\|[01]{9}⟩$/)).toHaveLength(MAX_HISTOGRAM_ROWS);
+    expect(screen.getByText(`Showing the ${MAX_HISTOGRAM_ROWS} most likely of 512 outcomes.`)).toBeTruthy();
+  });
+
+  it('should say when fewer shots ran than were requested', () => {
+    // 18 wires measured in the last column: too slow for 10000 re-simulated shots
+    const grid = createGrid(18, 2);
+    for (let row = 0; row < 18; row++) grid[row][0].gate = GateType.H;
+    grid[0][1].gate = GateType.MEASURE;
+    renderPanel(grid);
+
+    fireEvent.change(screen.getByLabelText('Shots'), { target: { value: '10000' } });
+    fireEvent.click(screen.getByRole('button', { name: /Run/ }));
+    expect(screen.getByText(/^Ran 512 of 10000 shots/)).toBeTruthy();
+  });
+});
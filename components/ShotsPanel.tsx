@@ -0,0 +1,208 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Play, Shuffle } from 'lucide-react';
+import { CircuitGrid, WireInitialState } from '../types';
+import { runShots, ShotsResult, MAX_SHOTS } from '../utils/quantum';
+
+const PANEL_WIDTH = 420;
+const DEFAULT_SHOTS = 1024;
+const DEFAULT_SEED = 1;
+/** Histogram rows rendered; the most likely outcomes are kept */
+export const MAX_HISTOGRAM_ROWS = 256;
+
+interface ShotsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grid: CircuitGrid;
+  initialStates: WireInitialState[];
+  timeParameter: number;
+  /** False while the circuit has validation errors */
+  canRun: boolean;
+}
+
+const formatPercent = (p: number): string => `${(p * 100).toFixed(1)}%`;
+
+export const ShotsPanel: React.FC<ShotsPanelProps> = ({
+  isOpen,
+  onClose,
+  grid,
+  initialStates,
+  timeParameter,
+  canRun,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [shots, setShots] = useState(DEFAULT_SHOTS);
+  const [seed, setSeed] = useState(DEFAULT_SEED);
+  const [result, setResult] = useState<ShotsResult | null>(null);
+  // Shots asked for by the last run; past MAX_SHOT_AMPLITUDES fewer are run
+  const [requestedShots, setRequestedShots] = useState(DEFAULT_SHOTS);
+
+  // Results describe a specific circuit; drop them when it changes
+  useEffect(() => {
+    setResult(null);
+  }, [grid, initialStates]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#shots-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  // Outcomes that were observed or have nonzero exact probability, in bitstring
+  // order; past MAX_HISTOGRAM_ROWS only the most likely ones are shown
+  const { rows, outcomeCount } = useMemo(() => {
+    if (!result) return { rows: [], outcomeCount: 0 };
+    const keys = new Set([...Object.keys(result.counts), ...Object.keys(result.probabilities ?? {})]);
+    const all = Array.from(keys, key => ({
+      key,
+      count: result.counts[key] ?? 0,
+      frequency: (result.counts[key] ?? 0) / result.shots,
+      probability: result.probabilities?.[key] ?? null,
+    }));
+    const weight = (row: typeof all[number]) => Math.max(row.frequency, row.probability ?? 0);
+    const shown = all.length > MAX_HISTOGRAM_ROWS
+      ? all.sort((a, b) => weight(b) - weight(a)).slice(0, MAX_HISTOGRAM_ROWS)
+      : all;
+    return { rows: shown.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)), outcomeCount: all.length };
+  }, [result]);
+
+  if (!isOpen) return null;
+
+  const scale = Math.max(...rows.map(r => Math.max(r.frequency, r.probability ?? 0)), 1e-9);
+  const inputClass = "w-24 px-1 bg-background border border-foreground text-base font-bold";
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxHeight: '70vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Shots</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close shots panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="px-3 py-2 border-b border-border flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Shots</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_SHOTS}
+            value={shots}
+            onChange={(e) => setShots(Math.max(1, Math.min(MAX_SHOTS, Number(e.target.value) || 1)))}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Seed</span>
+          <input
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Math.floor(Number(e.target.value) || 0))}
+            className={inputClass}
+          />
+        </label>
+        <button
+          onClick={() => setSeed(Math.floor(Math.random() * 0x7fffffff))}
+          className="p-1 hover:bg-foreground/10 transition-colors"
+          title="Random seed"
+        >
+          <Shuffle size={16} />
+        </button>
+        <button
+          onClick={() => {
+            setRequestedShots(shots);
+            setResult(runShots(grid, shots, seed, timeParameter, initialStates));
+          }}
+          disabled={!canRun}
+          className={`ml-auto flex items-center gap-1 px-2 py-1 border-2 font-bold uppercase transition-colors ${
+            canRun
+              ? 'border-foreground hover:bg-foreground hover:text-background'
+              : 'border-foreground/30 text-foreground/30 cursor-not-allowed'
+          }`}
+          title={canRun ? 'Run shots' : 'Fix circuit errors first'}
+        >
+          <Play size={14} />
+          <span>Run</span>
+        </button>
+      </div>
+
+      {/* Histogram */}
+      {!result ? (
+        <div className="px-3 py-4 text-sm text-muted-foreground">
+          Run the circuit many times to compare outcome frequencies with exact probabilities.
+          Without MEASURE gates every wire is measured at the end.
+        </div>
+      ) : rows.length === 0 ? (
+        <div className="px-3 py-4 text-sm text-muted-foreground">The circuit is empty.</div>
+      ) : (
+        <div className="px-3 py-2">
+          <div className="flex items-center gap-2 pb-1 text-xs text-muted-foreground">
+            <span className="font-mono">q{result.qubits.join(' q')}</span>
+            <span className="ml-auto">count · freq · exact</span>
+          </div>
+          {rows.map(({ key, count, frequency, probability }) => (
+            <div key={key} className="flex items-center gap-2 py-0.5 text-sm">
+              <span className="font-mono font-bold text-foreground">|{key}⟩</span>
+              <div className="relative flex-1 h-4 bg-foreground/10" title={`${count} of ${result.shots} shots`}>
+                <div className="absolute inset-y-0 left-0 bg-accent" style={{ width: `${(frequency / scale) * 100}%` }} />
+                {probability !== null && (
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-foreground"
+                    style={{ left: `${(probability / scale) * 100}%` }}
+                    title={`Exact probability ${formatPercent(probability)}`}
+                  />
+                )}
+              </div>
+              <span className="w-12 text-right tabular-nums">{count}</span>
+              <span className="w-14 text-right tabular-nums">{formatPercent(frequency)}</span>
+              <span className="w-14 text-right tabular-nums text-muted-foreground">
+                {probability !== null ? formatPercent(probability) : '—'}
+              </span>
+            </div>
+          ))}
+          {outcomeCount > rows.length && (
+            <div className="pt-1 text-xs text-muted-foreground">
+              Showing the {rows.length} most likely of {outcomeCount} outcomes.
+            </div>
+          )}
+          {result.shots < requestedShots && (
+            <div className="pt-1 text-xs text-muted-foreground">
+              Ran {result.shots} of {requestedShots} shots: every shot re-simulates the circuit after its first measurement, which is too slow for more at this size.
+            </div>
+          )}
+          {result.probabilities === null && (
+            <div className="pt-1 text-xs text-muted-foreground">
+              Too many measurement branches or outcomes to compute exact probabilities.
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { StatsPanel } from './StatsPanel';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+describe('StatsPanel', () => {
+  it('should show a summary when collapsed and the full metrics when expanded', () => {
+    const grid = createGrid(3, 3);
+    grid[0][0].gate = GateType.H;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.CX;
+    grid[1][2].gate = GateType.T;
+    render(<StatsPanel grid={grid} timeParameter={0} />);
+
+    expect(screen.getByText('depth 3 · 1 CNOT')).toBeTruthy();
+    expect(screen.queryByText('T-count')).toBeNull();
+
+    fireEvent.click(screen.getByRole('button', { name: /Stats/ }));
+    expect(screen.getByText('T-count').nextSibling?.textContent).toBe('1');
+    expect(screen.getByText('Width').nextSibling?.textContent).toBe('2');
+    expect(screen.getByText('CNOT count').nextSibling?.textContent).toBe('1');
+    expect(screen.getByText('Hadamard')).toBeTruthy();
+  });
+});
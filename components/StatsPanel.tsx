@@ -0,0 +1,85 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { CircuitGrid, GateType, isControlGate } from '../types';
+import { GATE_DEFS } from '../constants';
+import { getCircuitMetrics } from '../utils/circuitMetrics';
+
+interface StatsPanelProps {
+  grid: CircuitGrid;
+  timeParameter: number;
+}
+
+/** Collapsible summary of circuit cost: depth, width, T-count, CNOT count and gates per type */
+export const StatsPanel: React.FC<StatsPanelProps> = ({ grid, timeParameter }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const metrics = useMemo(() => getCircuitMetrics(grid, timeParameter), [grid, timeParameter]);
+
+  // Gates per type, most frequent first; controls are listed after the gates they control
+  const gateCounts = (Object.entries(metrics.gateCounts) as [GateType, number][])
+    .sort(([typeA, countA], [typeB, countB]) =>
+      Number(isControlGate(typeA)) - Number(isControlGate(typeB)) || countB - countA
+    );
+
+  const rows: { label: string; value: string; title?: string }[] = [
+    { label: 'Depth', value: String(metrics.depth), title: 'Columns with a gate, not counting visualization gates' },
+    { label: 'Width', value: String(metrics.width), title: 'Wires with at least one gate' },
+    { label: 'T-count', value: String(metrics.tCount), title: 'T gates and RZ at odd multiples of π/4' },
+    {
+      label: 'CNOT count',
+      value: metrics.cnotCount === null ? '—' : String(metrics.cnotCount),
+      title: metrics.cnotCount === null
+        ? 'Arithmetic, input and classically controlled gates have no CNOT decomposition'
+        : 'CX gates after decomposing controls, as in a transpile to CX, RZ, SX, X',
+    },
+  ];
+
+  return (
+    <div className="bg-background/90 border border-foreground/30 rounded-lg shadow-lg text-sm">
+      <button
+        onClick={() => setIsExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between gap-3 px-3 py-2 font-bold uppercase"
+        aria-expanded={isExpanded}
+        title={isExpanded ? 'Hide circuit stats' : 'Show circuit stats'}
+      >
+        <span>Stats</span>
+        {!isExpanded && (
+          <span className="text-xs text-muted-foreground normal-case font-normal">
+            depth {metrics.depth} · {metrics.cnotCount ?? '—'} CNOT
+          </span>
+        )}
+        {isExpanded ? <ChevronDown size={16} /> : <ChevronUp size={16} />}
+      </button>
+
+      {isExpanded && (
+        <div className="px-3 pb-2 border-t border-foreground/30 max-h-64 overflow-y-auto" style={{ minWidth: 200 }}>
+          <table className="w-full mt-2">
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label} title={row.title}>
+                  <td className="pr-3 text-muted-foreground">{row.label}</td>
+                  <td className="text-right font-mono font-bold">{row.value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="mt-2 pt-2 border-t border-foreground/30 text-xs text-muted-foreground uppercase">Gates</div>
+          {gateCounts.length === 0 ? (
+            <div className="text-xs text-muted-foreground">No gates</div>
+          ) : (
+            <table className="w-full">
+              <tbody>
+                {gateCounts.map(([type, count]) => (
+                  <tr key={type}>
+                    <td className="pr-3">{GATE_DEFS[type]?.fullName ?? type}</td>
+                    <td className="text-right font-mono">{count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
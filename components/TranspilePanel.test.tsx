@@ -0,0 +1,61 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TranspilePanel } from './TranspilePanel';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** A Toffoli on rows 0-2 */
+const toffoliGrid = (): CircuitGrid => {
+  const grid = createGrid(4, 2);
+  grid[0][0].gate = GateType.CONTROL;
+  grid[1][0].gate = GateType.CONTROL;
+  grid[2][0].gate = GateType.CCX;
+  return grid;
+};
+
+describe('TranspilePanel', () => {
+  it('should show the verified result next to the original and hand it back', () => {
+    const onReplace = vi.fn();
+    const onOpenAsNew = vi.fn();
+    render(
+      <TranspilePanel
+        isOpen
+        onClose={vi.fn()}
+        grid={toffoliGrid()}
+        timeParameter={0}
+        onReplace={onReplace}
+        onOpenAsNew={onOpenAsNew}
+      />
+    );
+
+    expect(screen.getByText('Equivalent')).toBeTruthy();
+    expect(screen.getByText('6 two-qubit gates in CX, RZ, SX, X')).toBeTruthy();
+    expect(screen.getByRole('img', { name: 'Original circuit' })).toBeTruthy();
+    expect(screen.getByRole('img', { name: 'Transpiled circuit' })).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Basis gate set'), { target: { value: 'cz-rx-ry' } });
+    expect(screen.getByText('6 two-qubit gates in CZ, RX, RY')).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Open as new circuit'));
+    expect(onOpenAsNew).toHaveBeenCalledWith(expect.any(Array), 'CZ, RX, RY');
+    fireEvent.click(screen.getByText('Replace circuit'));
+    const replaced: CircuitGrid = onReplace.mock.calls[0][0];
+    expect(replaced).toHaveLength(4);
+    expect(replaced.flat().filter(cell => cell.gate === GateType.CZ)).toHaveLength(6);
+  });
+
+  it('should explain why a circuit cannot be transpiled', () => {
+    const grid = createGrid(2, 1);
+    grid[0][0].gate = GateType.CLASSICAL_CONTROL;
+    grid[1][0].gate = GateType.X;
+    render(
+      <TranspilePanel isOpen onClose={vi.fn()} grid={grid} timeParameter={0} onReplace={vi.fn()} onOpenAsNew={vi.fn()} />
+    );
+    expect(screen.getByText(/has no decomposition into basis gates/)).toBeTruthy();
+    expect(screen.queryByText('Replace circuit')).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Check } from 'lucide-react';
+import { CircuitGrid, GateType } from '../types';
+import { GATE_DEFS } from '../constants';
+import { transpileCircuit, BASIS_GATE_SETS, BasisGateSet } from '../utils/transpiler';
+import { formatAngle } from '../utils/angleParser';
+
+const PANEL_WIDTH = 720;
+/** Size of one gate slot in the circuit previews */
+const PREVIEW_CELL = 26;
+const PREVIEW_LABEL_WIDTH = 28;
+
+interface TranspilePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The circuit being edited */
+  grid: CircuitGrid;
+  timeParameter: number;
+  /** Replace the circuit with the transpiled one (undoable) */
+  onReplace: (grid: CircuitGrid) => void;
+  /** Open the transpiled circuit as a new workspace document */
+  onOpenAsNew: (grid: CircuitGrid, basisName: string) => void;
+}
+
+interface CircuitPreviewProps {
+  title: string;
+  grid: CircuitGrid;
+  numRows: number;
+}
+
+/** Indices of columns with at least one gate */
+const getUsedColumns = (grid: CircuitGrid): number[] =>
+  Array.from({ length: grid[0]?.length ?? 0 }, (_, col) => col)
+    .filter(col => grid.some(row => row[col]?.gate !== null));
+
+/** Read-only drawing of a circuit: wires, boxes with gate labels, and control lines */
+const CircuitPreview: React.FC<CircuitPreviewProps> = ({ title, grid, numRows }) => {
+  const columns = getUsedColumns(grid);
+  const width = PREVIEW_LABEL_WIDTH + Math.max(1, columns.length) * PREVIEW_CELL;
+  const height = numRows * PREVIEW_CELL;
+  const centerY = (row: number) => row * PREVIEW_CELL + PREVIEW_CELL / 2;
+
+  return (
+    <div className="flex-1 min-w-0">
+      <div className="pb-1 text-xs text-muted-foreground">
+        {title} · {columns.length} column{columns.length === 1 ? '' : 's'}
+      </div>
+      <div className="overflow-x-auto border border-border">
+        <svg width={width} height={height} className="text-foreground" role="img" aria-label={`${title} circuit`}>
+          {Array.from({ length: numRows }, (_, row) => (
+            <g key={`wire-${row}`}>
+              <text x={4} y={centerY(row) + 4} fontSize={10} fill="currentColor" opacity={0.6}>q{row}</text>
+              <line x1={PREVIEW_LABEL_WIDTH} x2={width} y1={centerY(row)} y2={centerY(row)} stroke="currentColor" opacity={0.4} />
+            </g>
+          ))}
+          {columns.map((col, index) => {
+            const x = PREVIEW_LABEL_WIDTH + index * PREVIEW_CELL + PREVIEW_CELL / 2;
+            const rows = grid.map((row, r) => (r < numRows && row[col].gate !== null ? r : -1)).filter(r => r >= 0);
+            const hasControl = rows.some(r => grid[r][col].gate === GateType.CONTROL || grid[r][col].gate === GateType.ANTI_CONTROL);
+            return (
+              <g key={`col-${col}`}>
+                {hasControl && rows.length > 1 && (
+                  <line x1={x} x2={x} y1={centerY(rows[0])} y2={centerY(rows[rows.length - 1])} stroke="currentColor" />
+                )}
+                {rows.map(r => {
+                  const { gate, params } = grid[r][col];
+                  if (gate === null || params?.isSpanContinuation) return null;
+                  const y = centerY(r);
+                  const angle = params?.angle !== undefined ? `(${formatAngle(params.angle)})` : '';
+                  const name = `${GATE_DEFS[gate]?.fullName ?? gate}${angle} on q${r}`;
+                  if (gate === GateType.CONTROL || gate === GateType.CZ) {
+                    return <circle key={r} cx={x} cy={y} r={4} fill="currentColor"><title>{name}</title></circle>;
+                  }
+                  if (gate === GateType.ANTI_CONTROL) {
+                    return <circle key={r} cx={x} cy={y} r={4} className="fill-background" stroke="currentColor"><title>{name}</title></circle>;
+                  }
+                  if (gate === GateType.CX) {
+                    return (
+                      <g key={r}>
+                        <title>{name}</title>
+                        <circle cx={x} cy={y} r={8} fill="none" stroke="currentColor" />
+                        <line x1={x - 8} x2={x + 8} y1={y} y2={y} stroke="currentColor" />
+                        <line x1={x} x2={x} y1={y - 8} y2={y + 8} stroke="currentColor" />
+                      </g>
+                    );
+                  }
+                  // Spanning gates draw one box over their rows
+                  const span = params?.reverseSpan;
+                  const top = span ? span.startRow : r;
+                  const bottom = span ? Math.min(span.endRow, numRows - 1) : r;
+                  const boxHeight = (bottom - top) * PREVIEW_CELL + PREVIEW_CELL - 6;
+                  return (
+                    <g key={r}>
+                      <title>{name}</title>
+                      <rect
+                        x={x - PREVIEW_CELL / 2 + 2}
+                        y={centerY(top) - PREVIEW_CELL / 2 + 3}
+                        width={PREVIEW_CELL - 4}
+                        height={boxHeight}
+                        className="fill-background"
+                        stroke="currentColor"
+                      />
+                      <text
+                        x={x}
+                        y={(centerY(top) + centerY(bottom)) / 2 + 4}
+                        fontSize={10}
+                        textAnchor="middle"
+                        fill="currentColor"
+                      >
+                        {GATE_DEFS[gate]?.label ?? gate}
+                      </text>
+                    </g>
+                  );
+                })}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+export const TranspilePanel: React.FC<TranspilePanelProps> = ({
+  isOpen,
+  onClose,
+  grid,
+  timeParameter,
+  onReplace,
+  onOpenAsNew,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [basis, setBasis] = useState<BasisGateSet>(BASIS_GATE_SETS[0].id);
+  const basisName = BASIS_GATE_SETS.find(set => set.id === basis)?.name ?? basis;
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#transpile-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const transpiled = useMemo(() => {
+    if (!isOpen) return null;
+    try {
+      return { result: transpileCircuit(grid, basis, timeParameter), error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : 'Could not transpile the circuit' };
+    }
+  }, [isOpen, grid, basis, timeParameter]);
+
+  if (!isOpen || !transpiled) return null;
+
+  const { result, error } = transpiled;
+  // Both previews show the wires down to the last one either circuit uses
+  const lastUsedRow = Math.max(
+    -1,
+    ...[grid, result?.grid ?? []].flatMap(g => g.map((row, r) => (row.some(cell => cell.gate !== null) ? r : -1)))
+  );
+  const numRows = lastUsedRow + 1;
+  const twoQubitGates = result
+    ? result.grid.flat().filter(cell => cell.gate === GateType.CX || cell.gate === GateType.CZ).length
+    : 0;
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxWidth: '95vw', maxHeight: '80vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Transpile</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close transpile panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Basis */}
+      <div className="px-3 py-2 border-b border-border flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Basis</span>
+        <select
+          value={basis}
+          onChange={(e) => setBasis(e.target.value as BasisGateSet)}
+          className="px-1 py-0.5 bg-background border border-foreground"
+          aria-label="Basis gate set"
+        >
+          {BASIS_GATE_SETS.map(set => (
+            <option key={set.id} value={set.id}>{set.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {error || !result ? (
+        <div className="px-3 py-4 text-sm text-red-400">{error}</div>
+      ) : (
+        <>
+          {/* Verification */}
+          <div className="px-3 py-2 border-b border-border text-sm">
+            {result.verification?.equivalent ? (
+              <div className="flex items-center gap-2">
+                <Check size={16} className="text-green-400" />
+                <span>
+                  <span className="font-bold">Equivalent</span>
+                  <span className="text-muted-foreground"> to the original, checked by unitary (up to global phase)</span>
+                </span>
+              </div>
+            ) : result.verification ? (
+              <div className="flex items-center gap-2 text-red-400">
+                <X size={16} />
+                <span className="font-bold">Not equivalent to the original</span>
+              </div>
+            ) : (
+              <div className="text-muted-foreground">Not verified: {result.verificationError}</div>
+            )}
+            <div className="pt-1 text-xs text-muted-foreground">
+              {twoQubitGates} two-qubit gate{twoQubitGates === 1 ? '' : 's'} in {basisName}
+            </div>
+          </div>
+
+          {/* Side by side */}
+          <div className="px-3 py-2 flex gap-3">
+            <CircuitPreview title="Original" grid={grid} numRows={numRows} />
+            <CircuitPreview title="Transpiled" grid={result.grid} numRows={numRows} />
+          </div>
+
+          {/* Actions */}
+          <div className="px-3 py-2 border-t border-border flex gap-2 justify-end">
+            <button
+              onClick={() => onOpenAsNew(result.grid, basisName)}
+              className="px-3 py-1 border-2 border-foreground text-sm font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+            >
+              Open as new circuit
+            </button>
+            <button
+              onClick={() => onReplace(result.grid)}
+              className="px-3 py-1 border-2 border-foreground text-sm font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+            >
+              Replace circuit
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { UnitaryPanel } from './UnitaryPanel';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const renderPanel = (grid: CircuitGrid) =>
+  render(<UnitaryPanel isOpen onClose={vi.fn()} grid={grid} timeParameter={0} />);
+
+describe('UnitaryPanel', () => {
+  it('should draw the matrix and name a known gate', () => {
+    const grid = createGrid(2, 2);
+    grid[0][0].gate = GateType.CONTROL;
+    grid[1][0].gate = GateType.X;
+
+    const { container } = renderPanel(grid);
+
+    expect(screen.getByText('CX (control q0, target q1)')).toBeTruthy();
+    expect(container.querySelectorAll('.unitary-matrix svg')).toHaveLength(16);
+    expect(screen.getByTitle('⟨11|U|10⟩ = 1')).toBeTruthy();
+  });
+
+  it('should show the global phase of a match', () => {
+    const grid = createGrid(1, 1);
+    grid[0][0] = { gate: GateType.RZ, id: 'cell-0-0', params: { angle: Math.PI } };
+
+    renderPanel(grid);
+
+    expect(screen.getByText('Z on q0')).toBeTruthy();
+    expect(screen.getByText(/up to global phase e\^\(i·-π\/2\)/)).toBeTruthy();
+  });
+
+  it('should build the matrix of a column range', () => {
+    const grid = createGrid(2, 2);
+    grid[0][0].gate = GateType.H;
+    grid[1][1].gate = GateType.MEASURE;
+
+    renderPanel(grid);
+    expect(screen.getByText('Measure in column 2 is not unitary')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Last column'), { target: { value: '1' } });
+    expect(screen.getByText('H on q0')).toBeTruthy();
+  });
+});
@@ -0,0 +1,211 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X } from 'lucide-react';
+import { CircuitGrid } from '../types';
+import { buildCircuitUnitary, identifyKnownGate } from '../utils/quantum';
+import { formatComplex } from '../utils/complexParser';
+import { formatAngle } from '../utils/angleParser';
+import { AmplitudeCell } from './AmplitudeGrid';
+
+const PANEL_WIDTH = 460;
+/** Width available to the matrix cells */
+const MATRIX_WIDTH = 400;
+const MAX_CELL_SIZE = 40;
+/** Matrices up to this many rows get basis-state labels */
+const MAX_LABELED_DIM = 16;
+
+interface UnitaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  grid: CircuitGrid;
+  timeParameter: number;
+}
+
+const toBinaryLabel = (value: number, numBits: number): string =>
+  numBits === 0 ? '' : value.toString(2).padStart(numBits, '0');
+
+export const UnitaryPanel: React.FC<UnitaryPanelProps> = ({
+  isOpen,
+  onClose,
+  grid,
+  timeParameter,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const numCols = grid[0]?.length ?? 0;
+  // 1-indexed column range; null shows the whole circuit
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null);
+  const start = range ? Math.min(range.start, numCols) : 1;
+  const end = range ? Math.min(range.end, numCols) : numCols;
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#unitary-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const built = useMemo(() => {
+    if (!isOpen) return null;
+    try {
+      const unitary = buildCircuitUnitary(grid, start - 1, end - 1, timeParameter);
+      return { unitary, match: identifyKnownGate(unitary), error: null };
+    } catch (error) {
+      return { unitary: null, match: null, error: error instanceof Error ? error.message : 'Could not build the unitary' };
+    }
+  }, [isOpen, grid, start, end, timeParameter]);
+
+  if (!isOpen || !built) return null;
+
+  const inputClass = "w-16 px-1 bg-background border border-foreground text-base font-bold";
+  const { unitary, match, error } = built;
+  const numQubits = unitary?.rows.length ?? 0;
+  const dim = 1 << numQubits;
+  const labeled = dim <= MAX_LABELED_DIM;
+  const cellSize = Math.max(4, Math.min(MAX_CELL_SIZE, Math.floor(MATRIX_WIDTH / dim)));
+  const labelWidth = labeled ? Math.max(16, numQubits * 8) : 0;
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxHeight: '80vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Unitary</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close unitary panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {/* Column range */}
+      <div className="px-3 py-2 border-b border-border flex items-center gap-3 text-sm">
+        <label className="flex items-center gap-1">
+          <span className="text-muted-foreground">Columns</span>
+          <input
+            type="number"
+            min={1}
+            max={numCols}
+            value={start}
+            onChange={(e) => {
+              const value = Math.max(1, Math.min(numCols, Math.floor(Number(e.target.value) || 1)));
+              setRange({ start: value, end: Math.max(value, end) });
+            }}
+            className={inputClass}
+            aria-label="First column"
+          />
+        </label>
+        <span className="text-muted-foreground">to</span>
+        <input
+          type="number"
+          min={1}
+          max={numCols}
+          value={end}
+          onChange={(e) => {
+            const value = Math.max(1, Math.min(numCols, Math.floor(Number(e.target.value) || 1)));
+            setRange({ start: Math.min(start, value), end: value });
+          }}
+          className={inputClass}
+          aria-label="Last column"
+        />
+        {range && (
+          <button
+            onClick={() => setRange(null)}
+            className="ml-auto px-2 py-1 border-2 border-foreground font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+            title="Show the whole circuit"
+          >
+            All
+          </button>
+        )}
+      </div>
+
+      {error || !unitary ? (
+        <div className="px-3 py-4 text-sm text-red-400">{error}</div>
+      ) : (
+        <div className="px-3 py-2">
+          {/* Known gate */}
+          <div className="pb-2 text-sm">
+            {match ? (
+              <span>
+                Equals <span className="font-bold">{match.name}</span>
+                {Math.abs(match.globalPhase) > 1e-9 && (
+                  <span className="text-muted-foreground"> up to global phase e^(i·{formatAngle(match.globalPhase)})</span>
+                )}
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Not a known gate</span>
+            )}
+          </div>
+          <div className="pb-1 text-xs text-muted-foreground">
+            {numQubits === 0
+              ? 'No gates in this range.'
+              : `${dim}×${dim} on q${unitary.rows.join(' q')} · row = output, column = input`}
+          </div>
+
+          {/* Matrix */}
+          {numQubits > 0 && (
+            <div className="unitary-matrix">
+              {labeled && (
+                <div className="flex" style={{ paddingLeft: labelWidth }}>
+                  {Array.from({ length: dim }, (_, col) => (
+                    <div
+                      key={`col-${col}`}
+                      className="text-muted-foreground font-mono text-center"
+                      style={{ width: cellSize, fontSize: Math.max(8, cellSize * 0.25) }}
+                    >
+                      {toBinaryLabel(col, numQubits)}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {unitary.matrix.map((entries, row) => (
+                <div key={`row-${row}`} className="flex items-center">
+                  {labeled && (
+                    <div
+                      className="text-muted-foreground font-mono text-right pr-1"
+                      style={{ width: labelWidth, fontSize: Math.max(8, cellSize * 0.25) }}
+                    >
+                      {toBinaryLabel(row, numQubits)}
+                    </div>
+                  )}
+                  {entries.map((entry, col) => (
+                    <div
+                      key={`cell-${row}-${col}`}
+                      title={`⟨${toBinaryLabel(row, numQubits)}|U|${toBinaryLabel(col, numQubits)}⟩ = ${formatComplex(entry)}`}
+                    >
+                      <AmplitudeCell amplitude={entry} size={cellSize} basisIndex={row} numQubits={numQubits} />
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          {unitary.warnings.length > 0 && (
+            <div className="pt-2 text-xs text-yellow-400">
+              {unitary.warnings.map((warning, i) => <div key={i}>{warning.message}</div>)}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { VariationalPanel } from './VariationalPanel';
+import { CircuitGrid, CircuitParameter, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** RY(θ) on q0 */
+const grid = createGrid(1, 1);
+grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: 'θ' } };
+
+const initialStates: never[] = [];
+
+/** Keeps the parameters in state, as the app does */
+const Harness: React.FC<{ initial: CircuitParameter[]; circuit?: CircuitGrid; onValues?: (p: CircuitParameter[]) => void }> = ({
+  initial,
+  circuit = grid,
+  onValues,
+}) => {
+  const [parameters, setParameters] = useState(initial);
+  return (
+    <VariationalPanel
+      isOpen
+      onClose={vi.fn()}
+      parameters={parameters}
+      onChange={(next) => {
+        setParameters(next);
+        onValues?.(next);
+      }}
+      grid={circuit}
+      initialStates={initialStates}
+      timeParameter={0}
+      canRun
+    />
+  );
+};
+
+describe('VariationalPanel', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should move the parameters every iteration and plot the cost', () => {
+    vi.useFakeTimers();
+    const onValues = vi.fn();
+    const other = { name: 'φ', value: 1, min: 0, max: 2 };
+    render(<Harness initial={[{ name: 'θ', value: 0.5, min: 0, max: 2 * Math.PI }, other]} onValues={onValues} />);
+
+    fireEvent.change(screen.getByLabelText('Optimizer'), { target: { value: 'parameter-shift' } });
+    fireEvent.click(screen.getByText('Start'));
+    expect(screen.getByText('Stop')).toBeTruthy();
+    expect(screen.getByRole('img', { name: '⟨Z⟩ per iteration' })).toBeTruthy();
+
+    act(() => {
+      vi.advanceTimersByTime(120);
+    });
+    const [theta, phi] = onValues.mock.calls[0][0];
+    expect(theta.value).toBeGreaterThan(0.5);
+    expect(phi).toEqual(other);
+
+    for (let i = 0; i < 200; i++) {
+      act(() => {
+        vi.advanceTimersByTime(120);
+      });
+    }
+    expect(screen.getByText('Start')).toBeTruthy();
+    expect(screen.getByText(/converged/)).toBeTruthy();
+    expect(onValues.mock.lastCall?.[0][0].value).toBeCloseTo(Math.PI, 2);
+  });
+
+  it('should explain when no gate uses a parameter', () => {
+    render(<Harness initial={[{ name: 'θ', value: 0, min: 0, max: 1 }]} circuit={createGrid(1, 1)} />);
+    expect(screen.getByText(/No gate angle uses a parameter/)).toBeTruthy();
+  });
+
+  it('should report invalid observables', () => {
+    render(<Harness initial={[{ name: 'θ', value: 0, min: 0, max: 1 }]} />);
+    fireEvent.change(screen.getByLabelText('Observable'), { target: { value: 'ZQ' } });
+    fireEvent.click(screen.getByText('Start'));
+    expect(screen.queryByText('Stop')).toBeNull();
+    expect(screen.getByText('Term "ZQ" needs a Pauli string of I, X, Y, Z')).toBeTruthy();
+    expect(screen.queryByRole('img')).toBeNull();
+  });
+});
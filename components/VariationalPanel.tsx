@@ -0,0 +1,289 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { X, Play, Square } from 'lucide-react';
+import { CircuitGrid, CircuitParameter, WireInitialState } from '../types';
+import { countParameterUses } from '../utils/circuitParameters';
+import { parseSweepQuantity, SweepQuantity } from '../utils/parameterSweep';
+import {
+  createVariationalOptimizer,
+  OptimizerMethod,
+  OPTIMIZER_METHODS,
+  VariationalIterate,
+  VariationalOptimizer,
+} from '../utils/variationalOptimizer';
+import { formatAngle } from '../utils/angleParser';
+import { LinePlot } from './LinePlot';
+
+const PANEL_WIDTH = 480;
+const DEFAULT_MAX_ITERATIONS = 100;
+const MAX_ITERATIONS = 1000;
+/** Pause between iterations, long enough for the circuit view to re-simulate each one */
+const ITERATION_INTERVAL_MS = 120;
+
+interface VariationalPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parameters: CircuitParameter[];
+  /** Replace the parameter list; called with new values after every iteration */
+  onChange: (parameters: CircuitParameter[]) => void;
+  /** The circuit being edited, with parameterized angles unbound */
+  grid: CircuitGrid;
+  initialStates: WireInitialState[];
+  timeParameter: number;
+  /** False while the circuit has validation errors */
+  canRun: boolean;
+}
+
+/** A run in progress or finished, with its cost history */
+interface OptimizationRun {
+  label: string;
+  /** Cost range for the plot */
+  yMin: number;
+  yMax: number;
+  /** Minimizing an expectation value or maximizing a probability */
+  goal: 'minimize' | 'maximize';
+  iterates: VariationalIterate[];
+}
+
+const formatValue = (value: number): string => Number(value.toFixed(4)).toString();
+
+export const VariationalPanel: React.FC<VariationalPanelProps> = ({
+  isOpen,
+  onClose,
+  parameters,
+  onChange,
+  grid,
+  initialStates,
+  timeParameter,
+  canRun,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [quantityKind, setQuantityKind] = useState<SweepQuantity['kind']>('expectation');
+  const [quantityText, setQuantityText] = useState('Z');
+  const [method, setMethod] = useState<OptimizerMethod>('nelder-mead');
+  const [maxIterations, setMaxIterations] = useState(DEFAULT_MAX_ITERATIONS);
+  const [run, setRun] = useState<OptimizationRun | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const optimizerRef = useRef<VariationalOptimizer | null>(null);
+  // Latest parameters, so iterations only change the optimized values
+  const parametersRef = useRef(parameters);
+  parametersRef.current = parameters;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  // A different circuit invalidates the run
+  useEffect(() => {
+    setIsRunning(false);
+    setRun(null);
+    setError(null);
+  }, [grid, initialStates]);
+
+  // One iteration per tick while running; each one moves the sliders and gate angles
+  useEffect(() => {
+    if (!isRunning) return;
+    const timeoutId = setTimeout(() => {
+      const optimizer = optimizerRef.current;
+      if (!optimizer) return;
+      try {
+        const iterate = optimizer.step();
+        onChangeRef.current(parametersRef.current.map(p =>
+          p.name in iterate.values ? { ...p, value: iterate.values[p.name] } : p
+        ));
+        setRun(prev => prev && { ...prev, iterates: [...prev.iterates, iterate] });
+        if (iterate.converged || iterate.iteration >= maxIterations) setIsRunning(false);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : 'Optimization failed');
+        setIsRunning(false);
+      }
+    }, ITERATION_INTERVAL_MS);
+    return () => clearTimeout(timeoutId);
+  }, [isRunning, run, maxIterations]);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#variational-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  const usedCount = useMemo(
+    () => parameters.filter(p => countParameterUses(grid, p.name) > 0).length,
+    [grid, parameters]
+  );
+
+  if (!isOpen) return null;
+
+  const handleStart = () => {
+    const parsed = parseSweepQuantity(quantityKind, quantityText);
+    if (!parsed.success) {
+      setError(parsed.error.message);
+      return;
+    }
+    const { quantity, label, min, max } = parsed.value;
+    try {
+      const optimizer = createVariationalOptimizer(grid, parameters, quantity, method, timeParameter, initialStates);
+      optimizerRef.current = optimizer;
+      setRun({
+        label,
+        yMin: min,
+        yMax: max,
+        goal: quantity.kind === 'probability' ? 'maximize' : 'minimize',
+        iterates: [optimizer.initial],
+      });
+      setError(null);
+      setIsRunning(!optimizer.initial.converged && maxIterations > 0);
+    } catch (e) {
+      setRun(null);
+      setError(e instanceof Error ? e.message : 'Could not start the optimizer');
+    }
+  };
+
+  const last = run?.iterates[run.iterates.length - 1];
+  const best = run && run.iterates.reduce((a, b) =>
+    (run.goal === 'minimize' ? b.value < a.value : b.value > a.value) ? b : a
+  );
+  const inputClass = "px-1 bg-background border border-foreground text-sm";
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxWidth: '95vw', maxHeight: '80vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Variational</span>
+        <button onClick={onClose} className="p-1 hover:bg-foreground/10 transition-colors" title="Close variational panel">
+          <X size={16} />
+        </button>
+      </div>
+
+      {usedCount === 0 ? (
+        <div className="px-3 py-3 text-sm text-muted-foreground">
+          No gate angle uses a parameter. Define parameters in the Parameters panel and use them in RX, RY or RZ angles, e.g. 2*θ.
+        </div>
+      ) : (
+        <div className="px-3 py-2 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={quantityKind}
+              onChange={(e) => {
+                const kind = e.target.value as SweepQuantity['kind'];
+                setQuantityKind(kind);
+                setQuantityText(kind === 'expectation' ? 'Z' : '0');
+              }}
+              className={inputClass}
+              aria-label="Cost"
+              disabled={isRunning}
+            >
+              <option value="expectation">Minimize ⟨O⟩</option>
+              <option value="probability">Maximize P(outcome)</option>
+            </select>
+            <input
+              value={quantityText}
+              onChange={(e) => setQuantityText(e.target.value)}
+              className={`${inputClass} w-28 font-mono`}
+              aria-label={quantityKind === 'expectation' ? 'Observable' : 'Outcome'}
+              title={quantityKind === 'expectation'
+                ? 'Pauli sum, letter k on wire k, e.g. ZZ or 0.5*XI - YY'
+                : 'Bitstring over the measured wires (every used wire when nothing is measured), top first'}
+              disabled={isRunning}
+            />
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as OptimizerMethod)}
+              className={inputClass}
+              aria-label="Optimizer"
+              disabled={isRunning}
+            >
+              {OPTIMIZER_METHODS.map(m => <option key={m.id} value={m.id} title={m.description}>{m.name}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center gap-2 pt-2">
+            <label className="flex items-center gap-1">
+              <span className="text-muted-foreground">Iterations</span>
+              <input
+                type="number"
+                min={1}
+                max={MAX_ITERATIONS}
+                value={maxIterations}
+                onChange={(e) => setMaxIterations(Math.max(1, Math.min(MAX_ITERATIONS, Math.floor(Number(e.target.value)) || 1)))}
+                className={`${inputClass} w-16`}
+              />
+            </label>
+            <span className="text-xs text-muted-foreground">
+              over {usedCount} parameter{usedCount === 1 ? '' : 's'}
+            </span>
+            {isRunning ? (
+              <button
+                onClick={() => setIsRunning(false)}
+                className="ml-auto flex items-center gap-1 px-2 py-0.5 border-2 border-foreground font-bold uppercase hover:bg-foreground hover:text-background transition-colors"
+              >
+                <Square size={14} />
+                <span>Stop</span>
+              </button>
+            ) : (
+              <button
+                onClick={handleStart}
+                disabled={!canRun}
+                className={`ml-auto flex items-center gap-1 px-2 py-0.5 border-2 font-bold uppercase transition-colors ${
+                  canRun
+                    ? 'border-foreground hover:bg-foreground hover:text-background'
+                    : 'border-foreground/30 text-foreground/30 cursor-not-allowed'
+                }`}
+                title={canRun ? 'Optimize from the current parameter values' : 'Fix circuit errors first'}
+              >
+                <Play size={14} />
+                <span>Start</span>
+              </button>
+            )}
+          </div>
+
+          {error && <div className="pt-2 text-xs text-red-400">{error}</div>}
+          {run && last && best && (
+            <div className="pt-2">
+              <div className="pb-1 text-xs text-muted-foreground">
+                Iteration {last.iteration}: {run.label} = {formatValue(last.value)} · {last.evaluations} circuit evaluations
+                {last.converged && ' · converged'}
+              </div>
+              <LinePlot
+                points={run.iterates.map(it => ({ x: it.iteration, y: it.value }))}
+                yMin={run.yMin}
+                yMax={run.yMax}
+                label={`${run.label} per iteration`}
+                xLabel="iteration"
+              />
+              <div className="pt-1 text-xs">
+                Best {run.label} = {formatValue(best.value)} at{' '}
+                <span className="font-mono">
+                  {Object.keys(best.values).map(name => `${name} = ${formatAngle(best.values[name])}`).join(', ')}
+                </span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { X, Plus, Pencil, Copy, Trash2 } from 'lucide-react';
+import { WorkspaceDocument } from '../hooks/useWorkspace';
+
+const PANEL_WIDTH = 340;
+
+interface WorkspacePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documents: WorkspaceDocument[];
+  activeId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const WorkspacePanel: React.FC<WorkspacePanelProps> = ({
+  isOpen,
+  onClose,
+  documents,
+  activeId,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const panelRef = useRef<HTMLDivElement>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [confirmingDeleteId, setConfirmingDeleteId] = useState<string | null>(null);
+
+  // Reset inline editing when the panel closes
+  useEffect(() => {
+    if (!isOpen) {
+      setRenamingId(null);
+      setConfirmingDeleteId(null);
+    }
+  }, [isOpen]);
+
+  // Close on Escape (unless renaming, where Escape cancels the edit)
+  useEffect(() => {
+    if (!isOpen || renamingId) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, renamingId, onClose]);
+
+  // Close on click outside
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        panelRef.current &&
+        !panelRef.current.contains(target) &&
+        !target.closest('#workspace-header-btn')
+      ) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleMouseDown);
+    return () => document.removeEventListener('mousedown', handleMouseDown);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const startRename = (doc: WorkspaceDocument) => {
+    setConfirmingDeleteId(null);
+    setRenamingId(doc.id);
+    setDraftName(doc.file.metadata.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId) onRename(renamingId, draftName);
+    setRenamingId(null);
+  };
+
+  const iconButtonClass = "p-1 hover:bg-foreground/10 transition-colors";
+
+  return (
+    <div
+      ref={panelRef}
+      className="absolute top-full right-0 z-30 border-2 border-foreground bg-background overflow-y-auto"
+      style={{ width: PANEL_WIDTH, maxHeight: '70vh' }}
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b-2 border-foreground sticky top-0 bg-background z-10 flex items-center justify-between">
+        <span className="text-lg font-bold text-foreground uppercase">Workspace</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onCreate} className={iconButtonClass} title="New circuit">
+            <Plus size={16} />
+          </button>
+          <button onClick={onClose} className={iconButtonClass} title="Close workspace">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {/* Documents */}
+      {documents.map((doc) => {
+        const isActive = doc.id === activeId;
+        const isConfirmingDelete = confirmingDeleteId === doc.id;
+        return (
+          <div
+            key={doc.id}
+            className={`px-3 py-2 border-b border-border flex items-center gap-2 ${
+              isActive ? 'bg-accent/20' : 'hover:bg-accent/10'
+            }`}
+          >
+            {renamingId === doc.id ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="flex-1 min-w-0 px-1 bg-background border border-foreground text-base font-bold"
+                aria-label="Circuit name"
+              />
+            ) : (
+              <button
+                onClick={() => onOpen(doc.id)}
+                className="flex-1 min-w-0 text-left"
+                title={isActive ? 'Current circuit' : 'Open circuit'}
+              >
+                <div className="text-base font-bold text-foreground truncate">{doc.file.metadata.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  Edited {new Date(doc.updatedAt).toLocaleString()}
+                </div>
+              </button>
+            )}
+            <button onClick={() => startRename(doc)} className={iconButtonClass} title="Rename">
+              <Pencil size={14} />
+            </button>
+            <button onClick={() => onDuplicate(doc.id)} className={iconButtonClass} title="Duplicate">
+              <Copy size={14} />
+            </button>
+            <button
+              onClick={() => {
+                if (isConfirmingDelete) {
+                  onDelete(doc.id);
+                  setConfirmingDeleteId(null);
+                } else {
+                  setConfirmingDeleteId(doc.id);
+                }
+              }}
+              className={`${iconButtonClass} ${isConfirmingDelete ? 'text-red-300 bg-red-600/30' : 'text-red-400'}`}
+              title={isConfirmingDelete ? 'Click again to delete' : 'Delete'}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -190,6 +190,24 @@ export const GATE_DEFS: Partial<Record<GateType, GateDef>> = {
     qubits: 1,
     matrix: [[INV_SQRT2, INV_SQRT2], [INV_SQRT2, NEG_INV_SQRT2]] // Placeholder
   },
+  [GateType.CLASSICAL_CONTROL]: {
+    type: GateType.CLASSICAL_CONTROL,
+    label: 'c•',
+    fullName: 'Classical Ctrl',
+    description: 'Classical Control. Conditions on the last MEASURE result of this wire being 1.',
+    matrixLabel: 'I',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity, logic handles control
+  },
+  [GateType.CLASSICAL_ANTI_CONTROL]: {
+    type: GateType.CLASSICAL_ANTI_CONTROL,
+    label: 'c○',
+    fullName: 'Classical Anti-Ctrl',
+    description: 'Classical Anti-Control. Conditions on the last MEASURE result of this wire being 0.',
+    matrixLabel: 'I',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity, logic handles control
+  },
   [GateType.SWAP]: {
     type: GateType.SWAP,
     label: 'SWP',
@@ -517,6 +535,15 @@ export const GATE_DEFS: Partial<Record<GateType, GateDef>> = {
     qubits: 1,
     matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity placeholder
   },
+  [GateType.RESET]: {
+    type: GateType.RESET,
+    label: '|0⟩',
+    fullName: 'Reset',
+    description: 'Reset. Measures the qubit and flips it back to |0⟩ if the outcome was 1.',
+    matrixLabel: 'R',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity placeholder
+  },
   [GateType.CUSTOM]: {
     type: GateType.CUSTOM,
     label: 'U',
@@ -526,6 +553,24 @@ export const GATE_DEFS: Partial<Record<GateType, GateDef>> = {
     qubits: 1,
     matrix: [[ONE, ZERO], [ZERO, ONE]] // Placeholder, defined by user
   },
+  [GateType.CUSTOM_MULTI]: {
+    type: GateType.CUSTOM_MULTI,
+    label: 'U',
+    fullName: 'Custom (multi-qubit)',
+    description: 'Custom unitary on 2 to 4 qubits defined by user. Top row is the most significant bit.',
+    matrixLabel: 'U',
+    qubits: 2,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Placeholder, defined by user
+  },
+  [GateType.MACRO]: {
+    type: GateType.MACRO,
+    label: 'M',
+    fullName: 'Macro gate',
+    description: 'Named sub-circuit made from a selection. Double-click an instance to expand it inline.',
+    matrixLabel: 'M',
+    qubits: -1, // Variable: one per wire of the sub-circuit
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Computed at runtime from the sub-circuit
+  },
   [GateType.REVERSE]: {
     type: GateType.REVERSE,
     label: 'Rv',
@@ -830,9 +875,68 @@ export const GATE_DEFS: Partial<Record<GateType, GateDef>> = {
     matrixLabel: 'I',
     qubits: 1,
     matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity - no effect on state
+  },
+  [GateType.PAULI_VIS]: {
+    type: GateType.PAULI_VIS,
+    label: '⟨P⟩',
+    fullName: 'Pauli Expectation',
+    description: 'Displays the expectation value of a Pauli string (one of I, X, Y, Z per wire) at this circuit position, e.g. ⟨Z⊗Z⟩ for correlations.',
+    matrixLabel: 'I',
+    qubits: -1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Identity - no effect on state
+  },
+  // Noise channels (density-matrix simulation)
+  [GateType.DEPOLARIZE]: {
+    type: GateType.DEPOLARIZE,
+    label: 'Dep',
+    fullName: 'Depolarizing',
+    description: 'Depolarizing noise. With probability p the qubit is replaced by the maximally mixed state.',
+    matrixLabel: 'ε',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Not unitary - applied as Kraus channel
+  },
+  [GateType.AMPLITUDE_DAMP]: {
+    type: GateType.AMPLITUDE_DAMP,
+    label: 'AD',
+    fullName: 'Amplitude Damping',
+    description: 'Amplitude damping (T1). |1⟩ decays to |0⟩ with probability p.',
+    matrixLabel: 'ε',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Not unitary - applied as Kraus channel
+  },
+  [GateType.PHASE_DAMP]: {
+    type: GateType.PHASE_DAMP,
+    label: 'PD',
+    fullName: 'Phase Damping',
+    description: 'Phase damping (T2). Coherences shrink by √(1-p) without energy loss.',
+    matrixLabel: 'ε',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Not unitary - applied as Kraus channel
+  },
+  [GateType.BIT_FLIP]: {
+    type: GateType.BIT_FLIP,
+    label: 'BF',
+    fullName: 'Bit Flip',
+    description: 'Bit-flip noise. Applies X with probability p.',
+    matrixLabel: 'ε',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Not unitary - applied as Kraus channel
+  },
+  [GateType.PHASE_FLIP]: {
+    type: GateType.PHASE_FLIP,
+    label: 'PF',
+    fullName: 'Phase Flip',
+    description: 'Phase-flip noise. Applies Z with probability p.',
+    matrixLabel: 'ε',
+    qubits: 1,
+    matrix: [[ONE, ZERO], [ZERO, ONE]] // Not unitary - applied as Kraus channel
   }
 };
 
-export const INITIAL_ROWS = 8; // Always 8 rows (q0-q7)
+export const INITIAL_ROWS = 8; // New circuits start with 8 rows (q0-q7)
 export const INITIAL_COLS = 10;
-export const MAX_ROWS = 8;
+export const MAX_ROWS = 20; // 2^20 amplitudes; wires are added one at a time
+export const MAX_CUSTOM_GATE_QUBITS = 4; // Custom gate matrices go up to 16x16
+
+/** Strength p given to noise gates placed from the library */
+export const DEFAULT_NOISE_STRENGTH = 0.1;
@@ -1,4 +1,5 @@
 import { CircuitGrid, Cell, GateType, GateParams } from '../types';
+import { compactGrid } from '../utils/circuitOptimizer';
 
 export interface AlgorithmTemplate {
   id: string;
@@ -51,41 +52,6 @@ const createGrid = (
   return compactGrid(grid);
 };
 
-// Helper to remove empty columns from a grid
-const compactGrid = (grid: CircuitGrid): CircuitGrid => {
-  if (grid.length === 0 || grid[0].length === 0) return grid;
-
-  const numCols = grid[0].length;
-  const populatedCols: number[] = [];
-
-  // Find columns that have at least one gate
-  for (let c = 0; c < numCols; c++) {
-    const hasGate = grid.some(row => row[c]?.gate !== null);
-    if (hasGate) {
-      populatedCols.push(c);
-    }
-  }
-
-  if (populatedCols.length === numCols) {
-    // No empty columns to remove
-    return grid;
-  }
-
-  // Create new compacted grid
-  const newGrid: CircuitGrid = grid.map((row, rIdx) =>
-    populatedCols.map((oldCol, newCol) => {
-      const oldCell = row[oldCol];
-      // Update params that contain column references (reverseSpan refers to rows, not cols)
-      return {
-        ...oldCell,
-        id: `cell-${rIdx}-${newCol}`,
-      };
-    })
-  );
-
-  return newGrid;
-};
-
 // ============================================================================
 // ASCII Diagram Parser
 // ============================================================================
@@ -438,10 +404,10 @@ q1: H-X-H-X-X-X-H-M
       { row: 0, col: 3, gate: GateType.H },
       { row: 0, col: 4, gate: GateType.MEASURE },
       { row: 1, col: 4, gate: GateType.MEASURE },
-      // Conditional corrections on q2
-      { row: 1, col: 5, gate: GateType.CONTROL },
+      // Corrections on q2, conditioned on the measured bits
+      { row: 1, col: 5, gate: GateType.CLASSICAL_CONTROL },
       { row: 2, col: 5, gate: GateType.CX },
-      { row: 0, col: 6, gate: GateType.CONTROL },
+      { row: 0, col: 6, gate: GateType.CLASSICAL_CONTROL },
       { row: 2, col: 6, gate: GateType.CZ },
     ]),
   },
@@ -495,10 +461,12 @@ q1: X-H-X-H
     name: 'CZ from CNOTs',
     category: 'Gates',
     qubits: 2,
-    grid: gridFromAscii(`
-q0: --●--
-q1: H-X-H
-`, 2),
+    grid: createGrid(2, [
+      { row: 1, col: 0, gate: GateType.H },
+      { row: 0, col: 1, gate: GateType.CONTROL },
+      { row: 1, col: 1, gate: GateType.X },
+      { row: 1, col: 2, gate: GateType.H },
+    ]),
   },
   {
     id: 'toffoli-demo',
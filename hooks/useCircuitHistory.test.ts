@@ -469,6 +469,51 @@ describe('useCircuitHistory', () => {
     });
   });
 
+  describe('restoring history', () => {
+    it('should start from the provided undo/redo stacks', () => {
+      const initialGrid = createTestGrid(2, 2);
+      const before = placeGate(initialGrid, 0, 0, GateType.H);
+      const current = placeGate(before, 1, 1, GateType.X);
+      const after = placeGate(current, 0, 1, GateType.Z);
+
+      const { result } = renderHook(() =>
+        useCircuitHistory(current, 50, { past: [initialGrid, before], future: [after] })
+      );
+
+      expect(result.current.past).toEqual([initialGrid, before]);
+      expect(result.current.future).toEqual([after]);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.grid).toEqual(before);
+    });
+
+    it('should replace grid and stacks with restore', () => {
+      const initialGrid = createTestGrid(2, 2);
+      const { result } = renderHook(() => useCircuitHistory(initialGrid));
+
+      act(() => {
+        result.current.pushState(placeGate(initialGrid, 0, 0, GateType.H));
+      });
+
+      const restored = placeGate(initialGrid, 1, 0, GateType.Y);
+      const restoredPast = placeGate(initialGrid, 1, 1, GateType.Z);
+      act(() => {
+        result.current.restore({ grid: restored, past: [restoredPast], future: [] });
+      });
+
+      expect(result.current.grid).toEqual(restored);
+      expect(result.current.canRedo).toBe(false);
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.grid).toEqual(restoredPast);
+      expect(result.current.canUndo).toBe(false);
+    });
+  });
+
   describe('grid immutability', () => {
     it('should not allow mutations to affect internal state', () => {
       const initialGrid = createTestGrid(2, 2);
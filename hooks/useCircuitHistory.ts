@@ -24,6 +24,13 @@ const gridsEqual = (a: CircuitGrid, b: CircuitGrid): boolean => {
   return true;
 };
 
+/** Grid plus its undo/redo stacks, as saved and restored by the workspace */
+export interface CircuitHistorySnapshot {
+  grid: CircuitGrid;
+  past: CircuitGrid[];
+  future: CircuitGrid[];
+}
+
 export interface UseCircuitHistoryReturn {
   /** Current grid state */
   grid: CircuitGrid;
@@ -43,6 +50,12 @@ export interface UseCircuitHistoryReturn {
   canUndo: boolean;
   /** Whether redo is available */
   canRedo: boolean;
+  /** States available to undo, oldest first */
+  past: CircuitGrid[];
+  /** States available to redo, next first */
+  future: CircuitGrid[];
+  /** Replace grid and history wholesale (e.g. when switching documents) */
+  restore: (snapshot: CircuitHistorySnapshot) => void;
 }
 
 /**
@@ -50,17 +63,19 @@ export interface UseCircuitHistoryReturn {
  *
  * @param initialGrid - Initial grid state
  * @param maxHistory - Maximum number of history states to keep (default 50)
+ * @param initialHistory - Undo/redo stacks to start with (e.g. from autosave)
  */
 export function useCircuitHistory(
   initialGrid: CircuitGrid,
-  maxHistory: number = 50
+  maxHistory: number = 50,
+  initialHistory?: Pick<CircuitHistorySnapshot, 'past' | 'future'>
 ): UseCircuitHistoryReturn {
   // Current grid state
   const [grid, setGridInternal] = useState<CircuitGrid>(() => cloneGrid(initialGrid));
 
   // History stacks
-  const [past, setPast] = useState<CircuitGrid[]>([]);
-  const [future, setFuture] = useState<CircuitGrid[]>([]);
+  const [past, setPast] = useState<CircuitGrid[]>(() => (initialHistory?.past ?? []).slice(-maxHistory).map(cloneGrid));
+  const [future, setFuture] = useState<CircuitGrid[]>(() => (initialHistory?.future ?? []).slice(0, maxHistory).map(cloneGrid));
 
   // Snapshot for drag transactions
   const dragSnapshotRef = useRef<CircuitGrid | null>(null);
@@ -195,6 +210,17 @@ export function useCircuitHistory(
     });
   }, []);
 
+  /**
+   * restore: Replace the grid and both history stacks.
+   * Any pending drag snapshot is discarded.
+   */
+  const restore = useCallback((snapshot: CircuitHistorySnapshot) => {
+    dragSnapshotRef.current = null;
+    setGridInternal(cloneGrid(snapshot.grid));
+    setPast(snapshot.past.slice(-maxHistory).map(cloneGrid));
+    setFuture(snapshot.future.slice(0, maxHistory).map(cloneGrid));
+  }, [maxHistory]);
+
   return {
     grid,
     setGrid,
@@ -205,5 +231,8 @@ export function useCircuitHistory(
     redo,
     canUndo: past.length > 0,
     canRedo: future.length > 0,
+    past,
+    future,
+    restore,
   };
 }
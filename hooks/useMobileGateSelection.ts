@@ -20,10 +20,10 @@ export function useMobileGateSelection() {
 
   const selectFromLibrary = useCallback((type: GateType, params?: GateParams) => {
     setState(prev => {
-      // Toggle off if same gate tapped again (compare customLabel for CUSTOM gates)
+      // Toggle off if same gate tapped again (compare customLabel for custom gates)
       const isSameGate = prev.selectedGateType === type &&
         !prev.isMovingFromGrid &&
-        (type !== 'CUSTOM' || prev.selectedGateParams?.customLabel === params?.customLabel);
+        ((type !== 'CUSTOM' && type !== 'CUSTOM_MULTI' && type !== 'MACRO') || prev.selectedGateParams?.customLabel === params?.customLabel);
       if (isSameGate) {
         return INITIAL_STATE;
       }
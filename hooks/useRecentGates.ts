@@ -11,7 +11,7 @@ const MAX_RECENT = 8;
  * - Tracks last 8 gates placed on the circuit
  * - Persists to localStorage
  * - No duplicates (most recent placement moves to front)
- * - Excludes custom gates (GateType.CUSTOM)
+ * - Excludes custom gates (GateType.CUSTOM, GateType.CUSTOM_MULTI, GateType.MACRO)
  *
  * @returns Object with recentGates array and addRecentGate callback
  */
@@ -24,12 +24,14 @@ export function useRecentGates() {
       const parsed = JSON.parse(stored) as unknown;
       // Validate that parsed value is an array of strings
       if (!Array.isArray(parsed)) return [];
-      // Filter to only valid GateType values (excluding CUSTOM)
+      // Filter to only valid GateType values (excluding custom gates)
       return parsed.filter(
         (item): item is GateType =>
           typeof item === 'string' &&
           Object.values(GateType).includes(item as GateType) &&
-          item !== GateType.CUSTOM
+          item !== GateType.CUSTOM &&
+          item !== GateType.CUSTOM_MULTI &&
+          item !== GateType.MACRO
       );
     } catch {
       return [];
@@ -38,7 +40,7 @@ export function useRecentGates() {
 
   const addRecentGate = useCallback((gate: GateType) => {
     // Exclude custom gates
-    if (gate === GateType.CUSTOM) return;
+    if (gate === GateType.CUSTOM || gate === GateType.CUSTOM_MULTI || gate === GateType.MACRO) return;
 
     setRecentGates((prev) => {
       // Remove existing instance (if any) to avoid duplicates
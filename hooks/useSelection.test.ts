@@ -255,4 +255,59 @@ describe('useSelection', () => {
       expect(result.current.selectedCell).toEqual({ row: 3, col: 9 });
     });
   });
+
+  describe('extendSelection', () => {
+    it('should span the rectangle between the selected cell and the new one', () => {
+      const { result } = renderHook(() => useSelection(8, 10));
+
+      act(() => {
+        result.current.selectCell(3, 5);
+      });
+      act(() => {
+        result.current.extendSelection(1, 7);
+      });
+
+      expect(result.current.selectedCell).toEqual({ row: 3, col: 5 });
+      expect(result.current.selectionRange).toEqual({ startRow: 1, endRow: 3, startCol: 5, endCol: 7 });
+      expect(result.current.isSelected(2, 6)).toBe(true);
+      expect(result.current.isSelected(0, 6)).toBe(false);
+      expect(result.current.isSelected(2, 8)).toBe(false);
+    });
+
+    it('should select the cell when nothing is selected', () => {
+      const { result } = renderHook(() => useSelection(8, 10));
+
+      act(() => {
+        result.current.extendSelection(2, 2);
+      });
+
+      expect(result.current.selectedCell).toEqual({ row: 2, col: 2 });
+      expect(result.current.selectionRange).toBeNull();
+    });
+
+    it('should end the range on selectCell and clearSelection', () => {
+      const { result } = renderHook(() => useSelection(8, 10));
+
+      act(() => {
+        result.current.selectCell(0, 0);
+      });
+      act(() => {
+        result.current.extendSelection(2, 2);
+      });
+      act(() => {
+        result.current.selectCell(1, 1);
+      });
+      expect(result.current.selectionRange).toBeNull();
+      expect(result.current.isSelected(0, 0)).toBe(false);
+
+      act(() => {
+        result.current.extendSelection(2, 2);
+      });
+      act(() => {
+        result.current.clearSelection();
+      });
+      expect(result.current.selectedCell).toBeNull();
+      expect(result.current.selectionRange).toBeNull();
+    });
+  });
 });
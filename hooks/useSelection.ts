@@ -1,4 +1,5 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import type { GridRegion } from '../utils/macroGates';
 
 /**
  * Represents a selected cell in the circuit grid
@@ -9,13 +10,17 @@ export interface Selection {
 }
 
 export interface UseSelectionReturn {
-  /** Currently selected cell, or null if nothing selected */
+  /** Currently selected cell, or null if nothing selected; the anchor of a range */
   selectedCell: Selection | null;
-  /** Select a cell at the given row and column */
+  /** Rectangle from the selected cell to the cell it was extended to, or null for a single cell */
+  selectionRange: GridRegion | null;
+  /** Select a cell at the given row and column (ends any range) */
   selectCell: (row: number, col: number) => void;
+  /** Extend the selection from the selected cell to the given one (Shift+click) */
+  extendSelection: (row: number, col: number) => void;
   /** Clear the current selection */
   clearSelection: () => void;
-  /** Check if a cell at the given row and column is selected */
+  /** Check if a cell at the given row and column is selected (or inside the range) */
   isSelected: (row: number, col: number) => boolean;
 }
 
@@ -30,6 +35,7 @@ export function useSelection(
   maxCols: number
 ): UseSelectionReturn {
   const [selectedCell, setSelectedCell] = useState<Selection | null>(null);
+  const [rangeEnd, setRangeEnd] = useState<Selection | null>(null);
 
   /**
    * Select a cell at the given row and column.
@@ -41,26 +47,60 @@ export function useSelection(
       return;
     }
     setSelectedCell({ row, col });
+    setRangeEnd(null);
   }, [maxRows, maxCols]);
 
+  /**
+   * Extend the selection to a rectangle ending at the given cell.
+   * With nothing selected yet, this selects the cell.
+   */
+  const extendSelection = useCallback((row: number, col: number) => {
+    if (row < 0 || row >= maxRows || col < 0 || col >= maxCols) {
+      return;
+    }
+    if (!selectedCell) {
+      setSelectedCell({ row, col });
+      return;
+    }
+    setRangeEnd({ row, col });
+  }, [maxRows, maxCols, selectedCell]);
+
   /**
    * Clear the current selection.
    */
   const clearSelection = useCallback(() => {
     setSelectedCell(null);
+    setRangeEnd(null);
   }, []);
 
+  const selectionRange = useMemo((): GridRegion | null => {
+    if (!selectedCell || !rangeEnd) return null;
+    if (selectedCell.row === rangeEnd.row && selectedCell.col === rangeEnd.col) return null;
+    return {
+      startRow: Math.min(selectedCell.row, rangeEnd.row),
+      endRow: Math.max(selectedCell.row, rangeEnd.row),
+      startCol: Math.min(selectedCell.col, rangeEnd.col),
+      endCol: Math.max(selectedCell.col, rangeEnd.col),
+    };
+  }, [selectedCell, rangeEnd]);
+
   /**
    * Check if a cell at the given row and column is selected.
    */
   const isSelected = useCallback((row: number, col: number): boolean => {
+    if (selectionRange) {
+      return row >= selectionRange.startRow && row <= selectionRange.endRow &&
+        col >= selectionRange.startCol && col <= selectionRange.endCol;
+    }
     if (!selectedCell) return false;
     return selectedCell.row === row && selectedCell.col === col;
-  }, [selectedCell]);
+  }, [selectedCell, selectionRange]);
 
   return {
     selectedCell,
+    selectionRange,
     selectCell,
+    extendSelection,
     clearSelection,
     isSelected,
   };
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSimulationWorker } from './useSimulationWorker';
+import { SimulationRequest, SimulationWorkerRequest, SimulationWorkerResponse } from '../utils/simulationRunner';
+import { CircuitGrid, GateType } from '../types';
+
+const createRequest = (gate: GateType): SimulationRequest => {
+  const grid: CircuitGrid = [[{ gate, id: 'cell-0-0' }]];
+  return { engine: 'stateVector', grid, initialStates: [] };
+};
+
+/** Records posted requests; tests answer them with `respond` */
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  onmessage: ((event: MessageEvent<SimulationWorkerResponse>) => void) | null = null;
+  posted: SimulationWorkerRequest[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  postMessage(message: SimulationWorkerRequest) {
+    this.posted.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  respond(message: SimulationWorkerResponse) {
+    act(() => this.onmessage?.({ data: message } as MessageEvent<SimulationWorkerResponse>));
+  }
+
+  /** Answer a posted request with a minimal result */
+  complete(index = this.posted.length - 1) {
+    const { id } = this.posted[index];
+    this.respond({
+      type: 'result',
+      id,
+      response: {
+        engine: 'stateVector',
+        result: { finalState: new Float64Array(2), stateHistory: [], activeColumns: [], measurements: [], populatedRows: [id], warnings: [] },
+      },
+    });
+  }
+}
+
+const renderWorkerHook = () => {
+  const onResult = vi.fn();
+  const onError = vi.fn();
+  const hook = renderHook(() => useSimulationWorker({ onResult, onError }));
+  return { ...hook, onResult, onError };
+};
+
+describe('useSimulationWorker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    FakeWorker.instances = [];
+  });
+
+  describe('without Worker support', () => {
+    it('should run requests on the main thread', () => {
+      const { result, onResult } = renderWorkerHook();
+
+      act(() => result.current.run(createRequest(GateType.X)));
+
+      expect(onResult).toHaveBeenCalledTimes(1);
+      expect(onResult.mock.calls[0][0].result.populatedRows).toEqual([0]);
+      expect(result.current.isRunning).toBe(false);
+    });
+
+    it('should report engine errors', () => {
+      const { result, onError } = renderWorkerHook();
+      const grid: CircuitGrid = Array.from({ length: 9 }, (_, r) => [{ gate: GateType.H, id: `cell-${r}-0` }]);
+
+      act(() => result.current.run({ engine: 'densityMatrix', grid, noiseModel: null, initialStates: [] }));
+
+      expect(onError).toHaveBeenCalledWith('Noise simulation supports at most 8 qubits; this circuit uses 9');
+    });
+  });
+
+  describe('with a worker', () => {
+    it('should post requests and deliver results', () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { result, onResult } = renderWorkerHook();
+
+      act(() => result.current.run(createRequest(GateType.X)));
+      const [worker] = FakeWorker.instances;
+      expect(worker.posted).toEqual([{ type: 'run', id: 1, request: createRequest(GateType.X) }]);
+      expect(result.current.isRunning).toBe(true);
+
+      worker.respond({ type: 'progress', id: 1, completedColumns: 2, totalColumns: 5 });
+      expect(result.current.progress).toEqual({ completedColumns: 2, totalColumns: 5 });
+
+      worker.complete();
+      expect(onResult).toHaveBeenCalledTimes(1);
+      expect(result.current.isRunning).toBe(false);
+      expect(result.current.progress).toBeNull();
+    });
+
+    it('should cancel a running request in the same worker when a new one replaces it', () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { result, onResult } = renderWorkerHook();
+
+      act(() => result.current.run(createRequest(GateType.X)));
+      act(() => result.current.run(createRequest(GateType.Y)));
+
+      expect(FakeWorker.instances).toHaveLength(1);
+      const [worker] = FakeWorker.instances;
+      expect(worker.terminated).toBe(false);
+      expect(worker.posted.map(({ type, id }) => [type, id])).toEqual([['run', 1], ['cancel', 1], ['run', 2]]);
+
+      // A late answer from the cancelled run is ignored
+      worker.complete(0);
+      expect(onResult).not.toHaveBeenCalled();
+      worker.complete();
+      expect(onResult.mock.calls[0][0].result.populatedRows).toEqual([2]);
+    });
+
+    it('should queue only the latest request behind a running one', () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { result, onResult } = renderWorkerHook();
+
+      act(() => result.current.run(createRequest(GateType.X)));
+      act(() => result.current.run(createRequest(GateType.Y), 'queue'));
+      act(() => result.current.run(createRequest(GateType.Z), 'queue'));
+
+      const [worker] = FakeWorker.instances;
+      worker.complete();
+
+      expect(onResult).toHaveBeenCalledTimes(1);
+      expect(worker.posted).toEqual([
+        { type: 'run', id: 1, request: createRequest(GateType.X) },
+        { type: 'run', id: 2, request: createRequest(GateType.Z) },
+      ]);
+      expect(result.current.isRunning).toBe(true);
+    });
+
+    it('should drop the running and queued requests on cancel', () => {
+      vi.stubGlobal('Worker', FakeWorker);
+      const { result, onResult } = renderWorkerHook();
+
+      act(() => result.current.run(createRequest(GateType.X)));
+      act(() => result.current.run(createRequest(GateType.Y), 'queue'));
+      act(() => result.current.cancel());
+
+      const [worker] = FakeWorker.instances;
+      expect(worker.terminated).toBe(false);
+      expect(worker.posted.at(-1)).toEqual({ type: 'cancel', id: 1 });
+      expect(result.current.isRunning).toBe(false);
+      worker.complete(0);
+      expect(onResult).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  runSimulationRequest,
+  SimulationRequest,
+  SimulationResponse,
+  SimulationWorkerResponse,
+} from '../utils/simulationRunner';
+
+/** Columns simulated so far in the running request */
+export interface SimulationProgress {
+  completedColumns: number;
+  totalColumns: number;
+}
+
+/**
+ * How a new request treats one that is still running:
+ * - 'replace' cancels it (the circuit changed, so its result is stale)
+ * - 'queue' lets it finish and runs next; only the latest queued request is kept
+ *   (time animation, where every frame is a request)
+ */
+export type SimulationRunMode = 'replace' | 'queue';
+
+export interface UseSimulationWorkerOptions {
+  onResult: (response: SimulationResponse) => void;
+  onError: (message: string) => void;
+}
+
+export interface UseSimulationWorkerReturn {
+  run: (request: SimulationRequest, mode?: SimulationRunMode) => void;
+  /** Cancel the running request and drop any queued one */
+  cancel: () => void;
+  isRunning: boolean;
+  /** Progress of the running request; null until the worker reports (long runs only) */
+  progress: SimulationProgress | null;
+}
+
+const createSimulationWorker = (): Worker =>
+  new Worker(new URL('../utils/simulation.worker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Run simulations off the main thread.
+ *
+ * Cancelling asks the worker to drop the request, which it does at the end of
+ * the column in progress; the worker, and the column states it caches for the
+ * next run, survive. Without Worker support, requests run synchronously on the
+ * main thread.
+ */
+export function useSimulationWorker({ onResult, onError }: UseSimulationWorkerOptions): UseSimulationWorkerReturn {
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<SimulationProgress | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const nextIdRef = useRef(0);
+  // Id of the request in flight; messages for any other id are stale
+  const activeIdRef = useRef<number | null>(null);
+  const queuedRef = useRef<SimulationRequest | null>(null);
+
+  // Callbacks may change every render; the worker's message handler reads the latest
+  const handlersRef = useRef({ onResult, onError });
+  handlersRef.current = { onResult, onError };
+
+  const start = useCallback((request: SimulationRequest) => {
+    const id = ++nextIdRef.current;
+    activeIdRef.current = id;
+    setIsRunning(true);
+    setProgress(null);
+
+    if (typeof Worker === 'undefined') {
+      let response: SimulationResponse | null = null;
+      let errorMessage: string | null = null;
+      try {
+        response = runSimulationRequest(request);
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Simulation failed';
+      }
+      if (response) handlersRef.current.onResult(response);
+      else handlersRef.current.onError(errorMessage!);
+      finish(id);
+      return;
+    }
+
+    if (!workerRef.current) {
+      const worker = createSimulationWorker();
+      worker.onmessage = (event: MessageEvent<SimulationWorkerResponse>) => {
+        const message = event.data;
+        if (message.id !== activeIdRef.current) return;
+        switch (message.type) {
+          case 'progress':
+            setProgress({ completedColumns: message.completedColumns, totalColumns: message.totalColumns });
+            break;
+          case 'result':
+            handlersRef.current.onResult(message.response);
+            finish(message.id);
+            break;
+          case 'error':
+            handlersRef.current.onError(message.message);
+            finish(message.id);
+            break;
+        }
+      };
+      workerRef.current = worker;
+    }
+    workerRef.current.postMessage({ type: 'run', id, request });
+  }, []);
+
+  // Mark a request done (after its result is applied) and start the queued one, if any.
+  // A handler that started a new run in the meantime has already replaced it.
+  const finish = useCallback((id: number) => {
+    if (activeIdRef.current !== id) return;
+    activeIdRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+    const queued = queuedRef.current;
+    if (queued) {
+      queuedRef.current = null;
+      start(queued);
+    }
+  }, [start]);
+
+  const cancel = useCallback(() => {
+    if (activeIdRef.current !== null && workerRef.current) {
+      workerRef.current.postMessage({ type: 'cancel', id: activeIdRef.current });
+    }
+    activeIdRef.current = null;
+    queuedRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  const run = useCallback((request: SimulationRequest, mode: SimulationRunMode = 'replace') => {
+    if (activeIdRef.current !== null) {
+      if (mode === 'queue') {
+        queuedRef.current = request;
+        return;
+      }
+      cancel();
+    }
+    start(request);
+  }, [cancel, start]);
+
+  // Stop the worker on unmount
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  return { run, cancel, isRunning, progress };
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useWorkspace, parseWorkspace, uniqueDocumentName, WorkspaceDocument } from './useWorkspace';
+import { CircuitGrid, GateType } from '../types';
+
+// Mock localStorage
+const localStorageMock = (() => {
+  let store: Record<string, string> = {};
+  return {
+    getItem: vi.fn((key: string) => store[key] || null),
+    setItem: vi.fn((key: string, value: string) => {
+      store[key] = value;
+    }),
+    removeItem: vi.fn((key: string) => {
+      delete store[key];
+    }),
+    clear: vi.fn(() => {
+      store = {};
+    }),
+    get length() {
+      return Object.keys(store).length;
+    },
+    key: vi.fn((index: number) => Object.keys(store)[index] || null),
+  };
+})();
+
+Object.defineProperty(window, 'localStorage', {
+  value: localStorageMock,
+});
+
+const createTestGrid = (): CircuitGrid =>
+  Array(2).fill(null).map((_, r) =>
+    Array(2).fill(null).map((_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const withGate = (grid: CircuitGrid, gate: GateType): CircuitGrid =>
+  grid.map((row, r) => row.map((cell, c) => (r === 0 && c === 0 ? { ...cell, gate } : { ...cell })));
+
+const storedWorkspace = () => JSON.parse(localStorageMock.getItem('qcvo-workspace') ?? 'null');
+
+const names = (documents: WorkspaceDocument[]) => documents.map(doc => doc.file.metadata.name);
+
+describe('useWorkspace', () => {
+  beforeEach(() => {
+    localStorageMock.clear();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('initialization', () => {
+    it('should start with one empty document when nothing is stored', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+
+      expect(names(result.current.documents)).toEqual(['Untitled']);
+      expect(result.current.activeDocument.file.circuit.grid).toEqual(createTestGrid());
+    });
+
+    it('should restore the stored workspace and active document', () => {
+      const { result: first } = renderHook(() => useWorkspace(createTestGrid));
+      act(() => {
+        first.current.createDocument('Bell');
+      });
+      act(() => {
+        first.current.saveActiveDocument({
+          grid: withGate(createTestGrid(), GateType.H),
+          customGates: [],
+          past: [createTestGrid()],
+          future: [],
+        });
+      });
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      expect(names(result.current.documents)).toEqual(['Untitled', 'Bell']);
+      expect(result.current.activeDocument.file.metadata.name).toBe('Bell');
+      expect(result.current.activeDocument.file.circuit.grid[0][0].gate).toBe(GateType.H);
+      expect(result.current.activeDocument.past).toEqual([createTestGrid()]);
+    });
+
+    it('should ignore corrupt storage', () => {
+      localStorageMock.setItem('qcvo-workspace', 'not json');
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+
+      expect(names(result.current.documents)).toEqual(['Untitled']);
+    });
+  });
+
+  describe('autosave', () => {
+    it('should persist the active document after a short delay', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      localStorageMock.setItem.mockClear();
+
+      act(() => {
+        result.current.saveActiveDocument({
+          grid: withGate(createTestGrid(), GateType.X),
+          customGates: [],
+          past: [],
+          future: [],
+        });
+      });
+      expect(localStorageMock.setItem).not.toHaveBeenCalled();
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(storedWorkspace().documents[0].file.circuit.grid[0][0].gate).toBe(GateType.X);
+    });
+
+    it('should leave unchanged documents untouched', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const before = result.current.activeDocument;
+
+      act(() => {
+        result.current.saveActiveDocument({ grid: createTestGrid(), customGates: [], past: [], future: [] });
+      });
+
+      expect(result.current.activeDocument).toBe(before);
+    });
+
+    it('should cap the saved undo history', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const past = Array(30).fill(null).map(createTestGrid);
+
+      act(() => {
+        result.current.saveActiveDocument({ grid: withGate(createTestGrid(), GateType.Z), customGates: [], past, future: [] });
+      });
+
+      expect(result.current.activeDocument.past).toHaveLength(20);
+    });
+  });
+
+  describe('document management', () => {
+    it('should create documents with unique names and make them active', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+
+      let created: WorkspaceDocument | undefined;
+      act(() => {
+        created = result.current.createDocument();
+      });
+
+      expect(names(result.current.documents)).toEqual(['Untitled', 'Untitled 2']);
+      expect(result.current.activeDocument.id).toBe(created!.id);
+    });
+
+    it('should switch the active document', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const firstId = result.current.activeDocument.id;
+      act(() => {
+        result.current.createDocument('Second');
+      });
+
+      let opened: WorkspaceDocument | null = null;
+      act(() => {
+        opened = result.current.openDocument(firstId);
+      });
+
+      expect(opened!.id).toBe(firstId);
+      expect(result.current.activeDocument.id).toBe(firstId);
+      expect(result.current.openDocument('missing')).toBeNull();
+    });
+
+    it('should rename documents and ignore blank names', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const id = result.current.activeDocument.id;
+
+      act(() => {
+        result.current.renameDocument(id, '  Grover  ');
+      });
+      expect(result.current.activeDocument.file.metadata.name).toBe('Grover');
+
+      act(() => {
+        result.current.renameDocument(id, '   ');
+      });
+      expect(result.current.activeDocument.file.metadata.name).toBe('Grover');
+    });
+
+    it('should duplicate a document next to the original without switching', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const id = result.current.activeDocument.id;
+      act(() => {
+        result.current.saveActiveDocument({ grid: withGate(createTestGrid(), GateType.Y), customGates: [], past: [], future: [] });
+      });
+
+      act(() => {
+        result.current.duplicateDocument(id);
+      });
+
+      expect(names(result.current.documents)).toEqual(['Untitled', 'Untitled (copy)']);
+      expect(result.current.documents[1].id).not.toBe(id);
+      expect(result.current.documents[1].file.circuit.grid[0][0].gate).toBe(GateType.Y);
+      expect(result.current.activeDocument.id).toBe(id);
+    });
+
+    it('should delete documents and pick a new active one', () => {
+      const { result } = renderHook(() => useWorkspace(createTestGrid));
+      const firstId = result.current.activeDocument.id;
+      act(() => {
+        result.current.createDocument('Second');
+      });
+      const secondId = result.current.activeDocument.id;
+
+      let next: WorkspaceDocument | null = null;
+      act(() => {
+        next = result.current.deleteDocument(firstId);
+      });
+      expect(next).toBeNull();
+      expect(result.current.activeDocument.id).toBe(secondId);
+
+      act(() => {
+        next = result.current.deleteDocument(secondId);
+      });
+      expect(next).not.toBeNull();
+      expect(result.current.documents).toHaveLength(1);
+      expect(result.current.activeDocument.id).toBe(next!.id);
+      expect(result.current.activeDocument.file.circuit.grid).toEqual(createTestGrid());
+    });
+  });
+});
+
+describe('parseWorkspace', () => {
+  const validFile = {
+    version: '1.0',
+    metadata: { name: 'Kept', createdAt: '2024-01-01T00:00:00.000Z' },
+    circuit: { rows: 2, cols: 2, grid: createTestGrid() },
+  };
+
+  it('should drop documents that fail validation', () => {
+    const workspace = parseWorkspace({
+      version: 1,
+      activeId: 'bad',
+      documents: [
+        { id: 'good', file: validFile, past: 'nope', future: [] },
+        { id: 'bad', file: { ...validFile, version: '9.9' }, past: [], future: [] },
+      ],
+    });
+
+    expect(workspace?.documents.map(doc => doc.id)).toEqual(['good']);
+    expect(workspace?.activeId).toBe('good');
+    expect(workspace?.documents[0].past).toEqual([]);
+  });
+
+  it('should reject unknown workspace versions', () => {
+    expect(parseWorkspace({ version: 2, activeId: 'a', documents: [] })).toBeNull();
+  });
+});
+
+describe('uniqueDocumentName', () => {
+  it('should append the first free number', () => {
+    const { result } = renderHook(() => useWorkspace(createTestGrid));
+    expect(uniqueDocumentName('Untitled', result.current.documents)).toBe('Untitled 2');
+    expect(uniqueDocumentName('Other', result.current.documents)).toBe('Other');
+  });
+});
@@ -0,0 +1,305 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CircuitFile, CircuitGrid, CircuitParameter, CustomGateDefinition, WireInitialState } from '../types';
+import { serializeCircuit, validateCircuitFile } from '../utils/circuitSerializer';
+
+const STORAGE_KEY = 'qcvo-workspace';
+const WORKSPACE_VERSION = 1;
+/** Undo/redo entries kept per document when autosaving */
+const MAX_SAVED_HISTORY = 20;
+/** Delay before a change is written to localStorage */
+const AUTOSAVE_DELAY_MS = 500;
+
+/** A named circuit in the workspace, with its undo/redo stacks */
+export interface WorkspaceDocument {
+  id: string;
+  file: CircuitFile;
+  past: CircuitGrid[];
+  future: CircuitGrid[];
+  updatedAt: string;
+}
+
+export interface Workspace {
+  activeId: string;
+  documents: WorkspaceDocument[];
+}
+
+/** Editor state written into the active document on autosave */
+export interface WorkspaceEditorState {
+  grid: CircuitGrid;
+  customGates: CustomGateDefinition[];
+  /** Starting state per wire; omitted or empty when every wire starts in |0⟩ */
+  initialStates?: WireInitialState[];
+  /** Named angle parameters; omitted or empty when there are none */
+  parameters?: CircuitParameter[];
+  past: CircuitGrid[];
+  future: CircuitGrid[];
+}
+
+export interface UseWorkspaceReturn {
+  /** All documents, in creation order */
+  documents: WorkspaceDocument[];
+  /** The document currently being edited */
+  activeDocument: WorkspaceDocument;
+  /** Record the editor state into the active document (persisted after a short delay) */
+  saveActiveDocument: (state: WorkspaceEditorState) => void;
+  /** Make a document active and return it for loading into the editor */
+  openDocument: (id: string) => WorkspaceDocument | null;
+  /** Create an empty document, make it active and return it */
+  createDocument: (name?: string) => WorkspaceDocument;
+  /** Rename a document; blank names are ignored */
+  renameDocument: (id: string, name: string) => void;
+  /** Copy a document under a new name, leaving the active document unchanged */
+  duplicateDocument: (id: string) => void;
+  /**
+   * Delete a document. If it was active, the next document (or a new empty
+   * one) becomes active and is returned for loading; otherwise returns null.
+   */
+  deleteDocument: (id: string) => WorkspaceDocument | null;
+}
+
+const createDocumentId = (): string =>
+  `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Pick a name not used by any document: "Untitled", "Untitled 2", ...
+ */
+export function uniqueDocumentName(base: string, documents: WorkspaceDocument[]): string {
+  const taken = new Set(documents.map(doc => doc.file.metadata.name));
+  if (!taken.has(base)) return base;
+  let n = 2;
+  while (taken.has(`${base} ${n}`)) n++;
+  return `${base} ${n}`;
+}
+
+const createWorkspaceDocument = (
+  name: string,
+  grid: CircuitGrid,
+  customGates: CustomGateDefinition[] = []
+): WorkspaceDocument => {
+  const now = new Date().toISOString();
+  return {
+    id: createDocumentId(),
+    file: serializeCircuit(grid, customGates, { name, createdAt: now }),
+    past: [],
+    future: [],
+    updatedAt: now,
+  };
+};
+
+const isGridArray = (value: unknown): value is CircuitGrid[] =>
+  Array.isArray(value) && value.every(grid => Array.isArray(grid) && grid.every(Array.isArray));
+
+/**
+ * Parse a stored workspace, dropping documents whose circuit fails
+ * validateCircuitFile. Returns null if nothing usable remains.
+ */
+export function parseWorkspace(data: unknown): Workspace | null {
+  if (!data || typeof data !== 'object') return null;
+  const stored = data as Record<string, unknown>;
+  if (stored.version !== WORKSPACE_VERSION || !Array.isArray(stored.documents)) return null;
+
+  const documents: WorkspaceDocument[] = [];
+  for (const entry of stored.documents as Record<string, unknown>[]) {
+    if (!entry || typeof entry.id !== 'string') continue;
+    const validation = validateCircuitFile(entry.file);
+    if (!validation.valid) {
+      console.warn(`Dropping invalid workspace document ${entry.id}:`, validation.errors);
+      continue;
+    }
+    documents.push({
+      id: entry.id,
+      file: entry.file as CircuitFile,
+      past: isGridArray(entry.past) ? entry.past : [],
+      future: isGridArray(entry.future) ? entry.future : [],
+      updatedAt: typeof entry.updatedAt === 'string' ? entry.updatedAt : new Date().toISOString(),
+    });
+  }
+
+  if (documents.length === 0) return null;
+  const activeId = documents.some(doc => doc.id === stored.activeId)
+    ? stored.activeId as string
+    : documents[0].id;
+  return { activeId, documents };
+}
+
+const loadWorkspace = (): Workspace | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parseWorkspace(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Write the workspace to localStorage. If it does not fit, retry without
+ * undo/redo history so at least the circuits survive.
+ */
+const persistWorkspace = (workspace: Workspace): void => {
+  const write = (documents: WorkspaceDocument[]) =>
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: WORKSPACE_VERSION, ...workspace, documents }));
+  try {
+    write(workspace.documents);
+  } catch {
+    try {
+      write(workspace.documents.map(doc => ({ ...doc, past: [], future: [] })));
+    } catch {
+      // Ignore storage errors (e.g., quota exceeded, private browsing)
+    }
+  }
+};
+
+/**
+ * Hook for the local circuit workspace.
+ *
+ * Features:
+ * - Multiple named documents built on CircuitFile
+ * - Autosaves the active document's grid, initial states, custom gates and undo/redo history
+ * - Persists to localStorage (debounced, flushed when the page is hidden)
+ * - Create, rename, duplicate and delete documents
+ *
+ * @param createEmptyGrid - Grid for new documents (and the first one on a fresh start)
+ */
+export function useWorkspace(createEmptyGrid: () => CircuitGrid): UseWorkspaceReturn {
+  const [workspace, setWorkspace] = useState<Workspace>(() => {
+    const loaded = loadWorkspace();
+    if (loaded) return loaded;
+    const first = createWorkspaceDocument('Untitled', createEmptyGrid());
+    return { activeId: first.id, documents: [first] };
+  });
+
+  // Latest workspace for callbacks that must return documents synchronously
+  const workspaceRef = useRef(workspace);
+  workspaceRef.current = workspace;
+
+  // Debounced persistence
+  useEffect(() => {
+    const timer = setTimeout(() => persistWorkspace(workspace), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [workspace]);
+
+  // Flush pending changes when the page goes away
+  useEffect(() => {
+    const flush = () => persistWorkspace(workspaceRef.current);
+    window.addEventListener('pagehide', flush);
+    return () => window.removeEventListener('pagehide', flush);
+  }, []);
+
+  const saveActiveDocument = useCallback((state: WorkspaceEditorState) => {
+    setWorkspace(prev => {
+      const active = prev.documents.find(doc => doc.id === prev.activeId);
+      if (!active) return prev;
+
+      // Unchanged circuits keep their timestamp (e.g. right after loading)
+      const file = serializeCircuit(
+        state.grid, state.customGates, active.file.metadata, state.initialStates, state.parameters
+      );
+      if (
+        JSON.stringify(active.file.circuit) === JSON.stringify(file.circuit) &&
+        JSON.stringify(active.file.customGates ?? []) === JSON.stringify(state.customGates)
+      ) {
+        return prev;
+      }
+
+      const saved: WorkspaceDocument = {
+        ...active,
+        file,
+        past: state.past.slice(-MAX_SAVED_HISTORY),
+        future: state.future.slice(0, MAX_SAVED_HISTORY),
+        updatedAt: new Date().toISOString(),
+      };
+      return { ...prev, documents: prev.documents.map(doc => (doc === active ? saved : doc)) };
+    });
+  }, []);
+
+  const openDocument = useCallback((id: string): WorkspaceDocument | null => {
+    const doc = workspaceRef.current.documents.find(d => d.id === id);
+    if (!doc) return null;
+    setWorkspace(prev => ({ ...prev, activeId: id }));
+    return doc;
+  }, []);
+
+  const createDocument = useCallback((name?: string): WorkspaceDocument => {
+    const current = workspaceRef.current;
+    const doc = createWorkspaceDocument(
+      uniqueDocumentName(name?.trim() || 'Untitled', current.documents),
+      createEmptyGrid()
+    );
+    setWorkspace(prev => ({ activeId: doc.id, documents: [...prev.documents, doc] }));
+    return doc;
+  }, [createEmptyGrid]);
+
+  const renameDocument = useCallback((id: string, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setWorkspace(prev => ({
+      ...prev,
+      documents: prev.documents.map(doc =>
+        doc.id === id
+          ? { ...doc, file: { ...doc.file, metadata: { ...doc.file.metadata, name: trimmed } } }
+          : doc
+      ),
+    }));
+  }, []);
+
+  const duplicateDocument = useCallback((id: string) => {
+    setWorkspace(prev => {
+      const source = prev.documents.find(doc => doc.id === id);
+      if (!source) return prev;
+      const now = new Date().toISOString();
+      const copy: WorkspaceDocument = {
+        ...source,
+        id: createDocumentId(),
+        file: {
+          ...source.file,
+          metadata: {
+            ...source.file.metadata,
+            name: uniqueDocumentName(`${source.file.metadata.name} (copy)`, prev.documents),
+            createdAt: now,
+          },
+        },
+        updatedAt: now,
+      };
+      const index = prev.documents.indexOf(source);
+      return {
+        ...prev,
+        documents: [...prev.documents.slice(0, index + 1), copy, ...prev.documents.slice(index + 1)],
+      };
+    });
+  }, []);
+
+  const deleteDocument = useCallback((id: string): WorkspaceDocument | null => {
+    const current = workspaceRef.current;
+    const index = current.documents.findIndex(doc => doc.id === id);
+    if (index === -1) return null;
+
+    const remaining = current.documents.filter(doc => doc.id !== id);
+    if (id !== current.activeId) {
+      setWorkspace({ ...current, documents: remaining });
+      return null;
+    }
+
+    const next = remaining[Math.min(index, remaining.length - 1)]
+      ?? createWorkspaceDocument('Untitled', createEmptyGrid());
+    setWorkspace({
+      activeId: next.id,
+      documents: remaining.length > 0 ? remaining : [next],
+    });
+    return next;
+  }, [createEmptyGrid]);
+
+  const activeDocument = workspace.documents.find(doc => doc.id === workspace.activeId)
+    ?? workspace.documents[0];
+
+  return {
+    documents: workspace.documents,
+    activeDocument,
+    saveActiveDocument,
+    openDocument,
+    createDocument,
+    renameDocument,
+    duplicateDocument,
+    deleteDocument,
+  };
+}
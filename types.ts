@@ -56,11 +56,16 @@ export enum GateType {
   X_ANTI_CONTROL = 'X_ANTI_CONTROL', // X-basis anti-control (conditions on |-⟩)
   Y_CONTROL = 'Y_CONTROL',       // Y-basis control (conditions on |+i⟩)
   Y_ANTI_CONTROL = 'Y_ANTI_CONTROL', // Y-basis anti-control (conditions on |-i⟩)
+  CLASSICAL_CONTROL = 'CLASSICAL_CONTROL', // Classical control (conditions on the wire's last measured bit = 1)
+  CLASSICAL_ANTI_CONTROL = 'CLASSICAL_ANTI_CONTROL', // Classical anti-control (last measured bit = 0)
   CCX = 'CCX',       // Toffoli gate (double-controlled NOT)
 
   // Special gates
   MEASURE = 'MEASURE', // Measurement gate
+  RESET = 'RESET',     // Reset to |0⟩ (measure, then flip if the outcome was 1)
   CUSTOM = 'CUSTOM',   // User-defined gate
+  CUSTOM_MULTI = 'CUSTOM_MULTI', // User-defined gate on 2-4 qubits (spans one row per qubit)
+  MACRO = 'MACRO',     // Named sub-circuit built from a selection (spans one row per wire of the sub-circuit)
   REVERSE = 'REVERSE', // Bit-reversal permutation gate (spans multiple qubits)
 
   // Time-parameterized gates (rotation = t full turns, t animates 0→1)
@@ -134,6 +139,14 @@ export enum GateType {
   // Visualization gates (inline state display, act as identity)
   BLOCH_VIS = 'BLOCH_VIS',     // Mini Bloch sphere showing qubit state at position
   PERCENT_VIS = 'PERCENT_VIS', // Percentage bar showing |1⟩ probability at position
+  PAULI_VIS = 'PAULI_VIS',     // Expectation value of a Pauli string over its span (params.pauliString)
+
+  // Noise channels (density-matrix simulation only; strength p from params.noiseStrength)
+  DEPOLARIZE = 'DEPOLARIZE',         // ρ → (1-p)ρ + p·I/2
+  AMPLITUDE_DAMP = 'AMPLITUDE_DAMP', // Energy relaxation |1⟩ → |0⟩ with probability p
+  PHASE_DAMP = 'PHASE_DAMP',         // Loss of coherence without energy loss
+  BIT_FLIP = 'BIT_FLIP',             // X with probability p
+  PHASE_FLIP = 'PHASE_FLIP',         // Z with probability p
 }
 
 // ============================================================================
@@ -242,6 +255,8 @@ export const FIXED_POSITION_GATES = [
   GateType.X_ANTI_CONTROL,
   GateType.Y_CONTROL,
   GateType.Y_ANTI_CONTROL,
+  GateType.CLASSICAL_CONTROL,
+  GateType.CLASSICAL_ANTI_CONTROL,
   GateType.CX,
   GateType.CZ,
   GateType.CCX,
@@ -263,6 +278,8 @@ export const CONTROL_GATES = [
   GateType.X_ANTI_CONTROL,
   GateType.Y_CONTROL,
   GateType.Y_ANTI_CONTROL,
+  GateType.CLASSICAL_CONTROL,
+  GateType.CLASSICAL_ANTI_CONTROL,
 ] as const satisfies readonly GateType[];
 
 /** Union type of control gates */
@@ -273,6 +290,20 @@ export function isControlGate(gate: GateType): gate is ControlGate {
   return (CONTROL_GATES as readonly GateType[]).includes(gate);
 }
 
+/** Controls conditioned on a classical bit: the last MEASURE outcome on the same wire */
+export const CLASSICAL_CONTROL_GATES = [
+  GateType.CLASSICAL_CONTROL,
+  GateType.CLASSICAL_ANTI_CONTROL,
+] as const satisfies readonly GateType[];
+
+/** Union type of classical control gates */
+export type ClassicalControlGate = ArrayElement<typeof CLASSICAL_CONTROL_GATES>;
+
+/** Type guard: checks if a gate is a classical control gate */
+export function isClassicalControlGate(gate: GateType): gate is ClassicalControlGate {
+  return (CLASSICAL_CONTROL_GATES as readonly GateType[]).includes(gate);
+}
+
 /** Fixed 2x1 arithmetic gates (non-resizable, span exactly 2 rows) */
 export const ARITHMETIC_FIXED_2X1_GATES = [
   // Column 1: Increment/Decrement
@@ -536,12 +567,15 @@ export function isRequiresInputRGate(gate: GateType): gate is RequiresInputRGate
 // Spanning Gate Arrays (previously in App.tsx)
 // ============================================================================
 
-/** All gates that span multiple rows (REVERSE + PHASE_GRADIENT + QFT + fixed 2x1 gates) */
+/** All gates that span multiple rows (REVERSE + PHASE_GRADIENT + QFT + PAULI_VIS + multi-qubit custom + macro + fixed 2x1 gates) */
 export const ALL_SPANNING_GATE_TYPES = [
   GateType.REVERSE,
   GateType.PHASE_GRADIENT,
   GateType.QFT,
   GateType.QFT_DG,
+  GateType.PAULI_VIS,
+  GateType.CUSTOM_MULTI,
+  GateType.MACRO,
   ...ALL_FIXED_2X1_GATES,
 ] as const satisfies readonly GateType[];
 
@@ -563,12 +597,13 @@ export function assertNever(x: never): never {
   throw new Error(`Unexpected value: ${x}`);
 }
 
-/** Gates with resizable spans (REVERSE, PHASE_GRADIENT, QFT, QFT_DG) */
+/** Gates with resizable spans (REVERSE, PHASE_GRADIENT, QFT, QFT_DG, PAULI_VIS) */
 export const RESIZABLE_SPANNING_GATES = [
   GateType.REVERSE,
   GateType.PHASE_GRADIENT,
   GateType.QFT,
   GateType.QFT_DG,
+  GateType.PAULI_VIS,
 ] as const satisfies readonly GateType[];
 
 /** Union type of resizable spanning gates */
@@ -579,10 +614,23 @@ export function isResizableSpanningGate(gate: GateType): gate is ResizableSpanni
   return (RESIZABLE_SPANNING_GATES as readonly GateType[]).includes(gate);
 }
 
+/**
+ * Rows covered by a spanning gate whose size is fixed when it is placed:
+ * 2 for fixed 2x1 gates, one per qubit of a CUSTOM_MULTI matrix, one per
+ * wire of a MACRO sub-circuit. Null for single-cell and resizable gates.
+ */
+export function getFixedSpanSize(gate: GateType, params?: GateParams): number | null {
+  if (isAllFixed2x1Gate(gate)) return 2;
+  if (gate === GateType.CUSTOM_MULTI) return Math.max(2, Math.round(Math.log2(params?.customMatrix?.length ?? 4)));
+  if (gate === GateType.MACRO) return Math.max(1, params?.customCircuit?.length ?? 1);
+  return null;
+}
+
 /** Visualization gates (inline state display, act as identity) */
 export const VISUALIZATION_GATES = [
   GateType.BLOCH_VIS,
   GateType.PERCENT_VIS,
+  GateType.PAULI_VIS,
 ] as const satisfies readonly GateType[];
 
 /** Union type of visualization gates */
@@ -593,6 +641,44 @@ export function isVisualizationGate(gate: GateType): gate is VisualizationGate {
   return (VISUALIZATION_GATES as readonly GateType[]).includes(gate);
 }
 
+/** Noise channel gates (Kraus channels, only simulated in density-matrix mode) */
+export const NOISE_GATES = [
+  GateType.DEPOLARIZE,
+  GateType.AMPLITUDE_DAMP,
+  GateType.PHASE_DAMP,
+  GateType.BIT_FLIP,
+  GateType.PHASE_FLIP,
+] as const satisfies readonly GateType[];
+
+/** Union type of noise gates */
+export type NoiseGate = ArrayElement<typeof NOISE_GATES>;
+
+/** Type guard: checks if a gate is a noise channel */
+export function isNoiseGate(gate: GateType): gate is NoiseGate {
+  return (NOISE_GATES as readonly GateType[]).includes(gate);
+}
+
+// ============================================================================
+// Initial States
+// ============================================================================
+
+/** Named single-qubit states a wire can start in */
+export const INITIAL_STATE_PRESETS = ['0', '1', '+', '-', '+i', '-i'] as const;
+
+/** Union type of initial state presets */
+export type InitialStatePreset = ArrayElement<typeof INITIAL_STATE_PRESETS>;
+
+/** A wire starting in α|0⟩ + β|1⟩ (normalized) */
+export interface CustomInitialState {
+  alpha: Complex;
+  beta: Complex;
+  /** Original expressions as entered by user (e.g., ["1/sqrt(2)", "i/sqrt(2)"]) */
+  expressions?: [string, string];
+}
+
+/** Starting state of one wire */
+export type WireInitialState = InitialStatePreset | CustomInitialState;
+
 export interface GateDef {
   type: GateType;
   label: string;
@@ -611,14 +697,20 @@ export interface GateParams {
   angle?: number;
   /** Original angle expression as entered by user (e.g., "pi/4") */
   angleExpression?: string;
-  /** Custom 2x2 matrix for CUSTOM gate type */
+  /** Custom matrix: 2x2 for CUSTOM, 2^k x 2^k for CUSTOM_MULTI on k rows (top row is the MSB) */
   customMatrix?: Complex[][];
-  /** Optional label for custom gates */
+  /** Optional label for custom gates; names the library definition of a MACRO gate */
   customLabel?: string;
+  /** Sub-circuit of a MACRO gate, one row per wire of its span (a copy of the library definition) */
+  customCircuit?: CircuitGrid;
   /** For REVERSE gate: defines the span of rows it covers */
   reverseSpan?: { startRow: number; endRow: number };
   /** For REVERSE gate: marks this cell as a continuation (not the anchor) */
   isSpanContinuation?: boolean;
+  /** For noise gates: channel strength p in [0, 1] */
+  noiseStrength?: number;
+  /** For PAULI_VIS: one Pauli letter (I, X, Y, Z) per spanned row, top row first */
+  pauliString?: string;
 }
 
 export interface Cell {
@@ -630,10 +722,15 @@ export interface Cell {
 
 export type CircuitGrid = Cell[][];
 
-/** A custom gate stored in the library */
+/**
+ * A custom gate stored in the library: a matrix gate (larger than 2x2 makes a
+ * CUSTOM_MULTI gate) or a MACRO gate defined by a sub-circuit. Exactly one of
+ * matrix and circuit is set.
+ */
 export interface CustomGateDefinition {
   label: string;
-  matrix: Complex[][];
+  matrix?: Complex[][];
+  circuit?: CircuitGrid;
 }
 
 /** Warning generated during circuit simulation */
@@ -654,11 +751,37 @@ export interface SimulationWarning {
 // Circuit File Format (for save/load)
 // ============================================================================
 
+/** A named value that rotation angles can refer to, e.g. RX("2*theta") */
+export interface CircuitParameter {
+  /** Lowercase name as written in angle expressions (theta, θ, phi_2) */
+  name: string;
+  value: number;
+  /** Slider range */
+  min: number;
+  max: number;
+}
+
+/** Cost figures for a circuit, as computed by getCircuitMetrics */
+export interface CircuitMetrics {
+  /** Columns holding a gate other than a visualization gate */
+  depth: number;
+  /** Placed gates per type; a spanning gate counts once */
+  gateCounts: Partial<Record<GateType, number>>;
+  /** T gates, the RZ(π/4) preset, and RZ gates at an odd multiple of π/4 (T†, up to Cliffords) */
+  tCount: number;
+  /** CX gates once controls are decomposed; null when some gate has no decomposition */
+  cnotCount: number | null;
+  /** Wires holding at least one gate */
+  width: number;
+}
+
 /** Metadata for a saved circuit file */
 export interface CircuitFileMetadata {
   name: string;
   description?: string;
   createdAt: string;
+  /** Metrics of the circuit when it was saved; recomputed on every save */
+  metrics?: CircuitMetrics;
 }
 
 /** Complete circuit file format for import/export */
@@ -669,6 +792,10 @@ export interface CircuitFile {
     rows: number;
     cols: number;
     grid: Cell[][];
+    /** Starting state per row; omitted when every wire starts in |0⟩ */
+    initialStates?: WireInitialState[];
+    /** Named parameters used by angle expressions; omitted when there are none */
+    parameters?: CircuitParameter[];
   };
   customGates?: CustomGateDefinition[];
 }
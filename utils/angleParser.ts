@@ -1,15 +1,16 @@
-import { parseReal, ParseResult, ParseErrorCode } from './parser';
+import { parseReal, ParseResult, ParseErrorCode, ParameterScope } from './parser';
 
 /**
  * Parses angle expressions like "pi/4", "sqrt(2)", "2*pi", "0.5", etc.
+ * With a parameter scope, names such as "2*theta" are allowed too.
  * Returns the angle in radians, or null on failure (backward compatible).
  */
-export function parseAngleExpression(expr: string): number | null {
+export function parseAngleExpression(expr: string, scope?: ParameterScope): number | null {
   if (!expr || expr.trim() === '') {
     return null;
   }
 
-  const result = parseReal(expr);
+  const result = parseReal(expr, scope);
   return result.success ? result.value : null;
 }
 
@@ -17,7 +18,7 @@ export function parseAngleExpression(expr: string): number | null {
  * Parses angle expressions with detailed error reporting.
  * Returns { success: true, value: number } or { success: false, error: ParseError }
  */
-export function parseAngleExpressionDetailed(expr: string): ParseResult<number> {
+export function parseAngleExpressionDetailed(expr: string, scope?: ParameterScope): ParseResult<number> {
   if (!expr || expr.trim() === '') {
     return {
       success: false,
@@ -28,7 +29,7 @@ export function parseAngleExpressionDetailed(expr: string): ParseResult<number>
     };
   }
 
-  return parseReal(expr);
+  return parseReal(expr, scope);
 }
 
 /**
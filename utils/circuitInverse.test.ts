@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { appendInverse, daggerMatrix, invertColumns } from './circuitInverse';
+import { buildCircuitUnitary } from './quantum';
+import { CircuitGrid, Complex, GateParams, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const place = (grid: CircuitGrid, row: number, col: number, gate: GateType, params?: GateParams) => {
+  grid[row][col] = { gate, id: `cell-${row}-${col}`, ...(params && { params }) };
+};
+
+/** Place a spanning gate anchor plus its continuation cells */
+const placeSpan = (grid: CircuitGrid, startRow: number, endRow: number, col: number, gate: GateType) => {
+  for (let row = startRow; row <= endRow; row++) {
+    place(grid, row, col, gate, {
+      reverseSpan: { startRow, endRow },
+      ...(row > startRow ? { isSpanContinuation: true } : {}),
+    });
+  }
+};
+
+const gates = (grid: CircuitGrid): (GateType | null)[][] => grid.map(row => row.map(cell => cell.gate));
+
+const expectIdentity = (matrix: Complex[][]) => {
+  matrix.forEach((row, i) => row.forEach((entry, j) => {
+    expect(entry.re).toBeCloseTo(i === j ? 1 : 0, 10);
+    expect(entry.im).toBeCloseTo(0, 10);
+  }));
+};
+
+describe('invertColumns', () => {
+  it('should reverse the columns and swap gates with their inverses', () => {
+    const grid = createGrid(3, 3);
+    place(grid, 0, 0, GateType.S);
+    place(grid, 1, 0, GateType.H);
+    placeSpan(grid, 0, 2, 2, GateType.QFT);
+
+    const { columns, unsupported } = invertColumns(grid, 0, 2);
+
+    expect(unsupported).toEqual([]);
+    expect(columns.map(column => column.map(cell => cell.gate))).toEqual([
+      [GateType.QFT_DG, GateType.QFT_DG, GateType.QFT_DG],
+      [GateType.SDG, GateType.H, null],
+    ]);
+    expect(columns[0][2].params).toEqual({ reverseSpan: { startRow: 0, endRow: 2 }, isSpanContinuation: true });
+  });
+
+  it('should map arithmetic gates to their inverses', () => {
+    const grid = createGrid(4, 2);
+    placeSpan(grid, 0, 1, 0, GateType.INC);
+    placeSpan(grid, 2, 3, 1, GateType.MUL_A);
+
+    const { columns } = invertColumns(grid, 0, 1);
+    expect(columns.map(column => column.map(cell => cell.gate))).toEqual([
+      [null, null, GateType.DIV_A, GateType.DIV_A],
+      [GateType.DEC, GateType.DEC, null, null],
+    ]);
+  });
+
+  it('should negate rotation angles, keeping parameter expressions', () => {
+    const grid = createGrid(2, 1);
+    place(grid, 0, 0, GateType.RX, { angle: 0.5, angleExpression: '2*θ' });
+    place(grid, 1, 0, GateType.RY_PI_4);
+
+    const [column] = invertColumns(grid, 0, 0).columns;
+    expect(column[0]).toMatchObject({ gate: GateType.RX, params: { angle: -0.5, angleExpression: '-(2*θ)' } });
+    expect(column[1]).toMatchObject({ gate: GateType.RY, params: { angle: -Math.PI / 4, angleExpression: '-π/4' } });
+  });
+
+  it('should conjugate-transpose custom matrices', () => {
+    const v: Complex[][] = [[{ re: 0, im: 1 }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: 1, im: 0 }]];
+    const grid = createGrid(1, 1);
+    place(grid, 0, 0, GateType.CUSTOM, { customMatrix: v, customLabel: 'V' });
+
+    const [column] = invertColumns(grid, 0, 0).columns;
+    expect(column[0].params).toEqual({ customMatrix: daggerMatrix(v), customLabel: 'V†' });
+    expect(daggerMatrix(v)[0][0]).toEqual({ re: 0, im: -1 });
+  });
+
+  it('should report gates that have no inverse', () => {
+    const grid = createGrid(2, 2);
+    place(grid, 1, 0, GateType.MEASURE);
+    place(grid, 0, 1, GateType.ZT);
+
+    expect(invertColumns(grid, 0, 1).unsupported).toEqual([
+      expect.stringMatching(/on q0 in column 2 has no inverse gate$/),
+      expect.stringMatching(/on q1 in column 1 is not reversible$/),
+    ]);
+  });
+});
+
+describe('appendInverse', () => {
+  it('should append after the last gate and leave the rest of the circuit alone', () => {
+    const grid = createGrid(2, 4);
+    place(grid, 0, 0, GateType.H);
+    place(grid, 0, 1, GateType.CONTROL);
+    place(grid, 1, 1, GateType.X);
+    place(grid, 1, 2, GateType.Z);
+
+    const { grid: result, unsupported } = appendInverse(grid, 0, 1);
+
+    expect(unsupported).toEqual([]);
+    expect(gates(result)).toEqual([
+      [GateType.H, GateType.CONTROL, null, GateType.CONTROL, GateType.H],
+      [null, GateType.X, GateType.Z, GateType.X, null],
+    ]);
+    expect(result[1][4].id).toBe('cell-1-4');
+  });
+
+  it('should undo the selected block exactly, controls included', () => {
+    const grid = createGrid(3, 8);
+    place(grid, 0, 0, GateType.H);
+    place(grid, 1, 0, GateType.SQRT_X);
+    place(grid, 0, 1, GateType.CONTROL);
+    place(grid, 1, 1, GateType.T);
+    place(grid, 2, 2, GateType.RZ, { angle: 0.7 });
+    place(grid, 2, 3, GateType.T);
+    placeSpan(grid, 0, 2, 4, GateType.QFT);
+    place(grid, 0, 5, GateType.ANTI_CONTROL);
+    place(grid, 2, 5, GateType.SQRT_Y);
+
+    const { grid: result } = appendInverse(grid, 0, 5);
+    expectIdentity(buildCircuitUnitary(result).matrix);
+  });
+
+  it('should invert macro gates through their sub-circuit', () => {
+    const sub = createGrid(2, 2);
+    place(sub, 0, 0, GateType.T);
+    place(sub, 0, 1, GateType.CONTROL);
+    place(sub, 1, 1, GateType.SQRT_X);
+    const grid = createGrid(2, 1);
+    for (let row = 0; row < 2; row++) {
+      place(grid, row, 0, GateType.MACRO, {
+        customLabel: 'M',
+        customCircuit: sub,
+        reverseSpan: { startRow: 0, endRow: 1 },
+        ...(row > 0 && { isSpanContinuation: true }),
+      });
+    }
+
+    const { grid: result } = appendInverse(grid, 0, 0);
+
+    expect(result[0][1].params?.customLabel).toBe('M†');
+    expect(result[1][1].params?.isSpanContinuation).toBe(true);
+    expectIdentity(buildCircuitUnitary(result).matrix);
+  });
+
+  it('should leave the circuit unchanged when a gate has no inverse', () => {
+    const grid = createGrid(1, 2);
+    place(grid, 0, 0, GateType.H);
+    place(grid, 0, 1, GateType.RESET);
+
+    const result = appendInverse(grid, 0, 1);
+    expect(result.grid).toBe(grid);
+    expect(result.unsupported).toHaveLength(1);
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  Cell,
+  CircuitGrid,
+  Complex,
+  GateType,
+  isControlGate,
+  isNoiseGate,
+} from '../types';
+import { GATE_DEFS } from '../constants';
+import { conj } from './complex';
+import { formatAngle } from './angleParser';
+import { usesParameters } from './circuitParameters';
+
+/**
+ * Circuit inverse (dagger)
+ *
+ * Builds U† for a range of columns, for uncomputation: the columns in
+ * reverse order with every gate replaced by its inverse. Rotations negate
+ * their angle, custom matrices are conjugate-transposed and macro gates
+ * invert their sub-circuit. Measurement, reset, noise and gates whose
+ * inverse has no gate of its own (animated and input-parameterized gates,
+ * the phase gradient) are reported instead.
+ */
+
+/** Outcome of appending the inverse of a column range */
+export interface InverseResult {
+  /** The circuit with the inverse appended, or the source when some gate has no inverse */
+  grid: CircuitGrid;
+  /** One message per gate with no inverse, e.g. "Measurement on q1 in column 3" */
+  unsupported: string[];
+}
+
+/** Pairs of gates that are each other's inverse */
+const INVERSE_PAIRS: [GateType, GateType][] = [
+  [GateType.S, GateType.SDG],
+  [GateType.SQRT_X, GateType.SQRT_X_DG],
+  [GateType.SQRT_Y, GateType.SQRT_Y_DG],
+  [GateType.QFT, GateType.QFT_DG],
+  [GateType.INC, GateType.DEC],
+  [GateType.ADD_A, GateType.SUB_A],
+  [GateType.MUL_A, GateType.DIV_A],
+  [GateType.MUL_B, GateType.DIV_B],
+  [GateType.INC_MOD_R, GateType.DEC_MOD_R],
+  [GateType.ADD_A_MOD_R, GateType.SUB_A_MOD_R],
+  [GateType.MUL_A_MOD_R, GateType.DIV_A_MOD_R],
+  [GateType.SCALE_I, GateType.SCALE_NEG_I],
+  [GateType.SCALE_SQRT_I, GateType.SCALE_SQRT_NEG_I],
+];
+
+const INVERSE_GATE: Partial<Record<GateType, GateType>> = Object.fromEntries(
+  INVERSE_PAIRS.flatMap(([a, b]) => [[a, b], [b, a]])
+);
+
+/** Gates equal to their own inverse; input markers and displays are copied unchanged */
+const SELF_INVERSE_GATES = new Set<GateType>([
+  GateType.X, GateType.Y, GateType.Z, GateType.H, GateType.I,
+  GateType.CX, GateType.CZ, GateType.CCX, GateType.SWAP, GateType.REVERSE,
+  GateType.A_LT_B, GateType.A_LEQ_B, GateType.A_GT_B, GateType.A_GEQ_B, GateType.A_EQ_B, GateType.A_NEQ_B,
+  GateType.INPUT_A, GateType.INPUT_B, GateType.INPUT_R,
+  GateType.BLOCH_VIS, GateType.PERCENT_VIS, GateType.PAULI_VIS,
+]);
+
+/** Rotation axis and fixed angle of the rotation gates */
+const ROTATIONS: Partial<Record<GateType, { axis: GateType; angle?: number }>> = {
+  [GateType.RX]: { axis: GateType.RX },
+  [GateType.RY]: { axis: GateType.RY },
+  [GateType.RZ]: { axis: GateType.RZ },
+  [GateType.RX_PI_2]: { axis: GateType.RX, angle: Math.PI / 2 },
+  [GateType.RX_PI_4]: { axis: GateType.RX, angle: Math.PI / 4 },
+  [GateType.RX_PI_8]: { axis: GateType.RX, angle: Math.PI / 8 },
+  [GateType.RX_PI_12]: { axis: GateType.RX, angle: Math.PI / 12 },
+  [GateType.RY_PI_2]: { axis: GateType.RY, angle: Math.PI / 2 },
+  [GateType.RY_PI_4]: { axis: GateType.RY, angle: Math.PI / 4 },
+  [GateType.RY_PI_8]: { axis: GateType.RY, angle: Math.PI / 8 },
+  [GateType.RY_PI_12]: { axis: GateType.RY, angle: Math.PI / 12 },
+  [GateType.RZ_PI_2]: { axis: GateType.RZ, angle: Math.PI / 2 },
+  [GateType.RZ_PI_4]: { axis: GateType.RZ, angle: Math.PI / 4 },
+  [GateType.RZ_PI_8]: { axis: GateType.RZ, angle: Math.PI / 8 },
+  [GateType.RZ_PI_12]: { axis: GateType.RZ, angle: Math.PI / 12 },
+};
+
+/** Conjugate transpose */
+export const daggerMatrix = (matrix: Complex[][]): Complex[][] =>
+  matrix.map((_, i) => matrix.map(row => conj(row[i])));
+
+const daggerLabel = (label: string | undefined): string | undefined =>
+  label === undefined ? undefined : label.endsWith('†') ? label.slice(0, -1) : `${label}†`;
+
+/**
+ * Inverse of one cell, or null when the gate has none. T has no dagger gate of
+ * its own, so T† is an exact custom matrix: RZ(−π/4) differs by a global phase,
+ * which shows once the block is controlled.
+ */
+const invertCell = (cell: Cell): Cell | null => {
+  const type = cell.gate;
+  if (type === null || isControlGate(type) || SELF_INVERSE_GATES.has(type)) return cell;
+
+  const inverse = INVERSE_GATE[type];
+  if (inverse) return { ...cell, gate: inverse };
+
+  const rotation = ROTATIONS[type];
+  if (rotation) {
+    const angle = -(rotation.angle ?? cell.params?.angle ?? 0);
+    const angleExpression = usesParameters(cell.params) ? `-(${cell.params!.angleExpression})` : formatAngle(angle);
+    return { ...cell, gate: rotation.axis, params: { ...cell.params, angle, angleExpression } };
+  }
+
+  if (type === GateType.T) {
+    return { ...cell, gate: GateType.CUSTOM, params: { customMatrix: daggerMatrix(GATE_DEFS[GateType.T]!.matrix), customLabel: 'T†' } };
+  }
+
+  if ((type === GateType.CUSTOM || type === GateType.CUSTOM_MULTI) && cell.params?.customMatrix) {
+    return {
+      ...cell,
+      params: { ...cell.params, customMatrix: daggerMatrix(cell.params.customMatrix), customLabel: daggerLabel(cell.params.customLabel) },
+    };
+  }
+
+  if (type === GateType.MACRO && cell.params?.customCircuit) {
+    const circuit = cell.params.customCircuit;
+    const { columns, unsupported } = invertColumns(circuit, 0, (circuit[0]?.length ?? 0) - 1);
+    if (unsupported.length > 0) return null;
+    return {
+      ...cell,
+      params: { ...cell.params, customCircuit: renumber(columnsToGrid(columns, circuit.length)), customLabel: daggerLabel(cell.params.customLabel) },
+    };
+  }
+
+  return null;
+};
+
+/** Rows of cells from a list of columns */
+const columnsToGrid = (columns: Cell[][], numRows: number): CircuitGrid =>
+  Array.from({ length: numRows }, (_, r) => columns.map(column => column[r]));
+
+const renumber = (grid: CircuitGrid): CircuitGrid =>
+  grid.map((row, r) => row.map((cell, c) => ({ ...cell, id: `cell-${r}-${c}` })));
+
+const describeGate = (cell: Cell): string => {
+  const type = cell.gate!;
+  if (type === GateType.MACRO) return `Macro gate ${cell.params?.customLabel ?? ''}`.trim();
+  return GATE_DEFS[type]?.fullName ?? type;
+};
+
+/**
+ * Inverse of the columns startCol..endCol as a list of columns (each one cell
+ * per row), last column first. Empty columns are skipped.
+ */
+export const invertColumns = (
+  grid: CircuitGrid,
+  startCol: number,
+  endCol: number
+): { columns: Cell[][]; unsupported: string[] } => {
+  const columns: Cell[][] = [];
+  const unsupported: string[] = [];
+
+  for (let col = Math.min(endCol, (grid[0]?.length ?? 0) - 1); col >= Math.max(0, startCol); col--) {
+    const column = grid.map(row => row[col]);
+    if (column.every(cell => cell.gate === null)) continue;
+
+    const inverted: Cell[] = [];
+    column.forEach((cell, row) => {
+      if (cell.gate !== null && cell.params?.isSpanContinuation) {
+        // Continuation cells follow their anchor, which is above them and already inverted
+        let anchorRow = row;
+        while (anchorRow > 0 && column[anchorRow].params?.isSpanContinuation) anchorRow--;
+        const anchor = inverted[anchorRow];
+        inverted.push(anchor.gate === cell.gate && anchor.params === column[anchorRow].params
+          ? cell
+          : { ...anchor, id: cell.id, params: { ...anchor.params, isSpanContinuation: true } });
+        return;
+      }
+      const inverse = invertCell(cell);
+      if (!inverse) {
+        const reason = cell.gate === GateType.MEASURE || cell.gate === GateType.RESET || isNoiseGate(cell.gate!)
+          ? 'is not reversible'
+          : 'has no inverse gate';
+        unsupported.push(`${describeGate(cell)} on q${row} in column ${col + 1} ${reason}`);
+      }
+      inverted.push(inverse ?? cell);
+    });
+    columns.push(inverted);
+  }
+
+  return { columns, unsupported };
+};
+
+/**
+ * Append the inverse of the columns startCol..endCol after the last column
+ * that holds a gate, widening the grid as needed. Nothing is appended when
+ * some gate in the range has no inverse; those gates are listed instead.
+ */
+export const appendInverse = (grid: CircuitGrid, startCol: number, endCol: number): InverseResult => {
+  const { columns, unsupported } = invertColumns(grid, startCol, endCol);
+  if (unsupported.length > 0 || columns.length === 0) return { grid, unsupported };
+
+  const numCols = grid[0]?.length ?? 0;
+  let firstFree = 0;
+  for (let col = 0; col < numCols; col++) {
+    if (grid.some(row => row[col].gate !== null)) firstFree = col + 1;
+  }
+  const width = Math.max(numCols, firstFree + columns.length);
+
+  const result = grid.map((row, r) => Array.from({ length: width }, (_, c): Cell => {
+    if (c >= firstFree && c < firstFree + columns.length) return { ...columns[c - firstFree][r] };
+    return row[c] ?? { gate: null, id: `cell-${r}-${c}` };
+  }));
+  return { grid: renumber(result), unsupported };
+};
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { getCircuitMetrics } from './circuitMetrics';
+import { transpileCircuit } from './transpiler';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const placeSpan = (grid: CircuitGrid, gate: GateType, col: number, startRow: number, endRow: number) => {
+  for (let row = startRow; row <= endRow; row++) {
+    grid[row][col].gate = gate;
+    grid[row][col].params = row === startRow ? { reverseSpan: { startRow, endRow } } : { isSpanContinuation: true };
+  }
+};
+
+describe('circuitMetrics', () => {
+  it('should report zeros for an empty circuit', () => {
+    expect(getCircuitMetrics(createGrid(4, 6))).toEqual({
+      depth: 0,
+      gateCounts: {},
+      tCount: 0,
+      cnotCount: 0,
+      width: 0,
+    });
+  });
+
+  it('should count gates per type, with a spanning gate counted once', () => {
+    const grid = createGrid(4, 3);
+    grid[0][0].gate = GateType.H;
+    grid[1][0].gate = GateType.H;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.CX;
+    placeSpan(grid, GateType.QFT, 2, 0, 2);
+    const metrics = getCircuitMetrics(grid);
+    expect(metrics.gateCounts).toEqual({ [GateType.H]: 2, [GateType.CONTROL]: 1, [GateType.CX]: 1, [GateType.QFT]: 1 });
+    expect(metrics.width).toBe(3);
+  });
+
+  it('should leave visualization-only columns out of the depth', () => {
+    const grid = createGrid(2, 4);
+    grid[0][0].gate = GateType.H;
+    grid[1][1].gate = GateType.BLOCH_VIS;
+    grid[0][2].gate = GateType.PERCENT_VIS;
+    grid[1][2].gate = GateType.X;
+    expect(getCircuitMetrics(grid).depth).toBe(2);
+  });
+
+  it('should count T gates and RZ at odd multiples of π/4', () => {
+    const grid = createGrid(1, 6);
+    grid[0][0].gate = GateType.T;
+    grid[0][1].gate = GateType.RZ_PI_4;
+    grid[0][2] = { ...grid[0][2], gate: GateType.RZ, params: { angle: -Math.PI / 4 } };
+    grid[0][3] = { ...grid[0][3], gate: GateType.RZ, params: { angle: 3 * Math.PI / 4 } };
+    grid[0][4] = { ...grid[0][4], gate: GateType.RZ, params: { angle: Math.PI / 2 } };
+    grid[0][5].gate = GateType.S;
+    expect(getCircuitMetrics(grid).tCount).toBe(4);
+  });
+
+  it('should count CNOTs after decomposing controls, matching the transpiler', () => {
+    const grid = createGrid(3, 4);
+    grid[0][0].gate = GateType.CONTROL;
+    grid[1][0].gate = GateType.CONTROL;
+    grid[2][0].gate = GateType.CCX;
+    grid[0][1].gate = GateType.SWAP;
+    grid[2][1].gate = GateType.SWAP;
+    grid[1][2].gate = GateType.ANTI_CONTROL;
+    grid[2][2] = { ...grid[2][2], gate: GateType.RY, params: { angle: 0.3 } };
+    grid[0][3].gate = GateType.CONTROL;
+    grid[1][3].gate = GateType.CZ;
+    const { cnotCount } = getCircuitMetrics(grid);
+    // Toffoli 6, SWAP 3, controlled rotation 2, CZ 1
+    expect(cnotCount).toBe(12);
+    const transpiled = transpileCircuit(grid, 'cx-rz-sx-x').grid;
+    expect(transpiled.flat().filter(cell => cell.gate === GateType.CX)).toHaveLength(12);
+  });
+
+  it('should have no CNOT count when a gate cannot be decomposed', () => {
+    const grid = createGrid(2, 1);
+    grid[0][0].gate = GateType.CLASSICAL_CONTROL;
+    grid[1][0].gate = GateType.X;
+    const metrics = getCircuitMetrics(grid);
+    expect(metrics.cnotCount).toBeNull();
+    expect(metrics.depth).toBe(1);
+  });
+});
@@ -0,0 +1,69 @@
+import { CircuitGrid, CircuitMetrics, GateType, isVisualizationGate } from '../types';
+import { countTwoQubitGates } from './transpiler';
+import { expandMacroGates } from './macroGates';
+
+/**
+ * Circuit cost metrics
+ *
+ * Depth, gate counts, T-count, CNOT count and width, as used to compare
+ * circuits by cost. The CNOT count decomposes controls the way the
+ * transpiler does, so it matches the CX count of a transpile into
+ * {CX, RZ, SX, X}.
+ */
+
+const ANGLE_TOLERANCE = 1e-9;
+
+/** Whether an angle is an odd multiple of π/4 (a T gate up to Clifford gates) */
+const isOddQuarterPi = (angle: number): boolean => {
+  const quarters = angle / (Math.PI / 4);
+  const nearest = Math.round(quarters);
+  return Math.abs(quarters - nearest) < ANGLE_TOLERANCE && Math.abs(nearest % 2) === 1;
+};
+
+/** Gates that cost one T each; T† is written as RZ(−π/4) */
+const countsAsT = (type: GateType, angle: number | undefined): boolean =>
+  type === GateType.T ||
+  type === GateType.RZ_PI_4 ||
+  (type === GateType.RZ && angle !== undefined && isOddQuarterPi(angle));
+
+/**
+ * Compute the metrics of a circuit. Animated gates are taken at timeParameter,
+ * which only matters for the CNOT count. Macro gates count as the gates they hold.
+ */
+export const getCircuitMetrics = (source: CircuitGrid, timeParameter?: number): CircuitMetrics => {
+  const grid = expandMacroGates(source);
+  const numCols = grid[0]?.length ?? 0;
+  const gateCounts: Partial<Record<GateType, number>> = {};
+  let tCount = 0;
+
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell.gate === null || cell.params?.isSpanContinuation) continue;
+      gateCounts[cell.gate] = (gateCounts[cell.gate] ?? 0) + 1;
+      if (countsAsT(cell.gate, cell.params?.angle)) tCount++;
+    }
+  }
+
+  let depth = 0;
+  for (let col = 0; col < numCols; col++) {
+    if (grid.some(row => {
+      const type = row[col].gate;
+      return type !== null && !isVisualizationGate(type);
+    })) depth++;
+  }
+
+  let cnotCount: number | null;
+  try {
+    cnotCount = countTwoQubitGates(grid, timeParameter);
+  } catch {
+    cnotCount = null;
+  }
+
+  return {
+    depth,
+    gateCounts,
+    tCount,
+    cnotCount,
+    width: grid.filter(row => row.some(cell => cell.gate !== null)).length,
+  };
+};
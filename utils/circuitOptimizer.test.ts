@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeCircuit, compactGrid, countGates } from './circuitOptimizer';
+import { checkCircuitEquivalence } from './quantum';
+import { CircuitGrid, GateType, GateParams } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** Grid from rows of gate columns; null is an empty cell */
+const gridOf = (...rows: (GateType | null)[][]): CircuitGrid => {
+  const grid = createGrid(rows.length, rows[0].length);
+  rows.forEach((gates, r) => gates.forEach((gate, c) => { grid[r][c].gate = gate; }));
+  return grid;
+};
+
+const setParams = (grid: CircuitGrid, row: number, col: number, params: GateParams) => {
+  grid[row][col].params = params;
+};
+
+const gatesIn = (grid: CircuitGrid) => grid.map(row => row.map(cell => cell.gate).filter(gate => gate !== null));
+
+/** Optimize and check the unitary is unchanged */
+const expectOptimizes = (grid: CircuitGrid) => {
+  const result = optimizeCircuit(grid);
+  expect(result.grid).toHaveLength(grid.length);
+  expect(result.grid[0]).toHaveLength(grid[0].length);
+  expect(checkCircuitEquivalence({ grid }, { grid: result.grid }).equivalent).toBe(true);
+  return result;
+};
+
+const { H, X, Z, S, SDG, T, RZ, CONTROL, CX, MEASURE } = GateType;
+
+describe('circuitOptimizer', () => {
+  it('should cancel self-inverse and inverse pairs, including ones exposed by a cancellation', () => {
+    const grid = gridOf(
+      [H, X, X, H, null],
+      [S, null, SDG, T, T],
+    );
+    const result = expectOptimizes(grid);
+    expect(gatesIn(result.grid)).toEqual([[], [S]]);
+    expect(result.gatesRemoved).toBe(7);
+    expect(result.depthRemoved).toBe(4);
+    expect(result.changed).toBe(true);
+  });
+
+  it('should merge rotations about the same axis', () => {
+    const grid = gridOf([RZ, GateType.RZ_PI_4, GateType.RX_PI_4]);
+    setParams(grid, 0, 0, { angle: Math.PI / 4, angleExpression: 'pi/4' });
+    const result = expectOptimizes(grid);
+    expect(result.grid[0][0]).toMatchObject({ gate: RZ, params: { angleExpression: 'π/2' } });
+    expect(result.grid[0][0].params?.angle).toBeCloseTo(Math.PI / 2, 12);
+    expect(result.grid[0][1].gate).toBe(GateType.RX_PI_4);
+  });
+
+  it('should cancel a CX followed by the same CX, but not one with different controls', () => {
+    const cancelled = expectOptimizes(gridOf(
+      [CONTROL, CONTROL],
+      [CX, CX],
+    ));
+    expect(countGates(cancelled.grid)).toBe(0);
+
+    const flipped = gridOf(
+      [CONTROL, CX],
+      [CX, CONTROL],
+    );
+    expect(optimizeCircuit(flipped).changed).toBe(false);
+  });
+
+  it('should respect controls and anything in between', () => {
+    // A controlled H does not cancel an uncontrolled one; the measurement splits the H pair on q2
+    const grid = gridOf(
+      [CONTROL, null, null],
+      [H, H, null],
+      [H, MEASURE, H],
+    );
+    const result = optimizeCircuit(grid);
+    expect(result.changed).toBe(false);
+    expect(result.gatesRemoved).toBe(0);
+  });
+
+  it('should merge controlled rotations exactly', () => {
+    const grid = gridOf(
+      [CONTROL, CONTROL],
+      [RZ, RZ],
+      [Z, Z],
+    );
+    setParams(grid, 1, 0, { angle: Math.PI });
+    setParams(grid, 1, 1, { angle: Math.PI });
+    // RZ(2π) = −I is a relative phase under a control, so it stays
+    const result = expectOptimizes(grid);
+    expect(gatesIn(result.grid)).toEqual([[CONTROL], [RZ], []]);
+    expect(result.grid[1][0].params?.angle).toBeCloseTo(2 * Math.PI, 12);
+
+    // Uncontrolled, it is a global phase and cancels
+    const uncontrolled = gridOf([RZ, RZ]);
+    setParams(uncontrolled, 0, 0, { angle: Math.PI });
+    setParams(uncontrolled, 0, 1, { angle: Math.PI });
+    expect(countGates(expectOptimizes(uncontrolled).grid)).toBe(0);
+  });
+
+  it('should cancel QFT against QFT† on the same span', () => {
+    const grid = createGrid(3, 3);
+    for (const [col, gate] of [[0, GateType.QFT], [2, GateType.QFT_DG]] as const) {
+      for (let row = 0; row < 2; row++) {
+        grid[row][col].gate = gate;
+        grid[row][col].params = row === 0 ? { reverseSpan: { startRow: 0, endRow: 1 } } : { isSpanContinuation: true };
+      }
+    }
+    grid[2][1].gate = H;
+    const result = expectOptimizes(grid);
+    expect(gatesIn(result.grid)).toEqual([[], [], [H]]);
+    expect(result.grid[2][0].gate).toBe(H);
+  });
+
+  it('should compact empty columns even when nothing cancels', () => {
+    const grid = gridOf([H, null, null, T]);
+    const result = optimizeCircuit(grid);
+    expect(result.changed).toBe(true);
+    expect(gatesIn(result.grid)).toEqual([[H, T]]);
+    expect(result.grid[0][1]).toMatchObject({ gate: T, id: 'cell-0-1' });
+    expect(result.depthRemoved).toBe(0);
+    expect(optimizeCircuit(result.grid).changed).toBe(false);
+  });
+
+  it('should drop empty columns as compactGrid does for templates', () => {
+    const compacted = compactGrid(gridOf([H, null, X]));
+    expect(compacted[0].map(cell => cell.id)).toEqual(['cell-0-0', 'cell-0-1']);
+  });
+});
@@ -0,0 +1,374 @@
+import {
+  Cell,
+  CircuitGrid,
+  GateType,
+  isArithmeticComparisonGate,
+  isArithmeticFixed2x1Gate,
+  isArithmeticInputGate,
+  isArithmeticScalarGate,
+  isClassicalControlGate,
+  isControlGate,
+  isInputParameterizedGate,
+} from '../types';
+import { formatAngle } from './angleParser';
+import { usesParameters } from './circuitParameters';
+
+/**
+ * Peephole circuit optimizer
+ *
+ * Finds pairs of gates that meet on the same wires with nothing in between
+ * and cancels or merges them: H·H, X·X, S·S†, T·T = S, RZ(a)·RZ(b) = RZ(a+b),
+ * a CX followed by the same CX, QFT·QFT†. A column with controls is one
+ * step, so two columns only combine when their controls match; merges under
+ * controls are exact, while uncontrolled ones may drop a global phase.
+ * Empty columns are then removed.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Outcome of optimizing a circuit */
+export interface OptimizeResult {
+  /** The optimized circuit, with the same rows and columns as the source */
+  grid: CircuitGrid;
+  /** Whether anything was cancelled, merged or compacted */
+  changed: boolean;
+  /** Gates before minus gates after (controls are part of their gate) */
+  gatesRemoved: number;
+  /** Columns holding gates before minus after */
+  depthRemoved: number;
+}
+
+/** A unit the optimizer moves as a whole */
+interface Step {
+  col: number;
+  /** Rows the step occupies, ascending */
+  rows: number[];
+  /**
+   * single: one uncontrolled gate; swap: a column's SWAP cells;
+   * span: a multi-row gate; controlled: a whole column with controls;
+   * barrier: a column that reads other wires (arithmetic, classical controls)
+   */
+  kind: 'single' | 'swap' | 'span' | 'controlled' | 'barrier';
+}
+
+/** Result of combining two gates on one row */
+type Combined = 'cancel' | Cell | null;
+
+// ============================================================================
+// Grid helpers
+// ============================================================================
+
+/** Remove columns with no gates, renumbering cell ids */
+export const compactGrid = (grid: CircuitGrid): CircuitGrid => {
+  if (grid.length === 0 || grid[0].length === 0) return grid;
+
+  const numCols = grid[0].length;
+  const populatedCols: number[] = [];
+
+  // Find columns that have at least one gate
+  for (let c = 0; c < numCols; c++) {
+    const hasGate = grid.some(row => row[c]?.gate !== null);
+    if (hasGate) {
+      populatedCols.push(c);
+    }
+  }
+
+  if (populatedCols.length === numCols) {
+    // No empty columns to remove
+    return grid;
+  }
+
+  // Create new compacted grid
+  const newGrid: CircuitGrid = grid.map((row, rIdx) =>
+    populatedCols.map((oldCol, newCol) => {
+      const oldCell = row[oldCol];
+      // Update params that contain column references (reverseSpan refers to rows, not cols)
+      return {
+        ...oldCell,
+        id: `cell-${rIdx}-${newCol}`,
+      };
+    })
+  );
+
+  return newGrid;
+};
+
+/** Gates in a circuit, counting a span once and controls as part of their gate */
+export const countGates = (grid: CircuitGrid): number =>
+  grid.flat().filter(cell => cell.gate !== null && !cell.params?.isSpanContinuation && !isControlGate(cell.gate)).length;
+
+/** Columns holding at least one gate */
+export const countDepth = (grid: CircuitGrid): number =>
+  (grid[0] ?? []).filter((_, col) => grid.some(row => row[col].gate !== null)).length;
+
+const sameParams = (a: Cell, b: Cell): boolean => JSON.stringify(a.params) === JSON.stringify(b.params);
+
+// ============================================================================
+// Combination rules
+// ============================================================================
+
+/** Gates equal to their own inverse, grouped by the matrix they apply */
+const SELF_INVERSE_CLASS: Partial<Record<GateType, string>> = {
+  [GateType.X]: 'X', [GateType.CX]: 'X', [GateType.CCX]: 'X',
+  [GateType.Z]: 'Z', [GateType.CZ]: 'Z',
+  [GateType.Y]: 'Y',
+  [GateType.H]: 'H',
+};
+
+/** Pairs that multiply to the identity */
+const INVERSE_PAIRS: [GateType, GateType][] = [
+  [GateType.S, GateType.SDG],
+  [GateType.SQRT_X, GateType.SQRT_X_DG],
+  [GateType.SQRT_Y, GateType.SQRT_Y_DG],
+];
+
+/** Exact products of two equal phase gates */
+const SQUARES: Partial<Record<GateType, GateType>> = {
+  [GateType.T]: GateType.S,
+  [GateType.S]: GateType.Z,
+  [GateType.SDG]: GateType.Z,
+};
+
+const ROTATIONS: Partial<Record<GateType, { axis: GateType; angle?: number }>> = {
+  [GateType.RX]: { axis: GateType.RX },
+  [GateType.RY]: { axis: GateType.RY },
+  [GateType.RZ]: { axis: GateType.RZ },
+  [GateType.RX_PI_2]: { axis: GateType.RX, angle: Math.PI / 2 },
+  [GateType.RX_PI_4]: { axis: GateType.RX, angle: Math.PI / 4 },
+  [GateType.RX_PI_8]: { axis: GateType.RX, angle: Math.PI / 8 },
+  [GateType.RX_PI_12]: { axis: GateType.RX, angle: Math.PI / 12 },
+  [GateType.RY_PI_2]: { axis: GateType.RY, angle: Math.PI / 2 },
+  [GateType.RY_PI_4]: { axis: GateType.RY, angle: Math.PI / 4 },
+  [GateType.RY_PI_8]: { axis: GateType.RY, angle: Math.PI / 8 },
+  [GateType.RY_PI_12]: { axis: GateType.RY, angle: Math.PI / 12 },
+  [GateType.RZ_PI_2]: { axis: GateType.RZ, angle: Math.PI / 2 },
+  [GateType.RZ_PI_4]: { axis: GateType.RZ, angle: Math.PI / 4 },
+  [GateType.RZ_PI_8]: { axis: GateType.RZ, angle: Math.PI / 8 },
+  [GateType.RZ_PI_12]: { axis: GateType.RZ, angle: Math.PI / 12 },
+};
+
+const ANGLE_TOLERANCE = 1e-9;
+
+/** Angle in (-period/2, period/2] */
+const wrapAngle = (theta: number, period: number): number => {
+  const wrapped = theta - period * Math.round(theta / period);
+  return wrapped <= -period / 2 + ANGLE_TOLERANCE ? wrapped + period : wrapped;
+};
+
+/**
+ * Combine gate a followed by gate b on one row.
+ * With exact set (under controls), the product must match without a global
+ * phase: RZ(2π) = −I only cancels when uncontrolled.
+ */
+const combineCells = (a: Cell, b: Cell, exact: boolean): Combined => {
+  if (a.gate === null || b.gate === null) return null;
+
+  const selfInverse = SELF_INVERSE_CLASS[a.gate];
+  if (selfInverse && selfInverse === SELF_INVERSE_CLASS[b.gate]) return 'cancel';
+  if (INVERSE_PAIRS.some(([p, q]) => (a.gate === p && b.gate === q) || (a.gate === q && b.gate === p))) return 'cancel';
+  if (a.gate === b.gate && SQUARES[a.gate]) return { gate: SQUARES[a.gate]!, id: a.id };
+
+  // Angles written in terms of parameters stay as they are
+  const rotationA = usesParameters(a.params) ? undefined : ROTATIONS[a.gate];
+  const rotationB = usesParameters(b.params) ? undefined : ROTATIONS[b.gate];
+  if (rotationA && rotationB && rotationA.axis === rotationB.axis) {
+    const sum = (rotationA.angle ?? a.params?.angle ?? 0) + (rotationB.angle ?? b.params?.angle ?? 0);
+    // RX/RY/RZ have period 4π, or 2π up to global phase
+    const angle = wrapAngle(sum, exact ? 4 * Math.PI : 2 * Math.PI);
+    if (Math.abs(angle) < ANGLE_TOLERANCE) return 'cancel';
+    return { gate: rotationA.axis, id: a.id, params: { angle, angleExpression: formatAngle(angle) } };
+  }
+  return null;
+};
+
+const isMultiRowCell = (cell: Cell): boolean =>
+  cell.gate === GateType.SWAP || cell.params?.reverseSpan !== undefined || cell.params?.isSpanContinuation === true;
+
+/** Multi-row gates that cancel with a copy of themselves or their inverse on the same span */
+const combineSpans = (a: Cell, b: Cell): 'cancel' | null => {
+  if (!sameParams(a, b)) return null;
+  if (a.gate === GateType.REVERSE && b.gate === GateType.REVERSE) return 'cancel';
+  if ((a.gate === GateType.QFT && b.gate === GateType.QFT_DG) || (a.gate === GateType.QFT_DG && b.gate === GateType.QFT)) {
+    return 'cancel';
+  }
+  return null;
+};
+
+/** One row of a SWAP or span in a controlled column; the column's other rows decide if all of it cancels */
+const combineMultiRowCells = (a: Cell, b: Cell): 'cancel' | null =>
+  a.gate === GateType.SWAP && b.gate === GateType.SWAP ? 'cancel' : combineSpans(a, b);
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+/** Gates whose effect depends on other wires of their column */
+const readsOtherWires = (type: GateType): boolean =>
+  isClassicalControlGate(type) ||
+  isArithmeticFixed2x1Gate(type) ||
+  isArithmeticInputGate(type) ||
+  isArithmeticComparisonGate(type) ||
+  isArithmeticScalarGate(type) ||
+  isInputParameterizedGate(type);
+
+/** Split a column into steps */
+const getColumnSteps = (grid: CircuitGrid, col: number): Step[] => {
+  const rows = grid.map((_, row) => row).filter(row => grid[row][col].gate !== null);
+  if (rows.length === 0) return [];
+  const types = rows.map(row => grid[row][col].gate as GateType);
+  if (types.some(readsOtherWires)) return [{ col, rows, kind: 'barrier' }];
+  if (types.some(isControlGate)) return [{ col, rows, kind: 'controlled' }];
+
+  const steps: Step[] = [];
+  const swapRows = rows.filter(row => grid[row][col].gate === GateType.SWAP);
+  if (swapRows.length > 0) steps.push({ col, rows: swapRows, kind: 'swap' });
+  for (const row of rows) {
+    const cell = grid[row][col];
+    if (cell.gate === GateType.SWAP || cell.params?.isSpanContinuation) continue;
+    const span = cell.params?.reverseSpan;
+    if (span) {
+      const spanRows = Array.from({ length: span.endRow - span.startRow + 1 }, (_, k) => span.startRow + k);
+      steps.push({ col, rows: spanRows, kind: 'span' });
+    } else {
+      steps.push({ col, rows: [row], kind: 'single' });
+    }
+  }
+  return steps;
+};
+
+/** The step that next touches a's rows, if it touches exactly those rows and nothing came between */
+const findPartner = (grid: CircuitGrid, a: Step, stepAt: Map<string, Step>): Step | null => {
+  let partner: Step | null = null;
+  for (const row of a.rows) {
+    let col = a.col + 1;
+    while (col < grid[row].length && grid[row][col].gate === null) col++;
+    const next = stepAt.get(`${row},${col}`);
+    if (!next || (partner && next !== partner)) return null;
+    partner = next;
+  }
+  if (!partner || partner.kind !== a.kind || partner.rows.join() !== a.rows.join()) return null;
+  return partner;
+};
+
+/**
+ * Apply a rewrite to a pair of steps in place.
+ * Returns whether the pair combined.
+ */
+const combineSteps = (grid: CircuitGrid, a: Step, b: Step): boolean => {
+  const cellA = (row: number) => grid[row][a.col];
+  const cellB = (row: number) => grid[row][b.col];
+  const clear = (row: number, col: number) => {
+    grid[row][col] = { gate: null, id: grid[row][col].id };
+  };
+
+  switch (a.kind) {
+    case 'single': {
+      const [row] = a.rows;
+      const combined = combineCells(cellA(row), cellB(row), false);
+      if (!combined) return false;
+      if (combined === 'cancel') clear(row, a.col);
+      else grid[row][a.col] = combined;
+      clear(row, b.col);
+      return true;
+    }
+    case 'swap':
+      // Equal rows pair up the same way, so the swaps undo each other
+      for (const row of a.rows) {
+        clear(row, a.col);
+        clear(row, b.col);
+      }
+      return true;
+    case 'span': {
+      const anchor = a.rows[0];
+      if (!combineSpans(cellA(anchor), cellB(anchor))) return false;
+      for (const row of a.rows) {
+        clear(row, a.col);
+        clear(row, b.col);
+      }
+      return true;
+    }
+    case 'controlled': {
+      // C(U)·C(V) = C(UV) when both columns have the same controls on the same rows
+      const results = new Map<number, Combined>();
+      for (const row of a.rows) {
+        const x = cellA(row);
+        const y = cellB(row);
+        if (isControlGate(x.gate as GateType) || isControlGate(y.gate as GateType)) {
+          if (x.gate !== y.gate) return false;
+          continue;
+        }
+        const combined = isMultiRowCell(x) ? combineMultiRowCells(x, y) : combineCells(x, y, true);
+        if (!combined) return false;
+        results.set(row, combined);
+      }
+      const remaining = Array.from(results.values()).filter(result => result !== 'cancel');
+      for (const [row, combined] of results) {
+        if (combined === 'cancel') clear(row, a.col);
+        else if (combined) grid[row][a.col] = combined;
+      }
+      for (const row of a.rows) clear(row, b.col);
+      // Controls with nothing left to control go too
+      if (remaining.length === 0) {
+        for (const row of a.rows) clear(row, a.col);
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+/** Apply one rewrite to the grid in place; returns whether one was found */
+const rewriteOnce = (grid: CircuitGrid): boolean => {
+  const numCols = grid[0]?.length ?? 0;
+  const steps: Step[] = [];
+  const stepAt = new Map<string, Step>();
+  for (let col = 0; col < numCols; col++) {
+    for (const step of getColumnSteps(grid, col)) {
+      steps.push(step);
+      for (const row of step.rows) stepAt.set(`${row},${col}`, step);
+    }
+  }
+
+  for (const step of steps) {
+    if (step.kind === 'barrier') continue;
+    const partner = findPartner(grid, step, stepAt);
+    if (partner && combineSteps(grid, step, partner)) return true;
+  }
+  return false;
+};
+
+// ============================================================================
+// Optimizer
+// ============================================================================
+
+/**
+ * Cancel and merge gates until no rule applies, then remove empty columns.
+ * The result keeps the source's size, padding with empty columns on the right.
+ */
+export const optimizeCircuit = (grid: CircuitGrid): OptimizeResult => {
+  const working: CircuitGrid = grid.map(row => row.map(cell => ({ ...cell, params: cell.params ? { ...cell.params } : undefined })));
+  while (rewriteOnce(working)) {
+    // Each rewrite removes at least one gate, so this ends
+  }
+
+  const compacted = compactGrid(working);
+  const numCols = grid[0]?.length ?? 0;
+  const optimized: CircuitGrid = compacted.map((row, r) => [
+    ...row,
+    ...Array.from({ length: numCols - row.length }, (_, k) => ({ gate: null, id: `cell-${r}-${row.length + k}` })),
+  ]);
+
+  const changed = optimized.some((row, r) => row.some((cell, c) =>
+    cell.gate !== grid[r][c].gate || JSON.stringify(cell.params) !== JSON.stringify(grid[r][c].params)
+  ));
+
+  return {
+    grid: optimized,
+    changed,
+    gatesRemoved: countGates(grid) - countGates(optimized),
+    depthRemoved: countDepth(grid) - countDepth(optimized),
+  };
+};
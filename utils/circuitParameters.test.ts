@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bindCircuitParameters,
+  countParameterUses,
+  getExpressionParameterNames,
+  isCircuitParameter,
+  isValidParameterName,
+  suggestParameterName,
+  usesParameters,
+} from './circuitParameters';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const parameter = (name: string, value: number) => ({ name, value, min: 0, max: 2 * Math.PI });
+
+describe('circuitParameters', () => {
+  it('should list the names an expression uses', () => {
+    expect(getExpressionParameterNames('2*theta + θ - theta/2')).toEqual(['theta', 'θ']);
+    expect(getExpressionParameterNames('3*pi/8')).toEqual([]);
+    expect(getExpressionParameterNames('2 $ x')).toEqual([]);
+    expect(usesParameters({ angle: 1, angleExpression: 'φ' })).toBe(true);
+    expect(usesParameters({ angle: 1, angleExpression: 'pi/2' })).toBe(false);
+    expect(usesParameters({ angle: 1 })).toBe(false);
+  });
+
+  it('should accept single identifiers as names', () => {
+    expect(isValidParameterName('theta')).toBe(true);
+    expect(isValidParameterName('γ')).toBe(true);
+    expect(isValidParameterName('p_2')).toBe(true);
+    expect(isValidParameterName('pi')).toBe(false);
+    expect(isValidParameterName('2x')).toBe(false);
+    expect(isValidParameterName('a b')).toBe(false);
+    expect(isValidParameterName('')).toBe(false);
+  });
+
+  it('should check parameters read from files', () => {
+    expect(isCircuitParameter(parameter('θ', 1))).toBe(true);
+    expect(isCircuitParameter({ name: 'θ', value: 1, min: 2, max: 1 })).toBe(false);
+    expect(isCircuitParameter({ name: 'sqrt', value: 1, min: 0, max: 1 })).toBe(false);
+    expect(isCircuitParameter({ name: 'θ', value: '1', min: 0, max: 1 })).toBe(false);
+    expect(isCircuitParameter(null)).toBe(false);
+  });
+
+  it('should suggest Greek names first, then numbered ones', () => {
+    expect(suggestParameterName([])).toBe('θ');
+    expect(suggestParameterName([parameter('θ', 0)])).toBe('φ');
+    const greek = ['θ', 'φ', 'γ', 'λ', 'α', 'β'].map(name => parameter(name, 0));
+    expect(suggestParameterName(greek)).toBe('p1');
+    expect(suggestParameterName([...greek, parameter('p1', 0)])).toBe('p2');
+  });
+
+  it('should bind parameterized angles to the current values', () => {
+    const grid = createGrid(2, 2);
+    grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: '2*theta' } };
+    grid[1][0] = { ...grid[1][0], gate: GateType.RZ, params: { angle: 0.5, angleExpression: 'pi/4' } };
+    grid[1][1] = { ...grid[1][1], gate: GateType.RX, params: { angle: 0.7, angleExpression: 'gamma' } };
+
+    const bound = bindCircuitParameters(grid, [parameter('theta', 0.3)]);
+    expect(bound[0][0].params?.angle).toBeCloseTo(0.6);
+    expect(bound[0][0].params?.angleExpression).toBe('2*theta');
+    // Constant expressions and unknown names keep the stored angle
+    expect(bound[1][0]).toBe(grid[1][0]);
+    expect(bound[1][1].params?.angle).toBe(0.7);
+    expect(grid[0][0].params?.angle).toBe(0);
+
+    expect(countParameterUses(grid, 'theta')).toBe(1);
+    expect(countParameterUses(grid, 'phi')).toBe(0);
+  });
+
+  it('should bind and count angles inside macro gates', () => {
+    const sub = createGrid(1, 2);
+    sub[0][0] = { ...sub[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: '2*theta' } };
+    sub[0][1] = { ...sub[0][1], gate: GateType.RZ, params: { angle: 0, angleExpression: 'phi' } };
+    const grid = createGrid(2, 1);
+    const reverseSpan = { startRow: 0, endRow: 0 };
+    grid[0][0] = { ...grid[0][0], gate: GateType.MACRO, params: { customLabel: 'M', customCircuit: sub, reverseSpan } };
+    grid[1][0] = { ...grid[1][0], gate: GateType.RX, params: { angle: 0, angleExpression: 'theta' } };
+
+    const bound = bindCircuitParameters(grid, [parameter('theta', 0.3)]);
+    const boundSub = bound[0][0].params?.customCircuit;
+    expect(boundSub?.[0][0].params?.angle).toBeCloseTo(0.6);
+    expect(boundSub?.[0][1]).toBe(sub[0][1]);
+    expect(sub[0][0].params?.angle).toBe(0);
+
+    expect(countParameterUses(grid, 'theta')).toBe(2);
+    // A parameter only a macro uses is still in use
+    expect(countParameterUses(grid, 'phi')).toBe(1);
+  });
+
+  it('should return the same grid when no gate uses parameters', () => {
+    const grid = createGrid(1, 1);
+    grid[0][0] = { ...grid[0][0], gate: GateType.RZ, params: { angle: 1, angleExpression: '1' } };
+    expect(bindCircuitParameters(grid, [parameter('θ', 2)])).toBe(grid);
+  });
+});
@@ -0,0 +1,114 @@
+import { Cell, CircuitGrid, CircuitParameter, GateParams } from '../types';
+import { tokenize, TokenType, ParameterScope } from './parser';
+import { parseAngleExpression } from './angleParser';
+
+/**
+ * Named circuit parameters
+ *
+ * Rotation angles may refer to parameters by name ("2*theta", "θ + π/4").
+ * The grid keeps each expression with the angle it had when entered; the
+ * angles in effect come from binding the grid to the current parameter
+ * values, which is what simulation and analysis should run on. Macro gates'
+ * sub-circuits are bound and counted like the rest of the grid.
+ */
+
+/** Names offered for new parameters, in order */
+export const SUGGESTED_PARAMETER_NAMES = ['θ', 'φ', 'γ', 'λ', 'α', 'β'];
+
+/** Slider range of a new parameter */
+export const DEFAULT_PARAMETER_RANGE = { min: 0, max: 2 * Math.PI };
+
+/** Parameter values by name, for the angle parser */
+export const getParameterScope = (parameters: readonly CircuitParameter[]): ParameterScope =>
+  Object.fromEntries(parameters.map(({ name, value }) => [name, value]));
+
+/** Names an expression refers to, without duplicates; empty when it does not tokenize */
+export const getExpressionParameterNames = (expression: string): string[] => {
+  const result = tokenize(expression, { identifiers: true });
+  if (!result.success) return [];
+  const names = result.value.filter(token => token.type === TokenType.IDENTIFIER).map(token => token.lexeme);
+  return [...new Set(names)];
+};
+
+/** Whether a gate's angle is written in terms of parameters */
+export const usesParameters = (params?: GateParams): boolean =>
+  params?.angleExpression !== undefined && getExpressionParameterNames(params.angleExpression).length > 0;
+
+/**
+ * Whether a name can be used as a parameter: a lowercase Latin or Greek letter (θ, φ, …)
+ * followed by lowercase letters, digits or underscores, other than pi, π, sqrt, i and
+ * runs of them such as pii
+ */
+export const isValidParameterName = (name: string): boolean => {
+  const result = tokenize(name, { identifiers: true });
+  return (
+    result.success &&
+    result.value.length === 2 &&
+    result.value[0].type === TokenType.IDENTIFIER &&
+    result.value[0].lexeme === name
+  );
+};
+
+/** Whether a value read from a file is a well-formed parameter */
+export const isCircuitParameter = (value: unknown): value is CircuitParameter => {
+  if (!value || typeof value !== 'object') return false;
+  const { name, value: current, min, max } = value as Record<string, unknown>;
+  return (
+    typeof name === 'string' &&
+    isValidParameterName(name) &&
+    [current, min, max].every(n => typeof n === 'number' && Number.isFinite(n)) &&
+    (min as number) < (max as number)
+  );
+};
+
+/** First suggested name not yet taken, then p1, p2, … */
+export const suggestParameterName = (parameters: readonly CircuitParameter[]): string => {
+  const taken = new Set(parameters.map(p => p.name));
+  const free = SUGGESTED_PARAMETER_NAMES.find(name => !taken.has(name));
+  if (free) return free;
+  let index = 1;
+  while (taken.has(`p${index}`)) index++;
+  return `p${index}`;
+};
+
+/** Every cell of the grid and of the sub-circuits of its macro gates, each macro once */
+const getAllCells = (grid: CircuitGrid): Cell[] =>
+  grid.flat().flatMap(cell =>
+    cell.params?.customCircuit && !cell.params.isSpanContinuation
+      ? [cell, ...getAllCells(cell.params.customCircuit)]
+      : [cell]
+  );
+
+/** Whether any angle of the grid, macro sub-circuits included, is written in terms of parameters */
+const hasParameterizedAngles = (grid: CircuitGrid): boolean =>
+  grid.some(row => row.some(cell =>
+    usesParameters(cell.params) || (!!cell.params?.customCircuit && hasParameterizedAngles(cell.params.customCircuit))
+  ));
+
+/** Number of gates, inside macro gates too, whose angle refers to the parameter */
+export const countParameterUses = (grid: CircuitGrid, name: string): number =>
+  getAllCells(grid).filter(cell =>
+    cell.params?.angleExpression !== undefined && getExpressionParameterNames(cell.params.angleExpression).includes(name)
+  ).length;
+
+const bindCells = (grid: CircuitGrid, scope: ParameterScope): CircuitGrid =>
+  grid.map(row => row.map(cell => {
+    const circuit = cell.params?.customCircuit;
+    if (circuit && hasParameterizedAngles(circuit)) {
+      return { ...cell, params: { ...cell.params, customCircuit: bindCells(circuit, scope) } };
+    }
+    if (!usesParameters(cell.params)) return cell;
+    const angle = parseAngleExpression(cell.params!.angleExpression!, scope);
+    return angle === null ? cell : { ...cell, params: { ...cell.params, angle } };
+  }));
+
+/**
+ * Recompute parameterized angles, inside macro gates too, from the current
+ * parameter values. Cells whose expression no longer evaluates (a parameter
+ * was removed) keep their last angle. Returns the same grid when nothing uses
+ * parameters.
+ */
+export const bindCircuitParameters = (grid: CircuitGrid, parameters: readonly CircuitParameter[]): CircuitGrid => {
+  if (!hasParameterizedAngles(grid)) return grid;
+  return bindCells(grid, getParameterScope(parameters));
+};
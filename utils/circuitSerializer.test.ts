@@ -0,0 +1,650 @@
+import { describe, it, expect } from 'vitest';
+import { exportCircuitToQasm, encodeCircuitLink, decodeCircuitLink, buildCircuitLink, serializeCircuit, validateCircuitFile } from './circuitSerializer';
+import { getGateMatrix } from './quantum';
+import { Complex, GateType, CircuitGrid, GateParams } from '../types';
+
+const createEmptyGrid = (rows: number, cols: number): CircuitGrid => {
+  return Array(rows).fill(null).map((_, rowIdx) =>
+    Array(cols).fill(null).map((_, colIdx) => ({
+      gate: null,
+      id: `cell-${rowIdx}-${colIdx}`
+    }))
+  );
+};
+
+const place = (grid: CircuitGrid, row: number, col: number, gate: GateType, params?: GateParams) => {
+  grid[row][col] = { gate, id: `cell-${row}-${col}`, params };
+};
+
+/** Place a spanning gate anchor plus its continuation cells */
+const placeSpan = (grid: CircuitGrid, startRow: number, endRow: number, col: number, gate: GateType) => {
+  for (let row = startRow; row <= endRow; row++) {
+    place(grid, row, col, gate, {
+      reverseSpan: { startRow, endRow },
+      ...(row > startRow ? { isSpanContinuation: true } : {}),
+    });
+  }
+};
+
+const O: Complex = { re: 0, im: 0 };
+const L: Complex = { re: 1, im: 0 };
+const swapMatrix: Complex[][] = [[L, O, O, O], [O, O, L, O], [O, L, O, O], [O, O, O, L]];
+
+/** Program statements after the header, definitions and registers */
+const body = (qasm: string): string[] => {
+  const sections = qasm.trim().split('\n\n');
+  return sections[sections.length - 1].split('\n');
+};
+
+describe('exportCircuitToQasm', () => {
+  describe('program structure', () => {
+    it('should emit an OpenQASM 3.0 header by default', () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 0, 0, GateType.H);
+      const { qasm, warnings } = exportCircuitToQasm(grid);
+      expect(qasm).toBe('OPENQASM 3.0;\ninclude "stdgates.inc";\n\nqubit[1] q;\n\nh q[0];\n');
+      expect(warnings).toHaveLength(0);
+    });
+
+    it('should emit an OpenQASM 2.0 header when requested', () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 1, 0, GateType.X);
+      const { qasm } = exportCircuitToQasm(grid, { version: '2.0' });
+      expect(qasm).toBe('OPENQASM 2.0;\ninclude "qelib1.inc";\n\nqreg q[2];\n\nx q[1];\n');
+    });
+
+    it('should drop trailing empty wires but keep row indices', () => {
+      const grid = createEmptyGrid(8, 2);
+      place(grid, 2, 0, GateType.Z);
+      const { qasm } = exportCircuitToQasm(grid);
+      expect(qasm).toContain('qubit[3] q;');
+      expect(body(qasm)).toEqual(['z q[2];']);
+    });
+
+    it('should skip identity and visualization gates', () => {
+      const grid = createEmptyGrid(2, 3);
+      place(grid, 0, 0, GateType.I);
+      place(grid, 0, 1, GateType.BLOCH_VIS);
+      place(grid, 1, 2, GateType.H);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['h q[1];']);
+    });
+
+    it('should declare a classical register only when measuring', () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 0, 0, GateType.H);
+      place(grid, 0, 1, GateType.MEASURE);
+      place(grid, 1, 1, GateType.MEASURE);
+
+      const v3 = exportCircuitToQasm(grid).qasm;
+      expect(v3).toContain('bit[2] c;');
+      expect(body(v3)).toEqual(['h q[0];', 'c[0] = measure q[0];', 'c[1] = measure q[1];']);
+
+      const v2 = exportCircuitToQasm(grid, { version: '2.0' }).qasm;
+      expect(v2).toContain('creg c[2];');
+      expect(body(v2)).toContain('measure q[1] -> c[1];');
+    });
+  });
+
+  describe('single-qubit gates', () => {
+    it('should map fixed gates to their QASM names', () => {
+      const grid = createEmptyGrid(4, 2);
+      place(grid, 0, 0, GateType.S);
+      place(grid, 1, 0, GateType.SDG);
+      place(grid, 2, 0, GateType.T);
+      place(grid, 3, 0, GateType.Y);
+      place(grid, 0, 1, GateType.SQRT_X);
+      place(grid, 1, 1, GateType.RY_PI_8);
+      place(grid, 2, 1, GateType.RZ_PI_12);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual([
+        's q[0];', 'sdg q[1];', 't q[2];', 'y q[3];',
+        'rx(pi/2) q[0];', 'ry(pi/8) q[1];', 'rz(pi/12) q[2];',
+      ]);
+    });
+
+    it('should use GateParams.angle for RX/RY/RZ', () => {
+      const grid = createEmptyGrid(3, 1);
+      place(grid, 0, 0, GateType.RX, { angle: 3 * Math.PI / 4 });
+      place(grid, 1, 0, GateType.RY, { angle: -Math.PI });
+      place(grid, 2, 0, GateType.RZ, { angle: 0.3 });
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual([
+        'rx(3*pi/4) q[0];', 'ry(-pi) q[1];', 'rz(0.3) q[2];',
+      ]);
+    });
+
+    it('should export time-parameterized gates at the given t with a warning', () => {
+      const grid = createEmptyGrid(1, 1);
+      place(grid, 0, 0, GateType.ZT);
+      const { qasm, warnings } = exportCircuitToQasm(grid, { timeParameter: 0.125, version: '2.0' });
+      expect(body(qasm)).toEqual(['u1(pi/4) q[0];']);
+      expect(warnings).toEqual(['cell [0,0]: ZT depends on t; exported with t = 0.125']);
+    });
+
+    it('should decompose custom gates into U(θ,φ,λ) matching the matrix up to global phase', () => {
+      const s = Math.SQRT1_2;
+      const customMatrix: Complex[][] = [
+        [{ re: s, im: 0 }, { re: 0, im: s }],
+        [{ re: 0, im: s }, { re: s, im: 0 }],
+      ];
+      const grid = createEmptyGrid(1, 1);
+      place(grid, 0, 0, GateType.CUSTOM, { customMatrix, customLabel: 'G' });
+
+      const line = body(exportCircuitToQasm(grid).qasm)[0];
+      const match = line.match(/^U\((.+), (.+), (.+)\) q\[0\];$/);
+      expect(match).not.toBeNull();
+      const [theta, phi, lambda] = match!.slice(1).map(evalAngle);
+
+      const u: Complex[][] = [
+        [{ re: Math.cos(theta / 2), im: 0 }, { re: -Math.cos(lambda) * Math.sin(theta / 2), im: -Math.sin(lambda) * Math.sin(theta / 2) }],
+        [{ re: Math.cos(phi) * Math.sin(theta / 2), im: Math.sin(phi) * Math.sin(theta / 2) },
+          { re: Math.cos(phi + lambda) * Math.cos(theta / 2), im: Math.sin(phi + lambda) * Math.cos(theta / 2) }],
+      ];
+      // customMatrix[0][0] is real and positive, so no global phase separates the two
+      const expected = getGateMatrix(GateType.CUSTOM, { customMatrix });
+      for (let i = 0; i < 2; i++) {
+        for (let j = 0; j < 2; j++) {
+          expect(u[i][j].re).toBeCloseTo(expected[i][j].re, 10);
+          expect(u[i][j].im).toBeCloseTo(expected[i][j].im, 10);
+        }
+      }
+    });
+  });
+
+  describe('controls', () => {
+    it('should export CONTROL + CX as cx and two controls as ccx', () => {
+      const grid = createEmptyGrid(3, 2);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.CX);
+      place(grid, 0, 1, GateType.CONTROL);
+      place(grid, 1, 1, GateType.CONTROL);
+      place(grid, 2, 1, GateType.CCX);
+      expect(body(exportCircuitToQasm(grid, { version: '2.0' }).qasm)).toEqual([
+        'cx q[0], q[1];', 'ccx q[0], q[1], q[2];',
+      ]);
+    });
+
+    it('should use ctrl/negctrl modifiers in 3.0', () => {
+      const grid = createEmptyGrid(4, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.ANTI_CONTROL);
+      place(grid, 2, 0, GateType.ANTI_CONTROL);
+      place(grid, 3, 0, GateType.H);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual([
+        'ctrl @ negctrl(2) @ h q[0], q[1], q[2], q[3];',
+      ]);
+    });
+
+    it('should conjugate anti-controls with X in 2.0', () => {
+      const grid = createEmptyGrid(2, 1);
+      place(grid, 0, 0, GateType.ANTI_CONTROL);
+      place(grid, 1, 0, GateType.Z);
+      expect(body(exportCircuitToQasm(grid, { version: '2.0' }).qasm)).toEqual([
+        'x q[0];', 'cz q[0], q[1];', 'x q[0];',
+      ]);
+    });
+
+    it('should rewrite controlled phase gates as cu1 in 2.0', () => {
+      const grid = createEmptyGrid(2, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.T);
+      expect(body(exportCircuitToQasm(grid, { version: '2.0' }).qasm)).toEqual(['cu1(pi/4) q[0], q[1];']);
+    });
+
+    it('should wrap X-basis and Y-basis controls in basis changes', () => {
+      const grid = createEmptyGrid(3, 1);
+      place(grid, 0, 0, GateType.X_CONTROL);
+      place(grid, 1, 0, GateType.Y_ANTI_CONTROL);
+      place(grid, 2, 0, GateType.X);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual([
+        'h q[0];', 'sdg q[1];', 'h q[1];',
+        'negctrl @ ctrl @ x q[0], q[1], q[2];',
+        'h q[0];', 'h q[1];', 's q[1];',
+      ]);
+    });
+
+    it('should apply controls to SWAP', () => {
+      const grid = createEmptyGrid(3, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.SWAP);
+      place(grid, 2, 0, GateType.SWAP);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['cswap q[0], q[1], q[2];']);
+    });
+
+    it('should fall back to an opaque gate for 2.0 combinations qelib1 lacks', () => {
+      const grid = createEmptyGrid(4, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.CONTROL);
+      place(grid, 2, 0, GateType.CONTROL);
+      place(grid, 3, 0, GateType.X);
+      const { qasm, warnings } = exportCircuitToQasm(grid, { version: '2.0' });
+      expect(qasm).toContain('opaque cccx q0, q1, q2, q3;');
+      expect(body(qasm)).toEqual(['cccx q[0], q[1], q[2], q[3];']);
+      expect(warnings[0]).toContain('cannot express x with 3 control(s)');
+    });
+
+    it('should turn controlled scalar gates into phases on a control', () => {
+      const grid = createEmptyGrid(2, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      place(grid, 1, 0, GateType.SCALE_I);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['p(pi/2) q[0];']);
+    });
+  });
+
+  describe('spanning gates', () => {
+    it('should export REVERSE as swaps', () => {
+      const grid = createEmptyGrid(4, 1);
+      placeSpan(grid, 0, 3, 0, GateType.REVERSE);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['swap q[0], q[3];', 'swap q[1], q[2];']);
+    });
+
+    it('should control the swaps of a controlled REVERSE', () => {
+      const grid = createEmptyGrid(3, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      placeSpan(grid, 1, 2, 0, GateType.REVERSE);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['cswap q[0], q[1], q[2];']);
+    });
+
+    it('should define QFT spans as gates and reuse the definition', () => {
+      const grid = createEmptyGrid(3, 2);
+      placeSpan(grid, 0, 1, 0, GateType.QFT);
+      placeSpan(grid, 1, 2, 1, GateType.QFT);
+      const { qasm, warnings } = exportCircuitToQasm(grid);
+      expect(qasm).toContain([
+        'gate qft_2 q0, q1 {',
+        '  h q0;',
+        '  cp(pi/2) q1, q0;',
+        '  h q1;',
+        '  swap q0, q1;',
+        '}',
+      ].join('\n'));
+      expect(qasm.match(/gate qft_2/g)).toHaveLength(1);
+      expect(body(qasm)).toEqual(['qft_2 q[0], q[1];', 'qft_2 q[1], q[2];']);
+      expect(warnings).toHaveLength(0);
+    });
+
+    it('should invert the QFT body for QFT†', () => {
+      const grid = createEmptyGrid(2, 1);
+      placeSpan(grid, 0, 1, 0, GateType.QFT_DG);
+      const { qasm } = exportCircuitToQasm(grid, { version: '2.0' });
+      expect(qasm).toContain('gate qft_dg_2 q0, q1 {\n  swap q0, q1;\n  h q1;\n  cu1(-pi/2) q1, q0;\n  h q0;\n}');
+    });
+
+    it('should leave Pauli display gates out', () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 0, 0, GateType.H);
+      placeSpan(grid, 0, 1, 1, GateType.PAULI_VIS);
+      const { qasm, warnings } = exportCircuitToQasm(grid);
+      expect(body(qasm)).toEqual(['h q[0];']);
+      expect(warnings).toHaveLength(0);
+    });
+
+    it('should export multi-qubit custom gates as opaque gates with a warning', () => {
+      const grid = createEmptyGrid(2, 1);
+      place(grid, 0, 0, GateType.CUSTOM_MULTI, { customMatrix: swapMatrix, customLabel: 'Sw', reverseSpan: { startRow: 0, endRow: 1 } });
+      place(grid, 1, 0, GateType.CUSTOM_MULTI, { customMatrix: swapMatrix, customLabel: 'Sw', reverseSpan: { startRow: 0, endRow: 1 }, isSpanContinuation: true });
+      const { qasm, warnings } = exportCircuitToQasm(grid, { version: '2.0' });
+      expect(qasm).toContain('opaque custom_sw_2 q0, q1;');
+      expect(body(qasm)).toEqual(['custom_sw_2 q[0], q[1];']);
+      expect(warnings).toEqual([
+        'cell [0,0]: custom 2-qubit matrix has no OpenQASM decomposition; exported as opaque gate "custom_sw_2"',
+      ]);
+    });
+
+    it('should apply control modifiers to QFT in 3.0', () => {
+      const grid = createEmptyGrid(3, 1);
+      place(grid, 0, 0, GateType.CONTROL);
+      placeSpan(grid, 1, 2, 0, GateType.QFT);
+      expect(body(exportCircuitToQasm(grid).qasm)).toEqual(['ctrl @ qft_2 q[0], q[1], q[2];']);
+    });
+  });
+
+  describe('arithmetic gates', () => {
+    it('should emit opaque gates with warnings', () => {
+      const grid = createEmptyGrid(2, 1);
+      placeSpan(grid, 0, 1, 0, GateType.INC);
+
+      const v2 = exportCircuitToQasm(grid, { version: '2.0' });
+      expect(v2.qasm).toContain('opaque inc_2 q0, q1;');
+      expect(body(v2.qasm)).toEqual(['inc_2 q[0], q[1];']);
+      expect(v2.warnings).toEqual(['cell [0,0]: INC has no OpenQASM equivalent; exported as opaque gate "inc_2"']);
+
+      const v3 = exportCircuitToQasm(grid);
+      expect(v3.qasm).toContain('gate inc_2 q0, q1 { }');
+      expect(v3.warnings).toHaveLength(1);
+    });
+
+    it('should pass input registers as extra operands', () => {
+      const grid = createEmptyGrid(6, 1);
+      placeSpan(grid, 0, 1, 0, GateType.MUL_A_MOD_R);
+      placeSpan(grid, 2, 3, 0, GateType.INPUT_A);
+      placeSpan(grid, 4, 5, 0, GateType.INPUT_R);
+      const { qasm } = exportCircuitToQasm(grid);
+      expect(body(qasm)).toEqual(['mul_a_mod_r_6 q[0], q[1], q[2], q[3], q[4], q[5];']);
+    });
+
+    it('should skip arithmetic gates with missing inputs', () => {
+      const grid = createEmptyGrid(2, 1);
+      placeSpan(grid, 0, 1, 0, GateType.ADD_A);
+      const { qasm, warnings } = exportCircuitToQasm(grid);
+      expect(qasm).not.toContain('add_a');
+      expect(warnings).toEqual(['cell [0,0]: ADD_A requires INPUT_A in the same column; gate was skipped']);
+    });
+  });
+
+  describe('classical control', () => {
+    const createClassicalGrid = () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 0, 0, GateType.MEASURE);
+      place(grid, 0, 1, GateType.CLASSICAL_CONTROL);
+      place(grid, 1, 1, GateType.X);
+      return grid;
+    };
+
+    it('should wrap the column in an if block in 3.0', () => {
+      const { qasm, warnings } = exportCircuitToQasm(createClassicalGrid());
+      expect(body(qasm)).toEqual(['c[0] = measure q[0];', 'if (c[0] == 1) {', '  x q[1];', '}']);
+      expect(warnings).toEqual([]);
+    });
+
+    it('should fall back to a quantum control in 2.0', () => {
+      const { qasm, warnings } = exportCircuitToQasm(createClassicalGrid(), { version: '2.0' });
+      expect(body(qasm)).toEqual(['measure q[0] -> c[0];', 'cx q[0], q[1];']);
+      expect(warnings).toEqual(['cell [0,1]: classical control needs OpenQASM 3.0; exported as a quantum control on q[0]']);
+    });
+  });
+
+  describe('initial states and reset', () => {
+    it('should prepare initial states before the first column', () => {
+      const grid = createEmptyGrid(4, 1);
+      place(grid, 0, 0, GateType.H);
+      const { qasm } = exportCircuitToQasm(grid, { initialStates: ['0', '-', '0', '-i'] });
+      expect(qasm).toContain('qubit[4] q;');
+      expect(body(qasm)).toEqual(['x q[1];', 'h q[1];', 'h q[3];', 'sdg q[3];', 'h q[0];']);
+    });
+
+    it('should prepare custom initial states with a u gate', () => {
+      const grid = createEmptyGrid(1, 1);
+      const { qasm } = exportCircuitToQasm(grid, {
+        initialStates: [{ alpha: { re: 0.6, im: 0 }, beta: { re: 0, im: 0.8 } }],
+      });
+      const [statement] = body(qasm);
+      const match = statement.match(/^U\((.+), (.+), (.+)\) q\[0\];$/);
+      expect(match).not.toBeNull();
+      // U(θ, φ, λ)|0⟩ = cos(θ/2)|0⟩ + e^{iφ} sin(θ/2)|1⟩
+      expect(Math.cos(evalAngle(match![1]) / 2)).toBeCloseTo(0.6, 10);
+      expect(evalAngle(match![2])).toBeCloseTo(Math.PI / 2, 10);
+    });
+
+    it('should export RESET inside a classically controlled block', () => {
+      const grid = createEmptyGrid(2, 2);
+      place(grid, 0, 0, GateType.MEASURE);
+      place(grid, 0, 1, GateType.CLASSICAL_CONTROL);
+      place(grid, 1, 1, GateType.RESET);
+      const { qasm } = exportCircuitToQasm(grid);
+      expect(body(qasm)).toEqual(['c[0] = measure q[0];', 'if (c[0] == 1) {', '  reset q[1];', '}']);
+    });
+  });
+
+  describe('noise gates', () => {
+    it('should skip noise channels with a warning', () => {
+      const grid = createEmptyGrid(1, 2);
+      place(grid, 0, 0, GateType.H);
+      place(grid, 0, 1, GateType.DEPOLARIZE, { noiseStrength: 0.1 });
+      const { qasm, warnings } = exportCircuitToQasm(grid);
+      expect(body(qasm)).toEqual(['h q[0];']);
+      expect(warnings).toEqual(['cell [0,1]: DEPOLARIZE is a noise channel with no OpenQASM equivalent; skipped']);
+    });
+  });
+});
+
+/** Evaluate angles formatted like "3*pi/4" or "-pi/2" */
+function evalAngle(text: string): number {
+  const match = text.match(/^(-?)(?:(\d+)\*)?pi(?:\/(\d+))?$/);
+  if (!match) return Number(text);
+  const sign = match[1] === '-' ? -1 : 1;
+  return sign * Number(match[2] ?? 1) * Math.PI / Number(match[3] ?? 1);
+}
+
+describe('circuit links', () => {
+  const createLinkGrid = (): CircuitGrid => {
+    const grid = createEmptyGrid(3, 4);
+    place(grid, 0, 0, GateType.H);
+    place(grid, 0, 1, GateType.CONTROL);
+    place(grid, 1, 1, GateType.CX);
+    place(grid, 2, 2, GateType.RX, { angle: Math.PI / 4, angleExpression: 'π/4' });
+    placeSpan(grid, 0, 2, 3, GateType.QFT);
+    return grid;
+  };
+
+  const customGates = [{ label: 'Ü', matrix: [[{ re: 0, im: 0 }, { re: 1, im: 0 }], [{ re: 1, im: 0 }, { re: 0, im: 0 }]] }];
+
+  it('should round-trip grid, custom gates and metadata', () => {
+    const grid = createLinkGrid();
+    const metadata = { name: 'Bell → QFT', description: 'shared', createdAt: '2024-01-01T00:00:00.000Z' };
+    const file = decodeCircuitLink(`#${encodeCircuitLink(grid, customGates, metadata)}`);
+
+    expect(file).not.toBeNull();
+    expect(file!.metadata).toEqual(metadata);
+    expect(file!.circuit.rows).toBe(3);
+    expect(file!.circuit.cols).toBe(4);
+    expect(file!.circuit.grid).toEqual(grid);
+    expect(file!.customGates).toEqual(customGates);
+  });
+
+  it('should round-trip per-wire initial states', () => {
+    const initialStates = ['1', '0', { alpha: { re: 0.6, im: 0 }, beta: { re: 0, im: 0.8 } }] as const;
+    const file = decodeCircuitLink(`#${encodeCircuitLink(createLinkGrid(), [], {}, [...initialStates])}`);
+    expect(file!.circuit.initialStates).toEqual(initialStates);
+  });
+
+  it('should tag links with a version and keep them URL safe', () => {
+    const fragment = encodeCircuitLink(createLinkGrid(), []);
+    expect(fragment).toMatch(/^circuit=v1\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('should replace the fragment of the base URL', () => {
+    const url = buildCircuitLink(createLinkGrid(), [], {}, [], [], 'https://example.com/app/#old');
+    expect(url.startsWith('https://example.com/app/#circuit=v1.')).toBe(true);
+    expect(decodeCircuitLink(new URL(url).hash)?.circuit.grid[0][0].gate).toBe(GateType.H);
+  });
+
+  it('should return null when the fragment has no circuit', () => {
+    expect(decodeCircuitLink('')).toBeNull();
+    expect(decodeCircuitLink('#other=1')).toBeNull();
+  });
+
+  it('should reject unknown versions and corrupted payloads', () => {
+    expect(() => decodeCircuitLink('#circuit=v99.abc')).toThrow('Unsupported circuit link version: v99');
+    expect(() => decodeCircuitLink('#circuit=abc')).toThrow('Unsupported circuit link version: (missing)');
+    expect(() => decodeCircuitLink('#circuit=v1.!!!')).toThrow('Circuit link is corrupted');
+  });
+
+  it('should reject grid sizes and cells out of range before building the grid', () => {
+    const link = (payload: object) => `#circuit=v1.${btoa(JSON.stringify({ n: 'big', t: '2024-01-01', ...payload }))}`;
+    expect(() => decodeCircuitLink(link({ r: 1e9, c: 1, g: [] }))).toThrow(
+      'Circuit link has 1000000000 qubits; between 1 and 20 are supported'
+    );
+    expect(() => decodeCircuitLink(link({ r: 0, c: 1, g: [] }))).toThrow('Circuit link has 0 qubits');
+    expect(() => decodeCircuitLink(link({ r: 2, c: 1e9, g: [] }))).toThrow(
+      'Circuit link has 1000000000 columns; between 1 and 1000 are supported'
+    );
+    expect(() => decodeCircuitLink(link({ r: 2, c: 2, g: [['0', 0, 'H']] }))).toThrow('Circuit link is corrupted');
+    expect(() => decodeCircuitLink(link({ r: 2, c: 2, g: [0] }))).toThrow('Circuit link is corrupted');
+  });
+
+  it('should validate decoded circuits with validateCircuitFile', () => {
+    const payload = btoa(JSON.stringify({ n: 'bad', t: '2024-01-01', r: 1, c: 1, g: [[0, 0, 'NOT_A_GATE']] }));
+    expect(() => decodeCircuitLink(`#circuit=v1.${payload}`)).toThrow(
+      'Invalid circuit link: cell [0,0]: unknown gate type "NOT_A_GATE"'
+    );
+  });
+});
+
+describe('initial states in circuit files', () => {
+  it('should omit initial states when every wire starts in |0⟩', () => {
+    const grid = createEmptyGrid(2, 1);
+    expect(serializeCircuit(grid, [], {}, ['0']).circuit.initialStates).toBeUndefined();
+    expect(serializeCircuit(grid, [], {}, ['+']).circuit.initialStates).toEqual(['+', '0']);
+  });
+
+  it('should reject malformed initial states', () => {
+    const file = serializeCircuit(createEmptyGrid(2, 1), [], {}, ['1']);
+    const withStates = (initialStates: unknown) => ({ ...file, circuit: { ...file.circuit, initialStates } });
+
+    expect(validateCircuitFile(withStates('1')).errors).toEqual(['Circuit initialStates must be an array']);
+    expect(validateCircuitFile(withStates(['1'])).errors).toEqual(['Circuit has 1 initial states, expected 2']);
+    expect(validateCircuitFile(withStates(['0', { alpha: { re: 1, im: 0 }, beta: { re: 1, im: 0 } }])).errors).toEqual([
+      'Initial state of row 1 must be one of 0, 1, +, -, +i, -i or a normalized { alpha, beta }',
+    ]);
+  });
+});
+
+describe('Pauli display gates in circuit files', () => {
+  it('should keep valid Pauli strings and reject others', () => {
+    const grid = createEmptyGrid(2, 1);
+    place(grid, 0, 0, GateType.PAULI_VIS, { reverseSpan: { startRow: 0, endRow: 1 }, pauliString: 'XY' });
+    place(grid, 1, 0, GateType.PAULI_VIS, { reverseSpan: { startRow: 0, endRow: 1 }, pauliString: 'XY', isSpanContinuation: true });
+    const file = serializeCircuit(grid, [], {});
+    expect(validateCircuitFile(file).valid).toBe(true);
+
+    file.circuit.grid[0][0].params!.pauliString = 'XQ';
+    const result = validateCircuitFile(file);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('pauliString must be a string of I, X, Y, Z');
+  });
+});
+
+describe('metrics in circuit files', () => {
+  it('should recompute metrics from the grid on every save', () => {
+    const grid = createEmptyGrid(2, 2);
+    place(grid, 0, 0, GateType.T);
+    place(grid, 0, 1, GateType.CONTROL);
+    place(grid, 1, 1, GateType.CX);
+    const stale = { depth: 99, gateCounts: {}, tCount: 0, cnotCount: 0, width: 0 };
+    const file = serializeCircuit(grid, [], { name: 'Cost', metrics: stale });
+
+    expect(file.metadata.metrics).toEqual({
+      depth: 2,
+      gateCounts: { [GateType.T]: 1, [GateType.CONTROL]: 1, [GateType.CX]: 1 },
+      tCount: 1,
+      cnotCount: 1,
+      width: 2,
+    });
+    expect(validateCircuitFile(file).valid).toBe(true);
+  });
+});
+
+describe('parameters in circuit files', () => {
+  const createParameterGrid = (): CircuitGrid => {
+    const grid = createEmptyGrid(1, 1);
+    place(grid, 0, 0, GateType.RZ, { angle: 0, angleExpression: 'θ/2' });
+    return grid;
+  };
+  const parameters = [{ name: 'θ', value: Math.PI / 2, min: 0, max: Math.PI }];
+
+  it('should save parameters and measure the circuit at their values', () => {
+    const file = serializeCircuit(createParameterGrid(), [], {}, [], parameters);
+    expect(file.circuit.parameters).toEqual(parameters);
+    expect(file.circuit.grid[0][0].params?.angleExpression).toBe('θ/2');
+    // RZ(π/4) is a T gate
+    expect(file.metadata.metrics?.tCount).toBe(1);
+    expect(serializeCircuit(createParameterGrid(), []).circuit.parameters).toBeUndefined();
+  });
+
+  it('should round-trip parameters through links', () => {
+    const file = decodeCircuitLink(`#${encodeCircuitLink(createParameterGrid(), [], {}, [], parameters)}`);
+    expect(file!.circuit.parameters).toEqual(parameters);
+  });
+
+  it('should reject malformed and duplicate parameters', () => {
+    const file = serializeCircuit(createParameterGrid(), [], {}, [], parameters);
+    const withParameters = (value: unknown) => ({ ...file, circuit: { ...file.circuit, parameters: value } });
+
+    expect(validateCircuitFile(withParameters({})).errors).toEqual(['Circuit parameters must be an array']);
+    expect(validateCircuitFile(withParameters([{ name: 'pi', value: 0, min: 0, max: 1 }])).errors).toEqual([
+      'Parameter 0 must have a lowercase name and finite value, min and max with min < max',
+    ]);
+    expect(validateCircuitFile(withParameters([...parameters, ...parameters])).errors).toEqual([
+      "Parameter 'θ' is defined more than once",
+    ]);
+  });
+});
+
+describe('multi-qubit custom gates in circuit files', () => {
+  const createCustomGrid = (endRow: number): CircuitGrid => {
+    const grid = createEmptyGrid(3, 1);
+    for (let row = 0; row <= endRow; row++) {
+      place(grid, row, 0, GateType.CUSTOM_MULTI, {
+        customMatrix: swapMatrix,
+        customLabel: 'Sw',
+        reverseSpan: { startRow: 0, endRow },
+        ...(row > 0 ? { isSpanContinuation: true } : {}),
+      });
+    }
+    return grid;
+  };
+
+  it('should accept library matrices up to 16x16 and the gates that use them', () => {
+    const file = serializeCircuit(createCustomGrid(1), [{ label: 'Sw', matrix: swapMatrix }], {});
+    expect(validateCircuitFile(file).valid).toBe(true);
+  });
+
+  it('should reject a span that does not match the matrix size', () => {
+    const result = validateCircuitFile(serializeCircuit(createCustomGrid(2), [], {}));
+    expect(result.errors).toEqual(['cell [0,0]: CUSTOM_MULTI span must cover 2 rows for a 4x4 matrix']);
+  });
+
+  it('should reject matrices that are not square powers of two', () => {
+    const file = serializeCircuit(createCustomGrid(1), [{ label: 'B', matrix: [[L, O, O], [O, L, O], [O, O, L]] }], {});
+    expect(validateCircuitFile(file).errors).toEqual([
+      'customGates[0]: customMatrix must be a square array of side 2, 4, 8 or 16',
+    ]);
+  });
+});
+
+describe('macro gates in circuit files', () => {
+  // H then CX on two wires
+  const bell: CircuitGrid = createEmptyGrid(2, 2);
+  place(bell, 0, 0, GateType.H);
+  place(bell, 0, 1, GateType.CONTROL);
+  place(bell, 1, 1, GateType.X);
+
+  const createMacroGrid = (endRow: number): CircuitGrid => {
+    const grid = createEmptyGrid(3, 1);
+    for (let row = 0; row <= endRow; row++) {
+      place(grid, row, 0, GateType.MACRO, {
+        customLabel: 'B',
+        customCircuit: bell,
+        reverseSpan: { startRow: 0, endRow },
+        ...(row > 0 ? { isSpanContinuation: true } : {}),
+      });
+    }
+    return grid;
+  };
+
+  it('should round-trip composite definitions and their instances', () => {
+    const file = serializeCircuit(createMacroGrid(1), [{ label: 'B', circuit: bell }], {});
+    const restored = JSON.parse(JSON.stringify(file));
+
+    expect(validateCircuitFile(restored).valid).toBe(true);
+    expect(restored.customGates).toEqual([{ label: 'B', circuit: bell }]);
+    expect(restored.circuit.grid[0][0].params.customCircuit).toEqual(bell);
+  });
+
+  it('should reject a span that does not match the sub-circuit', () => {
+    const result = validateCircuitFile(serializeCircuit(createMacroGrid(2), [], {}));
+    expect(result.errors).toEqual(['cell [0,0]: MACRO span must cover the 2 rows of its sub-circuit']);
+  });
+
+  it('should validate the cells of a definition', () => {
+    const broken = [[{ gate: 'NOPE', id: 'cell-0-0' }]] as unknown as CircuitGrid;
+    const file = serializeCircuit(createEmptyGrid(1, 1), [{ label: 'B', circuit: broken }], {});
+    expect(validateCircuitFile(file).errors).toEqual([
+      'customGates[0]: circuit cell [0,0]: unknown gate type "NOPE"',
+    ]);
+  });
+
+  it('should export the gates a macro holds to OpenQASM', () => {
+    const { qasm } = exportCircuitToQasm(createMacroGrid(1));
+    expect(body(qasm)).toEqual(['h q[0];', 'cx q[0], q[1];']);
+  });
+});
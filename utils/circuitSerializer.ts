@@ -13,9 +13,31 @@ import {
   GateType,
   GateParams,
   CustomGateDefinition,
+  CircuitParameter,
   Complex,
+  WireInitialState,
+  ArithmeticScalarGate,
   isValidGateType,
+  isVisualizationGate,
+  isNoiseGate,
+  isArithmeticInputGate,
+  isArithmeticFixed2x1Gate,
+  isArithmeticScalarGate,
+  isInputParameterizedGate,
+  isQFTGate,
+  isTimeParameterizedGate,
+  isExponentialGate,
+  isRequiresInputAGate,
+  isRequiresInputBGate,
+  isRequiresInputRGate,
 } from '../types';
+import { MAX_CUSTOM_GATE_QUBITS, MAX_ROWS } from '../constants';
+import { ArithmeticSpan, getColumnArithmeticInfo, getGateMatrix, MAX_UNITARY_QUBITS } from './quantum';
+import { allDefaultInitialStates, getInitialAmplitudes, isDefaultInitialState, isWireInitialState } from './initialStates';
+import { isPauliString } from './observables';
+import { getCircuitMetrics } from './circuitMetrics';
+import { bindCircuitParameters, isCircuitParameter } from './circuitParameters';
+import { expandMacroGates } from './macroGates';
 
 // ============================================================================
 // Constants
@@ -43,11 +65,16 @@ export interface ValidationResult {
 
 /**
  * Serialize a circuit grid and custom gates to a CircuitFile object.
+ * Initial states are only written when some wire does not start in |0⟩, and
+ * parameters only when there are some; metrics are always recomputed from the
+ * grid at the current parameter values.
  */
 export function serializeCircuit(
   grid: CircuitGrid,
   customGates: CustomGateDefinition[],
-  metadata: Partial<CircuitFileMetadata> = {}
+  metadata: Partial<CircuitFileMetadata> = {},
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  parameters: readonly CircuitParameter[] = []
 ): CircuitFile {
   const rows = grid.length;
   const cols = rows > 0 ? grid[0].length : 0;
@@ -58,11 +85,16 @@ export function serializeCircuit(
       name: metadata.name ?? 'Untitled Circuit',
       description: metadata.description,
       createdAt: metadata.createdAt ?? new Date().toISOString(),
+      metrics: getCircuitMetrics(bindCircuitParameters(grid, parameters)),
     },
     circuit: {
       rows,
       cols,
       grid,
+      ...(allDefaultInitialStates(initialStates.slice(0, rows))
+        ? {}
+        : { initialStates: Array.from({ length: rows }, (_, row) => initialStates[row] ?? '0') }),
+      ...(parameters.length > 0 ? { parameters: parameters.map(parameter => ({ ...parameter })) } : {}),
     },
     customGates: customGates.length > 0 ? customGates : undefined,
   };
@@ -81,9 +113,11 @@ export function circuitToJson(circuitFile: CircuitFile): string {
 export function serializeCircuitToJson(
   grid: CircuitGrid,
   customGates: CustomGateDefinition[],
-  metadata?: Partial<CircuitFileMetadata>
+  metadata?: Partial<CircuitFileMetadata>,
+  initialStates?: readonly (WireInitialState | undefined)[],
+  parameters?: readonly CircuitParameter[]
 ): string {
-  const circuitFile = serializeCircuit(grid, customGates, metadata);
+  const circuitFile = serializeCircuit(grid, customGates, metadata, initialStates, parameters);
   return circuitToJson(circuitFile);
 }
 
@@ -190,6 +224,10 @@ function validateMetadata(metadata: unknown): ValidationResult {
     errors.push('Metadata must have a createdAt timestamp');
   }
 
+  if (meta.metrics !== undefined && (typeof meta.metrics !== 'object' || meta.metrics === null)) {
+    warnings.push('Metadata metrics are not an object and will be recomputed on save');
+  }
+
   return { valid: errors.length === 0, errors, warnings };
 }
 
@@ -247,6 +285,40 @@ function validateCircuitData(circuit: unknown): ValidationResult {
     }
   }
 
+  // Validate initial states (optional)
+  if (circ.initialStates !== undefined) {
+    if (!Array.isArray(circ.initialStates)) {
+      errors.push('Circuit initialStates must be an array');
+    } else {
+      if (circ.initialStates.length !== expectedRows) {
+        errors.push(`Circuit has ${circ.initialStates.length} initial states, expected ${expectedRows}`);
+      }
+      circ.initialStates.forEach((state, row) => {
+        if (!isWireInitialState(state)) {
+          errors.push(`Initial state of row ${row} must be one of 0, 1, +, -, +i, -i or a normalized { alpha, beta }`);
+        }
+      });
+    }
+  }
+
+  // Validate parameters (optional)
+  if (circ.parameters !== undefined) {
+    if (!Array.isArray(circ.parameters)) {
+      errors.push('Circuit parameters must be an array');
+    } else {
+      const names = new Set<string>();
+      circ.parameters.forEach((parameter, index) => {
+        if (!isCircuitParameter(parameter)) {
+          errors.push(`Parameter ${index} must have a lowercase name and finite value, min and max with min < max`);
+        } else if (names.has(parameter.name)) {
+          errors.push(`Parameter '${parameter.name}' is defined more than once`);
+        } else {
+          names.add(parameter.name);
+        }
+      });
+    }
+  }
+
   return { valid: errors.length === 0, errors, warnings };
 }
 
@@ -284,6 +356,30 @@ function validateCell(cell: unknown, row: number, col: number): ValidationResult
     warnings.push(...paramsResult.warnings);
   }
 
+  // A multi-qubit custom gate spans exactly one row per qubit of its matrix
+  if (c.gate === GateType.CUSTOM_MULTI && errors.length === 0) {
+    const p = (c.params ?? {}) as GateParams;
+    if (!p.isSpanContinuation) {
+      if (!p.customMatrix || !p.reverseSpan) {
+        errors.push(`${location}: CUSTOM_MULTI needs customMatrix and reverseSpan`);
+      } else if (p.reverseSpan.endRow - p.reverseSpan.startRow + 1 !== Math.log2(p.customMatrix.length)) {
+        errors.push(`${location}: CUSTOM_MULTI span must cover ${Math.log2(p.customMatrix.length)} rows for a ${p.customMatrix.length}x${p.customMatrix.length} matrix`);
+      }
+    }
+  }
+
+  // A macro gate spans exactly one row per wire of its sub-circuit
+  if (c.gate === GateType.MACRO && errors.length === 0) {
+    const p = (c.params ?? {}) as GateParams;
+    if (!p.isSpanContinuation) {
+      if (!p.customCircuit || !p.reverseSpan) {
+        errors.push(`${location}: MACRO needs customCircuit and reverseSpan`);
+      } else if (p.reverseSpan.endRow - p.reverseSpan.startRow + 1 !== p.customCircuit.length) {
+        errors.push(`${location}: MACRO span must cover the ${p.customCircuit.length} rows of its sub-circuit`);
+      }
+    }
+  }
+
   return { valid: errors.length === 0, errors, warnings };
 }
 
@@ -311,6 +407,12 @@ function validateParams(params: unknown, location: string): ValidationResult {
     errors.push(`${location}: angleExpression must be a string`);
   }
 
+  // Validate noiseStrength if present
+  if (p.noiseStrength !== undefined &&
+      (typeof p.noiseStrength !== 'number' || p.noiseStrength < 0 || p.noiseStrength > 1)) {
+    errors.push(`${location}: noiseStrength must be a number between 0 and 1`);
+  }
+
   // Validate reverseSpan if present
   if (p.reverseSpan !== undefined) {
     const span = p.reverseSpan as Record<string, unknown>;
@@ -326,33 +428,77 @@ function validateParams(params: unknown, location: string): ValidationResult {
     errors.push(`${location}: isSpanContinuation must be a boolean`);
   }
 
+  // Validate pauliString if present
+  if (p.pauliString !== undefined && (typeof p.pauliString !== 'string' || !isPauliString(p.pauliString))) {
+    errors.push(`${location}: pauliString must be a string of I, X, Y, Z`);
+  }
+
   // Validate customMatrix if present
   if (p.customMatrix !== undefined) {
     const matrixResult = validateComplexMatrix(p.customMatrix, location);
     errors.push(...matrixResult.errors);
   }
 
+  // Validate customCircuit if present
+  if (p.customCircuit !== undefined) {
+    const circuitResult = validateSubCircuit(p.customCircuit, `${location}: customCircuit`);
+    errors.push(...circuitResult.errors);
+    warnings.push(...circuitResult.warnings);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/**
+ * Validate the sub-circuit of a macro gate: 1 to MAX_UNITARY_QUBITS rows of
+ * equal length, each cell valid.
+ */
+function validateSubCircuit(circuit: unknown, location: string): ValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!Array.isArray(circuit) || circuit.length < 1 || circuit.length > MAX_UNITARY_QUBITS) {
+    errors.push(`${location} must be an array of 1 to ${MAX_UNITARY_QUBITS} rows`);
+    return { valid: false, errors, warnings };
+  }
+
+  const cols = Array.isArray(circuit[0]) ? circuit[0].length : 0;
+  for (let row = 0; row < circuit.length; row++) {
+    const gridRow = circuit[row];
+    if (!Array.isArray(gridRow) || gridRow.length !== cols) {
+      errors.push(`${location} row ${row} must be an array of ${cols} cells`);
+      continue;
+    }
+    for (let col = 0; col < gridRow.length; col++) {
+      const cellResult = validateCell(gridRow[col], row, col);
+      errors.push(...cellResult.errors.map(error => `${location} ${error}`));
+      warnings.push(...cellResult.warnings.map(warning => `${location} ${warning}`));
+    }
+  }
+
   return { valid: errors.length === 0, errors, warnings };
 }
 
 /**
- * Validate a 2x2 complex matrix.
+ * Validate a square complex matrix of side 2, 4, 8 or 16 (one to MAX_CUSTOM_GATE_QUBITS qubits).
  */
 function validateComplexMatrix(matrix: unknown, location: string): ValidationResult {
   const errors: string[] = [];
 
-  if (!Array.isArray(matrix) || matrix.length !== 2) {
-    errors.push(`${location}: customMatrix must be a 2x2 array`);
+  const size = Array.isArray(matrix) ? matrix.length : 0;
+  const qubits = Math.log2(size);
+  if (!Array.isArray(matrix) || !Number.isInteger(qubits) || qubits < 1 || qubits > MAX_CUSTOM_GATE_QUBITS) {
+    errors.push(`${location}: customMatrix must be a square array of side 2, 4, 8 or 16`);
     return { valid: false, errors, warnings: [] };
   }
 
-  for (let i = 0; i < 2; i++) {
-    if (!Array.isArray(matrix[i]) || matrix[i].length !== 2) {
-      errors.push(`${location}: customMatrix row ${i} must have 2 elements`);
+  for (let i = 0; i < size; i++) {
+    if (!Array.isArray(matrix[i]) || matrix[i].length !== size) {
+      errors.push(`${location}: customMatrix row ${i} must have ${size} elements`);
       continue;
     }
 
-    for (let j = 0; j < 2; j++) {
+    for (let j = 0; j < size; j++) {
       const elem = matrix[i][j] as Record<string, unknown>;
       if (typeof elem?.re !== 'number' || typeof elem?.im !== 'number') {
         errors.push(`${location}: customMatrix[${i}][${j}] must have re and im numbers`);
@@ -386,14 +532,850 @@ function validateCustomGates(customGates: unknown): ValidationResult {
     if (gate?.matrix !== undefined) {
       const matrixResult = validateComplexMatrix(gate.matrix, location);
       errors.push(...matrixResult.errors);
+    } else if (gate?.circuit !== undefined) {
+      const circuitResult = validateSubCircuit(gate.circuit, `${location}: circuit`);
+      errors.push(...circuitResult.errors);
+      warnings.push(...circuitResult.warnings);
     } else {
-      errors.push(`${location}: missing matrix`);
+      errors.push(`${location}: missing matrix or circuit`);
     }
   }
 
   return { valid: errors.length === 0, errors, warnings };
 }
 
+// ============================================================================
+// OpenQASM Export
+// ============================================================================
+
+/** OpenQASM language versions supported by the exporter */
+export type QasmVersion = '2.0' | '3.0';
+
+export interface QasmExportOptions {
+  /** Target OpenQASM version (defaults to 3.0) */
+  version?: QasmVersion;
+  /** Value of t used for time-parameterized and exponential gates (defaults to 0) */
+  timeParameter?: number;
+  /** Starting state per row, prepared with gates at the top of the program */
+  initialStates?: readonly (WireInitialState | undefined)[];
+}
+
+export interface QasmExportResult {
+  qasm: string;
+  warnings: string[];
+}
+
+/** A gate application before control modifiers are added */
+interface QasmOp {
+  name: string;
+  params: number[];
+  qubits: number[];
+}
+
+/** A control qubit; negated controls fire on |0⟩ */
+interface QasmControl {
+  qubit: number;
+  negated: boolean;
+}
+
+/** Shared state while emitting a program or a gate body */
+interface QasmContext {
+  version: QasmVersion;
+  lines: string[];
+  definitions: Map<string, string[]>;
+  warnings: string[];
+  qubitName: (qubit: number) => string;
+}
+
+/** Version-specific names for gates whose spelling differs between 2.0 and 3.0 */
+const QASM_GATE_NAMES: Record<QasmVersion, Record<string, string>> = {
+  '2.0': { p: 'u1', u: 'u3' },
+  '3.0': { u: 'U' },
+};
+
+/** Named controlled gates from qelib1.inc / stdgates.inc, keyed by base gate and control count */
+const QASM_CONTROLLED_GATES: Record<QasmVersion, Record<string, Record<number, string>>> = {
+  '2.0': {
+    x: { 1: 'cx', 2: 'ccx' },
+    y: { 1: 'cy' },
+    z: { 1: 'cz' },
+    h: { 1: 'ch' },
+    rx: { 1: 'crx' },
+    ry: { 1: 'cry' },
+    rz: { 1: 'crz' },
+    p: { 1: 'cu1' },
+    u: { 1: 'cu3' },
+    swap: { 1: 'cswap' },
+  },
+  '3.0': {
+    x: { 1: 'cx', 2: 'ccx' },
+    y: { 1: 'cy' },
+    z: { 1: 'cz' },
+    h: { 1: 'ch' },
+    rx: { 1: 'crx' },
+    ry: { 1: 'cry' },
+    rz: { 1: 'crz' },
+    p: { 1: 'cp' },
+    swap: { 1: 'cswap' },
+  },
+};
+
+/** Phase gates rewritten as p(λ) so qelib1's cu1 can control them */
+const PHASE_GATE_ANGLES: Record<string, number> = {
+  s: Math.PI / 2,
+  sdg: -Math.PI / 2,
+  t: Math.PI / 4,
+};
+
+/** Fixed single-qubit gates that map directly to a QASM gate */
+const QASM_FIXED_GATES: Partial<Record<GateType, { name: string; angle?: number }>> = {
+  [GateType.X]: { name: 'x' },
+  [GateType.CX]: { name: 'x' },
+  [GateType.CCX]: { name: 'x' },
+  [GateType.Y]: { name: 'y' },
+  [GateType.Z]: { name: 'z' },
+  [GateType.CZ]: { name: 'z' },
+  [GateType.H]: { name: 'h' },
+  [GateType.S]: { name: 's' },
+  [GateType.SDG]: { name: 'sdg' },
+  [GateType.T]: { name: 't' },
+  [GateType.SQRT_X]: { name: 'rx', angle: Math.PI / 2 },
+  [GateType.SQRT_X_DG]: { name: 'rx', angle: -Math.PI / 2 },
+  [GateType.SQRT_Y]: { name: 'ry', angle: Math.PI / 2 },
+  [GateType.SQRT_Y_DG]: { name: 'ry', angle: -Math.PI / 2 },
+  [GateType.RX_PI_2]: { name: 'rx', angle: Math.PI / 2 },
+  [GateType.RX_PI_4]: { name: 'rx', angle: Math.PI / 4 },
+  [GateType.RX_PI_8]: { name: 'rx', angle: Math.PI / 8 },
+  [GateType.RX_PI_12]: { name: 'rx', angle: Math.PI / 12 },
+  [GateType.RY_PI_2]: { name: 'ry', angle: Math.PI / 2 },
+  [GateType.RY_PI_4]: { name: 'ry', angle: Math.PI / 4 },
+  [GateType.RY_PI_8]: { name: 'ry', angle: Math.PI / 8 },
+  [GateType.RY_PI_12]: { name: 'ry', angle: Math.PI / 12 },
+  [GateType.RZ_PI_2]: { name: 'rz', angle: Math.PI / 2 },
+  [GateType.RZ_PI_4]: { name: 'rz', angle: Math.PI / 4 },
+  [GateType.RZ_PI_8]: { name: 'rz', angle: Math.PI / 8 },
+  [GateType.RZ_PI_12]: { name: 'rz', angle: Math.PI / 12 },
+};
+
+/** Global phase applied by each scalar gate */
+const SCALAR_GATE_PHASES: Record<ArithmeticScalarGate, number> = {
+  [GateType.SCALE_I]: Math.PI / 2,
+  [GateType.SCALE_NEG_I]: -Math.PI / 2,
+  [GateType.SCALE_SQRT_I]: Math.PI / 4,
+  [GateType.SCALE_SQRT_NEG_I]: -Math.PI / 4,
+};
+
+/**
+ * Export a circuit grid as an OpenQASM 2.0 or 3.0 program.
+ *
+ * Row r maps to q[r]. Wires that do not start in |0⟩ are prepared with gates
+ * first. Gates OpenQASM cannot express (arithmetic, comparison and
+ * input-parameterized gates) are emitted as opaque gates and reported in warnings.
+ * Macro gates are exported as the gates they hold.
+ */
+export function exportCircuitToQasm(
+  source: CircuitGrid,
+  options: QasmExportOptions = {}
+): QasmExportResult {
+  const grid = expandMacroGates(source);
+  const version = options.version ?? '3.0';
+  const timeParameter = options.timeParameter ?? 0;
+  const initialStates = options.initialStates ?? [];
+  const ctx: QasmContext = {
+    version,
+    lines: [],
+    definitions: new Map(),
+    warnings: [],
+    qubitName: (qubit) => `q[${qubit}]`,
+  };
+
+  // Trailing empty wires are dropped; the rest keep their row index
+  let numQubits = 1;
+  grid.forEach((gridRow, row) => {
+    if (!isDefaultInitialState(initialStates[row]) || gridRow.some(cell => cell.gate !== null)) {
+      numQubits = row + 1;
+    }
+  });
+  const numCols = grid[0]?.length ?? 0;
+  const measuredRows = new Set<number>();
+
+  for (let row = 0; row < numQubits; row++) {
+    for (const op of qasmPreparationOps(initialStates[row], row)) emitQasmOp(ctx, op, [], '');
+  }
+
+  for (let col = 0; col < numCols; col++) {
+    const measureRows = emitQasmColumn(ctx, grid, col, numQubits, timeParameter);
+    measureRows.forEach(row => measuredRows.add(row));
+  }
+
+  const header = version === '2.0'
+    ? ['OPENQASM 2.0;', 'include "qelib1.inc";']
+    : ['OPENQASM 3.0;', 'include "stdgates.inc";'];
+  const definitions = Array.from(ctx.definitions.values()).flat();
+  const registers = version === '2.0'
+    ? [`qreg q[${numQubits}];`, ...(measuredRows.size > 0 ? [`creg c[${numQubits}];`] : [])]
+    : [`qubit[${numQubits}] q;`, ...(measuredRows.size > 0 ? [`bit[${numQubits}] c;`] : [])];
+
+  const sections = [header, definitions, registers, ctx.lines].filter(section => section.length > 0);
+  const qasm = sections.map(section => section.join('\n')).join('\n\n') + '\n';
+
+  return { qasm, warnings: ctx.warnings };
+}
+
+/**
+ * Emit the statements for one grid column, mirroring the order used by the simulator:
+ * basis changes, SWAPs, single-qubit gates, spanning/arithmetic gates, resets, then
+ * measurements. Returns the rows measured in this column.
+ */
+function emitQasmColumn(
+  ctx: QasmContext,
+  grid: CircuitGrid,
+  col: number,
+  numQubits: number,
+  timeParameter: number
+): number[] {
+  const controls: QasmControl[] = [];
+  const basisChange: QasmOp[] = [];
+  const basisRestore: QasmOp[] = [];
+  const swaps: number[] = [];
+  const measureRows: number[] = [];
+  const resetRows: number[] = [];
+  const classicalConditions: string[] = [];
+  const standardOps: { op: QasmOp; location: string }[] = [];
+  const reverseOps: { op: QasmOp; location: string }[] = [];
+  const spanOps: { op: QasmOp; location: string }[] = [];
+  const opaqueOps: { op: QasmOp; location: string }[] = [];
+  const arithmeticInfo = getColumnArithmeticInfo(grid, col);
+
+  const spanRows = (span: { startRow: number; endRow: number }): number[] =>
+    Array.from({ length: span.endRow - span.startRow + 1 }, (_, i) => span.startRow + i);
+
+  for (let row = 0; row < numQubits; row++) {
+    const cell = grid[row][col];
+    const type = cell.gate;
+    if (!type || isVisualizationGate(type) || cell.params?.isSpanContinuation) continue;
+    const location = `cell [${row},${col}]`;
+
+    switch (type) {
+      case GateType.CONTROL:
+        controls.push({ qubit: row, negated: false });
+        continue;
+      case GateType.ANTI_CONTROL:
+        controls.push({ qubit: row, negated: true });
+        continue;
+      case GateType.X_CONTROL:
+      case GateType.X_ANTI_CONTROL:
+        // H maps |+⟩ to |0⟩ and |−⟩ to |1⟩
+        basisChange.push({ name: 'h', params: [], qubits: [row] });
+        basisRestore.push({ name: 'h', params: [], qubits: [row] });
+        controls.push({ qubit: row, negated: type === GateType.X_CONTROL });
+        continue;
+      case GateType.Y_CONTROL:
+      case GateType.Y_ANTI_CONTROL:
+        // S†H maps |+i⟩ to |0⟩ and |−i⟩ to |1⟩
+        basisChange.push({ name: 'sdg', params: [], qubits: [row] }, { name: 'h', params: [], qubits: [row] });
+        basisRestore.push({ name: 'h', params: [], qubits: [row] }, { name: 's', params: [], qubits: [row] });
+        controls.push({ qubit: row, negated: type === GateType.Y_CONTROL });
+        continue;
+      case GateType.CLASSICAL_CONTROL:
+      case GateType.CLASSICAL_ANTI_CONTROL:
+        if (ctx.version === '2.0') {
+          // 2.0 can only compare a whole register; a quantum control on the
+          // measured wire is equivalent while the wire is untouched
+          ctx.warnings.push(`${location}: classical control needs OpenQASM 3.0; exported as a quantum control on q[${row}]`);
+          controls.push({ qubit: row, negated: type === GateType.CLASSICAL_ANTI_CONTROL });
+        } else {
+          classicalConditions.push(`c[${row}] == ${type === GateType.CLASSICAL_CONTROL ? 1 : 0}`);
+        }
+        continue;
+      case GateType.SWAP:
+        swaps.push(row);
+        continue;
+      case GateType.MEASURE:
+        measureRows.push(row);
+        continue;
+      case GateType.RESET:
+        resetRows.push(row);
+        continue;
+      case GateType.I:
+        continue;
+    }
+
+    if (isArithmeticInputGate(type)) continue;
+
+    if (isNoiseGate(type)) {
+      ctx.warnings.push(`${location}: ${type} is a noise channel with no OpenQASM equivalent; skipped`);
+      continue;
+    }
+
+    const span = cell.params?.reverseSpan;
+
+    if (type === GateType.REVERSE) {
+      if (!span) continue;
+      for (let i = 0; i < Math.floor((span.endRow - span.startRow + 1) / 2); i++) {
+        reverseOps.push({ op: { name: 'swap', params: [], qubits: [span.startRow + i, span.endRow - i] }, location });
+      }
+    } else if (type === GateType.PHASE_GRADIENT || isQFTGate(type)) {
+      if (!span) continue;
+      const qubits = spanRows(span);
+      const name = defineQasmSpanGate(ctx, type, qubits.length);
+      spanOps.push({ op: { name, params: [], qubits }, location });
+    } else if (type === GateType.CUSTOM_MULTI) {
+      if (!span) continue;
+      const qubits = spanRows(span);
+      const label = (cell.params?.customLabel ?? 'u').toLowerCase().replace(/[^a-z0-9]/g, '') || 'u';
+      const name = defineQasmOpaqueGate(ctx, `custom_${label}_${qubits.length}`, 0, qubits.length, `custom gate ${cell.params?.customLabel ?? ''}`.trim());
+      ctx.warnings.push(`${location}: custom ${qubits.length}-qubit matrix has no OpenQASM decomposition; exported as opaque gate "${name}"`);
+      opaqueOps.push({ op: { name, params: [], qubits }, location });
+    } else if (isArithmeticFixed2x1Gate(type) || isInputParameterizedGate(type)) {
+      const targets = span ? spanRows(span) : [row];
+      const inputs: number[] = [];
+      const missing: string[] = [];
+      const requirements: [boolean, ArithmeticSpan | undefined, string][] = [
+        [isRequiresInputAGate(type), arithmeticInfo.inputA, 'INPUT_A'],
+        [isRequiresInputBGate(type), arithmeticInfo.inputB, 'INPUT_B'],
+        [isRequiresInputRGate(type), arithmeticInfo.inputR, 'INPUT_R'],
+      ];
+      for (const [required, inputSpan, marker] of requirements) {
+        if (!required) continue;
+        if (inputSpan) inputs.push(...spanRows(inputSpan));
+        else missing.push(marker);
+      }
+      if (missing.length > 0) {
+        ctx.warnings.push(`${location}: ${type} requires ${missing.join(' and ')} in the same column; gate was skipped`);
+        continue;
+      }
+      const qubits = [...targets, ...inputs];
+      const name = defineQasmOpaqueGate(ctx, `${type.toLowerCase()}_${qubits.length}`, 0, qubits.length, type);
+      ctx.warnings.push(`${location}: ${type} has no OpenQASM equivalent; exported as opaque gate "${name}"`);
+      opaqueOps.push({ op: { name, params: [], qubits }, location });
+    } else if (isArithmeticScalarGate(type)) {
+      opaqueOps.push({ op: { name: 'gphase', params: [SCALAR_GATE_PHASES[type]], qubits: [] }, location });
+    } else {
+      if (isTimeParameterizedGate(type) || isExponentialGate(type)) {
+        ctx.warnings.push(`${location}: ${type} depends on t; exported with t = ${timeParameter}`);
+      }
+      for (const op of qasmSingleQubitOps(type, row, cell.params, timeParameter)) {
+        standardOps.push({ op, location });
+      }
+    }
+  }
+
+  const bodyStart = ctx.lines.length;
+  for (const op of basisChange) emitQasmOp(ctx, op, [], '');
+
+  for (let i = 0; i + 1 < swaps.length; i += 2) {
+    const location = `cell [${swaps[i]},${col}]`;
+    emitQasmOp(ctx, { name: 'swap', params: [], qubits: [swaps[i], swaps[i + 1]] }, controls, location);
+  }
+  for (const { op, location } of standardOps) emitQasmOp(ctx, op, controls, location);
+  for (const { op, location } of reverseOps) emitQasmOp(ctx, op, controls, location);
+  for (const { op, location } of spanOps) emitQasmOp(ctx, op, controls, location);
+  for (const { op, location } of opaqueOps) emitQasmOp(ctx, op, controls, location);
+
+  for (const op of basisRestore) emitQasmOp(ctx, op, [], '');
+
+  // Resets ignore quantum controls, like in the simulator
+  for (const row of resetRows) ctx.lines.push(`reset q[${row}];`);
+
+  // Classically controlled columns run their gates inside an if block
+  if (classicalConditions.length > 0 && ctx.lines.length > bodyStart) {
+    const body = ctx.lines.splice(bodyStart);
+    ctx.lines.push(`if (${classicalConditions.join(' && ')}) {`, ...body.map(line => `  ${line}`), '}');
+  }
+
+  for (const row of measureRows) {
+    ctx.lines.push(ctx.version === '2.0'
+      ? `measure q[${row}] -> c[${row}];`
+      : `c[${row}] = measure q[${row}];`);
+  }
+
+  return measureRows;
+}
+
+/**
+ * Gates that prepare a wire's initial state from |0⟩.
+ * Custom states use the unitary [[α, −β*], [β, α*]], whose first column is the state.
+ */
+function qasmPreparationOps(state: WireInitialState | undefined, row: number): QasmOp[] {
+  const gate = (name: string): QasmOp => ({ name, params: [], qubits: [row] });
+  if (state === undefined || isDefaultInitialState(state)) return [];
+  if (typeof state === 'string') {
+    switch (state) {
+      case '1': return [gate('x')];
+      case '+': return [gate('h')];
+      case '-': return [gate('x'), gate('h')];
+      case '+i': return [gate('h'), gate('s')];
+      case '-i': return [gate('h'), gate('sdg')];
+    }
+  }
+
+  const [alpha, beta] = getInitialAmplitudes(state);
+  const { theta, phi, lambda } = decomposeSingleQubitMatrix([
+    [alpha, { re: -beta.re, im: beta.im }],
+    [beta, { re: alpha.re, im: -alpha.im }],
+  ]);
+  // The global phase of a prepared state is unobservable, so it is dropped
+  return [{ name: 'u', params: [theta, phi, lambda], qubits: [row] }];
+}
+
+/**
+ * Translate a single-qubit gate into QASM operations.
+ * Gates without a direct equivalent are decomposed from their matrix into U(θ,φ,λ) plus a global phase.
+ */
+function qasmSingleQubitOps(
+  type: GateType,
+  row: number,
+  params: GateParams | undefined,
+  timeParameter: number
+): QasmOp[] {
+  const fixed = QASM_FIXED_GATES[type];
+  if (fixed) {
+    return [{ name: fixed.name, params: fixed.angle !== undefined ? [fixed.angle] : [], qubits: [row] }];
+  }
+
+  const turn = 2 * Math.PI * timeParameter;
+  switch (type) {
+    case GateType.RX:
+      return [{ name: 'rx', params: [params?.angle ?? 0], qubits: [row] }];
+    case GateType.RY:
+      return [{ name: 'ry', params: [params?.angle ?? 0], qubits: [row] }];
+    case GateType.RZ:
+      return [{ name: 'rz', params: [params?.angle ?? 0], qubits: [row] }];
+    case GateType.ZT:
+      return [{ name: 'p', params: [turn], qubits: [row] }];
+    case GateType.XT:
+      return [{ name: 'rx', params: [turn], qubits: [row] }];
+    case GateType.YT:
+      return [{ name: 'ry', params: [turn], qubits: [row] }];
+    case GateType.EXP_Z:
+      return [{ name: 'rz', params: [-turn], qubits: [row] }];
+    case GateType.EXP_X:
+      return [{ name: 'rx', params: [-turn], qubits: [row] }];
+    case GateType.EXP_Y:
+      return [{ name: 'ry', params: [-turn], qubits: [row] }];
+  }
+
+  const { theta, phi, lambda, phase } = decomposeSingleQubitMatrix(getGateMatrix(type, params, timeParameter));
+  const ops: QasmOp[] = [];
+  if (Math.abs(phase) > 1e-12) {
+    ops.push({ name: 'gphase', params: [phase], qubits: [] });
+  }
+  ops.push({ name: 'u', params: [theta, phi, lambda], qubits: [row] });
+  return ops;
+}
+
+/**
+ * Decompose a 2x2 unitary as e^(iγ)·U(θ,φ,λ), where
+ * U(θ,φ,λ) = [[cos(θ/2), -e^(iλ)sin(θ/2)], [e^(iφ)sin(θ/2), e^(i(φ+λ))cos(θ/2)]].
+ */
+function decomposeSingleQubitMatrix(matrix: Complex[][]): { theta: number; phi: number; lambda: number; phase: number } {
+  const [[a, b], [c, d]] = matrix;
+  const arg = (z: Complex): number => Math.atan2(z.im, z.re);
+  const absA = Math.hypot(a.re, a.im);
+  const absC = Math.hypot(c.re, c.im);
+  const theta = 2 * Math.atan2(absC, absA);
+  const negB = { re: -b.re, im: -b.im };
+
+  if (absC < 1e-12) {
+    const phase = arg(a);
+    return { theta, phi: 0, lambda: arg(d) - phase, phase };
+  }
+  if (absA < 1e-12) {
+    const phase = arg(c);
+    return { theta, phi: 0, lambda: arg(negB) - phase, phase };
+  }
+  const phase = arg(a);
+  return { theta, phi: arg(c) - phase, lambda: arg(negB) - phase, phase };
+}
+
+/**
+ * Register the gate definition for a QFT, QFT† or phase gradient span and return its name.
+ * The first operand is the top row of the span.
+ */
+function defineQasmSpanGate(ctx: QasmContext, type: GateType, size: number): string {
+  const name = `${type.toLowerCase()}_${size}`;
+  if (ctx.definitions.has(name)) return name;
+
+  const body: QasmContext = { ...ctx, lines: [], qubitName: (qubit) => `q${qubit}` };
+  const ops: { op: QasmOp; controls: QasmControl[] }[] = [];
+
+  if (type === GateType.PHASE_GRADIENT) {
+    // Little-endian register: the top row carries the smallest phase step
+    for (let i = 0; i < size; i++) {
+      ops.push({ op: { name: 'p', params: [Math.PI / 2 ** (size - 1 - i)], qubits: [i] }, controls: [] });
+    }
+  } else {
+    // Textbook QFT with the top row as the most significant bit
+    for (let j = 0; j < size; j++) {
+      ops.push({ op: { name: 'h', params: [], qubits: [j] }, controls: [] });
+      for (let k = j + 1; k < size; k++) {
+        ops.push({
+          op: { name: 'p', params: [Math.PI / 2 ** (k - j)], qubits: [j] },
+          controls: [{ qubit: k, negated: false }],
+        });
+      }
+    }
+    for (let j = 0; j < Math.floor(size / 2); j++) {
+      ops.push({ op: { name: 'swap', params: [], qubits: [j, size - 1 - j] }, controls: [] });
+    }
+    if (type === GateType.QFT_DG) {
+      ops.reverse();
+      for (const { op } of ops) {
+        op.params = op.params.map(angle => -angle);
+      }
+    }
+  }
+
+  for (const { op, controls } of ops) emitQasmOp(body, op, controls, '');
+
+  const operands = Array.from({ length: size }, (_, i) => `q${i}`).join(', ');
+  ctx.definitions.set(name, [
+    `gate ${name} ${operands} {`,
+    ...body.lines.map(line => `  ${line}`),
+    '}',
+  ]);
+  return name;
+}
+
+/**
+ * Register an opaque gate declaration and return its name.
+ * OpenQASM 3.0 has no opaque keyword, so an empty-bodied placeholder is emitted instead.
+ */
+function defineQasmOpaqueGate(
+  ctx: QasmContext,
+  name: string,
+  numParams: number,
+  numQubits: number,
+  description: string
+): string {
+  if (ctx.definitions.has(name)) return name;
+
+  const params = numParams > 0
+    ? `(${Array.from({ length: numParams }, (_, i) => `p${i}`).join(', ')})`
+    : '';
+  const operands = Array.from({ length: numQubits }, (_, i) => `q${i}`).join(', ');
+  ctx.definitions.set(name, ctx.version === '2.0'
+    ? [`// ${description}: no OpenQASM 2.0 equivalent`, `opaque ${name}${params} ${operands};`]
+    : [`// ${description}: no OpenQASM 3.0 equivalent, placeholder definition`, `gate ${name}${params} ${operands} { }`]);
+  return name;
+}
+
+/**
+ * Emit one operation with its controls.
+ * Controlled global phases become phase gates on a control; OpenQASM 2.0 combinations
+ * without a qelib1 gate fall back to opaque declarations.
+ */
+function emitQasmOp(ctx: QasmContext, op: QasmOp, controls: QasmControl[], location: string): void {
+  if (op.name === 'gphase') {
+    if (controls.length === 0) {
+      // Global phase is unobservable; only 3.0 can state it
+      if (ctx.version === '3.0') ctx.lines.push(`gphase(${formatQasmAngle(op.params[0])});`);
+      return;
+    }
+    const targetIndex = controls.findIndex(control => !control.negated);
+    if (targetIndex === -1) {
+      // Phase fires when every control is |0⟩: flip one control and phase it on |1⟩
+      const [first, ...rest] = controls;
+      const flip: QasmOp = { name: 'x', params: [], qubits: [first.qubit] };
+      emitQasmOp(ctx, flip, [], location);
+      emitQasmOp(ctx, { name: 'p', params: op.params, qubits: [first.qubit] }, rest, location);
+      emitQasmOp(ctx, flip, [], location);
+      return;
+    }
+    const target = controls[targetIndex];
+    const rest = controls.filter((_, i) => i !== targetIndex);
+    emitQasmOp(ctx, { name: 'p', params: op.params, qubits: [target.qubit] }, rest, location);
+    return;
+  }
+
+  const params = op.params.length > 0 ? `(${op.params.map(formatQasmAngle).join(', ')})` : '';
+  const names = QASM_GATE_NAMES[ctx.version];
+
+  if (controls.length === 0) {
+    const operands = op.qubits.map(ctx.qubitName).join(', ');
+    ctx.lines.push(`${names[op.name] ?? op.name}${params} ${operands};`);
+    return;
+  }
+
+  if (ctx.version === '2.0' && controls.some(control => control.negated)) {
+    // No negctrl modifier in 2.0: conjugate anti-controls with X
+    const flips = controls.filter(control => control.negated).map(control => control.qubit);
+    for (const qubit of flips) emitQasmOp(ctx, { name: 'x', params: [], qubits: [qubit] }, [], location);
+    emitQasmOp(ctx, op, controls.map(control => ({ qubit: control.qubit, negated: false })), location);
+    for (const qubit of flips) emitQasmOp(ctx, { name: 'x', params: [], qubits: [qubit] }, [], location);
+    return;
+  }
+
+  const baseOp = ctx.version === '2.0' && op.name in PHASE_GATE_ANGLES
+    ? { ...op, name: 'p', params: [PHASE_GATE_ANGLES[op.name]] }
+    : op;
+  const baseParams = baseOp.params.length > 0 ? `(${baseOp.params.map(formatQasmAngle).join(', ')})` : '';
+  const operands = [...controls.map(control => control.qubit), ...baseOp.qubits].map(ctx.qubitName).join(', ');
+  const allPositive = controls.every(control => !control.negated);
+  const namedGate = allPositive ? QASM_CONTROLLED_GATES[ctx.version][baseOp.name]?.[controls.length] : undefined;
+
+  if (namedGate) {
+    ctx.lines.push(`${namedGate}${baseParams} ${operands};`);
+    return;
+  }
+
+  if (ctx.version === '3.0') {
+    // Group consecutive controls of the same polarity into ctrl(n)/negctrl(n) modifiers
+    let modifiers = '';
+    for (let i = 0; i < controls.length;) {
+      let j = i;
+      while (j < controls.length && controls[j].negated === controls[i].negated) j++;
+      const keyword = controls[i].negated ? 'negctrl' : 'ctrl';
+      modifiers += j - i === 1 ? `${keyword} @ ` : `${keyword}(${j - i}) @ `;
+      i = j;
+    }
+    ctx.lines.push(`${modifiers}${names[baseOp.name] ?? baseOp.name}${baseParams} ${operands};`);
+    return;
+  }
+
+  const baseName = names[baseOp.name] ?? baseOp.name;
+  const opaqueName = defineQasmOpaqueGate(
+    ctx,
+    `${'c'.repeat(controls.length)}${baseName}`,
+    baseOp.params.length,
+    controls.length + baseOp.qubits.length,
+    `${baseName} with ${controls.length} control(s)`
+  );
+  ctx.warnings.push(
+    `${location}: OpenQASM 2.0 cannot express ${baseName} with ${controls.length} control(s); exported as opaque gate "${opaqueName}"`
+  );
+  ctx.lines.push(`${opaqueName}${baseParams} ${operands};`);
+}
+
+/**
+ * Format an angle in radians, preferring exact multiples of pi such as "3*pi/4".
+ */
+function formatQasmAngle(radians: number): string {
+  if (Math.abs(radians) < 1e-12) return '0';
+
+  const multiple = radians / Math.PI;
+  for (let denominator = 1; denominator <= 64; denominator++) {
+    const numerator = Math.round(multiple * denominator);
+    if (numerator === 0 || Math.abs(multiple * denominator - numerator) > 1e-9) continue;
+
+    const sign = numerator < 0 ? '-' : '';
+    const magnitude = Math.abs(numerator) === 1 ? 'pi' : `${Math.abs(numerator)}*pi`;
+    return denominator === 1 ? `${sign}${magnitude}` : `${sign}${magnitude}/${denominator}`;
+  }
+  return String(radians);
+}
+
+/**
+ * Trigger a browser download of the circuit as an OpenQASM file.
+ * Returns the export warnings so the caller can surface them.
+ */
+export function downloadQasmFile(
+  grid: CircuitGrid,
+  options: QasmExportOptions = {},
+  filename?: string
+): string[] {
+  const { qasm, warnings } = exportCircuitToQasm(grid, options);
+  const blob = new Blob([qasm], { type: 'text/plain' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename ?? 'circuit.qasm';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+  return warnings;
+}
+
+// ============================================================================
+// Shareable Links
+// ============================================================================
+
+/** URL fragment parameter that carries an encoded circuit */
+const CIRCUIT_LINK_PARAM = 'circuit';
+
+/** Version tag written by encodeCircuitLink */
+const CIRCUIT_LINK_VERSION = 'v1';
+
+/**
+ * v1 link payload: the CircuitFile with short keys and only non-empty cells.
+ * Cell ids are not stored; they are rebuilt as `cell-r-c` on decode.
+ */
+interface CircuitLinkPayloadV1 {
+  n: string;
+  d?: string;
+  t: string;
+  r: number;
+  c: number;
+  g: [number, number, GateType, GateParams?][];
+  u?: CustomGateDefinition[];
+  /** Initial states, present only when some wire does not start in |0⟩ */
+  s?: WireInitialState[];
+  /** Parameters, present only when the circuit has some */
+  p?: CircuitParameter[];
+}
+
+/**
+ * Decoders by version tag. Keep old entries when the format changes so
+ * previously shared links keep opening.
+ */
+/**
+ * Widest circuit a link may describe. Links are untrusted input decoded on page
+ * load, so the grid size is checked before any cells are allocated.
+ */
+const MAX_CIRCUIT_LINK_COLS = 1000;
+
+const CIRCUIT_LINK_DECODERS: Record<string, (payload: string) => unknown> = {
+  v1: payload => expandCircuitLinkV1(JSON.parse(fromBase64Url(payload))),
+};
+
+/**
+ * Encode a circuit into a URL fragment (without the leading '#').
+ */
+export function encodeCircuitLink(
+  grid: CircuitGrid,
+  customGates: CustomGateDefinition[],
+  metadata: Partial<CircuitFileMetadata> = {},
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  parameters: readonly CircuitParameter[] = []
+): string {
+  const circuitFile = serializeCircuit(grid, customGates, metadata, initialStates, parameters);
+  const cells: CircuitLinkPayloadV1['g'] = [];
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell.gate === null) return;
+    cells.push(cell.params ? [r, c, cell.gate, cell.params] : [r, c, cell.gate]);
+  }));
+
+  const payload: CircuitLinkPayloadV1 = {
+    n: circuitFile.metadata.name,
+    ...(circuitFile.metadata.description ? { d: circuitFile.metadata.description } : {}),
+    t: circuitFile.metadata.createdAt,
+    r: circuitFile.circuit.rows,
+    c: circuitFile.circuit.cols,
+    g: cells,
+    ...(circuitFile.customGates ? { u: circuitFile.customGates } : {}),
+    ...(circuitFile.circuit.initialStates ? { s: circuitFile.circuit.initialStates } : {}),
+    ...(circuitFile.circuit.parameters ? { p: circuitFile.circuit.parameters } : {}),
+  };
+
+  return `${CIRCUIT_LINK_PARAM}=${CIRCUIT_LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * Build a full shareable URL by replacing the fragment of `baseUrl`.
+ */
+export function buildCircuitLink(
+  grid: CircuitGrid,
+  customGates: CustomGateDefinition[],
+  metadata: Partial<CircuitFileMetadata> = {},
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  parameters: readonly CircuitParameter[] = [],
+  baseUrl: string = window.location.href
+): string {
+  const hashIndex = baseUrl.indexOf('#');
+  const base = hashIndex === -1 ? baseUrl : baseUrl.slice(0, hashIndex);
+  return `${base}#${encodeCircuitLink(grid, customGates, metadata, initialStates, parameters)}`;
+}
+
+/**
+ * Decode a circuit from a URL fragment such as `window.location.hash`.
+ * Returns null when the fragment holds no circuit, or throws if the link
+ * has an unknown version, is corrupted, describes too large a grid, or fails
+ * validateCircuitFile.
+ */
+export function decodeCircuitLink(hash: string): CircuitFile | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(CIRCUIT_LINK_PARAM);
+  if (value === null) return null;
+
+  const separator = value.indexOf('.');
+  const version = separator === -1 ? '' : value.slice(0, separator);
+  const decode = CIRCUIT_LINK_DECODERS[version];
+  if (!decode) {
+    throw new Error(`Unsupported circuit link version: ${version || '(missing)'}`);
+  }
+
+  let data: unknown;
+  try {
+    data = decode(value.slice(separator + 1));
+  } catch (error) {
+    // Grid size limits explain themselves; anything else is a damaged payload
+    if (error instanceof RangeError) throw error;
+    throw new Error('Circuit link is corrupted');
+  }
+
+  const validation = validateCircuitFile(data);
+  if (!validation.valid) {
+    throw new Error(`Invalid circuit link: ${validation.errors.join('; ')}`);
+  }
+
+  return data as CircuitFile;
+}
+
+/**
+ * Rebuild a CircuitFile-shaped object from a v1 payload.
+ * Shape problems throw, as does a grid outside 1..MAX_ROWS by 1..MAX_CIRCUIT_LINK_COLS
+ * (a RangeError); field-level checks are left to validateCircuitFile.
+ */
+function expandCircuitLinkV1(payload: CircuitLinkPayloadV1): unknown {
+  const { r: rows, c: cols, g: cells } = payload;
+  if (!Number.isInteger(rows) || !Number.isInteger(cols) || !Array.isArray(cells)) {
+    throw new Error('Malformed circuit link payload');
+  }
+  if (rows < 1 || rows > MAX_ROWS) {
+    throw new RangeError(`Circuit link has ${rows} qubits; between 1 and ${MAX_ROWS} are supported`);
+  }
+  if (cols < 1 || cols > MAX_CIRCUIT_LINK_COLS) {
+    throw new RangeError(`Circuit link has ${cols} columns; between 1 and ${MAX_CIRCUIT_LINK_COLS} are supported`);
+  }
+  if (!cells.every(entry =>
+    Array.isArray(entry) && (entry.length === 3 || entry.length === 4) && Number.isInteger(entry[0]) && Number.isInteger(entry[1])
+  )) {
+    throw new Error('Malformed circuit link payload');
+  }
+
+  const grid: Cell[][] = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+  for (const [r, c, gate, params] of cells) {
+    const cell = grid[r]?.[c];
+    if (!cell) throw new Error(`Cell [${r},${c}] is outside the grid`);
+    cell.gate = gate;
+    if (params !== undefined) cell.params = params;
+  }
+
+  return {
+    version: CIRCUIT_FILE_VERSION,
+    metadata: { name: payload.n, description: payload.d, createdAt: payload.t },
+    circuit: {
+      rows,
+      cols,
+      grid,
+      ...(payload.s !== undefined ? { initialStates: payload.s } : {}),
+      ...(payload.p !== undefined ? { parameters: payload.p } : {}),
+    },
+    ...(payload.u !== undefined ? { customGates: payload.u } : {}),
+  };
+}
+
+/** UTF-8 text to unpadded base64url */
+function toBase64Url(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Unpadded base64url to UTF-8 text */
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
 // ============================================================================
 // File Download Helper
 // ============================================================================
@@ -405,9 +1387,11 @@ export function downloadCircuitFile(
   grid: CircuitGrid,
   customGates: CustomGateDefinition[],
   filename?: string,
-  metadata?: Partial<CircuitFileMetadata>
+  metadata?: Partial<CircuitFileMetadata>,
+  initialStates?: readonly (WireInitialState | undefined)[],
+  parameters?: readonly CircuitParameter[]
 ): void {
-  const json = serializeCircuitToJson(grid, customGates, metadata);
+  const json = serializeCircuitToJson(grid, customGates, metadata, initialStates, parameters);
   const blob = new Blob([json], { type: 'application/json' });
   const url = URL.createObjectURL(blob);
 
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCustomGateType,
+  getMatrixQubits,
+  isUnitaryMatrix,
+  parseMatrixEntries,
+  parseMatrixText,
+  reverseMatrixQubitOrder,
+} from './customGates';
+import { Complex, GateType } from '../types';
+
+const O: Complex = { re: 0, im: 0 };
+const L: Complex = { re: 1, im: 0 };
+const identity = (size: number): Complex[][] =>
+  Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => (r === c ? L : O)));
+
+describe('getMatrixQubits', () => {
+  it('should count the qubits of square power-of-two matrices up to 16x16', () => {
+    expect(getMatrixQubits(identity(2))).toBe(1);
+    expect(getMatrixQubits(identity(4))).toBe(2);
+    expect(getMatrixQubits(identity(16))).toBe(4);
+  });
+
+  it('should reject other shapes and sizes', () => {
+    expect(getMatrixQubits(identity(3))).toBeNull();
+    expect(getMatrixQubits(identity(32))).toBeNull();
+    expect(getMatrixQubits([[L, O], [O]])).toBeNull();
+    expect(getMatrixQubits([])).toBeNull();
+  });
+
+  it('should pick CUSTOM for 2x2 and CUSTOM_MULTI for larger matrices', () => {
+    expect(getCustomGateType(identity(2))).toBe(GateType.CUSTOM);
+    expect(getCustomGateType(identity(8))).toBe(GateType.CUSTOM_MULTI);
+  });
+});
+
+describe('isUnitaryMatrix', () => {
+  it('should accept unitaries of any size', () => {
+    const s = Math.SQRT1_2;
+    expect(isUnitaryMatrix([[{ re: s, im: 0 }, { re: s, im: 0 }], [{ re: s, im: 0 }, { re: -s, im: 0 }]])).toBe(true);
+    expect(isUnitaryMatrix([[O, O, O, L], [L, O, O, O], [O, L, O, O], [O, O, L, O]])).toBe(true);
+  });
+
+  it('should reject matrices that are not unitary', () => {
+    const m = identity(4);
+    m[3][0] = L;
+    expect(isUnitaryMatrix(m)).toBe(false);
+  });
+});
+
+describe('parseMatrixText', () => {
+  it('should read CSV rows', () => {
+    const result = parseMatrixText('1, 0\n0, -i\n');
+    expect(result).toEqual({ success: true, value: [['1', '0'], ['0', '-i']] });
+  });
+
+  it('should read tab-separated rows and rows ending in semicolons', () => {
+    expect(parseMatrixText('1\t0\n0\t1')).toEqual({ success: true, value: [['1', '0'], ['0', '1']] });
+    expect(parseMatrixText('1 0; 0 1')).toEqual({ success: true, value: [['1', '0'], ['0', '1']] });
+  });
+
+  it('should read NumPy array output, turning j into i', () => {
+    const result = parseMatrixText('array([[1.+0.j, 0.+0.j],\n       [0.+0.j, 0.70710678+0.70710678j]], dtype=complex128)');
+    expect(result).toEqual({
+      success: true,
+      value: [['1+0i', '0+0i'], ['0+0i', '0.70710678+0.70710678i']],
+    });
+  });
+
+  it('should read NumPy print output without commas', () => {
+    const result = parseMatrixText('[[1.+0.j 0.+0.j]\n [0.+0.j 0.-1.j]]');
+    expect(result).toEqual({ success: true, value: [['1+0i', '0+0i'], ['0+0i', '0-1i']] });
+  });
+
+  it('should report ragged and wrongly sized matrices', () => {
+    const ragged = parseMatrixText('1, 0\n0');
+    expect(ragged.success).toBe(false);
+    if (!ragged.success) expect(ragged.error.message).toBe('Row 2 has 1 entries; a 2-row matrix needs 2');
+
+    const small = parseMatrixText('1');
+    expect(small.success).toBe(false);
+    if (!small.success) expect(small.error.message).toBe('Matrix is 1x1; it must be 2x2, 4x4, 8x8 or 16x16');
+
+    expect(parseMatrixText('  \n ').success).toBe(false);
+  });
+});
+
+describe('parseMatrixEntries', () => {
+  it('should evaluate every entry as a complex expression', () => {
+    const result = parseMatrixEntries([['1/sqrt(2)', '1e-3i'], ['(1+1i)', '-0.5-0.5i']]);
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.value[0][0].re).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(result.value[0][1]).toEqual({ re: 0, im: 1e-3 });
+    expect(result.value[1][0]).toEqual({ re: 1, im: 1 });
+    expect(result.value[1][1]).toEqual({ re: -0.5, im: -0.5 });
+  });
+
+  it('should name the first invalid cell', () => {
+    const result = parseMatrixEntries([['1', '0'], ['0', '1+']]);
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.error.message).toMatch(/^Row 2, column 2: /);
+  });
+});
+
+describe('reverseMatrixQubitOrder', () => {
+  it('should swap the qubit order and undo itself', () => {
+    // CNOT controlled by the high bit becomes CNOT controlled by the low bit
+    const cnotHigh = [[L, O, O, O], [O, L, O, O], [O, O, O, L], [O, O, L, O]];
+    const cnotLow = [[L, O, O, O], [O, O, O, L], [O, O, L, O], [O, L, O, O]];
+    expect(reverseMatrixQubitOrder(cnotHigh)).toEqual(cnotLow);
+    expect(reverseMatrixQubitOrder(cnotLow)).toEqual(cnotHigh);
+  });
+});
@@ -0,0 +1,127 @@
+import { Complex, GateType } from '../types';
+import { MAX_CUSTOM_GATE_QUBITS } from '../constants';
+import { add, mul, conj, ZERO } from './complex';
+import { ParseResult, ParseErrorCode, parseComplex, success, failure } from './parser';
+import { createError } from './parser/errors';
+
+/**
+ * Custom gates
+ *
+ * A custom gate is a unitary entered by the user: 2x2 gates are placed as
+ * CUSTOM on one wire, 4x4 up to 16x16 as CUSTOM_MULTI spanning one wire per
+ * qubit, with the top wire as the most significant bit of the matrix index.
+ */
+
+/** Number of qubits a square 2^k x 2^k matrix acts on, or null for any other shape or k > MAX_CUSTOM_GATE_QUBITS */
+export const getMatrixQubits = (matrix: readonly (readonly unknown[])[]): number | null => {
+  const size = matrix.length;
+  const qubits = Math.log2(size);
+  if (!Number.isInteger(qubits) || qubits < 1 || qubits > MAX_CUSTOM_GATE_QUBITS) return null;
+  return matrix.every(row => row.length === size) ? qubits : null;
+};
+
+/** Gate type that places a custom matrix: CUSTOM for 2x2, CUSTOM_MULTI for larger ones */
+export const getCustomGateType = (matrix: readonly (readonly unknown[])[]): GateType.CUSTOM | GateType.CUSTOM_MULTI =>
+  matrix.length > 2 ? GateType.CUSTOM_MULTI : GateType.CUSTOM;
+
+/** Whether U·U† is the identity within `tolerance` per entry */
+export const isUnitaryMatrix = (matrix: Complex[][], tolerance = 0.01): boolean => {
+  const size = matrix.length;
+  for (let i = 0; i < size; i++) {
+    for (let j = 0; j < size; j++) {
+      let entry = ZERO;
+      for (let k = 0; k < size; k++) {
+        entry = add(entry, mul(matrix[i][k], conj(matrix[j][k])));
+      }
+      if (Math.abs(entry.re - (i === j ? 1 : 0)) >= tolerance || Math.abs(entry.im) >= tolerance) {
+        return false;
+      }
+    }
+  }
+  return true;
+};
+
+/** NumPy writes 1.+0.j; the expression parser wants 1+0i */
+const normalizeEntry = (entry: string): string =>
+  entry
+    .trim()
+    .replace(/(\d)\.(?!\d)/g, '$1')
+    .replace(/([\d.)])\s*j\b/gi, '$1i');
+
+/** Split a row into entries: by commas, else tabs, else whitespace (NumPy's print format) */
+const splitRow = (row: string): string[] => {
+  const separator = row.includes(',') ? ',' : row.includes('\t') ? '\t' : /\s+/;
+  return row.split(separator).map(normalizeEntry).filter(entry => entry !== '');
+};
+
+/**
+ * Split pasted matrix text into rows of entry expressions, without evaluating them.
+ * Accepts CSV or tab-separated lines (rows may also end with ;), and NumPy
+ * output such as "array([[1.+0.j, 0.+0.j], [0.+0.j, 1.+0.j]])" or its print form.
+ * The result is square with a side of 2, 4, 8 or 16.
+ */
+export const parseMatrixText = (text: string): ParseResult<string[][]> => {
+  const body = text
+    .replace(/\b(?:np\.|numpy\.)?array\s*\(/g, '')
+    .replace(/,?\s*dtype\s*=\s*[\w.]+/g, '')
+    .replace(/\)\s*$/, '');
+  const bracketRows = body.match(/\[[^[\]]*\]/g);
+  const rows = (bracketRows ? bracketRows.map(row => row.slice(1, -1)) : body.split(/[\n;]/))
+    .map(splitRow)
+    .filter(row => row.length > 0);
+
+  if (rows.length === 0) {
+    return failure(createError(ParseErrorCode.EMPTY_EXPRESSION, 'No matrix entries found'));
+  }
+  const uneven = rows.findIndex(row => row.length !== rows.length);
+  if (uneven !== -1) {
+    return failure(createError(
+      ParseErrorCode.UNEXPECTED_TOKEN,
+      `Row ${uneven + 1} has ${rows[uneven].length} entries; a ${rows.length}-row matrix needs ${rows.length}`
+    ));
+  }
+  if (getMatrixQubits(rows) === null) {
+    const sizes = Array.from({ length: MAX_CUSTOM_GATE_QUBITS }, (_, k) => `${2 << k}x${2 << k}`);
+    return failure(createError(
+      ParseErrorCode.UNEXPECTED_TOKEN,
+      `Matrix is ${rows.length}x${rows.length}; it must be ${sizes.slice(0, -1).join(', ')} or ${sizes[sizes.length - 1]}`
+    ));
+  }
+  return success(rows);
+};
+
+/**
+ * Evaluate matrix entries with the complex expression parser, cell by cell.
+ * The first invalid cell fails the whole matrix, with its row and column in the message.
+ */
+export const parseMatrixEntries = (entries: readonly (readonly string[])[]): ParseResult<Complex[][]> => {
+  const matrix: Complex[][] = [];
+  for (let r = 0; r < entries.length; r++) {
+    const row: Complex[] = [];
+    for (let c = 0; c < entries[r].length; c++) {
+      const parsed = parseComplex(entries[r][c]);
+      if (!parsed.success) {
+        return failure({ ...parsed.error, message: `Row ${r + 1}, column ${c + 1}: ${parsed.error.message}` });
+      }
+      row.push(parsed.value);
+    }
+    matrix.push(row);
+  }
+  return success(matrix);
+};
+
+/**
+ * Swap the qubit order of a 2^k x 2^k matrix, so the top wire becomes the least
+ * significant bit (Quirk's convention) or back again.
+ */
+export const reverseMatrixQubitOrder = (matrix: Complex[][]): Complex[][] => {
+  const qubits = Math.log2(matrix.length);
+  const reverseBits = (index: number): number => {
+    let reversed = 0;
+    for (let b = 0; b < qubits; b++) {
+      if (index & (1 << b)) reversed |= 1 << (qubits - 1 - b);
+    }
+    return reversed;
+  };
+  return matrix.map((_, i) => matrix[i].map((__, j) => matrix[reverseBits(i)][reverseBits(j)]));
+};
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialDensityMatrix,
+  densityMatrixFromState,
+  getKrausOperators,
+  applyNoiseChannel,
+  conjugateByOperator,
+  measureDensityQubit,
+  getDensityBlochVector,
+  getPurity,
+  getDensityProbabilities,
+  projectDensityQubit,
+  addDensityMatrices,
+  getTrace,
+  resetDensityQubit,
+  getReducedDensityMatrix,
+  getDensityEigenvalues,
+  getVonNeumannEntropy,
+  analyzeBipartition,
+  DensityMatrix,
+} from './densityMatrix';
+import { getBlochVector, fromComplexObjectArray } from './quantum';
+import { GateType, NOISE_GATES, ComplexArray } from '../types';
+
+const SQRT1_2 = Math.SQRT1_2;
+
+/** |+⟩⟨+| */
+const plusState = (): DensityMatrix =>
+  densityMatrixFromState(fromComplexObjectArray([{ re: SQRT1_2, im: 0 }, { re: SQRT1_2, im: 0 }]));
+
+/** |1⟩⟨1| */
+const oneState = (): DensityMatrix =>
+  densityMatrixFromState(fromComplexObjectArray([{ re: 0, im: 0 }, { re: 1, im: 0 }]));
+
+const expectVectorClose = (actual: number[], expected: number[]) => {
+  actual.forEach((v, i) => expect(v).toBeCloseTo(expected[i], 10));
+};
+
+describe('densityMatrix', () => {
+  describe('construction', () => {
+    it('should create |0...0⟩⟨0...0|', () => {
+      const rho = createInitialDensityMatrix(2);
+      expect(rho.data).toHaveLength(32);
+      expect(getDensityProbabilities(rho)).toEqual([1, 0, 0, 0]);
+      expect(getPurity(rho)).toBeCloseTo(1, 10);
+    });
+
+    it('should match state-vector Bloch vectors for pure states', () => {
+      // (|00⟩ + i|01⟩ + |10⟩) / √3
+      const amp = 1 / Math.sqrt(3);
+      const state = fromComplexObjectArray([
+        { re: amp, im: 0 }, { re: 0, im: amp }, { re: amp, im: 0 }, { re: 0, im: 0 },
+      ]);
+      const rho = densityMatrixFromState(state);
+      for (const qubit of [0, 1]) {
+        expectVectorClose(getDensityBlochVector(rho, qubit), getBlochVector(state, qubit, 2));
+      }
+    });
+  });
+
+  describe('noise channels', () => {
+    it('should define trace-preserving Kraus operators', () => {
+      for (const channel of NOISE_GATES) {
+        for (const p of [0, 0.3, 1]) {
+          // Σ K†K = I
+          const sum = [[0, 0], [0, 0]].map(row => row.map(() => ({ re: 0, im: 0 })));
+          for (const K of getKrausOperators(channel, p)) {
+            for (let a = 0; a < 2; a++) {
+              for (let b = 0; b < 2; b++) {
+                for (let m = 0; m < 2; m++) {
+                  // conj(K[m][a]) · K[m][b]
+                  const x = K[m][a];
+                  const y = K[m][b];
+                  sum[a][b] = {
+                    re: sum[a][b].re + x.re * y.re + x.im * y.im,
+                    im: sum[a][b].im + x.re * y.im - x.im * y.re,
+                  };
+                }
+              }
+            }
+          }
+          expect(sum[0][0].re).toBeCloseTo(1, 10);
+          expect(sum[1][1].re).toBeCloseTo(1, 10);
+          expect(Math.hypot(sum[0][1].re, sum[0][1].im)).toBeCloseTo(0, 10);
+        }
+      }
+    });
+
+    it('should shrink the Bloch vector under depolarizing noise', () => {
+      const rho = applyNoiseChannel(plusState(), 0, GateType.DEPOLARIZE, 0.4);
+      expectVectorClose(getDensityBlochVector(rho, 0), [0.6, 0, 0]);
+      expect(getPurity(rho)).toBeLessThan(1);
+    });
+
+    it('should relax |1⟩ toward |0⟩ under amplitude damping', () => {
+      const rho = applyNoiseChannel(oneState(), 0, GateType.AMPLITUDE_DAMP, 0.25);
+      expectVectorClose(getDensityBlochVector(rho, 0), [0, 0, -0.5]);
+    });
+
+    it('should remove coherence without changing populations under phase damping', () => {
+      const rho = applyNoiseChannel(plusState(), 0, GateType.PHASE_DAMP, 0.75);
+      expectVectorClose(getDensityBlochVector(rho, 0), [0.5, 0, 0]);
+      expectVectorClose(getDensityProbabilities(rho), [0.5, 0.5]);
+    });
+
+    it('should apply bit and phase flips with probability p', () => {
+      expectVectorClose(getDensityBlochVector(applyNoiseChannel(oneState(), 0, GateType.BIT_FLIP, 0.1), 0), [0, 0, -0.8]);
+      expectVectorClose(getDensityBlochVector(applyNoiseChannel(plusState(), 0, GateType.PHASE_FLIP, 0.5), 0), [0, 0, 0]);
+    });
+
+    it('should act only on the target qubit', () => {
+      // |1⟩ ⊗ |+⟩, damp qubit 0 fully
+      const state = fromComplexObjectArray([
+        { re: 0, im: 0 }, { re: 0, im: 0 }, { re: SQRT1_2, im: 0 }, { re: SQRT1_2, im: 0 },
+      ]);
+      const rho = applyNoiseChannel(densityMatrixFromState(state), 0, GateType.AMPLITUDE_DAMP, 1);
+      expectVectorClose(getDensityBlochVector(rho, 0), [0, 0, 1]);
+      expectVectorClose(getDensityBlochVector(rho, 1), [1, 0, 0]);
+    });
+  });
+
+  describe('conjugateByOperator', () => {
+    it('should compute U ρ U† from a vector map', () => {
+      // Hadamard on one qubit: |0⟩⟨0| → |+⟩⟨+|
+      const hadamard = (v: ComplexArray): ComplexArray => Float64Array.from([
+        (v[0] + v[2]) * SQRT1_2, (v[1] + v[3]) * SQRT1_2,
+        (v[0] - v[2]) * SQRT1_2, (v[1] - v[3]) * SQRT1_2,
+      ]);
+      const rho = conjugateByOperator(createInitialDensityMatrix(1), hadamard);
+      expect(Array.from(rho.data)).toEqual(Array.from(plusState().data).map(v => expect.closeTo(v, 10)));
+    });
+  });
+
+  describe('measureDensityQubit', () => {
+    it('should dephase the measured qubit and report P(1)', () => {
+      const { density, probabilityOfOne } = measureDensityQubit(plusState(), 0);
+      expect(probabilityOfOne).toBeCloseTo(0.5, 10);
+      expectVectorClose(getDensityBlochVector(density, 0), [0, 0, 0]);
+      expectVectorClose(getDensityProbabilities(density), [0.5, 0.5]);
+    });
+
+    it('should reset a qubit to |0⟩ and keep the trace', () => {
+      const rho = resetDensityQubit(plusState(), 0);
+      expectVectorClose(getDensityBlochVector(rho, 0), [0, 0, 1]);
+      expect(getTrace(rho)).toBeCloseTo(1, 10);
+    });
+
+    it('should split into unnormalized projections that sum to the dephased state', () => {
+      const zero = projectDensityQubit(plusState(), 0, 0);
+      const one = projectDensityQubit(plusState(), 0, 1);
+      expect(getTrace(zero)).toBeCloseTo(0.5, 10);
+      expect(getTrace(one)).toBeCloseTo(0.5, 10);
+      expect(Array.from(addDensityMatrices(zero, one).data))
+        .toEqual(Array.from(measureDensityQubit(plusState(), 0).density.data).map(v => expect.closeTo(v, 10)));
+    });
+  });
+
+  describe('subsystems and entanglement', () => {
+    /** Interleaved state vector from real amplitudes */
+    const realState = (...amplitudes: number[]): ComplexArray =>
+      Float64Array.from(amplitudes.flatMap(a => [a, 0]));
+
+    it('should trace a Bell pair down to the maximally mixed state', () => {
+      const bell = realState(SQRT1_2, 0, 0, SQRT1_2);
+      const analysis = analyzeBipartition(bell, [0]);
+      expectVectorClose(Array.from(analysis.reduced.data), [0.5, 0, 0, 0, 0, 0, 0.5, 0]);
+      expect(analysis.purity).toBeCloseTo(0.5, 10);
+      expect(analysis.entropy).toBeCloseTo(1, 10);
+      expectVectorClose(analysis.schmidtCoefficients!, [SQRT1_2, SQRT1_2]);
+    });
+
+    it('should find no entanglement in a product state', () => {
+      // |0⟩ ⊗ |+⟩ ⊗ |1⟩
+      const product = realState(0, SQRT1_2, 0, SQRT1_2, 0, 0, 0, 0);
+      for (const subsystem of [[0], [1], [0, 2], [2, 1]]) {
+        const analysis = analyzeBipartition(product, subsystem);
+        expect(analysis.purity).toBeCloseTo(1, 10);
+        expect(analysis.entropy).toBeCloseTo(0, 10);
+        expect(analysis.schmidtCoefficients).toHaveLength(1);
+      }
+      // Qubits are kept in the order given: (q2, q0) is |1⟩|0⟩
+      expect(getDensityProbabilities(getReducedDensityMatrix(product, [2, 0])).map(p => Math.round(p))).toEqual([0, 0, 1, 0]);
+    });
+
+    it('should match the density-matrix partial trace and entropy of a GHZ state', () => {
+      const ghz = realState(SQRT1_2, 0, 0, 0, 0, 0, 0, SQRT1_2);
+      const fromState = getReducedDensityMatrix(ghz, [1, 2]);
+      const fromDensity = getReducedDensityMatrix(densityMatrixFromState(ghz), [1, 2]);
+      expectVectorClose(Array.from(fromDensity.data), Array.from(fromState.data));
+      expectVectorClose(getDensityEigenvalues(fromState), [0.5, 0.5, 0, 0]);
+      expect(getVonNeumannEntropy(fromState)).toBeCloseTo(1, 10);
+      // A mixed global state has no Schmidt decomposition
+      expect(analyzeBipartition(densityMatrixFromState(ghz), [0]).schmidtCoefficients).toBeNull();
+    });
+
+    it('should find the spectrum of a complex reduced state', () => {
+      // cos(π/8)|0⟩|0⟩ + i·sin(π/8)|1⟩|1⟩ has Schmidt coefficients cos(π/8), sin(π/8)
+      const c = Math.cos(Math.PI / 8);
+      const s = Math.sin(Math.PI / 8);
+      const state = Float64Array.from([c, 0, 0, 0, 0, 0, 0, s]);
+      const analysis = analyzeBipartition(state, [1]);
+      expectVectorClose(analysis.schmidtCoefficients!, [c, s]);
+      expect(analysis.entropy).toBeCloseTo(-(c * c) * Math.log2(c * c) - s * s * Math.log2(s * s), 10);
+      expect(analysis.purity).toBeCloseTo(c ** 4 + s ** 4, 10);
+    });
+
+    it('should reject invalid and oversized subsystems', () => {
+      const bell = realState(SQRT1_2, 0, 0, SQRT1_2);
+      expect(() => getReducedDensityMatrix(bell, [2])).toThrow('Qubit 2 is not a distinct qubit');
+      expect(() => getReducedDensityMatrix(bell, [0, 0])).toThrow('Qubit 0 is not a distinct qubit');
+      const large = createInitialDensityMatrix(7);
+      expect(() => getReducedDensityMatrix(large, [0, 1, 2, 3, 4, 5, 6])).toThrow('limited to 6 qubits');
+    });
+  });
+});
@@ -0,0 +1,552 @@
+/**
+ * Density-matrix utilities for noisy (mixed-state) simulation.
+ *
+ * A density matrix ρ over n qubits is stored row-major in a ComplexArray:
+ * ρ[i][j] lives at data[(i * 2^n + j) * 2] (re) and the following slot (im).
+ * Basis indices use the same bit order as state vectors (row 0 is the MSB).
+ */
+
+import { Complex, ComplexArray, GateType, NoiseGate, assertNever } from '../types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Density matrix over numQubits qubits */
+export interface DensityMatrix {
+  numQubits: number;
+  data: ComplexArray;
+}
+
+/** Kraus operators {K_k} of a single-qubit channel, with Σ K_k†K_k = I */
+export type KrausOperators = Complex[][][];
+
+// ============================================================================
+// Construction
+// ============================================================================
+
+/** Create |0...0⟩⟨0...0| */
+export const createInitialDensityMatrix = (numQubits: number): DensityMatrix => {
+  const dim = 1 << numQubits;
+  const data = new Float64Array(dim * dim * 2);
+  data[0] = 1;
+  return { numQubits, data };
+};
+
+/** Create |ψ⟩⟨ψ| from an interleaved state vector */
+export const densityMatrixFromState = (state: ComplexArray): DensityMatrix => {
+  const dim = state.length / 2;
+  const numQubits = Math.round(Math.log2(dim));
+  const data = new Float64Array(dim * dim * 2);
+  for (let i = 0; i < dim; i++) {
+    const aRe = state[i * 2];
+    const aIm = state[i * 2 + 1];
+    if (aRe === 0 && aIm === 0) continue;
+    for (let j = 0; j < dim; j++) {
+      // a_i · conj(a_j)
+      const bRe = state[j * 2];
+      const bIm = -state[j * 2 + 1];
+      const idx = (i * dim + j) * 2;
+      data[idx] = aRe * bRe - aIm * bIm;
+      data[idx + 1] = aRe * bIm + aIm * bRe;
+    }
+  }
+  return { numQubits, data };
+};
+
+/** Sum of two density matrices over the same qubits (e.g. the branches of a mixture) */
+export const addDensityMatrices = (a: DensityMatrix, b: DensityMatrix): DensityMatrix => {
+  const data = new Float64Array(a.data);
+  for (let k = 0; k < data.length; k++) {
+    data[k] += b.data[k];
+  }
+  return { numQubits: a.numQubits, data };
+};
+
+// ============================================================================
+// Noise Channels
+// ============================================================================
+
+const c = (re: number, im = 0): Complex => ({ re, im });
+
+/**
+ * Kraus operators for a noise gate with strength p in [0, 1].
+ * - DEPOLARIZE: ρ → (1-p)ρ + p·I/2
+ * - AMPLITUDE_DAMP: |1⟩ decays to |0⟩ with probability p
+ * - PHASE_DAMP: off-diagonal terms scale by √(1-p)
+ * - BIT_FLIP / PHASE_FLIP: X / Z with probability p
+ */
+export const getKrausOperators = (channel: NoiseGate, strength: number): KrausOperators => {
+  const p = Math.max(0, Math.min(1, strength));
+  switch (channel) {
+    case GateType.DEPOLARIZE: {
+      const a = Math.sqrt(1 - 3 * p / 4);
+      const b = Math.sqrt(p / 4);
+      return [
+        [[c(a), c(0)], [c(0), c(a)]],
+        [[c(0), c(b)], [c(b), c(0)]],
+        [[c(0), c(0, -b)], [c(0, b), c(0)]],
+        [[c(b), c(0)], [c(0), c(-b)]],
+      ];
+    }
+    case GateType.AMPLITUDE_DAMP:
+      return [
+        [[c(1), c(0)], [c(0), c(Math.sqrt(1 - p))]],
+        [[c(0), c(Math.sqrt(p))], [c(0), c(0)]],
+      ];
+    case GateType.PHASE_DAMP:
+      return [
+        [[c(1), c(0)], [c(0), c(Math.sqrt(1 - p))]],
+        [[c(0), c(0)], [c(0), c(Math.sqrt(p))]],
+      ];
+    case GateType.BIT_FLIP: {
+      const a = Math.sqrt(1 - p);
+      const b = Math.sqrt(p);
+      return [
+        [[c(a), c(0)], [c(0), c(a)]],
+        [[c(0), c(b)], [c(b), c(0)]],
+      ];
+    }
+    case GateType.PHASE_FLIP: {
+      const a = Math.sqrt(1 - p);
+      const b = Math.sqrt(p);
+      return [
+        [[c(a), c(0)], [c(0), c(a)]],
+        [[c(b), c(0)], [c(0), c(-b)]],
+      ];
+    }
+    default:
+      return assertNever(channel);
+  }
+};
+
+/**
+ * Apply a single-qubit channel: ρ → Σ_k K_k ρ K_k†.
+ * Works on the 2x2 blocks of ρ that differ only in the target qubit's bit.
+ */
+export const applyKrausChannel = (
+  rho: DensityMatrix,
+  qubit: number,
+  operators: KrausOperators
+): DensityMatrix => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const mask = 1 << (numQubits - 1 - qubit);
+  const out = new Float64Array(data.length);
+
+  // Block entries R[a][b] = ρ[i_a][j_b], for (re, im) pairs
+  const rRe = [0, 0, 0, 0];
+  const rIm = [0, 0, 0, 0];
+
+  for (let i0 = 0; i0 < dim; i0++) {
+    if (i0 & mask) continue;
+    const rows = [i0, i0 | mask];
+    for (let j0 = 0; j0 < dim; j0++) {
+      if (j0 & mask) continue;
+      const cols = [j0, j0 | mask];
+
+      for (let a = 0; a < 2; a++) {
+        for (let b = 0; b < 2; b++) {
+          const idx = (rows[a] * dim + cols[b]) * 2;
+          rRe[a * 2 + b] = data[idx];
+          rIm[a * 2 + b] = data[idx + 1];
+        }
+      }
+
+      for (const K of operators) {
+        // (K R K†)[a][b] = Σ_{m,n} K[a][m] R[m][n] conj(K[b][n])
+        for (let a = 0; a < 2; a++) {
+          for (let b = 0; b < 2; b++) {
+            let sumRe = 0;
+            let sumIm = 0;
+            for (let m = 0; m < 2; m++) {
+              const kam = K[a][m];
+              if (kam.re === 0 && kam.im === 0) continue;
+              for (let n = 0; n < 2; n++) {
+                const kbn = K[b][n];
+                if (kbn.re === 0 && kbn.im === 0) continue;
+                const r = m * 2 + n;
+                // K[a][m] · R[m][n]
+                const tRe = kam.re * rRe[r] - kam.im * rIm[r];
+                const tIm = kam.re * rIm[r] + kam.im * rRe[r];
+                // · conj(K[b][n])
+                sumRe += tRe * kbn.re + tIm * kbn.im;
+                sumIm += tIm * kbn.re - tRe * kbn.im;
+              }
+            }
+            const idx = (rows[a] * dim + cols[b]) * 2;
+            out[idx] += sumRe;
+            out[idx + 1] += sumIm;
+          }
+        }
+      }
+    }
+  }
+
+  return { numQubits, data: out };
+};
+
+/** Apply a noise gate's channel with the given strength to one qubit */
+export const applyNoiseChannel = (
+  rho: DensityMatrix,
+  qubit: number,
+  channel: NoiseGate,
+  strength: number
+): DensityMatrix => applyKrausChannel(rho, qubit, getKrausOperators(channel, strength));
+
+// ============================================================================
+// Unitaries and Measurement
+// ============================================================================
+
+/**
+ * Compute U ρ U† given only a way to apply U to a state vector.
+ * Uses U ρ U† = conj(U · conj(U ρ)ᵀ)ᵀ, applying U to each column of ρ and
+ * then to each (conjugated) row of the result.
+ */
+export const conjugateByOperator = (
+  rho: DensityMatrix,
+  applyToVector: (vector: ComplexArray) => ComplexArray
+): DensityMatrix => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const vector = new Float64Array(dim * 2);
+
+  // A = U ρ, one column at a time
+  const left = new Float64Array(data.length);
+  for (let j = 0; j < dim; j++) {
+    for (let i = 0; i < dim; i++) {
+      vector[i * 2] = data[(i * dim + j) * 2];
+      vector[i * 2 + 1] = data[(i * dim + j) * 2 + 1];
+    }
+    const result = applyToVector(vector);
+    for (let i = 0; i < dim; i++) {
+      left[(i * dim + j) * 2] = result[i * 2];
+      left[(i * dim + j) * 2 + 1] = result[i * 2 + 1];
+    }
+  }
+
+  // (A U†)[i][j] = conj((U · conj(A[i][:]))[j])
+  const out = new Float64Array(data.length);
+  for (let i = 0; i < dim; i++) {
+    for (let j = 0; j < dim; j++) {
+      vector[j * 2] = left[(i * dim + j) * 2];
+      vector[j * 2 + 1] = -left[(i * dim + j) * 2 + 1];
+    }
+    const result = applyToVector(vector);
+    for (let j = 0; j < dim; j++) {
+      out[(i * dim + j) * 2] = result[j * 2];
+      out[(i * dim + j) * 2 + 1] = -result[j * 2 + 1];
+    }
+  }
+
+  return { numQubits, data: out };
+};
+
+/**
+ * Non-selective measurement of one qubit in the computational basis.
+ * Removes coherences between |0⟩ and |1⟩ of that qubit and returns P(1).
+ */
+export const measureDensityQubit = (
+  rho: DensityMatrix,
+  qubit: number
+): { density: DensityMatrix; probabilityOfOne: number } => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const mask = 1 << (numQubits - 1 - qubit);
+  const out = new Float64Array(data);
+  let probabilityOfOne = 0;
+
+  for (let i = 0; i < dim; i++) {
+    if (i & mask) probabilityOfOne += data[(i * dim + i) * 2];
+    for (let j = 0; j < dim; j++) {
+      if ((i & mask) !== (j & mask)) {
+        out[(i * dim + j) * 2] = 0;
+        out[(i * dim + j) * 2 + 1] = 0;
+      }
+    }
+  }
+
+  return { density: { numQubits, data: out }, probabilityOfOne };
+};
+
+/**
+ * Project one qubit onto a measurement outcome without renormalizing: P ρ P.
+ * The trace of the result is the probability of that outcome.
+ */
+export const projectDensityQubit = (
+  rho: DensityMatrix,
+  qubit: number,
+  outcome: 0 | 1
+): DensityMatrix => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const mask = 1 << (numQubits - 1 - qubit);
+  const keep = outcome === 1 ? mask : 0;
+  const out = new Float64Array(data.length);
+
+  for (let i = 0; i < dim; i++) {
+    if ((i & mask) !== keep) continue;
+    for (let j = 0; j < dim; j++) {
+      if ((j & mask) !== keep) continue;
+      out[(i * dim + j) * 2] = data[(i * dim + j) * 2];
+      out[(i * dim + j) * 2 + 1] = data[(i * dim + j) * 2 + 1];
+    }
+  }
+
+  return { numQubits, data: out };
+};
+
+/**
+ * Reset one qubit to |0⟩: P₀ρP₀ + X P₁ρP₁ X.
+ * This is the amplitude damping channel at full strength.
+ */
+export const resetDensityQubit = (rho: DensityMatrix, qubit: number): DensityMatrix =>
+  applyNoiseChannel(rho, qubit, GateType.AMPLITUDE_DAMP, 1);
+
+// ============================================================================
+// Observables
+// ============================================================================
+
+/**
+ * Bloch vector of one qubit's reduced state.
+ * Its length is 1 for pure states and shrinks toward 0 as the qubit mixes.
+ */
+export const getDensityBlochVector = (rho: DensityMatrix, qubit: number): [number, number, number] => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const mask = 1 << (numQubits - 1 - qubit);
+
+  // Partial trace over the other qubits
+  let r00 = 0;
+  let r11 = 0;
+  let r01Re = 0;
+  let r01Im = 0;
+  for (let i = 0; i < dim; i++) {
+    if (i & mask) continue;
+    const i1 = i | mask;
+    r00 += data[(i * dim + i) * 2];
+    r11 += data[(i1 * dim + i1) * 2];
+    r01Re += data[(i * dim + i1) * 2];
+    r01Im += data[(i * dim + i1) * 2 + 1];
+  }
+
+  // Snap floating point noise to 0, matching getBlochVector
+  const snap = (v: number): number => (Math.abs(v) < 1e-10 ? 0 : Math.max(-1, Math.min(1, v)));
+  return [snap(2 * r01Re), snap(-2 * r01Im), snap(r00 - r11)];
+};
+
+/** Trace Tr(ρ): 1 for a normalized density matrix */
+export const getTrace = (rho: DensityMatrix): number => {
+  const dim = 1 << rho.numQubits;
+  let trace = 0;
+  for (let i = 0; i < dim; i++) {
+    trace += rho.data[(i * dim + i) * 2];
+  }
+  return trace;
+};
+
+/** Purity Tr(ρ²): 1 for pure states, 1/2^n for the maximally mixed state */
+export const getPurity = (rho: DensityMatrix): number => {
+  // ρ is Hermitian, so Tr(ρ²) = Σ |ρ_ij|²
+  let purity = 0;
+  for (let k = 0; k < rho.data.length; k++) {
+    purity += rho.data[k] * rho.data[k];
+  }
+  return purity;
+};
+
+/** Probability of each basis state (the diagonal of ρ) */
+export const getDensityProbabilities = (rho: DensityMatrix): number[] => {
+  const dim = 1 << rho.numQubits;
+  return Array.from({ length: dim }, (_, i) => Math.max(0, rho.data[(i * dim + i) * 2]));
+};
+
+// ============================================================================
+// Subsystems and Entanglement
+// ============================================================================
+
+/** Largest subsystem whose reduced density matrix is built (64×64) */
+export const MAX_REDUCED_QUBITS = 6;
+
+/** Reduced state of one side of a bipartition, and how entangled it is with the rest */
+export interface BipartitionAnalysis {
+  /** ρ_A over the chosen qubits, in the order given */
+  reduced: DensityMatrix;
+  /** Tr(ρ_A²): 1 when A is unentangled with the rest of a pure state */
+  purity: number;
+  /** Von Neumann entropy −Tr(ρ_A log₂ ρ_A), in bits */
+  entropy: number;
+  /** Eigenvalues of ρ_A, largest first */
+  eigenvalues: number[];
+  /** Schmidt coefficients √λ of the nonzero eigenvalues, largest first; null unless the full state is pure */
+  schmidtCoefficients: number[] | null;
+}
+
+/** Eigenvalues below this count as 0 (Schmidt rank, entropy) */
+const EIGENVALUE_EPSILON = 1e-12;
+
+/**
+ * Full-system bits of every basis index of `qubits` (first qubit = most significant),
+ * so a full index is offsetsA[a] | offsetsB[b]
+ */
+const getSubsystemOffsets = (qubits: readonly number[], numQubits: number): Int32Array => {
+  const offsets = new Int32Array(1 << qubits.length);
+  for (let index = 0; index < offsets.length; index++) {
+    let offset = 0;
+    qubits.forEach((qubit, j) => {
+      if ((index >> (qubits.length - 1 - j)) & 1) offset |= 1 << (numQubits - 1 - qubit);
+    });
+    offsets[index] = offset;
+  }
+  return offsets;
+};
+
+/**
+ * Partial trace keeping `keep` (qubit indices, in the order they appear in the result).
+ * Accepts a pure state vector or a density matrix.
+ */
+export const getReducedDensityMatrix = (
+  state: ComplexArray | DensityMatrix,
+  keep: readonly number[]
+): DensityMatrix => {
+  const numQubits = state instanceof Float64Array ? Math.round(Math.log2(state.length / 2)) : state.numQubits;
+  keep.forEach((qubit, j) => {
+    if (!Number.isInteger(qubit) || qubit < 0 || qubit >= numQubits || keep.indexOf(qubit) !== j) {
+      throw new Error(`Qubit ${qubit} is not a distinct qubit of the ${numQubits}-qubit state`);
+    }
+  });
+  if (keep.length > MAX_REDUCED_QUBITS) {
+    throw new Error(`Reduced density matrices are limited to ${MAX_REDUCED_QUBITS} qubits; this subsystem has ${keep.length}`);
+  }
+
+  const rest = Array.from({ length: numQubits }, (_, q) => q).filter(q => !keep.includes(q));
+  const offsetsA = getSubsystemOffsets(keep, numQubits);
+  const offsetsB = getSubsystemOffsets(rest, numQubits);
+  const dimA = offsetsA.length;
+  const data = new Float64Array(dimA * dimA * 2);
+
+  if (state instanceof Float64Array) {
+    // ρ_A[a][a'] = Σ_b ψ(a,b) · conj(ψ(a',b))
+    for (let b = 0; b < offsetsB.length; b++) {
+      for (let a = 0; a < dimA; a++) {
+        const i = offsetsA[a] | offsetsB[b];
+        const aRe = state[i * 2];
+        const aIm = state[i * 2 + 1];
+        if (aRe === 0 && aIm === 0) continue;
+        for (let a2 = 0; a2 < dimA; a2++) {
+          const j = offsetsA[a2] | offsetsB[b];
+          const bRe = state[j * 2];
+          const bIm = -state[j * 2 + 1];
+          const idx = (a * dimA + a2) * 2;
+          data[idx] += aRe * bRe - aIm * bIm;
+          data[idx + 1] += aRe * bIm + aIm * bRe;
+        }
+      }
+    }
+  } else {
+    // ρ_A[a][a'] = Σ_b ρ[(a,b)][(a',b)]
+    const dim = 1 << numQubits;
+    for (let b = 0; b < offsetsB.length; b++) {
+      for (let a = 0; a < dimA; a++) {
+        const i = offsetsA[a] | offsetsB[b];
+        for (let a2 = 0; a2 < dimA; a2++) {
+          const j = offsetsA[a2] | offsetsB[b];
+          const idx = (a * dimA + a2) * 2;
+          data[idx] += state.data[(i * dim + j) * 2];
+          data[idx + 1] += state.data[(i * dim + j) * 2 + 1];
+        }
+      }
+    }
+  }
+  return { numQubits: keep.length, data };
+};
+
+/** Eigenvalues of a real symmetric n×n matrix (row-major, overwritten) by cyclic Jacobi rotations */
+const symmetricEigenvalues = (a: Float64Array, n: number): number[] => {
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) off += a[p * n + q] * a[p * n + q];
+    }
+    if (off < 1e-24) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p * n + q];
+        if (Math.abs(apq) < 1e-300) continue;
+        // Rotation zeroing a[p][q]: A ← JᵀAJ
+        const theta = (a[q * n + q] - a[p * n + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k * n + p];
+          const akq = a[k * n + q];
+          a[k * n + p] = c * akp - s * akq;
+          a[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p * n + k];
+          const aqk = a[q * n + k];
+          a[p * n + k] = c * apk - s * aqk;
+          a[q * n + k] = s * apk + c * aqk;
+        }
+      }
+    }
+  }
+  return Array.from({ length: n }, (_, i) => a[i * n + i]);
+};
+
+/** Eigenvalues of ρ, largest first (clamped at 0 against rounding) */
+export const getDensityEigenvalues = (rho: DensityMatrix): number[] => {
+  // ρ = A + iB is Hermitian; [[A, −B], [B, A]] is real symmetric with each eigenvalue of ρ twice
+  const dim = 1 << rho.numQubits;
+  const n = dim * 2;
+  const embedded = new Float64Array(n * n);
+  for (let i = 0; i < dim; i++) {
+    for (let j = 0; j < dim; j++) {
+      const re = rho.data[(i * dim + j) * 2];
+      const im = rho.data[(i * dim + j) * 2 + 1];
+      embedded[i * n + j] = re;
+      embedded[(i + dim) * n + (j + dim)] = re;
+      embedded[i * n + (j + dim)] = -im;
+      embedded[(i + dim) * n + j] = im;
+    }
+  }
+  const doubled = symmetricEigenvalues(embedded, n).sort((x, y) => y - x);
+  return doubled.filter((_, k) => k % 2 === 0).map(value => Math.max(0, value));
+};
+
+const entropyOf = (eigenvalues: number[]): number => {
+  let entropy = 0;
+  for (const lambda of eigenvalues) {
+    if (lambda > EIGENVALUE_EPSILON) entropy -= lambda * Math.log2(lambda);
+  }
+  return Math.max(0, entropy);
+};
+
+/** Von Neumann entropy −Σ λ log₂ λ in bits: 0 for pure states, n for the maximally mixed state */
+export const getVonNeumannEntropy = (rho: DensityMatrix): number =>
+  entropyOf(getDensityEigenvalues(rho));
+
+/**
+ * Analyze subsystem A = `subsystem` (qubit indices) against the remaining qubits.
+ * For a pure state vector, entropy and Schmidt coefficients measure the entanglement
+ * between A and the rest; for a density matrix they also include classical mixing.
+ */
+export const analyzeBipartition = (
+  state: ComplexArray | DensityMatrix,
+  subsystem: readonly number[]
+): BipartitionAnalysis => {
+  const reduced = getReducedDensityMatrix(state, subsystem);
+  const eigenvalues = getDensityEigenvalues(reduced);
+  return {
+    reduced,
+    purity: getPurity(reduced),
+    entropy: entropyOf(eigenvalues),
+    eigenvalues,
+    schmidtCoefficients: state instanceof Float64Array
+      ? eigenvalues.filter(lambda => lambda > EIGENVALUE_EPSILON).map(Math.sqrt)
+      : null,
+  };
+};
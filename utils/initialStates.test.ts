@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getInitialAmplitudes,
+  formatInitialState,
+  parseCustomInitialState,
+  isWireInitialState,
+  allDefaultInitialStates,
+} from './initialStates';
+import { INITIAL_STATE_PRESETS } from '../types';
+
+describe('initialStates', () => {
+  it('should give normalized amplitudes for every preset', () => {
+    for (const preset of INITIAL_STATE_PRESETS) {
+      const [alpha, beta] = getInitialAmplitudes(preset);
+      expect(alpha.re ** 2 + alpha.im ** 2 + beta.re ** 2 + beta.im ** 2).toBeCloseTo(1, 10);
+    }
+    expect(getInitialAmplitudes('-i')[1]).toEqual({ re: 0, im: -Math.SQRT1_2 });
+  });
+
+  it('should treat missing entries as |0⟩', () => {
+    expect(allDefaultInitialStates(['0', undefined])).toBe(true);
+    expect(allDefaultInitialStates(['0', '1'])).toBe(false);
+    expect(formatInitialState(undefined)).toBe('|0⟩');
+  });
+
+  it('should format kets', () => {
+    expect(formatInitialState('-i')).toBe('|−i⟩');
+    expect(formatInitialState({ alpha: { re: 1, im: 0 }, beta: { re: 0, im: 0 } })).toBe('|ψ⟩');
+  });
+
+  describe('parseCustomInitialState', () => {
+    it('should parse and renormalize α and β', () => {
+      const parsed = parseCustomInitialState(' 1/sqrt(2) ', 'i*0.7071');
+      expect('state' in parsed).toBe(true);
+      if (!('state' in parsed)) return;
+      const { alpha, beta, expressions } = parsed.state;
+      expect(alpha.re ** 2 + beta.im ** 2).toBeCloseTo(1, 12);
+      expect(expressions).toEqual(['1/sqrt(2)', 'i*0.7071']);
+    });
+
+    it('should report which amplitude failed to parse', () => {
+      expect(parseCustomInitialState('1', '')).toEqual({ error: expect.stringMatching(/^β: /) });
+      expect(parseCustomInitialState('(', '0')).toEqual({ error: expect.stringMatching(/^α: /) });
+    });
+
+    it('should reject states that are not normalized', () => {
+      expect(parseCustomInitialState('1', '1')).toEqual({ error: '|α|² + |β|² must be 1 (got 2)' });
+    });
+  });
+
+  it('should validate initial states read from files', () => {
+    expect(isWireInitialState('+i')).toBe(true);
+    expect(isWireInitialState('2')).toBe(false);
+    expect(isWireInitialState({ alpha: { re: 0.6, im: 0 }, beta: { re: 0, im: 0.8 } })).toBe(true);
+    expect(isWireInitialState({ alpha: { re: 1, im: 0 } })).toBe(false);
+    expect(isWireInitialState(null)).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { Complex, CustomInitialState, INITIAL_STATE_PRESETS, WireInitialState, assertNever } from '../types';
+import { parseComplex } from './parser/complexExprParser';
+
+/**
+ * Per-wire initial states
+ *
+ * Every wire starts in |0⟩ unless the user picks one of the presets or a
+ * custom normalized α|0⟩ + β|1⟩. Simulations build the product state from these.
+ */
+
+const INV_SQRT_2 = Math.SQRT1_2;
+
+/** Largest |(|α|² + |β|²) − 1| accepted for a custom state */
+const NORMALIZATION_TOLERANCE = 0.01;
+
+/** Default state of every wire */
+export const DEFAULT_INITIAL_STATE: WireInitialState = '0';
+
+/** Whether a wire starts in |0⟩ (a missing entry counts as |0⟩) */
+export const isDefaultInitialState = (state: WireInitialState | undefined): boolean =>
+  state === undefined || state === DEFAULT_INITIAL_STATE;
+
+/** Whether all wires start in |0⟩ */
+export const allDefaultInitialStates = (states: readonly (WireInitialState | undefined)[]): boolean =>
+  states.every(isDefaultInitialState);
+
+/** Type guard: checks if a value is a custom initial state */
+export const isCustomInitialState = (state: WireInitialState): state is CustomInitialState =>
+  typeof state === 'object';
+
+/** Amplitudes [α, β] of the state α|0⟩ + β|1⟩ a wire starts in */
+export const getInitialAmplitudes = (state: WireInitialState | undefined): [Complex, Complex] => {
+  if (state === undefined) return [{ re: 1, im: 0 }, { re: 0, im: 0 }];
+  if (isCustomInitialState(state)) return [state.alpha, state.beta];
+  switch (state) {
+    case '0': return [{ re: 1, im: 0 }, { re: 0, im: 0 }];
+    case '1': return [{ re: 0, im: 0 }, { re: 1, im: 0 }];
+    case '+': return [{ re: INV_SQRT_2, im: 0 }, { re: INV_SQRT_2, im: 0 }];
+    case '-': return [{ re: INV_SQRT_2, im: 0 }, { re: -INV_SQRT_2, im: 0 }];
+    case '+i': return [{ re: INV_SQRT_2, im: 0 }, { re: 0, im: INV_SQRT_2 }];
+    case '-i': return [{ re: INV_SQRT_2, im: 0 }, { re: 0, im: -INV_SQRT_2 }];
+    default: return assertNever(state);
+  }
+};
+
+/** Ket label for a wire's initial state, e.g. "|+i⟩" ("|ψ⟩" for custom states) */
+export const formatInitialState = (state: WireInitialState | undefined): string => {
+  if (state === undefined) return `|${DEFAULT_INITIAL_STATE}⟩`;
+  if (isCustomInitialState(state)) return '|ψ⟩';
+  return `|${state.replace('-', '−')}⟩`;
+};
+
+/**
+ * Parse a custom initial state from α and β expressions.
+ * Both must parse with parseComplex and |α|² + |β|² must be 1 (within rounding);
+ * the result is renormalized exactly.
+ */
+export const parseCustomInitialState = (
+  alphaText: string,
+  betaText: string
+): { state: CustomInitialState } | { error: string } => {
+  const alpha = parseComplex(alphaText.trim());
+  if (!alpha.success) return { error: `α: ${alpha.error.message}` };
+  const beta = parseComplex(betaText.trim());
+  if (!beta.success) return { error: `β: ${beta.error.message}` };
+
+  const normSq = alpha.value.re ** 2 + alpha.value.im ** 2 + beta.value.re ** 2 + beta.value.im ** 2;
+  if (Math.abs(normSq - 1) > NORMALIZATION_TOLERANCE) {
+    return { error: `|α|² + |β|² must be 1 (got ${Number(normSq.toFixed(4))})` };
+  }
+
+  const norm = Math.sqrt(normSq);
+  return {
+    state: {
+      alpha: { re: alpha.value.re / norm, im: alpha.value.im / norm },
+      beta: { re: beta.value.re / norm, im: beta.value.im / norm },
+      expressions: [alphaText.trim(), betaText.trim()],
+    },
+  };
+};
+
+/** Whether an unknown value is a valid WireInitialState (for file validation) */
+export const isWireInitialState = (value: unknown): value is WireInitialState => {
+  if (typeof value === 'string') {
+    return (INITIAL_STATE_PRESETS as readonly string[]).includes(value);
+  }
+  if (!value || typeof value !== 'object') return false;
+
+  const { alpha, beta } = value as Record<string, unknown>;
+  const isComplex = (c: unknown): c is Complex =>
+    !!c && typeof c === 'object' &&
+    Number.isFinite((c as Complex).re) && Number.isFinite((c as Complex).im);
+  if (!isComplex(alpha) || !isComplex(beta)) return false;
+
+  const normSq = alpha.re ** 2 + alpha.im ** 2 + beta.re ** 2 + beta.im ** 2;
+  return Math.abs(normSq - 1) <= NORMALIZATION_TOLERANCE;
+};
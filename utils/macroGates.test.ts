@@ -0,0 +1,286 @@
+import { describe, it, expect } from 'vitest';
+import {
+  circuitUsesMacro,
+  closeMacroEditor,
+  expandMacroGate,
+  expandMacroGates,
+  extractRegion,
+  getMacroEditorCircuit,
+  getMacroEditorError,
+  getMacroRegionError,
+  openMacroEditor,
+  placeMacroInstance,
+  replaceMacroDefinition,
+  updateMacroInstances,
+} from './macroGates';
+import { buildCircuitUnitary } from './quantum';
+import { CircuitGrid, CustomGateDefinition, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const gates = (grid: CircuitGrid): (GateType | null)[][] => grid.map(row => row.map(cell => cell.gate));
+
+/** H on q0 then CX from q0 to q1, in columns 1 and 2 of a 3x4 grid */
+const createBellGrid = (): CircuitGrid => {
+  const grid = createGrid(3, 4);
+  grid[0][1].gate = GateType.H;
+  grid[0][2].gate = GateType.CONTROL;
+  grid[1][2].gate = GateType.X;
+  return grid;
+};
+
+const bellRegion = { startRow: 0, endRow: 1, startCol: 1, endCol: 2 };
+
+const expectSameUnitary = (before: CircuitGrid, after: CircuitGrid) => {
+  const expected = buildCircuitUnitary(before).matrix;
+  buildCircuitUnitary(after).matrix.forEach((row, i) => row.forEach((entry, j) => {
+    expect(entry.re).toBeCloseTo(expected[i][j].re, 10);
+    expect(entry.im).toBeCloseTo(expected[i][j].im, 10);
+  }));
+};
+
+describe('getMacroRegionError', () => {
+  it('should accept a region of unitary gates', () => {
+    expect(getMacroRegionError(createBellGrid(), bellRegion)).toBeNull();
+  });
+
+  it('should reject empty regions and regions outside the grid', () => {
+    const grid = createBellGrid();
+    expect(getMacroRegionError(grid, { startRow: 2, endRow: 2, startCol: 0, endCol: 3 })).toBe('Selection holds no gates');
+    expect(getMacroRegionError(grid, { startRow: 0, endRow: 3, startCol: 0, endCol: 0 })).toBe('Selection is outside the circuit');
+  });
+
+  it('should reject measurements and classical controls', () => {
+    const grid = createBellGrid();
+    grid[1][3].gate = GateType.MEASURE;
+    expect(getMacroRegionError(grid, { ...bellRegion, endCol: 3 })).toMatch(/in column 4 is not unitary/);
+
+    grid[1][3].gate = GateType.CLASSICAL_CONTROL;
+    expect(getMacroRegionError(grid, { ...bellRegion, endCol: 3 })).toMatch(/in column 4 is not unitary/);
+  });
+
+  it('should reject a spanning gate that is only partly selected', () => {
+    const grid = createGrid(3, 1);
+    const reverseSpan = { startRow: 1, endRow: 2 };
+    grid[1][0] = { gate: GateType.QFT, id: 'cell-1-0', params: { reverseSpan } };
+    grid[2][0] = { gate: GateType.QFT, id: 'cell-2-0', params: { reverseSpan, isSpanContinuation: true } };
+
+    expect(getMacroRegionError(grid, { startRow: 0, endRow: 1, startCol: 0, endCol: 0 })).toMatch(/only partly selected/);
+    expect(getMacroRegionError(grid, { startRow: 2, endRow: 2, startCol: 0, endCol: 0 })).toMatch(/only partly selected/);
+    expect(getMacroRegionError(grid, { startRow: 1, endRow: 2, startCol: 0, endCol: 0 })).toBeNull();
+  });
+
+  it('should reject controls on one side of the selection edge and their gates on the other', () => {
+    const region = { startRow: 0, endRow: 1, startCol: 0, endCol: 1 };
+
+    // A control outside controls a selected gate
+    const controlsInside = createGrid(3, 2);
+    controlsInside[0][0].gate = GateType.H;
+    controlsInside[2][1].gate = GateType.CONTROL;
+    controlsInside[1][1].gate = GateType.X;
+    expect(getMacroRegionError(controlsInside, region)).toBe(
+      'The control on q2 in column 2 controls selected gates; select it too or leave the column out'
+    );
+
+    // A selected control controls a gate outside
+    const controlsOutside = createGrid(3, 2);
+    controlsOutside[0][0].gate = GateType.H;
+    controlsOutside[0][1].gate = GateType.CONTROL;
+    controlsOutside[2][1].gate = GateType.X;
+    expect(getMacroRegionError(controlsOutside, region)).toBe(
+      'The control on q0 in column 2 also controls gates outside the selection'
+    );
+
+    // Later columns would merge into a first column that a control outside already controls
+    const controlsFirstColumn = createGrid(4, 2);
+    controlsFirstColumn[2][0].gate = GateType.CONTROL;
+    controlsFirstColumn[3][0].gate = GateType.X;
+    controlsFirstColumn[0][1].gate = GateType.H;
+    expect(getMacroRegionError(controlsFirstColumn, region)).toBe(
+      'The control on q2 in column 1 would control the whole macro gate'
+    );
+  });
+});
+
+describe('extractRegion', () => {
+  it('should re-base rows and spans and drop empty columns', () => {
+    const grid = createGrid(4, 3);
+    const reverseSpan = { startRow: 2, endRow: 3 };
+    grid[2][0] = { gate: GateType.QFT, id: 'cell-2-0', params: { reverseSpan } };
+    grid[3][0] = { gate: GateType.QFT, id: 'cell-3-0', params: { reverseSpan, isSpanContinuation: true } };
+    grid[1][2].gate = GateType.H;
+
+    const circuit = extractRegion(grid, { startRow: 1, endRow: 3, startCol: 0, endCol: 2 });
+
+    expect(gates(circuit)).toEqual([
+      [null, GateType.H],
+      [GateType.QFT, null],
+      [GateType.QFT, null],
+    ]);
+    expect(circuit[1][0].params?.reverseSpan).toEqual({ startRow: 1, endRow: 2 });
+    expect(circuit[2][1].id).toBe('cell-2-1');
+  });
+});
+
+describe('placeMacroInstance and expandMacroGate', () => {
+  const definition = (): CustomGateDefinition => ({ label: 'B', circuit: extractRegion(createBellGrid(), bellRegion) });
+
+  it('should replace the region with one spanning instance and remove emptied columns', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, definition());
+
+    expect(grid[0]).toHaveLength(3);
+    expect(grid[0][1].gate).toBe(GateType.MACRO);
+    expect(grid[0][1].params).toMatchObject({ customLabel: 'B', reverseSpan: { startRow: 0, endRow: 1 } });
+    expect(grid[1][1].params?.isSpanContinuation).toBe(true);
+    expect(grid[0][2].id).toBe('cell-0-2');
+  });
+
+  it('should expand an instance back into the gates it was made from', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, definition());
+    const expanded = expandMacroGate(grid, 1, 0);
+
+    expect(gates(expanded)).toEqual(gates(createBellGrid()));
+    expect(expanded[1][3].id).toBe('cell-1-3');
+  });
+
+  it('should copy controls outside the span to every expanded column', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, definition());
+    grid[2][1].gate = GateType.CONTROL;
+    const expanded = expandMacroGate(grid, 1, 0);
+
+    expect(expanded.map(row => row[1].gate)).toEqual([GateType.H, null, GateType.CONTROL]);
+    expect(expanded.map(row => row[2].gate)).toEqual([GateType.CONTROL, GateType.X, GateType.CONTROL]);
+  });
+
+  it('should keep other gates of the column apart from the sub-circuit', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, definition());
+    grid[2][1].gate = GateType.Z;
+    const expanded = expandMacroGate(grid, 1, 0);
+
+    expect(expanded.map(row => row[1].gate)).toEqual([null, null, GateType.Z]);
+    expect(expanded.map(row => row[2].gate)).toEqual([GateType.H, null, null]);
+  });
+
+  it('should keep the unitary when controls outside the selection only control gates outside it', () => {
+    const grid = createGrid(4, 3);
+    grid[0][0].gate = GateType.H;
+    grid[2][1].gate = GateType.CONTROL;
+    grid[3][1].gate = GateType.X;
+    grid[0][2].gate = GateType.CONTROL;
+    grid[1][2].gate = GateType.X;
+    const region = { startRow: 0, endRow: 1, startCol: 0, endCol: 2 };
+    expect(getMacroRegionError(grid, region)).toBeNull();
+
+    const placed = placeMacroInstance(grid, region, { label: 'B', circuit: extractRegion(grid, region) });
+
+    expect(gates(placed).map(row => row[0])).toEqual([GateType.MACRO, GateType.MACRO, null, null]);
+    expect(placed[0]).toHaveLength(2);
+    expectSameUnitary(grid, placed);
+  });
+
+  it('should have the unitary of the gates it replaced', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, definition());
+    const before = buildCircuitUnitary(createBellGrid(), 0, 3, undefined, [0, 1]).matrix;
+    const after = buildCircuitUnitary(grid, 0, 2, undefined, [0, 1]).matrix;
+
+    after.forEach((row, i) => row.forEach((entry, j) => {
+      expect(entry.re).toBeCloseTo(before[i][j].re, 10);
+      expect(entry.im).toBeCloseTo(before[i][j].im, 10);
+    }));
+  });
+});
+
+describe('nested macros', () => {
+  // A wraps B; both act on the same two wires
+  const b: CustomGateDefinition = { label: 'B', circuit: extractRegion(createBellGrid(), bellRegion) };
+  const createNested = (): { a: CustomGateDefinition; grid: CircuitGrid } => {
+    const inner = placeMacroInstance(createBellGrid(), bellRegion, b);
+    inner[0][2].gate = GateType.Z;
+    const a: CustomGateDefinition = { label: 'A', circuit: extractRegion(inner, { startRow: 0, endRow: 1, startCol: 1, endCol: 2 }) };
+    const grid = placeMacroInstance(createGrid(2, 1), { startRow: 0, endRow: 1, startCol: 0, endCol: 0 }, a);
+    return { a, grid };
+  };
+
+  it('should expand at every depth', () => {
+    const { grid } = createNested();
+
+    expect(gates(expandMacroGates(grid))).toEqual([
+      [GateType.H, GateType.CONTROL, GateType.Z],
+      [null, GateType.X, null],
+    ]);
+  });
+
+  it('should find and update instances inside other macros', () => {
+    const { a, grid } = createNested();
+    const newB = { label: 'B', circuit: [[{ gate: GateType.X, id: 'cell-0-0' }], [{ gate: null, id: 'cell-1-0' }]] };
+
+    expect(circuitUsesMacro(a.circuit!, 'B')).toBe(true);
+    expect(circuitUsesMacro(a.circuit!, 'A')).toBe(false);
+    expect(gates(expandMacroGates(updateMacroInstances(grid, newB)))).toEqual([
+      [GateType.X, GateType.Z],
+      [null, null],
+    ]);
+  });
+});
+
+describe('macro editor', () => {
+  const b = (): CustomGateDefinition => ({ label: 'B', circuit: extractRegion(createBellGrid(), bellRegion) });
+
+  it('should lay the definition out one column after the last gate', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, b());
+    const { grid: opened, session } = openMacroEditor(grid, b())!;
+
+    expect(session).toEqual({ label: 'B', wires: 2, startCol: 3, originalWidth: 3 });
+    expect(gates(opened)).toEqual([
+      [null, GateType.MACRO, null, GateType.H, GateType.CONTROL],
+      [null, GateType.MACRO, null, null, GateType.X],
+      [null, null, null, null, null],
+    ]);
+    expect(getMacroEditorError(opened, session)).toBeNull();
+    expect(gates(closeMacroEditor(opened, session))).toEqual(gates(grid));
+  });
+
+  it('should save the edited gates over every instance', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, b());
+    const { grid: opened, session } = openMacroEditor(grid, b())!;
+    opened.forEach((row, r) => row.push({ gate: null, id: `cell-${r}-5` }));
+    opened[1][3].gate = GateType.Z;
+    opened[0][5].gate = GateType.T;
+
+    const definition = { label: 'B', circuit: getMacroEditorCircuit(opened, session) };
+    expect(gates(definition.circuit)).toEqual([
+      [GateType.H, GateType.CONTROL, GateType.T],
+      [GateType.Z, GateType.X, null],
+    ]);
+    const saved = updateMacroInstances(closeMacroEditor(opened, session), definition);
+    expect(gates(expandMacroGates(saved))).toEqual([
+      [null, GateType.H, GateType.CONTROL, GateType.T, null],
+      [null, GateType.Z, GateType.X, null, null],
+      [null, null, null, null, null],
+    ]);
+  });
+
+  it('should refuse gates outside the definition\'s wires and self-reference', () => {
+    const grid = placeMacroInstance(createBellGrid(), bellRegion, b());
+    const { grid: opened, session } = openMacroEditor(grid, b())!;
+
+    opened[2][3].gate = GateType.X;
+    expect(getMacroEditorError(opened, session)).toBe('B spans 2 wires; the gate on q2 in column 4 is outside them');
+
+    opened[2][3].gate = null;
+    const instance = placeMacroInstance(opened, { startRow: 0, endRow: 1, startCol: 3, endCol: 4 }, b());
+    expect(getMacroEditorError(instance, session)).toBe('B cannot contain itself');
+  });
+
+  it('should update instances inside other definitions', () => {
+    const a: CustomGateDefinition = { label: 'A', circuit: placeMacroInstance(createGrid(2, 1), { startRow: 0, endRow: 1, startCol: 0, endCol: 0 }, b()) };
+    const newB = { label: 'B', circuit: [[{ gate: GateType.X, id: 'cell-0-0' }], [{ gate: null, id: 'cell-1-0' }]] };
+
+    const [newA, replaced] = replaceMacroDefinition([a, b()], newB);
+    expect(replaced).toBe(newB);
+    expect(gates(expandMacroGates(newA.circuit!))).toEqual([[GateType.X], [null]]);
+  });
+});
@@ -0,0 +1,356 @@
+import { Cell, CircuitGrid, CustomGateDefinition, GateParams, GateType, isClassicalControlGate, isControlGate, isNoiseGate } from '../types';
+import { GATE_DEFS } from '../constants';
+import { MAX_UNITARY_QUBITS } from './quantum';
+
+/**
+ * Macro gates
+ *
+ * A macro gate is a named sub-circuit made from a rectangular selection of the
+ * grid. It is placed as one MACRO box spanning a row per wire of the
+ * sub-circuit; every instance carries a copy of its definition's circuit in
+ * params.customCircuit, so files and the simulator need no library lookup.
+ * Simulation applies the sub-circuit's unitary; exporters expand instances
+ * back into plain gates first. A definition is edited by laying its
+ * sub-circuit out after the circuit and saving it back over every instance.
+ */
+
+/** A rectangle of grid cells, bounds inclusive */
+export interface GridRegion {
+  startRow: number;
+  endRow: number;
+  startCol: number;
+  endCol: number;
+}
+
+const gateName = (type: GateType): string => GATE_DEFS[type]?.fullName ?? type;
+
+/** Whether a gate can go inside a macro: it must be unitary and must not read classical bits */
+const isMacroCompatibleGate = (type: GateType): boolean =>
+  type !== GateType.MEASURE && type !== GateType.RESET && !isNoiseGate(type) && !isClassicalControlGate(type);
+
+/** Row of the anchor of the span that covers (row, col), or row itself for single-cell gates */
+const findSpanAnchorRow = (grid: CircuitGrid, row: number, col: number): number => {
+  let r = row;
+  while (r > 0 && grid[r][col].params?.isSpanContinuation) r--;
+  return r;
+};
+
+/** Shift a cell's span rows by offset, leaving other params untouched */
+const shiftSpan = (params: GateParams | undefined, offset: number): GateParams | undefined => {
+  const span = params?.reverseSpan;
+  if (!params || !span) return params;
+  return { ...params, reverseSpan: { startRow: span.startRow + offset, endRow: span.endRow + offset } };
+};
+
+/** Give every cell the id of its position */
+const renumberCells = (grid: CircuitGrid): CircuitGrid =>
+  grid.map((row, r) => row.map((cell, c) => ({ ...cell, id: `cell-${r}-${c}` })));
+
+const isEmptyColumn = (grid: CircuitGrid, col: number): boolean =>
+  grid.every(row => row[col].gate === null);
+
+/**
+ * Why controls around a region would change meaning once it becomes a macro
+ * gate, or null. A control acts on every gate of its column, so no column may
+ * have a control on one side of the region's edge and a gate on the other; and
+ * the instance goes in the first column, where any control would control all of it.
+ */
+const getControlEdgeError = (grid: CircuitGrid, region: GridRegion): string | null => {
+  const { startRow, endRow, startCol, endCol } = region;
+  for (let col = startCol; col <= endCol; col++) {
+    let insideControl = -1;
+    let outsideControl = -1;
+    let insideGate = false;
+    let outsideGate = false;
+    grid.forEach((row, r) => {
+      const type = row[col].gate;
+      if (type === null) return;
+      const inside = r >= startRow && r <= endRow;
+      if (isControlGate(type)) {
+        if (inside && insideControl === -1) insideControl = r;
+        if (!inside && outsideControl === -1) outsideControl = r;
+      } else if (inside) {
+        insideGate = true;
+      } else {
+        outsideGate = true;
+      }
+    });
+    if (outsideControl !== -1 && insideGate) {
+      return `The control on q${outsideControl} in column ${col + 1} controls selected gates; select it too or leave the column out`;
+    }
+    if (outsideControl !== -1 && col === startCol) {
+      return `The control on q${outsideControl} in column ${col + 1} would control the whole macro gate`;
+    }
+    if (insideControl !== -1 && outsideGate) {
+      return `The control on q${insideControl} in column ${col + 1} also controls gates outside the selection`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Why a region cannot become a macro gate, or null when it can: it must hold a
+ * gate, fit in a unitary, contain every span it touches, hold only unitary,
+ * quantum-controlled gates, and share no controls with the rest of its columns.
+ */
+export const getMacroRegionError = (grid: CircuitGrid, region: GridRegion): string | null => {
+  const { startRow, endRow, startCol, endCol } = region;
+  const numCols = grid[0]?.length ?? 0;
+  if (startRow < 0 || startCol < 0 || endRow >= grid.length || endCol >= numCols || startRow > endRow || startCol > endCol) {
+    return 'Selection is outside the circuit';
+  }
+  if (endRow - startRow + 1 > MAX_UNITARY_QUBITS) {
+    return `Macro gates span at most ${MAX_UNITARY_QUBITS} wires; the selection covers ${endRow - startRow + 1}`;
+  }
+
+  let hasGate = false;
+  for (let col = startCol; col <= endCol; col++) {
+    for (let row = startRow; row <= endRow; row++) {
+      const type = grid[row][col].gate;
+      if (type === null) continue;
+      hasGate = true;
+      if (!isMacroCompatibleGate(type)) {
+        return `${gateName(type)} in column ${col + 1} is not unitary; macro gates must be`;
+      }
+      const anchor = grid[findSpanAnchorRow(grid, row, col)][col];
+      const span = anchor.params?.reverseSpan;
+      if (span && (span.startRow < startRow || span.endRow > endRow)) {
+        return `${gateName(type)} in column ${col + 1} is only partly selected`;
+      }
+    }
+  }
+  return hasGate ? getControlEdgeError(grid, region) : 'Selection holds no gates';
+};
+
+/**
+ * Copy a region as a stand-alone circuit: rows re-based to 0, empty columns
+ * dropped. Check the region with getMacroRegionError first.
+ */
+export const extractRegion = (grid: CircuitGrid, region: GridRegion): CircuitGrid => {
+  const { startRow, endRow, startCol, endCol } = region;
+  const columns: number[] = [];
+  for (let col = startCol; col <= endCol; col++) {
+    if (grid.slice(startRow, endRow + 1).some(row => row[col].gate !== null)) columns.push(col);
+  }
+  return renumberCells(
+    grid.slice(startRow, endRow + 1).map(row => columns.map(col => {
+      const cell = row[col];
+      const params = shiftSpan(cell.params, -startRow);
+      return params ? { ...cell, params } : cell;
+    }))
+  );
+};
+
+/** Params of a MACRO instance for a definition, anchored at startRow */
+export const getMacroParams = (definition: CustomGateDefinition, startRow: number): GateParams => {
+  const circuit = definition.circuit ?? [];
+  return {
+    customLabel: definition.label,
+    customCircuit: circuit,
+    reverseSpan: { startRow, endRow: startRow + circuit.length - 1 },
+  };
+};
+
+/**
+ * Replace a region with one instance of a macro gate in its first column.
+ * Region columns left empty afterwards are removed.
+ */
+export const placeMacroInstance = (grid: CircuitGrid, region: GridRegion, definition: CustomGateDefinition): CircuitGrid => {
+  const { startRow, endRow, startCol, endCol } = region;
+  const params = getMacroParams(definition, startRow);
+  const next = grid.map((row, r) => row.map((cell, c) => {
+    if (r < startRow || r > endRow || c < startCol || c > endCol) return cell;
+    if (c !== startCol) return { gate: null, id: cell.id };
+    return {
+      gate: GateType.MACRO,
+      id: cell.id,
+      params: r === startRow ? params : { ...params, isSpanContinuation: true },
+    };
+  }));
+
+  const removed = new Set<number>();
+  for (let col = startCol + 1; col <= endCol; col++) {
+    if (isEmptyColumn(next, col)) removed.add(col);
+  }
+  return renumberCells(next.map(row => row.filter((_, c) => !removed.has(c))));
+};
+
+/**
+ * Expand the MACRO instance anchored at (anchorRow, col) into its gates.
+ * The sub-circuit takes the instance's column and new columns after it;
+ * controls on other rows of the column are copied to each new column so the
+ * whole sub-circuit stays controlled. Other gates in the column keep a column
+ * of their own before the sub-circuit, so they do not pick up its controls.
+ */
+export const expandMacroGate = (grid: CircuitGrid, col: number, anchorRow: number): CircuitGrid => {
+  const anchor = grid[anchorRow]?.[col];
+  const circuit = anchor?.params?.customCircuit;
+  const span = anchor?.params?.reverseSpan;
+  if (anchor?.gate !== GateType.MACRO || anchor.params?.isSpanContinuation || !circuit || !span) return grid;
+
+  const insideSpan = (r: number) => r >= span.startRow && r <= span.endRow;
+  const outside = grid.map(row => row[col]).filter((_, r) => !insideSpan(r));
+  const hasOtherGates = outside.some(cell => cell.gate !== null && !isControlGate(cell.gate));
+  const subCols = Math.max(1, circuit[0]?.length ?? 0);
+
+  const expanded = grid.map((row, r) => {
+    const cell = row[col];
+    const sub: Cell[] = [];
+    for (let c = 0; c < subCols; c++) {
+      if (insideSpan(r)) {
+        const subCell = circuit[r - span.startRow]?.[c];
+        const params = shiftSpan(subCell?.params, span.startRow);
+        sub.push(subCell?.gate ? { gate: subCell.gate, id: cell.id, ...(params && { params }) } : { gate: null, id: cell.id });
+      } else if (cell.gate !== null && isControlGate(cell.gate)) {
+        sub.push({ ...cell });
+      } else {
+        sub.push({ gate: null, id: cell.id });
+      }
+    }
+    const before: Cell[] = hasOtherGates ? [insideSpan(r) ? { gate: null, id: cell.id } : cell] : [];
+    return [...row.slice(0, col), ...before, ...sub, ...row.slice(col + 1)];
+  });
+  return renumberCells(expanded);
+};
+
+/** Find the first MACRO anchor, in column order */
+const findMacroAnchor = (grid: CircuitGrid): { row: number; col: number } | null => {
+  const numCols = grid[0]?.length ?? 0;
+  for (let col = 0; col < numCols; col++) {
+    for (let row = 0; row < grid.length; row++) {
+      const cell = grid[row][col];
+      if (cell.gate === GateType.MACRO && !cell.params?.isSpanContinuation) return { row, col };
+    }
+  }
+  return null;
+};
+
+/** Whether any cell of the grid is a MACRO gate */
+export const hasMacroGates = (grid: CircuitGrid): boolean =>
+  grid.some(row => row.some(cell => cell.gate === GateType.MACRO));
+
+/** Expand every MACRO instance, nested ones included, into plain gates */
+export const expandMacroGates = (grid: CircuitGrid): CircuitGrid => {
+  let result = grid;
+  for (let anchor = findMacroAnchor(result); anchor; anchor = findMacroAnchor(result)) {
+    const next = expandMacroGate(result, anchor.col, anchor.row);
+    // An anchor without a sub-circuit cannot expand; drop it rather than loop
+    result = next !== result ? next : result.map((row, r) => row.map((cell, c) =>
+      c === anchor.col && cell.gate === GateType.MACRO ? { gate: null, id: cell.id } : cell
+    ));
+  }
+  return result;
+};
+
+/** Whether a circuit uses the macro named label, at any depth */
+export const circuitUsesMacro = (circuit: CircuitGrid, label: string): boolean =>
+  circuit.some(row => row.some(cell =>
+    cell.gate === GateType.MACRO &&
+    (cell.params?.customLabel === label || (!!cell.params?.customCircuit && circuitUsesMacro(cell.params.customCircuit, label)))
+  ));
+
+/**
+ * Give every instance of a macro, at any depth, the circuit of its new
+ * definition. The definition must keep its wire count so spans stay valid.
+ */
+export const updateMacroInstances = (grid: CircuitGrid, definition: CustomGateDefinition): CircuitGrid => {
+  const circuit = definition.circuit;
+  if (!circuit) return grid;
+  return grid.map(row => row.map(cell => {
+    if (cell.gate !== GateType.MACRO || !cell.params?.customCircuit) return cell;
+    const customCircuit = cell.params.customLabel === definition.label
+      ? circuit
+      : updateMacroInstances(cell.params.customCircuit, definition);
+    return { ...cell, params: { ...cell.params, customCircuit } };
+  }));
+};
+
+/**
+ * Replace a macro's definition in the gate library, updating its instances
+ * inside the other macro definitions
+ */
+export const replaceMacroDefinition = (
+  customGates: CustomGateDefinition[],
+  definition: CustomGateDefinition
+): CustomGateDefinition[] =>
+  customGates.map(g =>
+    g.label === definition.label ? definition : g.circuit ? { ...g, circuit: updateMacroInstances(g.circuit, definition) } : g
+  );
+
+/** A macro definition laid out in the grid for editing */
+export interface MacroEditSession {
+  label: string;
+  /** Wires of the definition; the edited circuit must keep them, so instance spans stay valid */
+  wires: number;
+  /** First column of the editing area; it runs to the end of the grid */
+  startCol: number;
+  /** Grid width before the editing area was added */
+  originalWidth: number;
+}
+
+/**
+ * Lay a macro's sub-circuit out for editing from q0, one empty column after
+ * the last gate of the grid, widening the grid as needed. Null when the grid
+ * has fewer wires than the macro.
+ */
+export const openMacroEditor = (
+  grid: CircuitGrid,
+  definition: CustomGateDefinition
+): { grid: CircuitGrid; session: MacroEditSession } | null => {
+  const circuit = definition.circuit;
+  if (!circuit || circuit.length > grid.length) return null;
+
+  const numCols = grid[0]?.length ?? 0;
+  let lastUsed = -1;
+  for (let col = 0; col < numCols; col++) {
+    if (!isEmptyColumn(grid, col)) lastUsed = col;
+  }
+  const startCol = lastUsed + 2;
+  const subCols = circuit[0]?.length ?? 0;
+  const width = Math.max(numCols, startCol + subCols);
+
+  const next = grid.map((row, r) => Array.from({ length: width }, (_, c): Cell => {
+    const subCell = c >= startCol ? circuit[r]?.[c - startCol] : undefined;
+    if (subCell) return { ...subCell };
+    return c < numCols ? row[c] : { gate: null, id: `cell-${r}-${c}` };
+  }));
+  return {
+    grid: renumberCells(next),
+    session: { label: definition.label, wires: circuit.length, startCol, originalWidth: numCols },
+  };
+};
+
+/** The editing area: the definition's wires, from its first column to the end of the grid */
+const getEditorRegion = (grid: CircuitGrid, session: MacroEditSession): GridRegion => ({
+  startRow: 0,
+  endRow: session.wires - 1,
+  startCol: session.startCol,
+  endCol: (grid[0]?.length ?? 0) - 1,
+});
+
+/** Why the editing area cannot be saved as the macro's definition, or null when it can */
+export const getMacroEditorError = (grid: CircuitGrid, session: MacroEditSession): string | null => {
+  const region = getEditorRegion(grid, session);
+  if (region.startCol > region.endCol) return `The columns of ${session.label} are gone; cancel editing`;
+  for (let col = region.startCol; col <= region.endCol; col++) {
+    for (let row = session.wires; row < grid.length; row++) {
+      if (grid[row][col].gate !== null) {
+        return `${session.label} spans ${session.wires} wires; the gate on q${row} in column ${col + 1} is outside them`;
+      }
+    }
+  }
+  const regionError = getMacroRegionError(grid, region);
+  if (regionError) return regionError;
+  if (circuitUsesMacro(extractRegion(grid, region), session.label)) return `${session.label} cannot contain itself`;
+  return null;
+};
+
+/** The edited definition; check it with getMacroEditorError first */
+export const getMacroEditorCircuit = (grid: CircuitGrid, session: MacroEditSession): CircuitGrid =>
+  extractRegion(grid, getEditorRegion(grid, session));
+
+/** Remove the editing area, giving the grid back its width from before editing */
+export const closeMacroEditor = (grid: CircuitGrid, session: MacroEditSession): CircuitGrid =>
+  renumberCells(grid.map((row, r) => Array.from({ length: session.originalWidth }, (_, c): Cell =>
+    c < session.startCol && c < row.length ? row[c] : { gate: null, id: `cell-${r}-${c}` }
+  )));
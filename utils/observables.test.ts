@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parsePauliSum,
+  formatPauliSum,
+  isPauliString,
+  resizePauliString,
+  getPauliExpectation,
+  getDensityPauliExpectation,
+  getObservableExpectation,
+} from './observables';
+import { densityMatrixFromState, applyNoiseChannel } from './densityMatrix';
+import { runCircuitWithMeasurements, runDensityMatrixSimulation } from './quantum';
+import { CircuitGrid, ComplexArray, GateType } from '../types';
+
+const SQRT1_2 = Math.SQRT1_2;
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** Interleaved state vector from [re, im] pairs */
+const stateOf = (...amplitudes: [number, number][]): ComplexArray => Float64Array.from(amplitudes.flat());
+
+/** (|00⟩ + |11⟩)/√2 */
+const bellState = () => stateOf([SQRT1_2, 0], [0, 0], [0, 0], [SQRT1_2, 0]);
+
+describe('observables', () => {
+  describe('parsing', () => {
+    it('should parse sums with signs, coefficient expressions and implicit 1', () => {
+      const result = parsePauliSum('0.5*ZZ - XX + pi/4 IZ');
+      expect(result.success).toBe(true);
+      if (!result.success) return;
+      expect(result.value).toHaveLength(3);
+      expect(result.value[0]).toEqual({ coefficient: 0.5, pauli: 'ZZ' });
+      expect(result.value[1]).toEqual({ coefficient: -1, pauli: 'XX' });
+      expect(result.value[2].coefficient).toBeCloseTo(Math.PI / 4, 12);
+      expect(result.value[2].pauli).toBe('IZ');
+    });
+
+    it('should treat leading and repeated signs as unary', () => {
+      const result = parsePauliSum('-YY + -2*(1-0.5) Z');
+      expect(result.success && result.value).toEqual([
+        { coefficient: -1, pauli: 'YY' },
+        { coefficient: -1, pauli: 'Z' },
+      ]);
+    });
+
+    it('should reject empty input and terms without a Pauli string', () => {
+      expect(parsePauliSum('  ').success).toBe(false);
+      const result = parsePauliSum('ZZ + 0.5');
+      expect(result.success).toBe(false);
+      if (result.success) return;
+      expect(result.error.message).toContain('"0.5"');
+      expect(parsePauliSum('2*ZA').success).toBe(false);
+    });
+
+    it('should format sums so they parse back', () => {
+      const sum = [
+        { coefficient: -1, pauli: 'XX' },
+        { coefficient: 0.25, pauli: 'ZI' },
+        { coefficient: -3, pauli: 'IY' },
+      ];
+      const text = formatPauliSum(sum);
+      expect(text).toBe('-XX + 0.25*ZI - 3*IY');
+      const reparsed = parsePauliSum(text);
+      expect(reparsed.success && reparsed.value).toEqual(sum);
+    });
+
+    it('should recognize Pauli strings', () => {
+      expect(isPauliString('IXYZ')).toBe(true);
+      expect(isPauliString('')).toBe(false);
+      expect(isPauliString('xz')).toBe(false);
+    });
+
+    it('should keep covered letters when a span is resized', () => {
+      const span = { startRow: 2, endRow: 4 };
+      expect(resizePauliString('XYI', span, { startRow: 1, endRow: 4 })).toBe('ZXYI');
+      expect(resizePauliString('XYI', span, { startRow: 3, endRow: 5 })).toBe('YIZ');
+      expect(resizePauliString('XYI', span, { startRow: 2, endRow: 2 })).toBe('X');
+    });
+  });
+
+  describe('expectation values', () => {
+    it('should give the Bell state correlations', () => {
+      const bell = bellState();
+      expect(getPauliExpectation(bell, 'ZZ')).toBeCloseTo(1, 10);
+      expect(getPauliExpectation(bell, 'XX')).toBeCloseTo(1, 10);
+      expect(getPauliExpectation(bell, 'YY')).toBeCloseTo(-1, 10);
+      expect(getPauliExpectation(bell, 'ZI')).toBe(0);
+      expect(getPauliExpectation(bell, 'XY')).toBe(0);
+      expect(getPauliExpectation(bell, 'II')).toBeCloseTo(1, 10);
+    });
+
+    it('should handle a single Y with its phase', () => {
+      // |+i⟩ = (|0⟩ + i|1⟩)/√2 has ⟨Y⟩ = 1
+      const plusI = stateOf([SQRT1_2, 0], [0, SQRT1_2]);
+      expect(getPauliExpectation(plusI, 'Y')).toBeCloseTo(1, 10);
+      expect(getPauliExpectation(plusI, 'X')).toBe(0);
+      // Shorter strings act as I on the remaining qubits: |1⟩|0⟩ has ⟨Z⊗I⟩ = -1
+      expect(getPauliExpectation(stateOf([0, 0], [0, 0], [1, 0], [0, 0]), 'Z')).toBeCloseTo(-1, 10);
+    });
+
+    it('should match between state vectors and density matrices', () => {
+      // An arbitrary normalized 2-qubit state
+      const raw: [number, number][] = [[0.3, 0.1], [-0.2, 0.5], [0.4, -0.3], [0.1, 0.6]];
+      const norm = Math.sqrt(raw.reduce((sum, [re, im]) => sum + re * re + im * im, 0));
+      const state = stateOf(...raw.map(([re, im]) => [re / norm, im / norm] as [number, number]));
+      const rho = densityMatrixFromState(state);
+
+      for (const pauli of ['XY', 'YZ', 'ZX', 'YY', 'IX', 'ZI']) {
+        expect(getDensityPauliExpectation(rho, pauli)).toBeCloseTo(getPauliExpectation(state, pauli), 10);
+      }
+    });
+
+    it('should shrink correlations under noise', () => {
+      const rho = applyNoiseChannel(densityMatrixFromState(bellState()), 0, GateType.DEPOLARIZE, 0.5);
+      const zz = getDensityPauliExpectation(rho, 'ZZ');
+      expect(zz).toBeGreaterThan(0);
+      expect(zz).toBeLessThan(1);
+    });
+
+    it('should reject strings longer than the state', () => {
+      expect(() => getPauliExpectation(bellState(), 'ZZZ')).toThrow('longer than the 2-qubit state');
+    });
+  });
+
+  describe('observables over circuit rows', () => {
+    // Bell pair on rows 0 and 2; row 1 is unused and dropped from the state
+    const bellGrid = (): CircuitGrid => {
+      const grid = createGrid(3, 2);
+      grid[0][0].gate = GateType.H;
+      grid[0][1].gate = GateType.CONTROL;
+      grid[2][1].gate = GateType.X;
+      return grid;
+    };
+
+    it('should map row-indexed strings onto the populated rows', () => {
+      const { finalState, populatedRows } = runCircuitWithMeasurements(bellGrid());
+      expect(populatedRows).toEqual([0, 2]);
+
+      const observable = (text: string) => {
+        const parsed = parsePauliSum(text);
+        if (!parsed.success) throw new Error(parsed.error.message);
+        return parsed.value;
+      };
+      expect(getObservableExpectation(finalState, observable('XIX'), populatedRows)).toBeCloseTo(1, 10);
+      expect(getObservableExpectation(finalState, observable('0.5*ZIZ - YIY'), populatedRows)).toBeCloseTo(1.5, 10);
+      // Dropped row 1 is |0⟩: Z there is +1, X there makes the term vanish
+      expect(getObservableExpectation(finalState, observable('ZZZ'), populatedRows)).toBeCloseTo(1, 10);
+      expect(getObservableExpectation(finalState, observable('XXX + 2*IZ'), populatedRows)).toBeCloseTo(2, 10);
+    });
+
+    it('should accept density-matrix results', () => {
+      const { finalDensity, populatedRows } = runDensityMatrixSimulation(bellGrid());
+      const parsed = parsePauliSum('XIX + ZIZ');
+      if (!parsed.success) throw new Error(parsed.error.message);
+      expect(getObservableExpectation(finalDensity, parsed.value, populatedRows)).toBeCloseTo(2, 10);
+    });
+  });
+});
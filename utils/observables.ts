@@ -0,0 +1,247 @@
+import { ComplexArray } from '../types';
+import { DensityMatrix } from './densityMatrix';
+import { parseReal, ParseResult, ParseErrorCode, success, failure } from './parser';
+import { createError } from './parser/errors';
+
+/**
+ * Pauli-string observables
+ *
+ * A Pauli string has one letter per wire, top wire first: "ZIZ" is Z on
+ * rows 0 and 2. Observables are real-weighted sums of Pauli strings, written
+ * like "0.5*ZZ - XX + 2 IZ". Expectation values work on state vectors and
+ * density matrices, using the same bit order as the engines (row 0 is the MSB).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PauliLetter = 'I' | 'X' | 'Y' | 'Z';
+
+/** coefficient × P₀ ⊗ P₁ ⊗ …, where pauli[k] acts on wire k */
+export interface PauliTerm {
+  coefficient: number;
+  pauli: string;
+}
+
+/** A Hermitian observable as a sum of Pauli strings */
+export type PauliSum = PauliTerm[];
+
+/** Pauli applied to wires added to a display gate's span */
+export const DEFAULT_PAULI_LETTER: PauliLetter = 'Z';
+
+// ============================================================================
+// Parsing and formatting
+// ============================================================================
+
+/** Whether text is a non-empty Pauli string (letters I, X, Y, Z only) */
+export const isPauliString = (text: string): boolean => /^[IXYZ]+$/.test(text);
+
+/** Split at + and - that separate terms (not signs inside parentheses or after an operator) */
+const splitTerms = (expr: string): { sign: number; text: string; position: number }[] => {
+  const terms: { sign: number; text: string; position: number }[] = [];
+  let depth = 0;
+  let sign = 1;
+  let start = 0;
+  let previous = '';
+  for (let i = 0; i < expr.length; i++) {
+    const char = expr[i];
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+    const isOperand = previous !== '' && '*/^e'.includes(previous);
+    if ((char === '+' || char === '-') && depth === 0 && !isOperand) {
+      // A sign with no term before it (leading, or after another sign) is unary
+      const pending = expr.slice(start, i);
+      if (pending.trim() !== '') {
+        terms.push({ sign, text: pending, position: start });
+        sign = 1;
+      }
+      if (char === '-') sign = -sign;
+      start = i + 1;
+    }
+    if (char.trim() !== '') previous = char;
+  }
+  terms.push({ sign, text: expr.slice(start), position: start });
+  return terms;
+};
+
+/**
+ * Parse a Pauli sum like "ZZ", "-XX + 0.5*IZ" or "pi/4 XY".
+ * Coefficients accept the same expressions as angles; strings of different
+ * lengths are fine (missing wires are I).
+ */
+export function parsePauliSum(expr: string): ParseResult<PauliSum> {
+  if (!expr || expr.trim() === '') {
+    return failure(createError(ParseErrorCode.EMPTY_EXPRESSION, 'Observable cannot be empty'));
+  }
+
+  const sum: PauliSum = [];
+  for (const { sign, text, position } of splitTerms(expr)) {
+    const match = /^(.*?)\s*\*?\s*([IXYZ]+)\s*$/.exec(text.trim());
+    if (!match) {
+      return failure(createError(
+        ParseErrorCode.EXPECTED_EXPRESSION,
+        `Term "${text.trim()}" needs a Pauli string of I, X, Y, Z`,
+        position
+      ));
+    }
+    let coefficient = 1;
+    if (match[1] !== '') {
+      const parsed = parseReal(match[1]);
+      if (!parsed.success) return parsed;
+      coefficient = parsed.value;
+    }
+    sum.push({ coefficient: sign * coefficient, pauli: match[2] });
+  }
+  return success(sum);
+}
+
+/** Inverse of parsePauliSum, e.g. "0.5*ZZ - XX" (coefficients rounded to 4 decimals) */
+export const formatPauliSum = (sum: PauliSum): string => {
+  if (sum.length === 0) return '0';
+  return sum
+    .map(({ coefficient, pauli }, i) => {
+      const magnitude = Math.abs(coefficient);
+      const sign = coefficient < 0 ? (i === 0 ? '-' : ' - ') : (i === 0 ? '' : ' + ');
+      const scale = Math.abs(magnitude - 1) < 1e-10 ? '' : `${Number(magnitude.toFixed(4))}*`;
+      return `${sign}${scale}${pauli}`;
+    })
+    .join('');
+};
+
+/**
+ * Change a Pauli string's span, keeping the letters of wires still covered.
+ * Wires added at either end get DEFAULT_PAULI_LETTER.
+ */
+export const resizePauliString = (
+  pauli: string,
+  oldSpan: { startRow: number; endRow: number },
+  newSpan: { startRow: number; endRow: number }
+): string => {
+  let result = '';
+  for (let row = newSpan.startRow; row <= newSpan.endRow; row++) {
+    const letter = row >= oldSpan.startRow && row <= oldSpan.endRow ? pauli[row - oldSpan.startRow] : undefined;
+    result += letter ?? DEFAULT_PAULI_LETTER;
+  }
+  return result;
+};
+
+// ============================================================================
+// Expectation values
+// ============================================================================
+
+/**
+ * Masks describing P|i⟩ = i^yCount · (−1)^popcount(i & phaseMask) · |i ^ flipMask⟩
+ * (Y = iXZ, so Y wires both flip and pick up a sign)
+ */
+const getPauliMasks = (pauli: string, numQubits: number) => {
+  if (pauli.length > numQubits) {
+    throw new Error(`Pauli string ${pauli} is longer than the ${numQubits}-qubit state`);
+  }
+  let flipMask = 0;
+  let phaseMask = 0;
+  let yCount = 0;
+  for (let k = 0; k < pauli.length; k++) {
+    const bit = 1 << (numQubits - 1 - k);
+    switch (pauli[k]) {
+      case 'I': break;
+      case 'X': flipMask |= bit; break;
+      case 'Y': flipMask |= bit; phaseMask |= bit; yCount++; break;
+      case 'Z': phaseMask |= bit; break;
+      default: throw new Error(`Invalid Pauli letter "${pauli[k]}" in ${pauli}`);
+    }
+  }
+  return { flipMask, phaseMask, yCount };
+};
+
+const parity = (value: number): number => {
+  let bits = 0;
+  for (let v = value; v !== 0; v &= v - 1) bits++;
+  return bits & 1;
+};
+
+/**
+ * ⟨ψ|P|ψ⟩ for a Pauli string over the state's qubits (first letter = qubit 0).
+ * Shorter strings leave the remaining qubits as I.
+ */
+export const getPauliExpectation = (state: ComplexArray, pauli: string): number => {
+  const dim = state.length / 2;
+  const { flipMask, phaseMask, yCount } = getPauliMasks(pauli, Math.round(Math.log2(dim)));
+
+  // Σ conj(ψ[i ^ flip]) · phase(i) · ψ[i]; only the real part survives for Hermitian P
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < dim; i++) {
+    const j = i ^ flipMask;
+    const aRe = state[j * 2];
+    const aIm = -state[j * 2 + 1];
+    const bRe = state[i * 2];
+    const bIm = state[i * 2 + 1];
+    const sign = parity(i & phaseMask) ? -1 : 1;
+    re += sign * (aRe * bRe - aIm * bIm);
+    im += sign * (aRe * bIm + aIm * bRe);
+  }
+  return applyYPhase(re, im, yCount);
+};
+
+/** Tr(ρP) for a Pauli string over the density matrix's qubits (first letter = qubit 0) */
+export const getDensityPauliExpectation = (rho: DensityMatrix, pauli: string): number => {
+  const { numQubits, data } = rho;
+  const dim = 1 << numQubits;
+  const { flipMask, phaseMask, yCount } = getPauliMasks(pauli, numQubits);
+
+  // (ρP)ᵢᵢ = ρ[i][i ^ flip] · phase(i)
+  let re = 0;
+  let im = 0;
+  for (let i = 0; i < dim; i++) {
+    const idx = (i * dim + (i ^ flipMask)) * 2;
+    const sign = parity(i & phaseMask) ? -1 : 1;
+    re += sign * data[idx];
+    im += sign * data[idx + 1];
+  }
+  return applyYPhase(re, im, yCount);
+};
+
+/** Real part of i^yCount · (re + i·im), snapped to 0 like the Bloch vectors */
+const applyYPhase = (re: number, im: number, yCount: number): number => {
+  let value: number;
+  switch (yCount % 4) {
+    case 0: value = re; break;
+    case 1: value = -im; break;
+    case 2: value = -re; break;
+    default: value = im; break;
+  }
+  return Math.abs(value) < 1e-10 ? 0 : value;
+};
+
+/**
+ * ⟨H⟩ for a Pauli sum whose strings index circuit rows.
+ * `rows[k]` is the circuit row of the state's qubit k (a simulation result's
+ * populatedRows). Rows the simulation dropped are |0⟩, so X or Y there makes
+ * a term vanish and Z contributes a factor of 1.
+ */
+export const getObservableExpectation = (
+  state: ComplexArray | DensityMatrix,
+  observable: PauliSum,
+  rows: readonly number[]
+): number => {
+  const filteredIndex = new Map(rows.map((row, k) => [row, k]));
+  let total = 0;
+  for (const { coefficient, pauli } of observable) {
+    const letters: string[] = new Array(rows.length).fill('I');
+    let vanishes = false;
+    for (let row = 0; row < pauli.length; row++) {
+      const letter = pauli[row];
+      if (letter === 'I') continue;
+      const k = filteredIndex.get(row);
+      if (k !== undefined) letters[k] = letter;
+      else if (letter !== 'Z') vanishes = true;
+    }
+    if (vanishes || coefficient === 0) continue;
+    const pauliOverState = letters.join('');
+    total += coefficient * (state instanceof Float64Array
+      ? getPauliExpectation(state, pauliOverState)
+      : getDensityPauliExpectation(state, pauliOverState));
+  }
+  return total;
+};
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateSweepQuantity, sweepParameter } from './parameterSweep';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** RY(θ) on q0 */
+const ryGrid = (): CircuitGrid => {
+  const grid = createGrid(2, 1);
+  grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: 'θ' } };
+  return grid;
+};
+
+const theta = { name: 'θ', value: 0, min: 0, max: Math.PI };
+const z = { kind: 'expectation' as const, observable: [{ coefficient: 1, pauli: 'Z' }] };
+
+describe('parameterSweep', () => {
+  it('should sweep an expectation value across the range', () => {
+    const points = sweepParameter(ryGrid(), [theta], 'θ', z, { min: 0, max: Math.PI, steps: 5 });
+    expect(points.map(p => p.value)).toEqual([0, Math.PI / 4, Math.PI / 2, 3 * Math.PI / 4, Math.PI]);
+    points.forEach(p => expect(p.result).toBeCloseTo(Math.cos(p.value)));
+  });
+
+  it('should sweep an outcome probability', () => {
+    const points = sweepParameter(ryGrid(), [theta], 'θ', { kind: 'probability', bitstring: '1' }, { min: 0, max: Math.PI, steps: 3 });
+    points.forEach(p => expect(p.result).toBeCloseTo(Math.sin(p.value / 2) ** 2));
+  });
+
+  it('should clamp the number of steps', () => {
+    expect(sweepParameter(ryGrid(), [theta], 'θ', z, { min: 0, max: 1, steps: 1 })).toHaveLength(2);
+    expect(sweepParameter(ryGrid(), [theta], 'θ', z, { min: 0, max: 1, steps: 1000 })).toHaveLength(201);
+  });
+
+  it('should average expectation values over mid-circuit measurements', () => {
+    const grid = createGrid(1, 2);
+    grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: Math.PI / 3 } };
+    grid[0][1].gate = GateType.MEASURE;
+    expect(evaluateSweepQuantity(grid, z)).toBeCloseTo(Math.cos(Math.PI / 3));
+  });
+
+  it('should reject unknown parameters and mismatched outcomes', () => {
+    expect(() => sweepParameter(ryGrid(), [theta], 'φ', z, { min: 0, max: 1, steps: 3 })).toThrow("Unknown parameter 'φ'");
+    expect(() => evaluateSweepQuantity(ryGrid(), { kind: 'probability', bitstring: '10' }))
+      .toThrow('Outcome must be 1 bit, one per measured wire (q0)');
+  });
+});
@@ -0,0 +1,125 @@
+import { CircuitGrid, CircuitParameter, GateType, WireInitialState } from '../types';
+import { runCircuitWithMeasurements, runDensityMatrixSimulation, runShots, hasNoiseGates } from './quantum';
+import { getObservableExpectation, parsePauliSum, PauliSum } from './observables';
+import { ParseResult, success } from './parser';
+import { bindCircuitParameters } from './circuitParameters';
+
+/**
+ * Parameter sweeps
+ *
+ * Runs the circuit at evenly spaced values of one parameter and reads off an
+ * expectation value or the probability of an outcome at each value.
+ */
+
+/** What a sweep measures at each parameter value */
+export type SweepQuantity =
+  | { kind: 'expectation'; observable: PauliSum }
+  | { kind: 'probability'; bitstring: string };
+
+/** One sample of a sweep */
+export interface SweepPoint {
+  /** Parameter value */
+  value: number;
+  /** Expectation value or probability at that value */
+  result: number;
+}
+
+/** A quantity as typed, with its label and the range of values it can take */
+export interface ParsedSweepQuantity {
+  quantity: SweepQuantity;
+  /** "⟨ZZ⟩" or "P(01)" */
+  label: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Read a quantity from its kind and text: a Pauli sum for expectation values,
+ * a bitstring for probabilities (checked against the circuit when evaluated).
+ */
+export const parseSweepQuantity = (kind: SweepQuantity['kind'], text: string): ParseResult<ParsedSweepQuantity> => {
+  const trimmed = text.trim();
+  if (kind === 'probability') {
+    return success({ quantity: { kind, bitstring: trimmed }, label: `P(${trimmed})`, min: 0, max: 1 });
+  }
+  const parsed = parsePauliSum(text);
+  if (!parsed.success) return parsed;
+  // |⟨Σ cP⟩| ≤ Σ |c|
+  const bound = parsed.value.reduce((sum, term) => sum + Math.abs(term.coefficient), 0) || 1;
+  return success({ quantity: { kind, observable: parsed.value }, label: `⟨${trimmed}⟩`, min: -bound, max: bound });
+};
+
+/** Fewest and most samples a sweep takes */
+export const MIN_SWEEP_STEPS = 2;
+export const MAX_SWEEP_STEPS = 201;
+
+/** Seed for the (exact) probability runs, so a sweep is repeatable */
+const SWEEP_SEED = 1;
+
+/** Whether the circuit has gates that need a mixed state for an exact expectation value */
+const needsDensityMatrix = (grid: CircuitGrid): boolean =>
+  hasNoiseGates(grid) ||
+  grid.some(row => row.some(cell => cell.gate === GateType.MEASURE || cell.gate === GateType.RESET));
+
+/**
+ * Evaluate a quantity on an already bound circuit.
+ * Expectation values average over measurement outcomes (density matrix when the
+ * circuit measures, resets or has noise); probabilities are the exact Born-rule
+ * probabilities that the shots histogram reports.
+ *
+ * @throws Error if the bitstring does not match the measured wires, or the
+ *   circuit is too large for the simulation the quantity needs
+ */
+export const evaluateSweepQuantity = (
+  grid: CircuitGrid,
+  quantity: SweepQuantity,
+  timeParameter?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): number => {
+  if (quantity.kind === 'probability') {
+    const { qubits, probabilities } = runShots(grid, 1, SWEEP_SEED, timeParameter, initialStates);
+    if (quantity.bitstring.length !== qubits.length || !/^[01]*$/.test(quantity.bitstring)) {
+      const wires = qubits.map(row => `q${row}`).join(', ');
+      throw new Error(`Outcome must be ${qubits.length} bit${qubits.length === 1 ? '' : 's'}, one per measured wire${qubits.length > 0 ? ` (${wires})` : ''}`);
+    }
+    if (!probabilities) {
+      throw new Error('Too many measurement branches to compute exact probabilities');
+    }
+    return probabilities[quantity.bitstring] ?? 0;
+  }
+
+  if (needsDensityMatrix(grid)) {
+    const { finalDensity, populatedRows } = runDensityMatrixSimulation(grid, null, timeParameter, initialStates);
+    return getObservableExpectation(finalDensity, quantity.observable, populatedRows);
+  }
+  const { finalState, populatedRows } = runCircuitWithMeasurements(grid, timeParameter, undefined, initialStates);
+  return getObservableExpectation(finalState, quantity.observable, populatedRows);
+};
+
+/**
+ * Sweep one parameter from min to max in `steps` evenly spaced values,
+ * keeping the other parameters at their current values.
+ *
+ * @throws Error if the parameter does not exist, or as evaluateSweepQuantity
+ */
+export const sweepParameter = (
+  grid: CircuitGrid,
+  parameters: readonly CircuitParameter[],
+  name: string,
+  quantity: SweepQuantity,
+  range: { min: number; max: number; steps: number },
+  timeParameter?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): SweepPoint[] => {
+  if (!parameters.some(parameter => parameter.name === name)) {
+    throw new Error(`Unknown parameter '${name}'`);
+  }
+
+  const steps = Math.max(MIN_SWEEP_STEPS, Math.min(MAX_SWEEP_STEPS, Math.floor(range.steps)));
+  return Array.from({ length: steps }, (_, k) => {
+    const value = range.min + (range.max - range.min) * k / (steps - 1);
+    const swept = parameters.map(parameter => (parameter.name === name ? { ...parameter, value } : parameter));
+    const bound = bindCircuitParameters(grid, swept);
+    return { value, result: evaluateSweepQuantity(bound, quantity, timeParameter, initialStates) };
+  });
+};
@@ -22,6 +22,18 @@ export enum ParseErrorCode {
   INVALID_NUMBER = 'INVALID_NUMBER',
   /** Imaginary unit not allowed (real parser only) */
   IMAGINARY_NOT_ALLOWED = 'IMAGINARY_NOT_ALLOWED',
+  /** Name that is not one of the parameters in scope */
+  UNKNOWN_PARAMETER = 'UNKNOWN_PARAMETER',
+  /** QASM statement or modifier the importer cannot represent */
+  UNSUPPORTED_QASM = 'UNSUPPORTED_QASM',
+  /** QASM gate name that is neither built in nor defined */
+  UNKNOWN_GATE = 'UNKNOWN_GATE',
+  /** QASM register used before being declared */
+  UNDECLARED_REGISTER = 'UNDECLARED_REGISTER',
+  /** QASM qubit index outside its register */
+  QUBIT_OUT_OF_RANGE = 'QUBIT_OUT_OF_RANGE',
+  /** Wrong number of parameters or qubits for a QASM gate */
+  INVALID_GATE_ARGUMENTS = 'INVALID_GATE_ARGUMENTS',
 }
 
 /**
@@ -34,6 +46,10 @@ export interface ParseError {
   message: string;
   /** Character position where the error occurred (0-indexed) */
   position?: number;
+  /** Source line of the error (1-indexed, multi-line sources only) */
+  line?: number;
+  /** Source column of the error (1-indexed, multi-line sources only) */
+  column?: number;
 }
 
 /**
@@ -116,4 +132,48 @@ export const errors = {
       `Imaginary unit 'i' not allowed in angle expressions`,
       position
     ),
+
+  unknownParameter: (name: string, position: number) =>
+    createError(
+      ParseErrorCode.UNKNOWN_PARAMETER,
+      `Unknown parameter '${name}' at position ${position}`,
+      position
+    ),
+
+  unsupportedQasm: (construct: string, line: number, column: number) =>
+    atLine(
+      createError(ParseErrorCode.UNSUPPORTED_QASM, `Unsupported QASM construct '${construct}'`),
+      line,
+      column
+    ),
+
+  unknownGate: (name: string, line: number, column: number) =>
+    atLine(createError(ParseErrorCode.UNKNOWN_GATE, `Unknown gate '${name}'`), line, column),
+
+  undeclaredRegister: (name: string, line: number, column: number) =>
+    atLine(
+      createError(ParseErrorCode.UNDECLARED_REGISTER, `Register '${name}' is not declared`),
+      line,
+      column
+    ),
+
+  qubitOutOfRange: (register: string, index: number, size: number, line: number, column: number) =>
+    atLine(
+      createError(
+        ParseErrorCode.QUBIT_OUT_OF_RANGE,
+        `Index ${index} is out of range for register '${register}' of size ${size}`
+      ),
+      line,
+      column
+    ),
+
+  invalidGateArguments: (detail: string, line: number, column: number) =>
+    atLine(createError(ParseErrorCode.INVALID_GATE_ARGUMENTS, detail), line, column),
 };
+
+/**
+ * Attach a line/column location to an error, prefixing the message with it
+ */
+export function atLine(error: ParseError, line: number, column: number): ParseError {
+  return { ...error, message: `Line ${line}, column ${column}: ${error.message}`, line, column };
+}
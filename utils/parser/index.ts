@@ -18,6 +18,9 @@ export { success, failure } from './result';
 export type { Complex } from './complexExprParser';
 
 // Re-export main functions
+export type { ParameterScope } from './realParser';
 export { parseReal, RealExpressionParser } from './realParser';
 export { parseComplex, ComplexExpressionParser } from './complexExprParser';
+export type { LexerOptions } from './lexer';
 export { tokenize, Lexer } from './lexer';
+export { parseQasm, QasmParser } from './qasmParser';
@@ -2,6 +2,15 @@ import { Token, TokenType } from './tokens';
 import { ParseError, errors } from './errors';
 import { ParseResult, success, failure } from './result';
 
+/** Options for the expression lexer */
+export interface LexerOptions {
+  /**
+   * Turn unknown names (theta, θ, phi_2) into IDENTIFIER tokens instead of
+   * reporting them as unexpected characters
+   */
+  identifiers?: boolean;
+}
+
 /**
  * Lexer for mathematical expressions
  * Converts source string into tokens for the parser
@@ -11,8 +20,10 @@ export class Lexer {
   private tokens: Token[] = [];
   private start = 0;
   private current = 0;
+  private allowIdentifiers: boolean;
 
-  constructor(source: string) {
+  constructor(source: string, options: LexerOptions = {}) {
+    this.allowIdentifiers = options.identifiers ?? false;
     // Normalize: lowercase, remove whitespace, convert unicode pi
     this.source = source
       .toLowerCase()
@@ -69,7 +80,7 @@ export class Lexer {
         if (this.isDigit(c) || (c === '.' && this.isDigit(this.peek()))) {
           return this.number(position);
         }
-        if (this.isAlpha(c)) {
+        if (this.isAlpha(c) || (this.allowIdentifiers && this.isGreek(c))) {
           return this.identifier(position);
         }
         return failure(errors.unexpectedChar(c, position));
@@ -131,7 +142,7 @@ export class Lexer {
   }
 
   /**
-   * Scan an identifier: pi, sqrt, i
+   * Scan an identifier: pi, sqrt, i, or a parameter name when identifiers are allowed
    * Uses prefix matching so "pisqrt" becomes "pi" + "sqrt"
    */
   private identifier(startPosition: number): ParseResult<void> {
@@ -151,7 +162,16 @@ export class Lexer {
       }
     }
 
-    // No keyword matched - consume all alphanumeric chars and report error
+    // No keyword matched - consume the whole name
+    if (this.allowIdentifiers) {
+      while (this.isAlphaNumeric(this.peek()) || this.isGreek(this.peek()) || this.peek() === '_') {
+        this.advance();
+      }
+      this.addToken(TokenType.IDENTIFIER, this.source.slice(startPosition, this.current), startPosition);
+      return success(undefined);
+    }
+
+    // Without identifiers, an unknown name is an error
     while (this.isAlphaNumeric(this.peek())) {
       this.advance();
     }
@@ -229,24 +249,40 @@ export class Lexer {
     // as suffix in the parser's primary rule. The lexer just produces: NUMBER I
     // and the parser interprets NUMBER followed by I as multiplication.
 
-    // After NUMBER: insert * before PI, SQRT, LPAREN
+    // After NUMBER: insert * before PI, SQRT, LPAREN, IDENTIFIER
     if (current === TokenType.NUMBER) {
-      return next === TokenType.PI || next === TokenType.SQRT || next === TokenType.LPAREN;
+      return (
+        next === TokenType.PI ||
+        next === TokenType.SQRT ||
+        next === TokenType.LPAREN ||
+        next === TokenType.IDENTIFIER
+      );
     }
 
-    // After RPAREN: insert * before NUMBER, PI, SQRT, LPAREN
+    // After RPAREN: insert * before NUMBER, PI, SQRT, LPAREN, IDENTIFIER
     if (current === TokenType.RPAREN) {
       return (
         next === TokenType.NUMBER ||
         next === TokenType.PI ||
         next === TokenType.SQRT ||
-        next === TokenType.LPAREN
+        next === TokenType.LPAREN ||
+        next === TokenType.IDENTIFIER
       );
     }
 
-    // After PI: insert * before SQRT, LPAREN, NUMBER
+    // After PI: insert * before SQRT, LPAREN, NUMBER, IDENTIFIER
     if (current === TokenType.PI) {
-      return next === TokenType.SQRT || next === TokenType.LPAREN || next === TokenType.NUMBER;
+      return (
+        next === TokenType.SQRT ||
+        next === TokenType.LPAREN ||
+        next === TokenType.NUMBER ||
+        next === TokenType.IDENTIFIER
+      );
+    }
+
+    // After IDENTIFIER: insert * before PI, SQRT, LPAREN
+    if (current === TokenType.IDENTIFIER) {
+      return next === TokenType.PI || next === TokenType.SQRT || next === TokenType.LPAREN;
     }
 
     // After I: insert * before NUMBER, PI, SQRT, LPAREN (rare: i2, ipi)
@@ -297,6 +333,11 @@ export class Lexer {
     return (c >= 'a' && c <= 'z') || (c >= 'A' && c <= 'Z');
   }
 
+  /** Lowercase Greek letters (π is rewritten to "pi" before scanning) */
+  private isGreek(c: string): boolean {
+    return c >= '\u03b1' && c <= '\u03c9';
+  }
+
   private isAlphaNumeric(c: string): boolean {
     return this.isAlpha(c) || this.isDigit(c);
   }
@@ -305,7 +346,7 @@ export class Lexer {
 /**
  * Convenience function to tokenize a string
  */
-export function tokenize(source: string): ParseResult<Token[]> {
-  const lexer = new Lexer(source);
+export function tokenize(source: string, options?: LexerOptions): ParseResult<Token[]> {
+  const lexer = new Lexer(source, options);
   return lexer.tokenize();
 }
@@ -272,6 +272,41 @@ describe('RealExpressionParser', () => {
       }
     });
   });
+
+  describe('parameters', () => {
+    it('should resolve names from the scope', () => {
+      const result = parseReal('2*theta + π/4', { theta: 0.5 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(1 + Math.PI / 4);
+      }
+    });
+
+    it('should multiply implicitly around parameters', () => {
+      const result = parseReal('2θ(1+φ)', { θ: 0.25, φ: 1 });
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.value).toBeCloseTo(1);
+      }
+    });
+
+    it('should error on a name missing from the scope', () => {
+      const result = parseReal('2*gamma', { theta: 1 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNKNOWN_PARAMETER);
+        expect(result.error.message).toBe("Unknown parameter 'gamma' at position 2");
+      }
+    });
+
+    it('should reject names without a scope', () => {
+      const result = parseReal('theta');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNEXPECTED_CHAR);
+      }
+    });
+  });
 });
 
 describe('ComplexExpressionParser', () => {
@@ -0,0 +1,306 @@
+import { describe, it, expect } from 'vitest';
+import { parseQasm } from './qasmParser';
+import { ParseErrorCode } from './errors';
+import { exportCircuitToQasm } from '../circuitSerializer';
+import { runCircuitWithMeasurements } from '../quantum';
+import { CircuitFile, CircuitGrid, GateType } from '../../types';
+
+/** Parse and return the grid, failing the test on a parse error */
+const parseGrid = (source: string): CircuitGrid => {
+  const result = parseQasm(source);
+  if (!result.success) throw new Error(result.error.message);
+  return result.value.circuit.grid;
+};
+
+/** Gate layout as rows of gate names (or '.') for compact assertions */
+const layout = (grid: CircuitGrid): string[] =>
+  grid.map(row => row.map(cell => cell.gate ?? '.').join(' '));
+
+describe('QasmParser', () => {
+  describe('program structure', () => {
+    it('should produce a CircuitFile from an OpenQASM 2.0 program', () => {
+      const result = parseQasm('OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nh q[0];\n', 'bell');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        const file: CircuitFile = result.value;
+        expect(file.version).toBe('1.0');
+        expect(file.metadata.name).toBe('bell');
+        expect(file.circuit.rows).toBe(2);
+        expect(file.circuit.cols).toBe(1);
+        expect(file.circuit.grid[0][0]).toEqual({ gate: GateType.H, id: 'cell-0-0' });
+      }
+    });
+
+    it('should accept OpenQASM 3.0 declarations', () => {
+      const grid = parseGrid('OPENQASM 3.0;\nqubit[2] q;\nbit[2] c;\nx q[1];\nc[1] = measure q[1];');
+      expect(layout(grid)).toEqual(['. .', 'X MEASURE']);
+    });
+
+    it('should import reset as RESET gates', () => {
+      const grid = parseGrid('OPENQASM 3.0;\nqubit[2] q;\nx q[0];\nreset q;');
+      expect(layout(grid)).toEqual(['X RESET', 'RESET .']);
+    });
+
+    it('should concatenate multiple registers in declaration order', () => {
+      const grid = parseGrid('qreg a[1];\nqreg b[2];\nx b[1];');
+      expect(grid).toHaveLength(3);
+      expect(grid[2][0].gate).toBe(GateType.X);
+    });
+
+    it('should ignore comments', () => {
+      const grid = parseGrid('qreg q[1]; // register\n/* block\ncomment */ h q[0];');
+      expect(layout(grid)).toEqual(['H']);
+    });
+  });
+
+  describe('column packing', () => {
+    it('should pack independent gates into the same column', () => {
+      const grid = parseGrid('qreg q[3];\nh q[0];\nx q[1];\nh q[0];\nz q[2];');
+      expect(layout(grid)).toEqual(['H H', 'X .', 'Z .']);
+    });
+
+    it('should give controlled gates a column of their own', () => {
+      const grid = parseGrid('qreg q[3];\nh q[0];\ncx q[0], q[1];\nx q[2];');
+      expect(layout(grid)).toEqual(['H CONTROL', '. CX', 'X .']);
+    });
+
+    it('should not pack gates after a barrier into earlier columns', () => {
+      const grid = parseGrid('qreg q[2];\nh q[0];\nbarrier q;\nx q[1];');
+      expect(layout(grid)).toEqual(['H .', '. X']);
+    });
+
+    it('should broadcast whole-register operands', () => {
+      const grid = parseGrid('qreg q[3];\nh q;');
+      expect(layout(grid)).toEqual(['H', 'H', 'H']);
+    });
+  });
+
+  describe('controls', () => {
+    it('should turn cx and ccx into CONTROL markers plus targets', () => {
+      const grid = parseGrid('qreg q[3];\ncx q[0], q[2];\nccx q[0], q[1], q[2];');
+      expect(layout(grid)).toEqual(['CONTROL CONTROL', '. CONTROL', 'CX CCX']);
+    });
+
+    it('should turn ctrl and negctrl modifiers into controls and anti-controls', () => {
+      const grid = parseGrid('OPENQASM 3.0;\nqubit[4] q;\nctrl(2) @ negctrl @ h q[3], q[0], q[2], q[1];');
+      expect(layout(grid)).toEqual(['CONTROL', 'H', 'ANTI_CONTROL', 'CONTROL']);
+    });
+
+    it('should map cswap to a control and two SWAPs', () => {
+      const grid = parseGrid('qreg q[3];\ncswap q[1], q[0], q[2];');
+      expect(layout(grid)).toEqual(['SWAP', 'CONTROL', 'SWAP']);
+    });
+
+    it('should map controlled phase gates to exact custom gates', () => {
+      const grid = parseGrid('qreg q[2];\ncp(pi/8) q[0], q[1];');
+      const target = grid[1][0];
+      expect(target.gate).toBe(GateType.CUSTOM);
+      expect(target.params?.customLabel).toBe('P');
+      expect(target.params?.customMatrix?.[1][1].re).toBeCloseTo(Math.cos(Math.PI / 8), 10);
+      expect(target.params?.customMatrix?.[1][1].im).toBeCloseTo(Math.sin(Math.PI / 8), 10);
+    });
+
+    it('should map phase gates with a grid equivalent to that gate', () => {
+      const grid = parseGrid('qreg q[1];\np(pi/2) q[0];\nu1(pi) q[0];\np(0) q[0];');
+      expect(layout(grid)).toEqual(['S Z']);
+    });
+  });
+
+  describe('angles', () => {
+    it('should parse angle expressions with parseReal', () => {
+      const grid = parseGrid('qreg q[1];\nrx(3*pi/4) q[0];\nry(-pi / 2) q[0];\nrz(2pi - 0.5) q[0];');
+      expect(grid[0][0].params?.angle).toBeCloseTo(3 * Math.PI / 4, 10);
+      expect(grid[0][1].params?.angle).toBeCloseTo(-Math.PI / 2, 10);
+      expect(grid[0][2].params?.angle).toBeCloseTo(2 * Math.PI - 0.5, 10);
+    });
+
+    it('should accept π and tau', () => {
+      const grid = parseGrid('OPENQASM 3;\nqubit q;\nrx(π/2) q;\nry(tau/4) q;');
+      expect(grid[0][0].params?.angle).toBeCloseTo(Math.PI / 2, 10);
+      expect(grid[0][1].params?.angle).toBeCloseTo(Math.PI / 2, 10);
+    });
+  });
+
+  describe('gate definitions', () => {
+    it('should inline user gates with parameters', () => {
+      const grid = parseGrid([
+        'qreg q[2];',
+        'gate rot(theta) a, b { rx(theta/2) a; cx a, b; }',
+        'rot(pi) q[1], q[0];',
+      ].join('\n'));
+      expect(layout(grid)).toEqual(['. CX', 'RX CONTROL']);
+      expect(grid[1][0].params?.angle).toBeCloseTo(Math.PI / 2, 10);
+    });
+
+    it('should apply outer controls to every operation of a user gate', () => {
+      const grid = parseGrid([
+        'OPENQASM 3.0;',
+        'qubit[3] q;',
+        'gate flip a, b { x a; cx a, b; }',
+        'ctrl @ flip q[0], q[1], q[2];',
+      ].join('\n'));
+      expect(layout(grid)).toEqual(['CONTROL CONTROL', 'CX CONTROL', '. CCX']);
+    });
+  });
+
+  describe('classical conditions', () => {
+    it('should turn if conditions into classical controls on the measured wires', () => {
+      const grid = parseGrid([
+        'OPENQASM 2.0;',
+        'qreg q[3];',
+        'creg a[1];',
+        'creg b[1];',
+        'measure q[0] -> a[0];',
+        'measure q[1] -> b[0];',
+        'if (a==1) x q[2];',
+        'if (b == 0) { h q[2]; }',
+      ].join('\n'));
+      expect(layout(grid)).toEqual([
+        'MEASURE CLASSICAL_CONTROL .',
+        'MEASURE . CLASSICAL_ANTI_CONTROL',
+        '. X H',
+      ]);
+    });
+
+    it('should keep a block of gates in one conditioned column', () => {
+      const grid = parseGrid([
+        'OPENQASM 3.0;',
+        'qubit[3] q;',
+        'bit[3] c;',
+        'c[0] = measure q[0];',
+        'if (c[0] == 1) {',
+        '  x q[1];',
+        '  z q[2];',
+        '}',
+      ].join('\n'));
+      expect(layout(grid)).toEqual(['MEASURE CLASSICAL_CONTROL', '. X', '. Z']);
+    });
+
+    it('should reject conditions it cannot place on a wire', () => {
+      const unmeasured = parseQasm('OPENQASM 3.0;\nqubit[2] q;\nbit[2] c;\nif (c[0] == 1) x q[1];');
+      expect(!unmeasured.success && unmeasured.error.message).toBe(
+        "Line 4, column 5: Unsupported QASM construct 'condition on an unmeasured bit'"
+      );
+
+      const register = parseQasm('qreg q[2];\ncreg c[2];\nmeasure q -> c;\nif (c == 1) x q[1];');
+      expect(!register.success && register.error.message).toBe(
+        "Line 4, column 5: Unsupported QASM construct 'register comparison'"
+      );
+
+      const sameWire = parseQasm('qreg q[1];\ncreg c[1];\nmeasure q[0] -> c[0];\nif (c[0] == 1) x q[0];');
+      expect(!sameWire.success && sameWire.error.code).toBe(ParseErrorCode.UNSUPPORTED_QASM);
+    });
+
+    it('should import an exported classically controlled column', () => {
+      const grid: CircuitGrid = Array.from({ length: 3 }, (_, r) =>
+        Array.from({ length: 3 }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+      );
+      grid[0][0] = { gate: GateType.H, id: 'cell-0-0' };
+      grid[1][0] = { gate: GateType.H, id: 'cell-1-0' };
+      grid[0][1] = { gate: GateType.MEASURE, id: 'cell-0-1' };
+      grid[1][1] = { gate: GateType.MEASURE, id: 'cell-1-1' };
+      grid[0][2] = { gate: GateType.CLASSICAL_CONTROL, id: 'cell-0-2' };
+      grid[1][2] = { gate: GateType.CLASSICAL_ANTI_CONTROL, id: 'cell-1-2' };
+      grid[2][2] = { gate: GateType.X, id: 'cell-2-2' };
+
+      const imported = parseGrid(exportCircuitToQasm(grid, { version: '3.0' }).qasm);
+      expect(layout(imported)).toEqual(layout(grid));
+    });
+  });
+
+  describe('round trip', () => {
+    it('should reproduce the simulated state of an exported circuit', () => {
+      const grid: CircuitGrid = Array.from({ length: 3 }, (_, r) =>
+        Array.from({ length: 4 }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+      );
+      grid[0][0] = { gate: GateType.H, id: 'cell-0-0' };
+      grid[1][0] = { gate: GateType.RY, id: 'cell-1-0', params: { angle: 0.4 } };
+      grid[0][1] = { gate: GateType.CONTROL, id: 'cell-0-1' };
+      grid[2][1] = { gate: GateType.T, id: 'cell-2-1' };
+      grid[1][2] = { gate: GateType.ANTI_CONTROL, id: 'cell-1-2' };
+      grid[2][2] = { gate: GateType.H, id: 'cell-2-2' };
+      for (let r = 0; r < 3; r++) {
+        grid[r][3] = {
+          gate: GateType.QFT,
+          id: `cell-${r}-3`,
+          params: { reverseSpan: { startRow: 0, endRow: 2 }, ...(r > 0 ? { isSpanContinuation: true } : {}) },
+        };
+      }
+
+      for (const version of ['2.0', '3.0'] as const) {
+        const imported = parseGrid(exportCircuitToQasm(grid, { version }).qasm);
+        const expected = runCircuitWithMeasurements(grid).finalState;
+        const actual = runCircuitWithMeasurements(imported).finalState;
+        expect(Array.from(actual)).toEqual(Array.from(expected).map(v => expect.closeTo(v, 10)));
+      }
+    });
+  });
+
+  describe('error handling', () => {
+    it('should report unsupported constructs with line and column', () => {
+      const result = parseQasm('OPENQASM 2.0;\nqreg q[1];\n  while (c == 1) x q[0];');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNSUPPORTED_QASM);
+        expect(result.error.line).toBe(3);
+        expect(result.error.column).toBe(3);
+        expect(result.error.message).toBe("Line 3, column 3: Unsupported QASM construct 'while'");
+      }
+    });
+
+    it('should reject inv and pow modifiers', () => {
+      const result = parseQasm('OPENQASM 3.0;\nqubit q;\ninv @ s q;');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNSUPPORTED_QASM);
+        expect(result.error.line).toBe(3);
+      }
+    });
+
+    it('should report unknown gates', () => {
+      const result = parseQasm('qreg q[1];\nfoo q[0];');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNKNOWN_GATE);
+        expect(result.error.line).toBe(2);
+        expect(result.error.column).toBe(1);
+      }
+    });
+
+    it('should report undeclared registers and out-of-range qubits', () => {
+      const undeclared = parseQasm('qreg q[1];\nh r[0];');
+      expect(!undeclared.success && undeclared.error.code).toBe(ParseErrorCode.UNDECLARED_REGISTER);
+
+      const outOfRange = parseQasm('qreg q[2];\nh q[2];');
+      expect(!outOfRange.success && outOfRange.error.code).toBe(ParseErrorCode.QUBIT_OUT_OF_RANGE);
+      expect(!outOfRange.success && outOfRange.error.column).toBe(5);
+    });
+
+    it('should report wrong gate arities', () => {
+      const result = parseQasm('qreg q[2];\nrx q[0];');
+      expect(!result.success && result.error.code).toBe(ParseErrorCode.INVALID_GATE_ARGUMENTS);
+
+      const repeated = parseQasm('qreg q[2];\ncx q[0], q[0];');
+      expect(!repeated.success && repeated.error.code).toBe(ParseErrorCode.INVALID_GATE_ARGUMENTS);
+    });
+
+    it('should report invalid angle expressions at the expression', () => {
+      const result = parseQasm('qreg q[1];\nrx(pi/0) q[0];');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.DIVISION_BY_ZERO);
+        expect(result.error.line).toBe(2);
+        expect(result.error.column).toBe(4);
+      }
+    });
+
+    it('should report a missing semicolon', () => {
+      const result = parseQasm('qreg q[1]\nh q[0];');
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe(ParseErrorCode.UNEXPECTED_TOKEN);
+        expect(result.error.line).toBe(2);
+      }
+    });
+  });
+});
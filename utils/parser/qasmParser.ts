@@ -0,0 +1,1109 @@
+import { ParseError, errors, atLine } from './errors';
+import { ParseResult, success, failure } from './result';
+import { parseReal } from './realParser';
+import { CircuitFile, CircuitGrid, Complex, GateParams, GateType } from '../../types';
+import { CIRCUIT_FILE_VERSION } from '../circuitSerializer';
+
+/**
+ * OpenQASM 2.0 / 3.0 importer
+ *
+ * Supports register declarations, qelib1.inc / stdgates.inc gates, ctrl/negctrl
+ * modifiers, user gate definitions (inlined), measure, reset, barrier and if statements
+ * on measured bits. Operations are packed left-to-right into the earliest grid column
+ * free on their wires.
+ */
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+type QasmTokenKind = 'ident' | 'number' | 'string' | 'symbol' | 'eof';
+
+interface QasmToken {
+  kind: QasmTokenKind;
+  text: string;
+  /** 1-indexed source line */
+  line: number;
+  /** 1-indexed source column */
+  column: number;
+  /** 0-indexed character offset */
+  offset: number;
+}
+
+/** Multi-character symbols, longest first */
+const QASM_SYMBOLS = ['->', '==', '!=', '<=', '>=', '&&', '||', '++', '+=', '-=', '*=', '/=',
+  ';', ',', '(', ')', '[', ']', '{', '}', '@', '=', '+', '-', '*', '/', '^', ':', '<', '>', '!', '%', '&', '|', '~'];
+
+/**
+ * Split QASM source into tokens, dropping whitespace and comments
+ */
+function tokenizeQasm(source: string): ParseResult<QasmToken[]> {
+  const tokens: QasmToken[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const c = source[offset];
+    const rest = source.slice(offset);
+
+    if (/\s/.test(c)) {
+      advance(1);
+      continue;
+    }
+    if (rest.startsWith('//')) {
+      const end = source.indexOf('\n', offset);
+      advance((end === -1 ? source.length : end) - offset);
+      continue;
+    }
+    if (rest.startsWith('/*')) {
+      const end = source.indexOf('*/', offset + 2);
+      advance((end === -1 ? source.length : end + 2) - offset);
+      continue;
+    }
+
+    const start = { line, column, offset };
+    const number = rest.match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+    const ident = rest.match(/^[A-Za-z_πτ$][A-Za-z0-9_]*/);
+    const string = rest.match(/^"[^"\n]*"/);
+    const symbol = QASM_SYMBOLS.find(s => rest.startsWith(s));
+
+    let kind: QasmTokenKind;
+    let text: string;
+    if (number) {
+      kind = 'number';
+      text = number[0];
+    } else if (ident) {
+      kind = 'ident';
+      text = ident[0];
+    } else if (string) {
+      kind = 'string';
+      text = string[0];
+    } else if (symbol) {
+      kind = 'symbol';
+      text = symbol;
+    } else {
+      return failure(atLine(errors.unexpectedChar(c, offset), line, column));
+    }
+
+    tokens.push({ kind, text, ...start });
+    advance(text.length);
+  }
+
+  tokens.push({ kind: 'eof', text: '', line, column, offset });
+  return success(tokens);
+}
+
+// ============================================================================
+// Gate Tables
+// ============================================================================
+
+/** Built-in gates: number of parameters and qubits */
+const BUILTIN_GATES: Record<string, { params: number; qubits: number }> = {
+  id: { params: 0, qubits: 1 },
+  x: { params: 0, qubits: 1 },
+  y: { params: 0, qubits: 1 },
+  z: { params: 0, qubits: 1 },
+  h: { params: 0, qubits: 1 },
+  s: { params: 0, qubits: 1 },
+  sdg: { params: 0, qubits: 1 },
+  t: { params: 0, qubits: 1 },
+  tdg: { params: 0, qubits: 1 },
+  sx: { params: 0, qubits: 1 },
+  sxdg: { params: 0, qubits: 1 },
+  rx: { params: 1, qubits: 1 },
+  ry: { params: 1, qubits: 1 },
+  rz: { params: 1, qubits: 1 },
+  p: { params: 1, qubits: 1 },
+  phase: { params: 1, qubits: 1 },
+  u1: { params: 1, qubits: 1 },
+  u2: { params: 2, qubits: 1 },
+  u3: { params: 3, qubits: 1 },
+  u: { params: 3, qubits: 1 },
+  U: { params: 3, qubits: 1 },
+  swap: { params: 0, qubits: 2 },
+  gphase: { params: 1, qubits: 0 },
+};
+
+/** Controlled gate aliases: leading control count and the base gate they control */
+const CONTROLLED_ALIASES: Record<string, { controls: number; base: string }> = {
+  CX: { controls: 1, base: 'x' },
+  cx: { controls: 1, base: 'x' },
+  cy: { controls: 1, base: 'y' },
+  cz: { controls: 1, base: 'z' },
+  ch: { controls: 1, base: 'h' },
+  csx: { controls: 1, base: 'sx' },
+  crx: { controls: 1, base: 'rx' },
+  cry: { controls: 1, base: 'ry' },
+  crz: { controls: 1, base: 'rz' },
+  cp: { controls: 1, base: 'p' },
+  cphase: { controls: 1, base: 'p' },
+  cu1: { controls: 1, base: 'u1' },
+  cu3: { controls: 1, base: 'u3' },
+  cswap: { controls: 1, base: 'swap' },
+  ccx: { controls: 2, base: 'x' },
+};
+
+/** Keywords for constructs the grid cannot represent */
+const UNSUPPORTED_KEYWORDS = new Set([
+  'else', 'while', 'for', 'def', 'defcal', 'defcalgrammar', 'cal', 'opaque', 'let',
+  'const', 'input', 'output', 'int', 'uint', 'float', 'angle', 'bool', 'complex', 'duration',
+  'stretch', 'delay', 'box', 'return', 'break', 'continue', 'end', 'extern', 'switch', 'pragma',
+  'array', 'inv', 'pow',
+]);
+
+const TAU_NAMES = new Set(['tau', 'τ']);
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface QasmRegister {
+  start: number;
+  size: number;
+}
+
+interface GateDefinition {
+  params: string[];
+  qubits: string[];
+  body: QasmToken[];
+}
+
+interface QasmControl {
+  qubit: number;
+  negated: boolean;
+}
+
+/** A qubit operand: a single qubit or a whole register (broadcast) */
+type QubitArg = number[];
+
+/** Names visible while expanding a user gate body */
+interface GateScope {
+  qubits: Map<string, number>;
+  params: Map<string, number>;
+  /** Controls of the enclosing call, applied to every operation in the body */
+  controls: QasmControl[];
+}
+
+/** One placed cell of an operation */
+interface PlacedCell {
+  row: number;
+  gate: GateType;
+  params?: GateParams;
+}
+
+/** An operation ready for column packing */
+type QasmOperation =
+  | { kind: 'cells'; cells: PlacedCell[]; exclusive: boolean }
+  | { kind: 'barrier'; rows: number[] };
+
+const EMPTY_SCOPE: GateScope = { qubits: new Map(), params: new Map(), controls: [] };
+
+/** Hard cap on nested gate expansion, guards against recursive definitions */
+const MAX_EXPANSION_DEPTH = 32;
+
+/**
+ * Recursive descent parser turning OpenQASM source into a CircuitFile
+ */
+export class QasmParser {
+  private tokens: QasmToken[] = [];
+  private current = 0;
+  private qregs = new Map<string, QasmRegister>();
+  private cregs = new Map<string, QasmRegister>();
+  private numQubits = 0;
+  private numBits = 0;
+  /** Wire whose latest measurement holds each classical bit */
+  private bitRows = new Map<number, number>();
+  private gates = new Map<string, GateDefinition>();
+  private operations: QasmOperation[] = [];
+  private depth = 0;
+
+  /**
+   * Parse QASM source into a CircuitFile
+   */
+  parse(source: string, name = 'Imported QASM'): ParseResult<CircuitFile> {
+    const tokenResult = tokenizeQasm(source);
+    if (!tokenResult.success) return tokenResult;
+
+    this.tokens = tokenResult.value;
+    this.current = 0;
+    this.qregs.clear();
+    this.cregs.clear();
+    this.numQubits = 0;
+    this.numBits = 0;
+    this.bitRows.clear();
+    this.gates.clear();
+    this.operations = [];
+    this.depth = 0;
+
+    const header = this.header();
+    if (!header.success) return header;
+
+    while (!this.isAtEnd()) {
+      const result = this.statement(EMPTY_SCOPE);
+      if (!result.success) return result;
+    }
+
+    return success({
+      version: CIRCUIT_FILE_VERSION,
+      metadata: { name, createdAt: new Date().toISOString() },
+      circuit: this.packColumns(),
+    });
+  }
+
+  /**
+   * header = ( "OPENQASM" NUMBER ";" )?
+   */
+  private header(): ParseResult<void> {
+    if (!this.checkText('OPENQASM')) return success(undefined);
+    this.advance();
+
+    const version = this.advance();
+    if (version.kind !== 'number' || !/^[23](\.\d+)?$/.test(version.text)) {
+      return failure(errors.unsupportedQasm(`OPENQASM ${version.text}`, version.line, version.column));
+    }
+    return this.expect(';');
+  }
+
+  /**
+   * statement = include | declaration | gate definition | measure | reset | barrier | if | gate call
+   */
+  private statement(scope: GateScope): ParseResult<void> {
+    const token = this.peek();
+
+    if (token.kind === 'ident') {
+      if (UNSUPPORTED_KEYWORDS.has(token.text)) {
+        return failure(errors.unsupportedQasm(token.text, token.line, token.column));
+      }
+      switch (token.text) {
+        case 'include':
+          this.advance();
+          if (this.peek().kind !== 'string') return this.unexpected();
+          this.advance();
+          return this.expect(';');
+        case 'qreg':
+        case 'creg':
+          return this.oldStyleDeclaration();
+        case 'qubit':
+        case 'bit':
+          return this.newStyleDeclaration();
+        case 'gate':
+          return this.gateDefinition();
+        case 'measure':
+          return this.measure(scope);
+        case 'reset':
+          return this.reset(scope);
+        case 'barrier':
+          return this.barrier(scope);
+        case 'if':
+          return this.ifStatement(scope);
+      }
+      // Classical assignment: c[0] = measure q[0];
+      if (this.cregs.has(token.text)) {
+        return this.measureAssignment(scope);
+      }
+      return this.gateCall(scope);
+    }
+
+    return this.unexpected();
+  }
+
+  /**
+   * qreg name[size]; | creg name[size];
+   */
+  private oldStyleDeclaration(): ParseResult<void> {
+    const keyword = this.advance();
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+
+    const size = this.registerSize();
+    if (!size.success) return size;
+    if (size.value === null) return this.unexpected();
+
+    this.declare(keyword.text === 'qreg', nameToken.text, size.value);
+    return this.expect(';');
+  }
+
+  /**
+   * qubit[size]? name; | bit[size]? name;
+   */
+  private newStyleDeclaration(): ParseResult<void> {
+    const keyword = this.advance();
+    const size = this.registerSize();
+    if (!size.success) return size;
+
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+
+    this.declare(keyword.text === 'qubit', nameToken.text, size.value ?? 1);
+    return this.expect(';');
+  }
+
+  /**
+   * Optional "[" NUMBER "]"; value is null when absent
+   */
+  private registerSize(): ParseResult<number | null> {
+    if (!this.checkText('[')) return success(null);
+    this.advance();
+
+    const sizeToken = this.advance();
+    if (sizeToken.kind !== 'number' || !/^\d+$/.test(sizeToken.text)) return this.unexpectedAt(sizeToken);
+
+    const closing = this.expect(']');
+    if (!closing.success) return closing;
+    return success(Number(sizeToken.text));
+  }
+
+  private declare(quantum: boolean, name: string, size: number): void {
+    if (quantum) {
+      this.qregs.set(name, { start: this.numQubits, size });
+      this.numQubits += size;
+    } else {
+      this.cregs.set(name, { start: this.numBits, size });
+      this.numBits += size;
+    }
+  }
+
+  /**
+   * gate name ( "(" params ")" )? qubits "{" body "}"
+   */
+  private gateDefinition(): ParseResult<void> {
+    this.advance();
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+
+    const params: string[] = [];
+    if (this.checkText('(')) {
+      this.advance();
+      while (!this.checkText(')')) {
+        const param = this.advance();
+        if (param.kind !== 'ident') return this.unexpectedAt(param);
+        params.push(param.text);
+        if (this.checkText(',')) this.advance();
+      }
+      this.advance();
+    }
+
+    const qubits: string[] = [];
+    while (!this.checkText('{')) {
+      const qubit = this.advance();
+      if (qubit.kind !== 'ident') return this.unexpectedAt(qubit);
+      qubits.push(qubit.text);
+      if (this.checkText(',')) this.advance();
+    }
+    this.advance();
+
+    const bodyStart = this.current;
+    let nesting = 1;
+    while (nesting > 0) {
+      const token = this.advance();
+      if (token.kind === 'eof') return this.unexpectedAt(token);
+      if (token.text === '{') nesting++;
+      if (token.text === '}') nesting--;
+    }
+    const body = this.tokens.slice(bodyStart, this.current - 1);
+
+    this.gates.set(nameToken.text, { params, qubits, body });
+    return success(undefined);
+  }
+
+  /**
+   * measure qubits ( "->" bits )? ;
+   */
+  private measure(scope: GateScope): ParseResult<void> {
+    const keyword = this.advance();
+    const qubits = this.qubitArg(scope);
+    if (!qubits.success) return qubits;
+
+    let bits: number[] = [];
+    if (this.checkText('->')) {
+      this.advance();
+      const bitResult = this.bitArg();
+      if (!bitResult.success) return bitResult;
+      bits = bitResult.value;
+    }
+
+    this.recordMeasurement(qubits.value, bits);
+    const measured = this.addSingleQubitCells(qubits.value, GateType.MEASURE, scope, keyword);
+    if (!measured.success) return measured;
+    return this.expect(';');
+  }
+
+  /**
+   * reset qubits ;
+   */
+  private reset(scope: GateScope): ParseResult<void> {
+    const keyword = this.advance();
+    const qubits = this.qubitArg(scope);
+    if (!qubits.success) return qubits;
+
+    const reset = this.addSingleQubitCells(qubits.value, GateType.RESET, scope, keyword);
+    if (!reset.success) return reset;
+    return this.expect(';');
+  }
+
+  /**
+   * bits "=" measure qubits ;
+   */
+  private measureAssignment(scope: GateScope): ParseResult<void> {
+    const bits = this.bitArg();
+    if (!bits.success) return bits;
+
+    const equals = this.expect('=');
+    if (!equals.success) return equals;
+
+    const keyword = this.peek();
+    if (keyword.text !== 'measure') {
+      return failure(errors.unsupportedQasm('classical assignment', keyword.line, keyword.column));
+    }
+    this.advance();
+
+    const qubits = this.qubitArg(scope);
+    if (!qubits.success) return qubits;
+
+    this.recordMeasurement(qubits.value, bits.value);
+    const measured = this.addSingleQubitCells(qubits.value, GateType.MEASURE, scope, keyword);
+    if (!measured.success) return measured;
+    return this.expect(';');
+  }
+
+  /**
+   * Note which wire now holds each measured bit. The grid keeps one result per wire,
+   * so bits set by an earlier measurement of a remeasured wire are no longer readable.
+   */
+  private recordMeasurement(qubits: QubitArg, bits: number[]): void {
+    qubits.forEach((row, i) => {
+      for (const [bit, bitRow] of this.bitRows) {
+        if (bitRow === row) this.bitRows.delete(bit);
+      }
+      if (bits.length === qubits.length) this.bitRows.set(bits[i], row);
+    });
+  }
+
+  /** Place a non-unitary operation (MEASURE or RESET) on each qubit; these cannot be controlled */
+  private addSingleQubitCells(
+    qubits: QubitArg,
+    gate: GateType.MEASURE | GateType.RESET,
+    scope: GateScope,
+    keyword: QasmToken
+  ): ParseResult<void> {
+    if (scope.controls.length > 0) {
+      return failure(errors.unsupportedQasm(`controlled ${keyword.text}`, keyword.line, keyword.column));
+    }
+    for (const row of qubits) {
+      this.operations.push({ kind: 'cells', cells: [{ row, gate }], exclusive: false });
+    }
+    return success(undefined);
+  }
+
+  /**
+   * barrier qubits? ;
+   */
+  private barrier(scope: GateScope): ParseResult<void> {
+    this.advance();
+    const rows: number[] = [];
+
+    if (this.checkText(';')) {
+      rows.push(...Array.from({ length: this.numQubits }, (_, i) => i));
+    }
+    while (!this.checkText(';')) {
+      const arg = this.qubitArg(scope);
+      if (!arg.success) return arg;
+      rows.push(...arg.value);
+      if (this.checkText(',')) this.advance();
+      else break;
+    }
+
+    this.operations.push({ kind: 'barrier', rows });
+    return this.expect(';');
+  }
+
+  /**
+   * if "(" condition ( "&&" condition )* ")" ( statement | "{" statement* "}" )
+   *
+   * Conditions become classical controls on the measured wires, added to every
+   * column the body occupies.
+   */
+  private ifStatement(scope: GateScope): ParseResult<void> {
+    const keyword = this.advance();
+    const open = this.expect('(');
+    if (!open.success) return open;
+
+    const conditions: PlacedCell[] = [];
+    for (;;) {
+      const condition = this.condition();
+      if (!condition.success) return condition;
+      const { row, gate } = condition.value;
+      const other = conditions.find(cell => cell.row === row);
+      if (other && other.gate !== gate) {
+        return failure(errors.unsupportedQasm('contradictory if condition', keyword.line, keyword.column));
+      }
+      if (!other) conditions.push(condition.value);
+      if (!this.checkText('&&')) break;
+      this.advance();
+    }
+    const close = this.expect(')');
+    if (!close.success) return close;
+
+    const bodyStart = this.operations.length;
+    if (this.checkText('{')) {
+      this.advance();
+      while (!this.checkText('}')) {
+        if (this.isAtEnd()) return this.unexpected();
+        const result = this.statement(scope);
+        if (!result.success) return result;
+      }
+      this.advance();
+    } else {
+      const result = this.statement(scope);
+      if (!result.success) return result;
+    }
+
+    const body = this.operations.splice(bodyStart);
+    const conditionRows = new Set(conditions.map(cell => cell.row));
+    const bodyRows: number[] = [];
+    let mergeable = true;
+    for (const operation of body) {
+      if (operation.kind === 'barrier') {
+        mergeable = false;
+        continue;
+      }
+      for (const cell of operation.cells) {
+        if (cell.gate === GateType.MEASURE) {
+          return failure(errors.unsupportedQasm('measure inside if', keyword.line, keyword.column));
+        }
+        if (conditionRows.has(cell.row)) {
+          return failure(errors.unsupportedQasm('if acting on its condition wire', keyword.line, keyword.column));
+        }
+        bodyRows.push(cell.row);
+      }
+      if (operation.exclusive) mergeable = false;
+    }
+
+    // Uncontrolled gates on distinct wires share one conditioned column, as the exporter writes them
+    if (mergeable && new Set(bodyRows).size === bodyRows.length) {
+      const cells = body.flatMap(operation => (operation.kind === 'cells' ? operation.cells : []));
+      if (cells.length > 0) this.operations.push({ kind: 'cells', cells: [...conditions, ...cells], exclusive: true });
+      return success(undefined);
+    }
+    for (const operation of body) {
+      this.operations.push(operation.kind === 'cells'
+        ? { kind: 'cells', cells: [...conditions, ...operation.cells], exclusive: true }
+        : operation);
+    }
+    return success(undefined);
+  }
+
+  /**
+   * condition = bit ( "==" ( "0" | "1" ) )?
+   */
+  private condition(): ParseResult<PlacedCell> {
+    const bitToken = this.peek();
+    const bits = this.bitArg();
+    if (!bits.success) return bits;
+    if (bits.value.length !== 1) {
+      return failure(errors.unsupportedQasm('register comparison', bitToken.line, bitToken.column));
+    }
+
+    let value = '1';
+    if (this.checkText('==')) {
+      this.advance();
+      const valueToken = this.advance();
+      if (valueToken.text !== '0' && valueToken.text !== '1') return this.unexpectedAt(valueToken);
+      value = valueToken.text;
+    }
+
+    const row = this.bitRows.get(bits.value[0]);
+    if (row === undefined) {
+      return failure(errors.unsupportedQasm('condition on an unmeasured bit', bitToken.line, bitToken.column));
+    }
+    return success({ row, gate: value === '1' ? GateType.CLASSICAL_CONTROL : GateType.CLASSICAL_ANTI_CONTROL });
+  }
+
+  /**
+   * gate call = ( modifier "@" )* name ( "(" expressions ")" )? qubits ;
+   */
+  private gateCall(scope: GateScope): ParseResult<void> {
+    const modifiers: boolean[] = [];
+    const outer = scope.controls.length;
+
+    while (this.checkText('ctrl') || this.checkText('negctrl')) {
+      const modifier = this.advance();
+      let count = 1;
+      if (this.checkText('(')) {
+        this.advance();
+        const values = this.expressionList(scope);
+        if (!values.success) return values;
+        count = values.value[0];
+        if (values.value.length !== 1 || !Number.isInteger(count) || count < 1) {
+          return failure(errors.invalidGateArguments(`Invalid control count for '${modifier.text}'`, modifier.line, modifier.column));
+        }
+      }
+      const at = this.expect('@');
+      if (!at.success) return at;
+      for (let i = 0; i < count; i++) modifiers.push(modifier.text === 'negctrl');
+    }
+
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+    if (UNSUPPORTED_KEYWORDS.has(nameToken.text)) {
+      return failure(errors.unsupportedQasm(nameToken.text, nameToken.line, nameToken.column));
+    }
+
+    let params: number[] = [];
+    if (this.checkText('(')) {
+      this.advance();
+      const values = this.expressionList(scope);
+      if (!values.success) return values;
+      params = values.value;
+    }
+
+    const args: QubitArg[] = [];
+    while (!this.checkText(';')) {
+      const arg = this.qubitArg(scope);
+      if (!arg.success) return arg;
+      args.push(arg.value);
+      if (this.checkText(',')) this.advance();
+      else break;
+    }
+    const semicolon = this.expect(';');
+    if (!semicolon.success) return semicolon;
+
+    // Broadcast whole-register operands (e.g. "h q;" or "cx a, b;")
+    const width = Math.max(1, ...args.map(arg => arg.length));
+    for (const arg of args) {
+      if (arg.length !== 1 && arg.length !== width) {
+        return failure(errors.invalidGateArguments('Register operands must have equal sizes', nameToken.line, nameToken.column));
+      }
+    }
+
+    for (let i = 0; i < width; i++) {
+      const qubits = args.map(arg => (arg.length === 1 ? arg[0] : arg[i]));
+      const controls = [...scope.controls, ...modifiers.map((negated, k) => ({ qubit: qubits[k], negated }))];
+      const result = this.applyGate(nameToken, params, controls, qubits.slice(modifiers.length), qubits.length + outer);
+      if (!result.success) return result;
+    }
+    return success(undefined);
+  }
+
+  /**
+   * Apply a named gate, expanding aliases and user definitions
+   */
+  private applyGate(
+    nameToken: QasmToken,
+    params: number[],
+    controls: QasmControl[],
+    targets: number[],
+    operandCount: number
+  ): ParseResult<void> {
+    const { line, column } = nameToken;
+    let name = nameToken.text;
+
+    if (operandCount < controls.length) {
+      return failure(errors.invalidGateArguments(`Too few qubits for '${name}'`, line, column));
+    }
+
+    const alias = CONTROLLED_ALIASES[name];
+    if (alias && !this.gates.has(name)) {
+      if (targets.length < alias.controls) {
+        return failure(errors.invalidGateArguments(`Too few qubits for '${name}'`, line, column));
+      }
+      controls = [...controls, ...targets.slice(0, alias.controls).map(qubit => ({ qubit, negated: false }))];
+      targets = targets.slice(alias.controls);
+      name = alias.base;
+    }
+
+    const allQubits = [...controls.map(c => c.qubit), ...targets];
+    if (new Set(allQubits).size !== allQubits.length) {
+      return failure(errors.invalidGateArguments(`Gate '${nameToken.text}' uses the same qubit more than once`, line, column));
+    }
+
+    const definition = this.gates.get(name);
+    if (definition) {
+      if (definition.params.length !== params.length || definition.qubits.length !== targets.length) {
+        return failure(errors.invalidGateArguments(
+          `Gate '${name}' expects ${definition.params.length} parameter(s) and ${definition.qubits.length} qubit(s)`,
+          line,
+          column
+        ));
+      }
+      return this.expandDefinition(nameToken, definition, params, controls, targets);
+    }
+
+    const builtin = BUILTIN_GATES[name];
+    if (!builtin) {
+      return failure(errors.unknownGate(name, line, column));
+    }
+    if (builtin.params !== params.length || builtin.qubits !== targets.length) {
+      return failure(errors.invalidGateArguments(
+        `Gate '${name}' expects ${builtin.params} parameter(s) and ${builtin.qubits} qubit(s)`,
+        line,
+        column
+      ));
+    }
+
+    if (name === 'gphase') {
+      // Global phase is unobservable; a controlled one is a phase gate on the controls
+      if (controls.length > 0) return failure(errors.unsupportedQasm('controlled gphase', line, column));
+      return success(undefined);
+    }
+
+    const controlCells: PlacedCell[] = controls.map(control => ({
+      row: control.qubit,
+      gate: control.negated ? GateType.ANTI_CONTROL : GateType.CONTROL,
+    }));
+
+    if (name === 'swap') {
+      this.operations.push({
+        kind: 'cells',
+        cells: [...controlCells, ...targets.map(row => ({ row, gate: GateType.SWAP }))],
+        exclusive: true,
+      });
+      return success(undefined);
+    }
+
+    const target = resolveSingleQubitGate(name, params, controls.length);
+    if (target.gate === GateType.I && (name !== 'id' || controls.length > 0)) {
+      return success(undefined);
+    }
+    this.operations.push({
+      kind: 'cells',
+      cells: [...controlCells, { row: targets[0], ...target }],
+      exclusive: controls.length > 0,
+    });
+    return success(undefined);
+  }
+
+  /**
+   * Inline a user gate definition; the call's controls apply to every body operation
+   */
+  private expandDefinition(
+    nameToken: QasmToken,
+    definition: GateDefinition,
+    params: number[],
+    controls: QasmControl[],
+    targets: number[]
+  ): ParseResult<void> {
+    if (this.depth >= MAX_EXPANSION_DEPTH) {
+      return failure(errors.unsupportedQasm(`recursive gate '${nameToken.text}'`, nameToken.line, nameToken.column));
+    }
+
+    const scope: GateScope = {
+      qubits: new Map(definition.qubits.map((qubit, i) => [qubit, targets[i]])),
+      params: new Map(definition.params.map((param, i) => [param, params[i]])),
+      controls,
+    };
+    const savedTokens = this.tokens;
+    const savedCurrent = this.current;
+    const lastToken = definition.body[definition.body.length - 1] ?? nameToken;
+
+    this.tokens = [...definition.body, { ...lastToken, kind: 'eof', text: '' }];
+    this.current = 0;
+    this.depth++;
+
+    let result: ParseResult<void> = success(undefined);
+    while (!this.isAtEnd() && result.success) {
+      result = this.statement(scope);
+    }
+
+    this.depth--;
+    this.tokens = savedTokens;
+    this.current = savedCurrent;
+    return result;
+  }
+
+  /**
+   * Comma-separated parameter expressions up to and including ")"
+   */
+  private expressionList(scope: GateScope): ParseResult<number[]> {
+    const values: number[] = [];
+    let expression: QasmToken[] = [];
+    let nesting = 0;
+
+    for (;;) {
+      const token = this.advance();
+      if (token.kind === 'eof') return this.unexpectedAt(token);
+
+      if (nesting === 0 && (token.text === ',' || token.text === ')')) {
+        if (expression.length > 0 || token.text === ',') {
+          const value = this.evaluate(expression, scope, token);
+          if (!value.success) return value;
+          values.push(value.value);
+        }
+        expression = [];
+        if (token.text === ')') return success(values);
+        continue;
+      }
+
+      if (token.text === '(') nesting++;
+      if (token.text === ')') nesting--;
+      expression.push(token);
+    }
+  }
+
+  /**
+   * Evaluate an angle expression with parseReal after substituting gate parameters
+   */
+  private evaluate(expression: QasmToken[], scope: GateScope, fallback: QasmToken): ParseResult<number> {
+    const first = expression[0] ?? fallback;
+    const text = expression.map(token => {
+      if (token.kind !== 'ident') return token.text;
+      if (scope.params.has(token.text)) return `(${scope.params.get(token.text)})`;
+      if (TAU_NAMES.has(token.text)) return '(2*pi)';
+      return token.text;
+    }).join(' ');
+
+    const result = parseReal(text);
+    if (!result.success) {
+      return failure(atLine(
+        { ...result.error, message: `Invalid expression '${text}': ${result.error.message}` },
+        first.line,
+        first.column
+      ));
+    }
+    return result;
+  }
+
+  /**
+   * qubit operand = name ( "[" NUMBER "]" )?
+   */
+  private qubitArg(scope: GateScope): ParseResult<QubitArg> {
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+
+    const local = scope.qubits.get(nameToken.text);
+    if (local !== undefined) return success([local]);
+
+    const register = this.qregs.get(nameToken.text);
+    if (!register) {
+      return failure(errors.undeclaredRegister(nameToken.text, nameToken.line, nameToken.column));
+    }
+    return this.indexInto(nameToken, register, index => register.start + index);
+  }
+
+  /**
+   * classical operand = name ( "[" NUMBER "]" )?
+   */
+  private bitArg(): ParseResult<number[]> {
+    const nameToken = this.advance();
+    if (nameToken.kind !== 'ident') return this.unexpectedAt(nameToken);
+
+    const register = this.cregs.get(nameToken.text);
+    if (!register) {
+      return failure(errors.undeclaredRegister(nameToken.text, nameToken.line, nameToken.column));
+    }
+    return this.indexInto(nameToken, register, index => register.start + index);
+  }
+
+  private indexInto(
+    nameToken: QasmToken,
+    register: QasmRegister,
+    map: (index: number) => number
+  ): ParseResult<number[]> {
+    if (!this.checkText('[')) {
+      return success(Array.from({ length: register.size }, (_, i) => map(i)));
+    }
+    this.advance();
+
+    const indexToken = this.advance();
+    if (indexToken.kind !== 'number' || !/^\d+$/.test(indexToken.text)) return this.unexpectedAt(indexToken);
+    const index = Number(indexToken.text);
+    if (index >= register.size) {
+      return failure(errors.qubitOutOfRange(nameToken.text, index, register.size, indexToken.line, indexToken.column));
+    }
+
+    const closing = this.expect(']');
+    if (!closing.success) return closing;
+    return success([map(index)]);
+  }
+
+  /**
+   * Pack operations into columns. Operations with controls or SWAPs need a column
+   * to themselves because a column's controls apply to every gate in it.
+   */
+  private packColumns(): CircuitFile['circuit'] {
+    const rows = Math.max(1, this.numQubits);
+    const columns: { cells: PlacedCell[]; exclusive: boolean }[] = [];
+    const frontier = new Array<number>(rows).fill(0);
+
+    for (const operation of this.operations) {
+      if (operation.kind === 'barrier') {
+        const fence = Math.max(0, ...operation.rows.map(row => frontier[row]));
+        for (const row of operation.rows) frontier[row] = fence;
+        continue;
+      }
+
+      const opRows = operation.cells.map(cell => cell.row);
+      let col = Math.max(...opRows.map(row => frontier[row]));
+      while (
+        col < columns.length &&
+        (operation.exclusive ? columns[col].cells.length > 0 : columns[col].exclusive)
+      ) {
+        col++;
+      }
+      while (columns.length <= col) columns.push({ cells: [], exclusive: false });
+
+      columns[col].cells.push(...operation.cells);
+      columns[col].exclusive = operation.exclusive;
+      for (const row of opRows) frontier[row] = col + 1;
+    }
+
+    const cols = Math.max(1, columns.length);
+    const grid: CircuitGrid = Array.from({ length: rows }, (_, r) =>
+      Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+    );
+    columns.forEach((column, c) => {
+      for (const { row, gate, params } of column.cells) {
+        grid[row][c] = params ? { gate, id: `cell-${row}-${c}`, params } : { gate, id: `cell-${row}-${c}` };
+      }
+    });
+
+    return { rows, cols, grid };
+  }
+
+  // Helper methods
+
+  private expect(text: string): ParseResult<void> {
+    if (!this.checkText(text)) return this.unexpected();
+    this.advance();
+    return success(undefined);
+  }
+
+  private unexpected<T>(): ParseResult<T> {
+    return this.unexpectedAt(this.peek());
+  }
+
+  private unexpectedAt<T>(token: QasmToken): ParseResult<T> {
+    const error: ParseError = token.kind === 'eof'
+      ? errors.expectedExpression(token.offset)
+      : errors.unexpectedToken(token.text, token.offset);
+    return failure(atLine(error, token.line, token.column));
+  }
+
+  private checkText(text: string): boolean {
+    return this.peek().kind !== 'eof' && this.peek().text === text;
+  }
+
+  private advance(): QasmToken {
+    const token = this.peek();
+    if (!this.isAtEnd()) this.current++;
+    return token;
+  }
+
+  private isAtEnd(): boolean {
+    return this.peek().kind === 'eof';
+  }
+
+  private peek(): QasmToken {
+    return this.tokens[this.current];
+  }
+}
+
+// ============================================================================
+// Gate Resolution
+// ============================================================================
+
+const c = (re: number, im = 0): Complex => ({ re, im });
+const expi = (phase: number): Complex => c(Math.cos(phase), Math.sin(phase));
+
+/** Phase angles that have a dedicated grid gate */
+const PHASE_GATES: [number, GateType][] = [
+  [Math.PI, GateType.Z],
+  [Math.PI / 2, GateType.S],
+  [-Math.PI / 2, GateType.SDG],
+  [Math.PI / 4, GateType.T],
+];
+
+/**
+ * U(θ,φ,λ) = [[cos(θ/2), -e^(iλ)sin(θ/2)], [e^(iφ)sin(θ/2), e^(i(φ+λ))cos(θ/2)]]
+ */
+function uMatrix(theta: number, phi: number, lambda: number): Complex[][] {
+  const cos = Math.cos(theta / 2);
+  const sin = Math.sin(theta / 2);
+  return [
+    [c(cos), c(-Math.cos(lambda) * sin, -Math.sin(lambda) * sin)],
+    [c(Math.cos(phi) * sin, Math.sin(phi) * sin), c(Math.cos(phi + lambda) * cos, Math.sin(phi + lambda) * cos)],
+  ];
+}
+
+function customCell(label: string, customMatrix: Complex[][]): { gate: GateType; params: GateParams } {
+  return { gate: GateType.CUSTOM, params: { customMatrix, customLabel: label } };
+}
+
+/**
+ * Map a built-in single-qubit gate to a grid gate. Gates equal to a grid gate only up
+ * to global phase are mapped natively when uncontrolled and as exact custom gates otherwise.
+ */
+function resolveSingleQubitGate(
+  name: string,
+  params: number[],
+  numControls: number
+): { gate: GateType; params?: GateParams } {
+  switch (name) {
+    case 'id':
+      return { gate: GateType.I };
+    case 'x':
+      if (numControls === 2) return { gate: GateType.CCX };
+      return { gate: numControls > 0 ? GateType.CX : GateType.X };
+    case 'y':
+      return { gate: GateType.Y };
+    case 'z':
+      return { gate: numControls > 0 ? GateType.CZ : GateType.Z };
+    case 'h':
+      return { gate: GateType.H };
+    case 's':
+      return { gate: GateType.S };
+    case 'sdg':
+      return { gate: GateType.SDG };
+    case 't':
+      return { gate: GateType.T };
+    case 'tdg':
+      return customCell('T†', [[c(1), c(0)], [c(0), expi(-Math.PI / 4)]]);
+    case 'sx':
+      if (numControls === 0) return { gate: GateType.SQRT_X };
+      return customCell('SX', [[c(0.5, 0.5), c(0.5, -0.5)], [c(0.5, -0.5), c(0.5, 0.5)]]);
+    case 'sxdg':
+      if (numControls === 0) return { gate: GateType.SQRT_X_DG };
+      return customCell('SX†', [[c(0.5, -0.5), c(0.5, 0.5)], [c(0.5, 0.5), c(0.5, -0.5)]]);
+    case 'rx':
+      return { gate: GateType.RX, params: { angle: params[0] } };
+    case 'ry':
+      return { gate: GateType.RY, params: { angle: params[0] } };
+    case 'rz':
+      return { gate: GateType.RZ, params: { angle: params[0] } };
+    case 'p':
+    case 'phase':
+    case 'u1': {
+      const lambda = params[0];
+      if (Math.abs(lambda) < 1e-12) return { gate: GateType.I };
+      const known = PHASE_GATES.find(([angle]) => Math.abs(angle - lambda) < 1e-12);
+      if (known) return { gate: known[1] };
+      return customCell('P', [[c(1), c(0)], [c(0), expi(lambda)]]);
+    }
+    case 'u2':
+      return customCell('U', uMatrix(Math.PI / 2, params[0], params[1]));
+    default:
+      // u, u3, U
+      return customCell('U', uMatrix(params[0], params[1], params[2]));
+  }
+}
+
+/**
+ * Convenience function to parse OpenQASM source into a CircuitFile
+ */
+export function parseQasm(source: string, name?: string): ParseResult<CircuitFile> {
+  const parser = new QasmParser();
+  return parser.parse(source, name);
+}
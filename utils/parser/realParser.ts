@@ -3,6 +3,9 @@ import { ParseError, errors } from './errors';
 import { ParseResult, success, failure } from './result';
 import { tokenize } from './lexer';
 
+/** Values of the named parameters an expression may use, by lowercase name */
+export type ParameterScope = Readonly<Record<string, number>>;
+
 /**
  * Recursive descent parser for real number expressions
  *
@@ -10,18 +13,23 @@ import { tokenize } from './lexer';
  *   expression = term ( ( "+" | "-" ) term )* ;
  *   term       = unary ( ( "*" | "/" ) unary )* ;
  *   unary      = ( "-" | "+" )? primary ;
- *   primary    = NUMBER | PI | SQRT "(" expression ")" | "(" expression ")" ;
+ *   primary    = NUMBER | PI | IDENTIFIER | SQRT "(" expression ")" | "(" expression ")" ;
+ *
+ * IDENTIFIER is only recognized when a parameter scope is given.
  */
 export class RealExpressionParser {
   private tokens: Token[] = [];
   private current = 0;
+  private scope: ParameterScope | undefined;
 
   /**
-   * Parse a real number expression from source string
+   * Parse a real number expression from source string.
+   * With a scope, names like "theta" evaluate to the scope's value.
    */
-  parse(source: string): ParseResult<number> {
+  parse(source: string, scope?: ParameterScope): ParseResult<number> {
     // Tokenize
-    const tokenResult = tokenize(source);
+    this.scope = scope;
+    const tokenResult = tokenize(source, { identifiers: scope !== undefined });
     if (!tokenResult.success) {
       return failure(tokenResult.error);
     }
@@ -122,7 +130,7 @@ export class RealExpressionParser {
   }
 
   /**
-   * primary = NUMBER | PI | I (error) | SQRT "(" expression ")" | "(" expression ")"
+   * primary = NUMBER | PI | IDENTIFIER | I (error) | SQRT "(" expression ")" | "(" expression ")"
    */
   private primary(): ParseResult<number> {
     // NUMBER
@@ -135,6 +143,18 @@ export class RealExpressionParser {
       return success(Math.PI);
     }
 
+    // IDENTIFIER (a parameter in scope)
+    if (this.match(TokenType.IDENTIFIER)) {
+      const name = this.previous();
+      const value = this.scope && Object.prototype.hasOwnProperty.call(this.scope, name.lexeme)
+        ? this.scope[name.lexeme]
+        : undefined;
+      if (value === undefined) {
+        return failure(errors.unknownParameter(name.lexeme, name.position));
+      }
+      return success(value);
+    }
+
     // I (imaginary unit - not allowed in real parser)
     if (this.check(TokenType.I)) {
       const token = this.peek();
@@ -222,7 +242,7 @@ export class RealExpressionParser {
 /**
  * Convenience function to parse a real number expression
  */
-export function parseReal(source: string): ParseResult<number> {
+export function parseReal(source: string, scope?: ParameterScope): ParseResult<number> {
   const parser = new RealExpressionParser();
-  return parser.parse(source);
+  return parser.parse(source, scope);
 }
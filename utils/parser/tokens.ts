@@ -24,6 +24,9 @@ export enum TokenType {
   // Functions
   SQRT = 'SQRT',          // sqrt
 
+  // Names
+  IDENTIFIER = 'IDENTIFIER', // theta, θ (only when the lexer allows identifiers)
+
   // Special
   EOF = 'EOF',            // End of input
 }
@@ -21,6 +21,10 @@ import {
   isRequiresInputBGate,
   isRequiresInputRGate,
   isVisualizationGate,
+  isNoiseGate,
+  isClassicalControlGate,
+  NoiseGate,
+  WireInitialState,
   ArithmeticFixed2x1Gate,
   ArithmeticComparisonGate,
   ArithmeticScalarGate,
@@ -32,13 +36,26 @@ import {
   REQUIRES_INPUT_B,
   REQUIRES_INPUT_R,
 } from '../types';
-import { GATE_DEFS } from '../constants';
+import { GATE_DEFS, DEFAULT_NOISE_STRENGTH } from '../constants';
 import {
   EPSILON as COMPLEX_EPSILON,
   add as complexAdd,
   mul as complexMul,
   absSq as complexAbsSq,
 } from './complex';
+import {
+  DensityMatrix,
+  createInitialDensityMatrix,
+  conjugateByOperator,
+  applyNoiseChannel,
+  measureDensityQubit,
+  projectDensityQubit,
+  addDensityMatrices,
+  getTrace,
+  densityMatrixFromState,
+  resetDensityQubit,
+} from './densityMatrix';
+import { getInitialAmplitudes, isDefaultInitialState } from './initialStates';
 
 // --- Constants ---
 
@@ -107,11 +124,6 @@ export const fromComplexObjectArray = (arr: Complex[]): ComplexArray => {
 
 // --- Complex Number Math ---
 
-/**
- * Check if a complex number is effectively zero
- */
-const isZero = (c: Complex): boolean => c.re === 0 && c.im === 0;
-
 /** @deprecated Use `add` from 'utils/complex' instead */
 export const cAdd = complexAdd;
 
@@ -688,6 +700,7 @@ export interface ValidationError {
  * All arithmetic and input gates are fixed 2x1 blocks.
  * Input markers (A/B/R) must be in the same column as their arithmetic gates.
  * Input and arithmetic gate spans must not overlap.
+ * Classical controls must come after a MEASURE on the same wire.
  * Returns an array of validation errors (empty if valid).
  */
 export const validateCircuit = (grid: CircuitGrid): ValidationError[] => {
@@ -797,6 +810,23 @@ export const validateCircuit = (grid: CircuitGrid): ValidationError[] => {
     }
   }
 
+  // Classical controls read the last MEASURE result on their wire
+  for (let row = 0; row < numRows; row++) {
+    let measured = false;
+    for (let col = 0; col < numCols; col++) {
+      const gateType = grid[row][col].gate;
+      if (gateType && isClassicalControlGate(gateType) && !measured) {
+        errors.push({
+          column: col,
+          row,
+          gateType,
+          message: `Classical control on q${row} needs a MEASURE earlier on the same wire`
+        });
+      }
+      if (gateType === GateType.MEASURE) measured = true;
+    }
+  }
+
   return errors;
 };
 
@@ -1292,14 +1322,37 @@ export const applyQFT = (
   isDagger: boolean = false,
   controlMask: number = 0,
   antiControlMask: number = 0
+): ComplexArray => {
+  const spanSize = endRow - startRow + 1;
+  const qftMatrix = isDagger ? buildQFTDaggerMatrix(spanSize) : buildQFTMatrix(spanSize);
+  return applySpanMatrix(state, qftMatrix, startRow, endRow, numQubits, controlMask, antiControlMask);
+};
+
+/**
+ * Apply a 2^k x 2^k matrix to the k contiguous rows startRow..endRow.
+ * The top row of the span is the most significant bit of the matrix index.
+ *
+ * @param state Current quantum state
+ * @param matrix Matrix acting on the span
+ * @param startRow First qubit row of the span
+ * @param endRow Last qubit row of the span
+ * @param numQubits Total number of qubits
+ * @param controlMask Bitmask for control conditions (optional)
+ * @param antiControlMask Bitmask for anti-control conditions (optional)
+ */
+export const applySpanMatrix = (
+  state: ComplexArray,
+  matrix: Complex[][],
+  startRow: number,
+  endRow: number,
+  numQubits: number,
+  controlMask: number = 0,
+  antiControlMask: number = 0
 ): ComplexArray => {
   const spanSize = endRow - startRow + 1;
   const spanStates = 1 << spanSize;
   const totalStates = 1 << numQubits;
 
-  // Build the QFT matrix for this span size
-  const qftMatrix = isDagger ? buildQFTDaggerMatrix(spanSize) : buildQFTMatrix(spanSize);
-
   const result = createComplexArray(totalStates);
 
   // For each group of states that differ only in the span bits
@@ -1347,12 +1400,12 @@ export const applyQFT = (
       continue;
     }
 
-    // Apply QFT matrix multiplication
+    // Apply the span matrix
     for (let j = 0; j < spanStates; j++) {
       for (let k = 0; k < spanStates; k++) {
-        // outputAmps[j] += qftMatrix[j][k] * inputAmps[k]
-        const mRe = qftMatrix[j][k].re;
-        const mIm = qftMatrix[j][k].im;
+        // outputAmps[j] += matrix[j][k] * inputAmps[k]
+        const mRe = matrix[j][k].re;
+        const mIm = matrix[j][k].im;
         const aRe = inputAmps[k].re;
         const aIm = inputAmps[k].im;
         outputAmps[j].re += mRe * aRe - mIm * aIm;
@@ -1570,6 +1623,13 @@ interface SimulateColumnOptions {
   warnings: SimulationWarning[] | null;
   /** Time parameter for time-parameterized gates (0 to 1). Defaults to 0 */
   timeParameter?: number;
+  /**
+   * Latest measurement outcome per original row, read by classical controls
+   * (rows not yet measured read 0). If omitted, classical controls act as quantum
+   * controls on their wire, which agrees while the wire is untouched after its
+   * measurement (the deferred measurement principle).
+   */
+  classicalBits?: Map<number, 0 | 1>;
 }
 
 /** Result of simulating a single column */
@@ -1580,6 +1640,8 @@ interface SimulateColumnResult {
   measureRows: number[];
   /** Original row indices for measurement rows (for result mapping) */
   measureOriginalRows: number[];
+  /** Rows that had RESET gates (filtered indices, for caller to handle) */
+  resetRows: number[];
 }
 
 // --- Helpers for simulateColumn ---
@@ -1642,6 +1704,25 @@ const pairSwaps = (swaps: number[]): [number, number][] => {
   return pairs;
 };
 
+/**
+ * Whether the recorded bits satisfy every classical control in a column.
+ * Rows not yet measured read 0.
+ */
+const isClassicalConditionMet = (
+  grid: CircuitGrid,
+  col: number,
+  rows: Iterable<number>,
+  classicalBits: Map<number, 0 | 1>
+): boolean => {
+  for (const row of rows) {
+    const type = grid[row][col].gate;
+    if (type === null || !isClassicalControlGate(type)) continue;
+    const expected = type === GateType.CLASSICAL_CONTROL ? 1 : 0;
+    if ((classicalBits.get(row) ?? 0) !== expected) return false;
+  }
+  return true;
+};
+
 /**
  * Simulate a single column of the circuit grid.
  *
@@ -1650,9 +1731,12 @@ const pairSwaps = (swaps: number[]): [number, number][] => {
  * - Basis transformations for X/Y controls
  * - Control mask calculation
  * - Gate application (standard, REVERSE, arithmetic, comparison, scalar)
- * - Warning collection for missing arithmetic inputs
+ * - Warning collection for missing arithmetic inputs and for controls on
+ *   gates that cannot be controlled (MEASURE, RESET, noise)
  *
- * Measurements are NOT performed here - measureRows are returned for caller to handle.
+ * Every gate in the column, spanning gates included, is conditioned on the
+ * column's controls. Measurements and resets are NOT performed here - measureRows and resetRows are
+ * returned for caller to handle.
  */
 const simulateColumn = (
   state: ComplexArray,
@@ -1660,7 +1744,7 @@ const simulateColumn = (
   col: number,
   options: SimulateColumnOptions
 ): SimulateColumnResult => {
-  const { numQubits, columnIndex, rowMapping, processAdvancedGates, warnings, timeParameter } = options;
+  const { numQubits, columnIndex, rowMapping, processAdvancedGates, warnings, timeParameter, classicalBits } = options;
   const numRows = grid.length;
 
   // Collections for identified gates
@@ -1674,11 +1758,15 @@ const simulateColumn = (
   const operations: { row: number; type: GateType; params?: GateParams }[] = [];
   const measureRows: number[] = [];
   const measureOriginalRows: number[] = [];
+  const resetRows: number[] = [];
+  // Measurements, resets and noise channels act on every basis state, whatever the controls
+  const uncontrolledGates: { row: number; type: GateType }[] = [];
 
   // Advanced gate collections (only used when processAdvancedGates=true)
   const reverseGates: { startRow: number; endRow: number }[] = [];
   const phaseGradientGates: { startRow: number; endRow: number }[] = [];
   const qftGates: { startRow: number; endRow: number; isDagger: boolean }[] = [];
+  const customSpanGates: { startRow: number; endRow: number; matrix: Complex[][] }[] = [];
   const arithmeticOps: { startRow: number; endRow: number; gateType: ArithmeticFixed2x1Gate; originalRow: number }[] = [];
   const comparisonOps: { row: number; gateType: ArithmeticComparisonGate; originalRow: number }[] = [];
   const scalarOps: { row: number; gateType: ArithmeticScalarGate }[] = [];
@@ -1700,10 +1788,20 @@ const simulateColumn = (
 
     // Skip visualization gates - they don't affect the quantum state
     if (isVisualizationGate(type)) continue;
+    // Noise gates are Kraus channels, applied by runDensityMatrixSimulation
+    if (isNoiseGate(type)) {
+      uncontrolledGates.push({ row: originalRow, type });
+      continue;
+    }
 
     const filteredRow = rowMapping ? rowMapping.get(originalRow)! : originalRow;
 
-    if (type === GateType.CONTROL) {
+    if (isClassicalControlGate(type)) {
+      // With a classical record the condition is checked below instead
+      if (!classicalBits) {
+        (type === GateType.CLASSICAL_CONTROL ? controls : antiControls).push(filteredRow);
+      }
+    } else if (type === GateType.CONTROL) {
       controls.push(filteredRow);
     } else if (type === GateType.ANTI_CONTROL) {
       antiControls.push(filteredRow);
@@ -1722,10 +1820,15 @@ const simulateColumn = (
         // In execution mode, track measurements for caller to handle
         measureRows.push(filteredRow);
         measureOriginalRows.push(originalRow);
+        uncontrolledGates.push({ row: originalRow, type });
       } else {
         // In visualization mode, treat MEASURE as identity
         operations.push({ row: filteredRow, type: GateType.I, params: cell.params });
       }
+    } else if (type === GateType.RESET) {
+      // Not unitary in either mode; the caller picks the outcome
+      resetRows.push(filteredRow);
+      uncontrolledGates.push({ row: originalRow, type });
     } else if (processAdvancedGates) {
       // Advanced gates only processed when enabled
       if (type === GateType.REVERSE && !cell.params?.isSpanContinuation) {
@@ -1759,6 +1862,36 @@ const simulateColumn = (
             });
           }
         }
+      } else if (type === GateType.CUSTOM_MULTI && !cell.params?.isSpanContinuation) {
+        const span = cell.params?.reverseSpan;
+        const matrix = cell.params?.customMatrix;
+        if (span && matrix && rowMapping) {
+          const filteredStart = rowMapping.get(span.startRow);
+          const filteredEnd = rowMapping.get(span.endRow);
+          if (filteredStart !== undefined && filteredEnd !== undefined && 1 << (filteredEnd - filteredStart + 1) === matrix.length) {
+            customSpanGates.push({ startRow: filteredStart, endRow: filteredEnd, matrix });
+          }
+        }
+      } else if (type === GateType.MACRO && !cell.params?.isSpanContinuation) {
+        const span = cell.params?.reverseSpan;
+        const circuit = cell.params?.customCircuit;
+        if (span && circuit && rowMapping) {
+          const filteredStart = rowMapping.get(span.startRow);
+          const filteredEnd = rowMapping.get(span.endRow);
+          if (filteredStart !== undefined && filteredEnd !== undefined && filteredEnd - filteredStart + 1 === circuit.length) {
+            try {
+              customSpanGates.push({ startRow: filteredStart, endRow: filteredEnd, matrix: getMacroUnitary(circuit, timeParameter) });
+            } catch (e) {
+              warnings?.push({
+                column: columnIndex,
+                row: originalRow,
+                gateType: type,
+                message: `Macro gate ${cell.params?.customLabel ?? ''} was skipped: ${e instanceof Error ? e.message : 'its sub-circuit is invalid'}`,
+                category: 'invalid_operation'
+              });
+            }
+          }
+        }
       } else if (type === GateType.INPUT_A && !cell.params?.isSpanContinuation) {
         const span = cell.params?.reverseSpan;
         if (span && rowMapping) {
@@ -1801,7 +1934,7 @@ const simulateColumn = (
         scalarOps.push({ row: filteredRow, gateType: type });
       } else if (isInputParameterizedGate(type)) {
         inputParamOps.push({ row: filteredRow, gateType: type, originalRow });
-      } else if (!isArithmeticInputGate(type) && !isArithmeticFixed2x1Gate(type) && type !== GateType.REVERSE && type !== GateType.PHASE_GRADIENT && !isQFTGate(type)) {
+      } else if (!isArithmeticInputGate(type) && !isArithmeticFixed2x1Gate(type) && type !== GateType.REVERSE && type !== GateType.PHASE_GRADIENT && !isQFTGate(type) && type !== GateType.CUSTOM_MULTI && type !== GateType.MACRO) {
         operations.push({ row: filteredRow, type, params: cell.params });
       }
     } else {
@@ -1814,16 +1947,36 @@ const simulateColumn = (
     }
   }
 
-  // Create working copy of state
+  const controlCount = controls.length + antiControls.length + xControls.length +
+    xAntiControls.length + yControls.length + yAntiControls.length;
+  if (warnings && controlCount > 0) {
+    for (const gate of uncontrolledGates) {
+      warnings.push({
+        column: columnIndex,
+        row: gate.row,
+        gateType: gate.type,
+        message: `${gate.type} cannot be controlled; the controls in its column do not apply to it`,
+        category: 'no_effect'
+      });
+    }
+  }
+
+  // A failed classical condition skips every gate (including RESET) in the column;
+  // measurements still happen
+  if (classicalBits && !isClassicalConditionMet(grid, col, rowsToProcess, classicalBits)) {
+    return { state: new Float64Array(state), measureRows, measureOriginalRows, resetRows: [] };
+  }
+
+  // Create working copy of state; single-qubit gates and SWAPs update it in place
   let nextState = new Float64Array(state);
 
   // Apply basis transformations for X/Y controls
   for (const r of [...xControls, ...xAntiControls]) {
-    nextState = applyGate(nextState, GateType.H, r, 0, numQubits);
+    applyGate(nextState, GateType.H, r, 0, numQubits);
   }
   for (const r of [...yControls, ...yAntiControls]) {
-    nextState = applySdagger(nextState, r, numQubits);
-    nextState = applyGate(nextState, GateType.H, r, 0, numQubits);
+    applySdagger(nextState, r, numQubits);
+    applyGate(nextState, GateType.H, r, 0, numQubits);
   }
 
   // Calculate control masks
@@ -1834,19 +1987,19 @@ const simulateColumn = (
   // Apply SWAPs
   const swapPairs = pairSwaps(swaps);
   for (const [r1, r2] of swapPairs) {
-    nextState = applySwapWithAntiControl(nextState, r1, r2, controlMask, antiControlMask, numQubits);
+    applySwapWithAntiControl(nextState, r1, r2, controlMask, antiControlMask, numQubits);
   }
 
   // Apply standard gates
   for (const op of operations) {
-    nextState = applyGateWithAntiControl(nextState, op.type, op.row, controlMask, antiControlMask, numQubits, op.params, timeParameter);
+    applyGateWithAntiControl(nextState, op.type, op.row, controlMask, antiControlMask, numQubits, op.params, timeParameter);
   }
 
   // Apply advanced gates (when enabled)
   if (processAdvancedGates) {
     // REVERSE gates
     for (const rev of reverseGates) {
-      nextState = applyBitReversePermutation(nextState, rev.startRow, rev.endRow, numQubits);
+      nextState = applyBitReversePermutation(nextState, rev.startRow, rev.endRow, numQubits, controlMask, antiControlMask);
     }
 
     // Phase Gradient gates
@@ -1874,6 +2027,19 @@ const simulateColumn = (
       );
     }
 
+    // Multi-qubit custom gates and macro gates
+    for (const custom of customSpanGates) {
+      nextState = applySpanMatrix(
+        nextState,
+        custom.matrix,
+        custom.startRow,
+        custom.endRow,
+        numQubits,
+        controlMask,
+        antiControlMask
+      );
+    }
+
     // Arithmetic gates with warning collection
     for (const arithOp of arithmeticOps) {
       if (warnings) {
@@ -2037,33 +2203,63 @@ const simulateColumn = (
 
   // Undo basis transformations
   for (const r of [...xControls, ...xAntiControls]) {
-    nextState = applyGate(nextState, GateType.H, r, 0, numQubits);
+    applyGate(nextState, GateType.H, r, 0, numQubits);
   }
   for (const r of [...yControls, ...yAntiControls]) {
-    nextState = applyGate(nextState, GateType.H, r, 0, numQubits);
-    nextState = applyS(nextState, r, numQubits);
+    applyGate(nextState, GateType.H, r, 0, numQubits);
+    applyS(nextState, r, numQubits);
   }
 
   return {
     state: nextState,
     measureRows,
-    measureOriginalRows
+    measureOriginalRows,
+    resetRows
   };
 };
 
-/** Create initial |0...0⟩ state as ComplexArray */
-export const createInitialState = (numQubits: number): ComplexArray => {
+/**
+ * Create the initial state as ComplexArray: |0...0⟩, or the product of each
+ * qubit's initial state when `wireStates` is given (index = qubit, row 0 = MSB).
+ */
+export const createInitialState = (
+  numQubits: number,
+  wireStates: readonly (WireInitialState | undefined)[] = []
+): ComplexArray => {
   const size = Math.pow(2, numQubits);
   const state = createComplexArray(size);
   state[0] = 1; // re of |0...0⟩ = 1 (im already 0)
+
+  // Kronecker product, one qubit at a time: index = (prefix << 1) | bit
+  let length = 1;
+  for (let q = 0; q < numQubits; q++) {
+    const [alpha, beta] = getInitialAmplitudes(wireStates[q]);
+    for (let i = length - 1; i >= 0; i--) {
+      const re = getRe(state, i);
+      const im = getIm(state, i);
+      setComplexValues(state, 2 * i, re * alpha.re - im * alpha.im, re * alpha.im + im * alpha.re);
+      setComplexValues(state, 2 * i + 1, re * beta.re - im * beta.im, re * beta.im + im * beta.re);
+    }
+    length *= 2;
+  }
   return state;
 };
 
-export const simulateCircuit = (grid: CircuitGrid): Complex[][] => {
+/**
+ * Simulate every row without collapsing measurements (MEASURE acts as identity).
+ * RESET keeps its more likely outcome, so the history stays deterministic.
+ *
+ * @param grid The circuit grid
+ * @param initialStates Optional starting state per row (missing rows start in |0⟩)
+ */
+export const simulateCircuit = (
+  grid: CircuitGrid,
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): ComplexArray[] => {
   const numRows = grid.length;
   const numCols = grid[0]?.length || 0;
 
-  let currentState = createInitialState(numRows);
+  let currentState = createInitialState(numRows, initialStates);
   const history: ComplexArray[] = [currentState];
 
   for (let col = 0; col < numCols; col++) {
@@ -2075,119 +2271,66 @@ export const simulateCircuit = (grid: CircuitGrid): Complex[][] => {
       warnings: null              // No warning collection
     });
     currentState = result.state;
+    for (const row of result.resetRows) {
+      const outcome = projectQubit(currentState, row, numRows, 0).probability >= 0.5 ? 0 : 1;
+      currentState = resetToOutcome(currentState, row, numRows, outcome).resetState;
+    }
     history.push(currentState);
   }
 
-  // Convert ComplexArray[] to Complex[][] for backward compatibility
-  return history.map(toComplexObjectArray);
+  return history;
 };
 
+/** Apply a single-qubit gate in place (controls must be 1) */
 const applyGate = (
-    state: ComplexArray,
-    gateType: GateType,
-    row: number,
-    controlMask: number,
-    numQubits: number,
-    params?: GateParams,
-    timeParameter?: number
-): ComplexArray => {
-    const matrix = getGateMatrix(gateType, params, timeParameter);
-    const len = complexLength(state);
-    const newState = createComplexArray(len);
-    const bit = numQubits - 1 - row;
-
-    for (let i = 0; i < len; i++) {
-        // If state is zero, skip
-        if (isZeroAt(state, i)) continue;
-
-        const stateRe = getRe(state, i);
-        const stateIm = getIm(state, i);
-
-        // Check controls
-        // If controls are NOT satisfied, this gate acts as Identity
-        if ((i & controlMask) !== controlMask) {
-            addToComplex(newState, i, stateRe, stateIm); // Identity
-            continue;
-        }
-
-        // Apply Gate Matrix
-        // Local index (0 or 1)
-        const localIdx = (i >> bit) & 1;
-        const otherBits = i & ~(1 << bit);
-
-        // Matrix multiplication
-        // |0> -> M00|0> + M10|1>
-        // |1> -> M01|0> + M11|1>
-
-        for (let k = 0; k < 2; k++) {
-            const matrixElem = matrix[k][localIdx];
-            if (isZero(matrixElem)) continue;
-
-            const targetIdx = otherBits | (k << bit);
-            // Inline cMul: (a+bi)(c+di) = (ac-bd) + (ad+bc)i
-            const valRe = matrixElem.re * stateRe - matrixElem.im * stateIm;
-            const valIm = matrixElem.re * stateIm + matrixElem.im * stateRe;
-            addToComplex(newState, targetIdx, valRe, valIm);
-        }
-    }
-    return newState;
-};
+  state: ComplexArray,
+  gateType: GateType,
+  row: number,
+  controlMask: number,
+  numQubits: number,
+  params?: GateParams,
+  timeParameter?: number
+): void => applyGateWithAntiControl(state, gateType, row, controlMask, 0, numQubits, params, timeParameter);
 
 
 // --- S and S† gate helpers for Y-basis control ---
 
+/** Apply S = [[1, 0], [0, i]] in place */
 const applyS = (
   state: ComplexArray,
   row: number,
   numQubits: number
-): ComplexArray => {
-  // S = [[1, 0], [0, i]]
+): void => {
   const len = complexLength(state);
-  const newState = createComplexArray(len);
-  const bit = numQubits - 1 - row;
-
-  for (let i = 0; i < len; i++) {
-    if (isZeroAt(state, i)) continue;
-
-    const stateRe = getRe(state, i);
-    const stateIm = getIm(state, i);
-    const localIdx = (i >> bit) & 1;
-    if (localIdx === 0) {
-      // |0⟩ → |0⟩ (multiply by 1)
-      addToComplex(newState, i, stateRe, stateIm);
-    } else {
-      // |1⟩ → i|1⟩ (multiply by i: (a+bi)*i = -b + ai)
-      addToComplex(newState, i, -stateIm, stateRe);
+  const stride = 1 << (numQubits - 1 - row);
+
+  // Only |1⟩ amplitudes change: (a+bi)*i = -b + ai
+  for (let base = stride; base < len; base += 2 * stride) {
+    for (let i = base; i < base + stride; i++) {
+      const re = state[i * 2];
+      state[i * 2] = -state[i * 2 + 1];
+      state[i * 2 + 1] = re;
     }
   }
-  return newState;
 };
 
+/** Apply S† = [[1, 0], [0, -i]] in place */
 const applySdagger = (
   state: ComplexArray,
   row: number,
   numQubits: number
-): ComplexArray => {
-  // S† = [[1, 0], [0, -i]]
+): void => {
   const len = complexLength(state);
-  const newState = createComplexArray(len);
-  const bit = numQubits - 1 - row;
-
-  for (let i = 0; i < len; i++) {
-    if (isZeroAt(state, i)) continue;
-
-    const stateRe = getRe(state, i);
-    const stateIm = getIm(state, i);
-    const localIdx = (i >> bit) & 1;
-    if (localIdx === 0) {
-      // |0⟩ → |0⟩ (multiply by 1)
-      addToComplex(newState, i, stateRe, stateIm);
-    } else {
-      // |1⟩ → -i|1⟩ (multiply by -i: (a+bi)*(-i) = b - ai)
-      addToComplex(newState, i, stateIm, -stateRe);
+  const stride = 1 << (numQubits - 1 - row);
+
+  // Only |1⟩ amplitudes change: (a+bi)*(-i) = b - ai
+  for (let base = stride; base < len; base += 2 * stride) {
+    for (let i = base; i < base + stride; i++) {
+      const re = state[i * 2];
+      state[i * 2] = state[i * 2 + 1];
+      state[i * 2 + 1] = -re;
     }
   }
-  return newState;
 };
 
 // --- Bit-reversal permutation for REVERSE gate ---
@@ -2214,12 +2357,16 @@ const bitReverse = (k: number, n: number): number => {
  * For example, if we have 4 qubits total and the span covers qubits 1-2:
  * The state |0110⟩ would have qubits 1 and 2 swapped, becoming |0110⟩ → no change (symmetric)
  * But |0100⟩ would become |0010⟩ (qubits 1 and 2 swapped)
+ *
+ * Basis states that fail the controls keep their place.
  */
 const applyBitReversePermutation = (
   state: ComplexArray,
   startRow: number,
   endRow: number,
-  numQubits: number
+  numQubits: number,
+  controlMask: number = 0,
+  antiControlMask: number = 0
 ): ComplexArray => {
   const spanSize = endRow - startRow + 1;
 
@@ -2238,6 +2385,10 @@ const applyBitReversePermutation = (
 
   for (let i = 0; i < len; i++) {
     if (isZeroAt(state, i)) continue;
+    if ((i & controlMask) !== controlMask || (i & antiControlMask) !== 0) {
+      addToComplex(newState, i, getRe(state, i), getIm(state, i));
+      continue;
+    }
 
     // Extract the bits within the span
     let spanBits = 0;
@@ -2271,6 +2422,7 @@ const applyBitReversePermutation = (
 
 // --- Gate application with anti-control support ---
 
+/** Swap two qubits in place where the controls are satisfied */
 const applySwapWithAntiControl = (
   state: ComplexArray,
   row1: number,
@@ -2278,36 +2430,33 @@ const applySwapWithAntiControl = (
   controlMask: number,
   antiControlMask: number,
   numQubits: number
-): ComplexArray => {
-  const newState = new Float64Array(state); // Copy the TypedArray
+): void => {
   const len = complexLength(state);
-  const bit1 = numQubits - 1 - row1;
-  const bit2 = numQubits - 1 - row2;
+  const mask1 = 1 << (numQubits - 1 - row1);
+  const mask2 = 1 << (numQubits - 1 - row2);
 
   for (let i = 0; i < len; i++) {
+    // Visit each |..1..0..⟩ ↔ |..0..1..⟩ pair once, from the side with row1 = 1
+    if ((i & mask1) === 0 || (i & mask2) !== 0) continue;
     // Check controls (must be 1) and anti-controls (must be 0)
     if ((i & controlMask) !== controlMask) continue;
     if ((i & antiControlMask) !== 0) continue;
 
-    const b1 = (i >> bit1) & 1;
-    const b2 = (i >> bit2) & 1;
-
-    if (b1 !== b2) {
-      const j = i ^ (1 << bit1) ^ (1 << bit2);
-      if (i < j) {
-        // Swap re and im for indices i and j
-        const tempRe = newState[i * 2];
-        const tempIm = newState[i * 2 + 1];
-        newState[i * 2] = newState[j * 2];
-        newState[i * 2 + 1] = newState[j * 2 + 1];
-        newState[j * 2] = tempRe;
-        newState[j * 2 + 1] = tempIm;
-      }
-    }
+    const j = i ^ mask1 ^ mask2;
+    const tempRe = state[i * 2];
+    const tempIm = state[i * 2 + 1];
+    state[i * 2] = state[j * 2];
+    state[i * 2 + 1] = state[j * 2 + 1];
+    state[j * 2] = tempRe;
+    state[j * 2 + 1] = tempIm;
   }
-  return newState;
 };
 
+/**
+ * Apply a single-qubit gate in place where the controls are satisfied.
+ * Each amplitude pair (|..0..⟩, |..1..⟩) on the target is updated together,
+ * so no scratch state is allocated.
+ */
 const applyGateWithAntiControl = (
   state: ComplexArray,
   gateType: GateType,
@@ -2317,44 +2466,31 @@ const applyGateWithAntiControl = (
   numQubits: number,
   params?: GateParams,
   timeParameter?: number
-): ComplexArray => {
-  const matrix = getGateMatrix(gateType, params, timeParameter);
+): void => {
+  const [[m00, m01], [m10, m11]] = getGateMatrix(gateType, params, timeParameter);
   const len = complexLength(state);
-  const newState = createComplexArray(len);
-  const bit = numQubits - 1 - row;
-
-  for (let i = 0; i < len; i++) {
-    if (isZeroAt(state, i)) continue;
-
-    const stateRe = getRe(state, i);
-    const stateIm = getIm(state, i);
-
-    // Check controls (must be 1) and anti-controls (must be 0)
-    const controlsSatisfied = (i & controlMask) === controlMask;
-    const antiControlsSatisfied = (i & antiControlMask) === 0;
-
-    if (!controlsSatisfied || !antiControlsSatisfied) {
-      // Gate acts as identity
-      addToComplex(newState, i, stateRe, stateIm);
-      continue;
-    }
-
-    // Apply gate matrix
-    const localIdx = (i >> bit) & 1;
-    const otherBits = i & ~(1 << bit);
-
-    for (let k = 0; k < 2; k++) {
-      const matrixElem = matrix[k][localIdx];
-      if (isZero(matrixElem)) continue;
-
-      const targetIdx = otherBits | (k << bit);
-      // Inline cMul: (a+bi)(c+di) = (ac-bd) + (ad+bc)i
-      const valRe = matrixElem.re * stateRe - matrixElem.im * stateIm;
-      const valIm = matrixElem.re * stateIm + matrixElem.im * stateRe;
-      addToComplex(newState, targetIdx, valRe, valIm);
+  const stride = 1 << (numQubits - 1 - row);
+
+  for (let base = 0; base < len; base += 2 * stride) {
+    for (let i0 = base; i0 < base + stride; i0++) {
+      // Check controls (must be 1) and anti-controls (must be 0); otherwise identity
+      if ((i0 & controlMask) !== controlMask) continue;
+      if ((i0 & antiControlMask) !== 0) continue;
+
+      const i1 = i0 + stride;
+      const re0 = state[i0 * 2];
+      const im0 = state[i0 * 2 + 1];
+      const re1 = state[i1 * 2];
+      const im1 = state[i1 * 2 + 1];
+      if (re0 === 0 && im0 === 0 && re1 === 0 && im1 === 0) continue;
+
+      // [a0', a1'] = M [a0, a1], with (a+bi)(c+di) = (ac-bd) + (ad+bc)i inlined
+      state[i0 * 2] = m00.re * re0 - m00.im * im0 + m01.re * re1 - m01.im * im1;
+      state[i0 * 2 + 1] = m00.re * im0 + m00.im * re0 + m01.re * im1 + m01.im * re1;
+      state[i1 * 2] = m10.re * re0 - m10.im * im0 + m11.re * re1 - m11.im * im1;
+      state[i1 * 2 + 1] = m10.re * im0 + m10.im * re0 + m11.re * im1 + m11.im * re1;
     }
   }
-  return newState;
 };
 
 // --- Visualization Logic ---
@@ -2430,48 +2566,94 @@ export const measureQubit = (
   // Convert Complex[] to ComplexArray if needed
   const stateArray: ComplexArray = Array.isArray(state) ? fromComplexObjectArray(state) : state;
 
+  // Generate random number and determine result
+  const zero = projectQubit(stateArray, qubit, numQubits, 0);
+  if (randomFn() <= zero.probability) {
+    return { result: 0, ...zero };
+  }
+  return { result: 1, ...projectQubit(stateArray, qubit, numQubits, 1) };
+};
+
+/**
+ * Project a qubit onto a definite outcome.
+ * Returns the Born-rule probability of that outcome and the renormalized state.
+ */
+const projectQubit = (
+  state: ComplexArray,
+  qubit: number,
+  numQubits: number,
+  outcome: 0 | 1
+): { probability: number; collapsedState: ComplexArray } => {
   const bit = numQubits - 1 - qubit;
-  const len = complexLength(stateArray);
+  const len = complexLength(state);
 
-  // Calculate probability of measuring 0
-  let prob0 = 0;
+  let probability = 0;
   for (let i = 0; i < len; i++) {
-    if (((i >> bit) & 1) === 0) {
-      const re = getRe(stateArray, i);
-      const im = getIm(stateArray, i);
-      prob0 += re * re + im * im;
+    if (((i >> bit) & 1) === outcome) {
+      const re = getRe(state, i);
+      const im = getIm(state, i);
+      probability += re * re + im * im;
     }
   }
 
-  // Generate random number and determine result
-  const r = randomFn();
-  const result: 0 | 1 = r <= prob0 ? 0 : 1;
-  const measuredProb = result === 0 ? prob0 : 1 - prob0;
-
-  // Collapse the state
+  // Keep matching amplitudes, normalized; others remain 0 (already initialized)
   const collapsedState = createComplexArray(len);
-  const normFactor = Math.sqrt(measuredProb);
-
+  const normFactor = Math.sqrt(probability);
   for (let i = 0; i < len; i++) {
-    const bitVal = (i >> bit) & 1;
-    if (bitVal === result) {
-      // Normalize this amplitude
-      const re = getRe(stateArray, i) / normFactor;
-      const im = getIm(stateArray, i) / normFactor;
-      setComplexValues(collapsedState, i, re, im);
+    if (((i >> bit) & 1) === outcome) {
+      setComplexValues(collapsedState, i, getRe(state, i) / normFactor, getIm(state, i) / normFactor);
     }
-    // Other amplitudes remain 0 (already initialized)
   }
 
-  return { result, probability: measuredProb, collapsedState };
+  return { probability, collapsedState };
+};
+
+/**
+ * Reset a qubit to |0⟩ along one measurement outcome: project, then flip it
+ * back if the outcome was 1. Returns the probability of that outcome.
+ */
+const resetToOutcome = (
+  state: ComplexArray,
+  qubit: number,
+  numQubits: number,
+  outcome: 0 | 1
+): { probability: number; resetState: ComplexArray } => {
+  const { probability, collapsedState } = projectQubit(state, qubit, numQubits, outcome);
+  if (outcome === 1) applyGate(collapsedState, GateType.X, qubit, 0, numQubits);
+  return { probability, resetState: collapsedState };
+};
+
+/**
+ * Reset a qubit to |0⟩: measure it, then flip it if the outcome was 1.
+ * The outcome is not a recorded measurement; it is returned for inspection only.
+ */
+export const resetQubit = (
+  state: ComplexArray,
+  qubit: number,
+  numQubits: number,
+  randomFn: () => number = Math.random
+): { result: 0 | 1; resetState: ComplexArray } => {
+  const { result } = measureQubit(state, qubit, numQubits, randomFn);
+  return { result, resetState: resetToOutcome(state, qubit, numQubits, result).resetState };
 };
 
+/**
+ * Called after each active column with the number of columns done so far.
+ * Returning false stops the run there: the result covers only those columns,
+ * and a cache passed to the run lets the same request resume where it stopped.
+ */
+export type SimulationProgressCallback = (completedColumns: number, totalColumns: number) => boolean | void;
+
 /** Result of running circuit with measurements */
 export interface CircuitSimulationResult {
-  /** Final quantum state after simulation */
-  finalState: Complex[];
-  /** State after each column (for step-through mode) */
-  stateHistory: Complex[][];
+  /** Final quantum state after simulation (over populated rows only) */
+  finalState: ComplexArray;
+  /**
+   * State after each active column (index 0 = initial state, for step-through mode).
+   * Past MAX_HISTORY_AMPLITUDES, null except for visualization columns and the
+   * final state. Entries are never mutated.
+   */
+  stateHistory: (ComplexArray | null)[];
   /** Column indices that have at least one gate (for timeline display) */
   activeColumns: number[];
   /** Measurement outcomes */
@@ -2486,7 +2668,7 @@ export interface CircuitSimulationResult {
  * Simple seeded random number generator (mulberry32)
  * Returns a function that generates random numbers in [0, 1)
  */
-const createSeededRandom = (seed: number): (() => number) => {
+export const createSeededRandom = (seed: number): (() => number) => {
   let state = seed;
   return () => {
     state = (state + 0x6D2B79F5) | 0;
@@ -2496,109 +2678,1222 @@ const createSeededRandom = (seed: number): (() => number) => {
   };
 };
 
+/** Rows and columns that take part in execution, with the row compaction map */
+interface ExecutionLayout {
+  /** Rows that have at least one gate */
+  populatedRows: number[];
+  /** Original row -> filtered row */
+  rowToFiltered: Map<number, number>;
+  /** Column indices that have at least one gate */
+  activeColumns: number[];
+}
+
 /**
- * Run the circuit with actual measurements.
- * This is used for the "Run" workflow and performs real measurements.
- * Unpopulated wires (rows with no gates) are filtered out before simulation.
- *
- * @param grid The circuit grid
- * @param timeParameter Optional time parameter for animated gates
- * @param measurementSeed Optional seed for reproducible measurements (for animation stability)
+ * Find the rows and columns to simulate.
+ * Unpopulated wires are dropped so the state vector only spans rows in use;
+ * a wire with a non-|0⟩ initial state counts as populated.
  */
-export const runCircuitWithMeasurements = (
+const getExecutionLayout = (
   grid: CircuitGrid,
-  timeParameter?: number,
-  measurementSeed?: number
-): CircuitSimulationResult => {
-  // Use seeded random if seed provided, otherwise use Math.random
-  const random = measurementSeed !== undefined
-    ? createSeededRandom(measurementSeed)
-    : Math.random.bind(Math);
-  const numRows = grid.length;
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): ExecutionLayout => {
   const numCols = grid[0]?.length || 0;
-  const warnings: SimulationWarning[] = [];
 
-  // Find which rows have at least one gate
   const populatedRows: number[] = [];
-  for (let row = 0; row < numRows; row++) {
-    const hasGate = grid[row].some(cell => cell.gate !== null);
-    if (hasGate) {
+  for (let row = 0; row < grid.length; row++) {
+    if (!isDefaultInitialState(initialStates[row]) || grid[row].some(cell => cell.gate !== null)) {
       populatedRows.push(row);
     }
   }
 
-  // If no gates at all, return default state for all qubits
-  if (populatedRows.length === 0) {
-    const initialState = toComplexObjectArray(createInitialState(numRows));
-    return {
-      finalState: initialState,
-      stateHistory: [initialState],
-      activeColumns: [],
-      measurements: [],
-      populatedRows: [],
-      warnings: []
-    };
-  }
-
-  // Create mapping from original row index to filtered row index
   const rowToFiltered = new Map<number, number>();
   populatedRows.forEach((originalRow, filteredIdx) => {
     rowToFiltered.set(originalRow, filteredIdx);
   });
 
-  const numFilteredRows = populatedRows.length;
-  let currentState = createInitialState(numFilteredRows);
-  const measurements: { qubit: number; result: 0 | 1; probability: number }[] = [];
-
-  // Track state history and active columns
-  const stateHistory: Complex[][] = [toComplexObjectArray(currentState)];
   const activeColumns: number[] = [];
-
-  // Helper to check if column has any gates
-  const columnHasGates = (col: number): boolean => {
-    for (const originalRow of populatedRows) {
-      const cell = grid[originalRow]?.[col];
-      if (cell?.gate !== null) return true;
+  for (let col = 0; col < numCols; col++) {
+    if (populatedRows.some(row => grid[row][col]?.gate !== null)) {
+      activeColumns.push(col);
     }
-    return false;
-  };
+  }
 
-  for (let col = 0; col < numCols; col++) {
-    // Only process and record columns with gates
-    if (!columnHasGates(col)) continue;
+  return { populatedRows, rowToFiltered, activeColumns };
+};
 
-    activeColumns.push(col);
+// --- Column History ---
 
-    const result = simulateColumn(currentState, grid, col, {
-      numQubits: numFilteredRows,
-      columnIndex: col,
-      rowMapping: rowToFiltered,
-      processAdvancedGates: true,
-      warnings,
-      timeParameter
-    });
-    currentState = result.state;
+/**
+ * Amplitudes (or density-matrix entries) a run keeps in its per-column history.
+ * At 20 qubits a single state holds 2^20 amplitudes, so longer circuits keep
+ * only the states that visualization gates show and the final state.
+ */
+export const MAX_HISTORY_AMPLITUDES = 1 << 22;
 
-    // Perform measurements (collapse the state)
-    // Use seeded random for reproducible results during animation
-    for (let i = 0; i < result.measureRows.length; i++) {
-      const { result: mResult, probability, collapsedState } = measureQubit(
-        currentState, result.measureRows[i], numFilteredRows, random
-      );
-      measurements.push({ qubit: result.measureOriginalRows[i], result: mResult, probability });
-      currentState = collapsedState;
+/**
+ * Which history entries a run keeps: all of them when they fit in
+ * MAX_HISTORY_AMPLITUDES, otherwise the entries after columns holding a
+ * visualization gate plus the final one.
+ */
+const getHistoryFilter = (
+  grid: CircuitGrid,
+  populatedRows: number[],
+  activeColumns: number[],
+  stateSize: number
+): (historyIndex: number) => boolean => {
+  if ((activeColumns.length + 1) * stateSize <= MAX_HISTORY_AMPLITUDES) return () => true;
+  const kept = new Set([activeColumns.length]);
+  activeColumns.forEach((col, i) => {
+    if (populatedRows.some(row => {
+      const type = grid[row][col].gate;
+      return type !== null && isVisualizationGate(type);
+    })) {
+      kept.add(i + 1);
     }
+  });
+  return historyIndex => kept.has(historyIndex);
+};
 
-    // Record state after this column
-    stateHistory.push(toComplexObjectArray(currentState));
-  }
+// --- Incremental Re-simulation ---
 
-  return {
-    finalState: toComplexObjectArray(currentState),
-    stateHistory,
-    activeColumns,
-    measurements,
-    populatedRows,
-    warnings
+/**
+ * Amplitudes (or density-matrix entries) held by the checkpoints of one engine's
+ * cache. Past this, checkpoints are thinned to every k-th column.
+ */
+const MAX_CHECKPOINT_AMPLITUDES = 1 << 22;
+
+/** Engine state after one active column, enough to resume a run from there */
+interface ColumnCheckpoint<S> {
+  /** Active columns simulated before this checkpoint (0 = initial state) */
+  completedColumns: number;
+  snapshot: S;
+  /** Measurements and warnings recorded up to and including this column */
+  measurementCount: number;
+  warningCount: number;
+}
+
+/** Results of the last run of one engine */
+interface EngineCache<S, M, H> {
+  /** Key of everything outside the columns: rows, initial states, noise model */
+  runKey: string;
+  /** Key of each simulated active column */
+  columnKeys: string[];
+  /** The run's history, to reuse the entries of unchanged columns */
+  history: (H | null)[];
+  /** The initial state, every `checkpointStride`-th column and the last simulated one */
+  checkpoints: ColumnCheckpoint<S>[];
+  checkpointStride: number;
+  measurements: M[];
+  warnings: SimulationWarning[];
+}
+
+/** State-vector engine state after a column */
+interface StateVectorSnapshot {
+  state: ComplexArray;
+  classicalBits: ReadonlyMap<number, 0 | 1>;
+  /** Random numbers drawn so far, to replay a seeded stream up to this column */
+  randomDraws: number;
+}
+
+/** Density-matrix engine state after a column */
+interface DensitySnapshot {
+  branches: DensityBranch[];
+  /** Sum of the branches (the history entry) */
+  density: DensityMatrix;
+}
+
+/**
+ * Per-column results of the previous run of each engine.
+ *
+ * Passing the same cache to successive runs resumes each run from the first
+ * active column whose contents changed, instead of from the initial state.
+ * Large runs keep checkpoints only every few columns, so they resume from the
+ * last checkpoint before that column.
+ * Cached states are shared with returned results, so neither may be mutated.
+ */
+export interface SimulationCache {
+  stateVector: EngineCache<StateVectorSnapshot, CircuitSimulationResult['measurements'][number], ComplexArray> | null;
+  densityMatrix: EngineCache<DensitySnapshot, DensityMatrixSimulationResult['measurements'][number], DensityMatrix> | null;
+}
+
+export const createSimulationCache = (): SimulationCache => ({ stateVector: null, densityMatrix: null });
+
+/**
+ * Key of a column's contents over the populated rows. Gate ids are left out,
+ * and the time parameter and measurement seed only count for columns that read
+ * them, so animating t re-simulates from the first time-dependent column.
+ */
+const getColumnKey = (
+  grid: CircuitGrid,
+  col: number,
+  populatedRows: number[],
+  timeParameter: number | undefined,
+  randomKey: string
+): string => {
+  let readsTime = false;
+  let drawsRandom = false;
+  const cells = populatedRows.map(row => {
+    const { gate, params } = grid[row][col];
+    if (gate !== null && (isTimeParameterizedGate(gate) || isExponentialGate(gate))) readsTime = true;
+    if (gate === GateType.MEASURE || gate === GateType.RESET) drawsRandom = true;
+    return [gate, params ?? null];
+  });
+  // Warnings record the column index, so it is part of the key
+  return JSON.stringify([col, cells, readsTime ? timeParameter ?? 0 : null, drawsRandom ? randomKey : null]);
+};
+
+/**
+ * Cached checkpoint a run resumes from: the last one within the unchanged
+ * leading columns before which every history entry the run keeps is cached.
+ * Null when the run starts over.
+ */
+const findResumeCheckpoint = <S, M, H>(
+  cache: EngineCache<S, M, H> | null,
+  runKey: string,
+  columnKeys: string[],
+  keepHistory: (historyIndex: number) => boolean
+): ColumnCheckpoint<S> | null => {
+  if (!cache || cache.runKey !== runKey) return null;
+  let unchanged = 0;
+  while (
+    unchanged < columnKeys.length &&
+    unchanged < cache.columnKeys.length &&
+    cache.columnKeys[unchanged] === columnKeys[unchanged]
+  ) {
+    unchanged++;
+  }
+  const firstMissing = cache.history.findIndex((entry, index) => entry === null && keepHistory(index));
+  const limit = firstMissing === -1 ? unchanged : Math.min(unchanged, firstMissing - 1);
+  let resumeFrom: ColumnCheckpoint<S> | null = null;
+  for (const checkpoint of cache.checkpoints) {
+    if (checkpoint.completedColumns <= limit) resumeFrom = checkpoint;
+  }
+  return resumeFrom;
+};
+
+/**
+ * Add the checkpoint after a column. Besides the initial state, only every
+ * `stride`-th column and the latest one are kept; the stride doubles whenever
+ * more than `limit` checkpoints would be kept. Returns the new stride.
+ */
+const addCheckpoint = <S>(
+  checkpoints: ColumnCheckpoint<S>[],
+  checkpoint: ColumnCheckpoint<S>,
+  stride: number,
+  limit: number
+): number => {
+  const latest = checkpoints[checkpoints.length - 1];
+  if (latest.completedColumns % stride !== 0) checkpoints.pop();
+  checkpoints.push(checkpoint);
+  while (checkpoints.length > limit) {
+    stride *= 2;
+    let kept = 0;
+    checkpoints.forEach((entry, index) => {
+      if (entry.completedColumns % stride === 0 || index === checkpoints.length - 1) checkpoints[kept++] = entry;
+    });
+    checkpoints.length = kept;
+  }
+  return stride;
+};
+
+/**
+ * Run the circuit with actual measurements.
+ * This is used for the "Run" workflow and performs real measurements.
+ * Unpopulated wires (rows with no gates) are filtered out before simulation.
+ *
+ * @param grid The circuit grid
+ * @param timeParameter Optional time parameter for animated gates
+ * @param measurementSeed Optional seed for reproducible measurements (for animation stability)
+ * @param initialStates Optional starting state per row (missing rows start in |0⟩)
+ * @param onProgress Optional callback after each active column
+ * @param cache Optional cache of the previous run; unchanged leading columns are reused
+ */
+export const runCircuitWithMeasurements = (
+  grid: CircuitGrid,
+  timeParameter?: number,
+  measurementSeed?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  onProgress?: SimulationProgressCallback,
+  cache?: SimulationCache
+): CircuitSimulationResult => {
+  const { populatedRows, rowToFiltered, activeColumns } = getExecutionLayout(grid, initialStates);
+
+  // If no gates at all, return the (trivial) state over zero qubits
+  if (populatedRows.length === 0) {
+    const initialState = createInitialState(0);
+    return {
+      finalState: initialState,
+      stateHistory: [initialState],
+      activeColumns: [],
+      measurements: [],
+      populatedRows: [],
+      warnings: []
+    };
+  }
+
+  const numFilteredRows = populatedRows.length;
+  const runKey = JSON.stringify([populatedRows, populatedRows.map(row => initialStates[row] ?? null)]);
+  const randomKey = measurementSeed === undefined ? 'unseeded' : String(measurementSeed);
+  const columnKeys = cache
+    ? activeColumns.map(col => getColumnKey(grid, col, populatedRows, timeParameter, randomKey))
+    : [];
+  const cached = cache?.stateVector ?? null;
+  const stateSize = 1 << numFilteredRows;
+  const keepHistory = getHistoryFilter(grid, populatedRows, activeColumns, stateSize);
+  const cachedCheckpoint = findResumeCheckpoint(cached, runKey, columnKeys, keepHistory);
+
+  // Resume after the last unchanged column (or start from the initial state)
+  const resumeFrom: ColumnCheckpoint<StateVectorSnapshot> = cachedCheckpoint ?? {
+    completedColumns: 0,
+    snapshot: {
+      state: createInitialState(numFilteredRows, populatedRows.map(row => initialStates[row])),
+      classicalBits: new Map(),
+      randomDraws: 0
+    },
+    measurementCount: 0,
+    warningCount: 0
+  };
+  const reused = resumeFrom.completedColumns;
+  const checkpoints = cachedCheckpoint
+    ? cached!.checkpoints.filter(checkpoint => checkpoint.completedColumns <= reused)
+    : [resumeFrom];
+  let checkpointStride = cachedCheckpoint ? cached!.checkpointStride : 1;
+  const checkpointLimit = Math.max(2, Math.floor(MAX_CHECKPOINT_AMPLITUDES / stateSize));
+  let currentState = resumeFrom.snapshot.state;
+  const measurements = cachedCheckpoint ? cached!.measurements.slice(0, resumeFrom.measurementCount) : [];
+  const warnings = cachedCheckpoint ? cached!.warnings.slice(0, resumeFrom.warningCount) : [];
+  // Latest outcome per measured row, read by classical controls
+  const classicalBits = new Map(resumeFrom.snapshot.classicalBits);
+
+  // Use seeded random if seed provided, otherwise use Math.random.
+  // A seeded stream is replayed up to the resumed column.
+  let randomDraws = resumeFrom.snapshot.randomDraws;
+  const nextRandom = measurementSeed !== undefined
+    ? createSeededRandom(measurementSeed)
+    : Math.random.bind(Math);
+  if (measurementSeed !== undefined) {
+    for (let i = 0; i < randomDraws; i++) nextRandom();
+  }
+  const random = () => {
+    randomDraws++;
+    return nextRandom();
+  };
+
+  // Track state history (only columns with gates are recorded)
+  // Every column yields a fresh array (simulateColumn copies before updating in place),
+  // so states are recorded without copying
+  const stateHistory: (ComplexArray | null)[] = cachedCheckpoint
+    ? cached!.history.slice(0, reused + 1).map((state, index) => keepHistory(index) ? state : null)
+    : [keepHistory(0) ? currentState : null];
+
+  for (let i = reused; i < activeColumns.length; i++) {
+    const col = activeColumns[i];
+    const result = simulateColumn(currentState, grid, col, {
+      numQubits: numFilteredRows,
+      columnIndex: col,
+      rowMapping: rowToFiltered,
+      processAdvancedGates: true,
+      warnings,
+      timeParameter,
+      classicalBits
+    });
+    currentState = result.state;
+
+    // Perform measurements (collapse the state)
+    // Use seeded random for reproducible results during animation
+    for (let j = 0; j < result.measureRows.length; j++) {
+      const { result: mResult, probability, collapsedState } = measureQubit(
+        currentState, result.measureRows[j], numFilteredRows, random
+      );
+      measurements.push({ qubit: result.measureOriginalRows[j], result: mResult, probability });
+      classicalBits.set(result.measureOriginalRows[j], mResult);
+      currentState = collapsedState;
+    }
+
+    // Resets draw from the same random stream but are not recorded as measurements
+    for (const row of result.resetRows) {
+      currentState = resetQubit(currentState, row, numFilteredRows, random).resetState;
+    }
+
+    // Record state after this column
+    stateHistory.push(keepHistory(i + 1) ? currentState : null);
+    checkpointStride = addCheckpoint(checkpoints, {
+      completedColumns: i + 1,
+      snapshot: { state: currentState, classicalBits: new Map(classicalBits), randomDraws },
+      measurementCount: measurements.length,
+      warningCount: warnings.length
+    }, checkpointStride, checkpointLimit);
+    if (onProgress?.(i + 1, activeColumns.length) === false) break;
+  }
+
+  if (cache) {
+    cache.stateVector = {
+      runKey,
+      columnKeys: columnKeys.slice(0, stateHistory.length - 1),
+      history: stateHistory,
+      checkpoints,
+      checkpointStride,
+      measurements,
+      warnings
+    };
+  }
+
+  return {
+    finalState: currentState,
+    stateHistory,
+    activeColumns,
+    measurements,
+    populatedRows,
+    warnings
+  };
+};
+
+// --- Multi-shot Sampling ---
+
+/** Largest number of shots accepted by runShots */
+export const MAX_SHOTS = 100000;
+
+/** Measurement branches tracked before exact probabilities are given up */
+const MAX_EXACT_BRANCHES = 4096;
+
+/** Amplitudes held by all branches together; each branch keeps a full state */
+const MAX_BRANCH_AMPLITUDES = 1 << 22;
+
+/** Distinct outcomes kept in an exact probability map */
+export const MAX_EXACT_OUTCOMES = 4096;
+
+/**
+ * Amplitudes updated by all sampled shots together (about a second of work).
+ * Each shot re-simulates every column from the first measurement or reset on,
+ * so wide or long circuits run fewer shots than requested.
+ */
+export const MAX_SHOT_AMPLITUDES = 1 << 27;
+
+/** Aggregated outcomes of running a circuit many times */
+export interface ShotsResult {
+  /** Number of shots that were run (fewer than requested past MAX_SHOT_AMPLITUDES) */
+  shots: number;
+  /**
+   * Rows whose outcomes make up each bitstring, top row first.
+   * These are the measured rows, or every populated row when the circuit has
+   * no MEASURE gates (which then behaves as a final measurement of all wires).
+   */
+  qubits: number[];
+  /** Number of shots that produced each bitstring */
+  counts: Record<string, number>;
+  /** Exact Born-rule probability of each bitstring, or null if too many measurement branches or outcomes */
+  probabilities: Record<string, number> | null;
+  /** Warnings from simulation */
+  warnings: SimulationWarning[];
+}
+
+/**
+ * Sum probabilities per outcome, or null once more than MAX_EXACT_OUTCOMES
+ * distinct outcomes turn up
+ */
+const sumOutcomeProbabilities = (
+  visit: (add: (key: string, probability: number) => void) => void
+): Record<string, number> | null => {
+  const probabilities = new Map<string, number>();
+  let overflow = false;
+  visit((key, probability) => {
+    if (overflow) return;
+    if (!probabilities.has(key) && probabilities.size === MAX_EXACT_OUTCOMES) {
+      overflow = true;
+      return;
+    }
+    probabilities.set(key, (probabilities.get(key) ?? 0) + probability);
+  });
+  return overflow ? null : Object.fromEntries(probabilities);
+};
+
+/** A measurement history with the state it leaves behind */
+interface MeasurementBranch {
+  state: ComplexArray;
+  probability: number;
+  outcomes: Map<number, 0 | 1>;
+}
+
+/**
+ * Run the circuit `shots` times and count the outcome bitstrings.
+ *
+ * Columns before the first measurement or reset are deterministic, so they are
+ * simulated once and every shot continues from there. The last outcome of each
+ * measured row forms the bitstring. Exact probabilities come from following every
+ * measurement (and reset) branch instead of sampling; they are given up (null)
+ * once the branches would hold too many states, or there are too many outcomes.
+ * Shots that re-simulate columns stop at MAX_SHOT_AMPLITUDES of work.
+ *
+ * @param grid The circuit grid
+ * @param shots Number of runs (clamped to 1..MAX_SHOTS)
+ * @param seed Seed for reproducible sampling
+ * @param timeParameter Optional time parameter for animated gates
+ * @param initialStates Optional starting state per row (missing rows start in |0⟩)
+ */
+export const runShots = (
+  grid: CircuitGrid,
+  shots: number,
+  seed: number,
+  timeParameter?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): ShotsResult => {
+  const requestedShots = Math.max(1, Math.min(MAX_SHOTS, Math.floor(shots)));
+  const random = createSeededRandom(seed);
+  const warnings: SimulationWarning[] = [];
+  const { populatedRows, rowToFiltered, activeColumns } = getExecutionLayout(grid, initialStates);
+  const numQubits = populatedRows.length;
+
+  if (numQubits === 0) {
+    return { shots: requestedShots, qubits: [], counts: {}, probabilities: {}, warnings };
+  }
+
+  // Classical controls read the shot's (or branch's) outcomes so far
+  const runColumn = (state: ComplexArray, col: number, collectWarnings: boolean, classicalBits: Map<number, 0 | 1>) =>
+    simulateColumn(state, grid, col, {
+      numQubits,
+      columnIndex: col,
+      rowMapping: rowToFiltered,
+      processAdvancedGates: true,
+      warnings: collectWarnings ? warnings : null,
+      timeParameter,
+      classicalBits
+    });
+
+  // Simulate up to (and including the gates of) the first column that measures or resets
+  let prefixState = createInitialState(numQubits, populatedRows.map(row => initialStates[row]));
+  let firstCollapseIndex = -1;
+  let firstCollapse: SimulateColumnResult | null = null;
+  for (let i = 0; i < activeColumns.length && !firstCollapse; i++) {
+    const result = runColumn(prefixState, activeColumns[i], true, new Map());
+    prefixState = result.state;
+    if (result.measureRows.length > 0 || result.resetRows.length > 0) {
+      firstCollapseIndex = i;
+      firstCollapse = result;
+    }
+  }
+
+  // No MEASURE or RESET gates: sample every populated wire from the final state
+  if (!firstCollapse) {
+    const cumulative = new Float64Array(complexLength(prefixState));
+    let total = 0;
+    for (let i = 0; i < cumulative.length; i++) {
+      total += getRe(prefixState, i) ** 2 + getIm(prefixState, i) ** 2;
+      cumulative[i] = total;
+    }
+    const probabilities = sumOutcomeProbabilities(add => {
+      for (let i = 0; i < cumulative.length; i++) {
+        const p = cumulative[i] - (i > 0 ? cumulative[i - 1] : 0);
+        if (p > EPSILON) add(i.toString(2).padStart(numQubits, '0'), p);
+      }
+    });
+
+    const counts: Record<string, number> = {};
+    for (let s = 0; s < requestedShots; s++) {
+      // Binary search for the first cumulative probability above r
+      const r = random() * total;
+      let lo = 0;
+      let hi = cumulative.length - 1;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cumulative[mid] > r) hi = mid;
+        else lo = mid + 1;
+      }
+      const key = lo.toString(2).padStart(numQubits, '0');
+      counts[key] = (counts[key] ?? 0) + 1;
+    }
+
+    return { shots: requestedShots, qubits: populatedRows, counts, probabilities, warnings };
+  }
+
+  // Without MEASURE gates (only resets), every wire is measured at the end
+  const measuredRows = populatedRows.filter(row =>
+    activeColumns.some(col => grid[row][col].gate === GateType.MEASURE)
+  );
+  const measureAll = measuredRows.length === 0;
+  const toKey = (outcomes: Map<number, 0 | 1>) =>
+    measuredRows.map(row => outcomes.get(row) ?? 0).join('');
+  const toBasisKey = (index: number) => index.toString(2).padStart(numQubits, '0');
+
+  // Every branch keeps a full state, so wide circuits get fewer branches
+  const branchLimit = Math.max(1, Math.min(MAX_EXACT_BRANCHES, Math.floor(MAX_BRANCH_AMPLITUDES / (1 << numQubits))));
+
+  // Split each branch on both outcomes; null as soon as there would be more than limit branches
+  const splitBranches = (
+    branches: MeasurementBranch[],
+    limit: number,
+    split: (branch: MeasurementBranch, outcome: 0 | 1) => MeasurementBranch | null
+  ): MeasurementBranch[] | null => {
+    const next: MeasurementBranch[] = [];
+    for (const branch of branches) {
+      for (const outcome of [0, 1] as const) {
+        const child = split(branch, outcome);
+        if (!child) continue;
+        if (next.length === limit) return null;
+        next.push(child);
+      }
+    }
+    return next;
+  };
+
+  // Apply one column's measurements and resets to every branch, splitting on each
+  // outcome; null once there would be more than limit branches
+  const measureBranches = (
+    branches: MeasurementBranch[],
+    result: SimulateColumnResult,
+    limit: number
+  ): MeasurementBranch[] | null => {
+    let next: MeasurementBranch[] | null = branches.map(branch => ({ ...branch, state: result.state }));
+    for (let m = 0; m < result.measureRows.length && next; m++) {
+      next = splitBranches(next, limit, (branch, outcome) => {
+        const { probability, collapsedState } = projectQubit(branch.state, result.measureRows[m], numQubits, outcome);
+        if (branch.probability * probability <= EPSILON) return null;
+        const outcomes = new Map(branch.outcomes).set(result.measureOriginalRows[m], outcome);
+        return { state: collapsedState, probability: branch.probability * probability, outcomes };
+      });
+    }
+    // Reset outcomes split the state but leave the classical record alone
+    for (let r = 0; r < result.resetRows.length && next; r++) {
+      next = splitBranches(next, limit, (branch, outcome) => {
+        const { probability, resetState } = resetToOutcome(branch.state, result.resetRows[r], numQubits, outcome);
+        if (branch.probability * probability <= EPSILON) return null;
+        return { ...branch, state: resetState, probability: branch.probability * probability };
+      });
+    }
+    return next;
+  };
+
+  // Exact: follow every measurement branch
+  let branches: MeasurementBranch[] | null = measureBranches(
+    [{ state: prefixState, probability: 1, outcomes: new Map() }],
+    firstCollapse,
+    branchLimit
+  );
+  for (let i = firstCollapseIndex + 1; i < activeColumns.length && branches; i++) {
+    let next: MeasurementBranch[] | null = [];
+    for (const branch of branches) {
+      const result = runColumn(branch.state, activeColumns[i], false, branch.outcomes);
+      const split = measureBranches([branch], result, branchLimit - next.length);
+      if (!split) {
+        next = null;
+        break;
+      }
+      next.push(...split);
+    }
+    branches = next;
+  }
+
+  const exactBranches = branches;
+  const probabilities = exactBranches && sumOutcomeProbabilities(add => {
+    for (const branch of exactBranches) {
+      if (measureAll) {
+        for (let i = 0; i < complexLength(branch.state); i++) {
+          const p = branch.probability * (getRe(branch.state, i) ** 2 + getIm(branch.state, i) ** 2);
+          if (p > EPSILON) add(toBasisKey(i), p);
+        }
+      } else {
+        add(toKey(branch.outcomes), branch.probability);
+      }
+    }
+  });
+
+  // Sample: each shot continues from the first measuring or resetting column
+  const shotAmplitudes = (activeColumns.length - firstCollapseIndex) * (1 << numQubits);
+  const shotCount = Math.max(1, Math.min(requestedShots, Math.floor(MAX_SHOT_AMPLITUDES / shotAmplitudes)));
+  const counts: Record<string, number> = {};
+  for (let s = 0; s < shotCount; s++) {
+    const outcomes = new Map<number, 0 | 1>();
+    let state = prefixState;
+    for (let i = firstCollapseIndex; i < activeColumns.length; i++) {
+      const result = i === firstCollapseIndex ? firstCollapse : runColumn(state, activeColumns[i], s === 0, outcomes);
+      state = result.state;
+      for (let m = 0; m < result.measureRows.length; m++) {
+        const measured = measureQubit(state, result.measureRows[m], numQubits, random);
+        outcomes.set(result.measureOriginalRows[m], measured.result);
+        state = measured.collapsedState;
+      }
+      for (const row of result.resetRows) {
+        state = resetQubit(state, row, numQubits, random).resetState;
+      }
+    }
+    const key = measureAll ? toBasisKey(sampleBasisState(state, random)) : toKey(outcomes);
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+
+  return { shots: shotCount, qubits: measureAll ? populatedRows : measuredRows, counts, probabilities, warnings };
+};
+
+/** Sample a computational basis index from a state's Born-rule distribution */
+const sampleBasisState = (state: ComplexArray, random: () => number): number => {
+  const r = random();
+  let cumulative = 0;
+  const last = complexLength(state) - 1;
+  for (let i = 0; i < last; i++) {
+    cumulative += getRe(state, i) ** 2 + getIm(state, i) ** 2;
+    if (cumulative > r) return i;
+  }
+  return last;
+};
+
+// --- Density Matrix Simulation ---
+
+/** Global noise model: a channel applied after every gate, on each wire the gate touches */
+export interface NoiseModel {
+  channel: NoiseGate;
+  /** Channel strength p in [0, 1] */
+  strength: number;
+}
+
+/** Result of a density-matrix run */
+export interface DensityMatrixSimulationResult {
+  /** Final density matrix (over populated rows only) */
+  finalDensity: DensityMatrix;
+  /**
+   * Density matrix after each active column (index 0 = initial state).
+   * Past MAX_HISTORY_AMPLITUDES, null except for visualization columns and the final one.
+   */
+  densityHistory: (DensityMatrix | null)[];
+  /** Column indices that have at least one gate */
+  activeColumns: number[];
+  /** Measurement probabilities P(1), in circuit order */
+  measurements: { qubit: number; probability: number }[];
+  /** Rows that have at least one gate */
+  populatedRows: number[];
+  /** Warnings from simulation */
+  warnings: SimulationWarning[];
+}
+
+/**
+ * Part of a density-matrix run that shares one classical record.
+ * Densities are unnormalized: each trace is the probability of its record.
+ */
+interface DensityBranch {
+  classicalBits: Map<number, 0 | 1>;
+  density: DensityMatrix;
+}
+
+/**
+ * Most populated rows a density-matrix run accepts. ρ has 4^n entries, so this
+ * stays well below the state-vector limit (MAX_ROWS).
+ */
+export const MAX_DENSITY_QUBITS = 8;
+
+/** Whether the circuit contains noise gates (and so needs density-matrix simulation) */
+export const hasNoiseGates = (grid: CircuitGrid): boolean =>
+  grid.some(row => row.some(cell => cell.gate !== null && isNoiseGate(cell.gate)));
+
+/**
+ * Run the circuit on a density matrix.
+ *
+ * Each column's gates are applied as U ρ U† using the same column logic as the
+ * state-vector engine. Then, in order: the noise model's channel on every wire
+ * holding a gate, noise gates, RESET gates, and MEASURE gates (as non-selective
+ * measurements, so the result is the average over all outcomes).
+ *
+ * Measurements read by classical controls split the run into branches, one per
+ * classical record, so each branch applies its own conditional gates.
+ *
+ * @param grid The circuit grid
+ * @param noiseModel Optional noise applied after every gate
+ * @param timeParameter Optional time parameter for animated gates
+ * @param initialStates Optional starting state per row (missing rows start in |0⟩)
+ * @param onProgress Optional callback after each active column
+ * @param cache Optional cache of the previous run; unchanged leading columns are reused
+ * @throws Error if more than MAX_DENSITY_QUBITS rows are populated
+ */
+export const runDensityMatrixSimulation = (
+  grid: CircuitGrid,
+  noiseModel: NoiseModel | null = null,
+  timeParameter?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  onProgress?: SimulationProgressCallback,
+  cache?: SimulationCache
+): DensityMatrixSimulationResult => {
+  const { populatedRows, rowToFiltered, activeColumns } = getExecutionLayout(grid, initialStates);
+
+  if (populatedRows.length === 0) {
+    const initial = createInitialDensityMatrix(0);
+    return {
+      finalDensity: initial,
+      densityHistory: [initial],
+      activeColumns: [],
+      measurements: [],
+      populatedRows: [],
+      warnings: []
+    };
+  }
+
+  const numQubits = populatedRows.length;
+  if (numQubits > MAX_DENSITY_QUBITS) {
+    throw new Error(
+      `Noise simulation supports at most ${MAX_DENSITY_QUBITS} qubits; this circuit uses ${numQubits}`
+    );
+  }
+
+  // Only outcomes that classical controls read need separate branches
+  const classicalRows = new Set(populatedRows.filter(row =>
+    activeColumns.some(col => {
+      const type = grid[row][col].gate;
+      return type !== null && isClassicalControlGate(type);
+    })
+  ));
+  const branchKey = (branch: DensityBranch) =>
+    Array.from(classicalRows, row => branch.classicalBits.get(row) ?? '-').join('');
+  const sumBranches = (list: DensityBranch[]) =>
+    list.slice(1).reduce((sum, branch) => addDensityMatrices(sum, branch.density), list[0].density);
+
+  // Which measurements branch depends on the whole circuit, so it is part of the run key
+  const runKey = JSON.stringify([
+    populatedRows, populatedRows.map(row => initialStates[row] ?? null), noiseModel, Array.from(classicalRows)
+  ]);
+  const columnKeys = cache
+    ? activeColumns.map(col => getColumnKey(grid, col, populatedRows, timeParameter, ''))
+    : [];
+  const cached = cache?.densityMatrix ?? null;
+  // Checkpoints are counted as one density matrix each, whatever their branches
+  const densitySize = 1 << (2 * numQubits);
+  const keepHistory = getHistoryFilter(grid, populatedRows, activeColumns, densitySize);
+  const cachedCheckpoint = findResumeCheckpoint(cached, runKey, columnKeys, keepHistory);
+
+  // Resume after the last unchanged column (or start from the initial state)
+  const initialDensity = cachedCheckpoint ? null : densityMatrixFromState(
+    createInitialState(numQubits, populatedRows.map(row => initialStates[row]))
+  );
+  const resumeFrom: ColumnCheckpoint<DensitySnapshot> = cachedCheckpoint ?? {
+    completedColumns: 0,
+    snapshot: { branches: [{ classicalBits: new Map(), density: initialDensity! }], density: initialDensity! },
+    measurementCount: 0,
+    warningCount: 0
+  };
+  const reused = resumeFrom.completedColumns;
+  const checkpoints = cachedCheckpoint
+    ? cached!.checkpoints.filter(checkpoint => checkpoint.completedColumns <= reused)
+    : [resumeFrom];
+  let checkpointStride = cachedCheckpoint ? cached!.checkpointStride : 1;
+  const checkpointLimit = Math.max(2, Math.floor(MAX_CHECKPOINT_AMPLITUDES / densitySize));
+  let branches = resumeFrom.snapshot.branches;
+  const measurements = cachedCheckpoint ? cached!.measurements.slice(0, resumeFrom.measurementCount) : [];
+  const warnings = cachedCheckpoint ? cached!.warnings.slice(0, resumeFrom.warningCount) : [];
+  const densityHistory: (DensityMatrix | null)[] = cachedCheckpoint
+    ? cached!.history.slice(0, reused + 1).map((density, index) => keepHistory(index) ? density : null)
+    : [keepHistory(0) ? resumeFrom.snapshot.density : null];
+
+  for (let i = reused; i < activeColumns.length; i++) {
+    const col = activeColumns[i];
+    const gateRows: number[] = [];
+    const noiseGates: { row: number; channel: NoiseGate; strength: number }[] = [];
+    const measureRows: number[] = [];
+    const resetRows: number[] = [];
+    for (const row of populatedRows) {
+      const cell = grid[row][col];
+      const type = cell.gate;
+      if (!type || isVisualizationGate(type) || isClassicalControlGate(type)) continue;
+      if (isNoiseGate(type)) {
+        noiseGates.push({ row, channel: type, strength: cell.params?.noiseStrength ?? DEFAULT_NOISE_STRENGTH });
+      } else if (type === GateType.MEASURE) {
+        measureRows.push(row);
+      } else if (type === GateType.RESET) {
+        resetRows.push(row);
+      } else {
+        gateRows.push(row);
+      }
+    }
+
+    // Collect warnings from the first vector only; every call sees the same column
+    let collectWarnings = true;
+    branches = branches.map(branch => {
+      let rho = branch.density;
+      if (gateRows.length > 0) {
+        rho = conjugateByOperator(rho, vector => {
+          const result = simulateColumn(vector, grid, col, {
+            numQubits,
+            columnIndex: col,
+            rowMapping: rowToFiltered,
+            processAdvancedGates: true,
+            warnings: collectWarnings ? warnings : null,
+            timeParameter,
+            classicalBits: branch.classicalBits
+          });
+          collectWarnings = false;
+          return result.state;
+        });
+      }
+
+      if (noiseModel) {
+        for (const row of gateRows) {
+          rho = applyNoiseChannel(rho, rowToFiltered.get(row)!, noiseModel.channel, noiseModel.strength);
+        }
+      }
+      for (const { row, channel, strength } of noiseGates) {
+        rho = applyNoiseChannel(rho, rowToFiltered.get(row)!, channel, strength);
+      }
+      if (isClassicalConditionMet(grid, col, populatedRows, branch.classicalBits)) {
+        for (const row of resetRows) {
+          rho = resetDensityQubit(rho, rowToFiltered.get(row)!);
+        }
+      }
+      return { ...branch, density: rho };
+    });
+
+    for (const row of measureRows) {
+      const qubit = rowToFiltered.get(row)!;
+      let probability = 0;
+      branches = branches.flatMap(branch => {
+        if (!classicalRows.has(row)) {
+          const { density, probabilityOfOne } = measureDensityQubit(branch.density, qubit);
+          probability += probabilityOfOne;
+          return [{ ...branch, density }];
+        }
+        return ([0, 1] as const).flatMap(outcome => {
+          const density = projectDensityQubit(branch.density, qubit, outcome);
+          const weight = getTrace(density);
+          if (outcome === 1) probability += weight;
+          if (weight <= EPSILON) return [];
+          return [{ classicalBits: new Map(branch.classicalBits).set(row, outcome), density }];
+        });
+      });
+      measurements.push({ qubit: row, probability });
+    }
+
+    // Branches with the same record evolve identically from here on
+    const merged = new Map<string, DensityBranch>();
+    for (const branch of branches) {
+      const key = branchKey(branch);
+      const existing = merged.get(key);
+      merged.set(key, existing
+        ? { ...existing, density: addDensityMatrices(existing.density, branch.density) }
+        : branch);
+    }
+    branches = Array.from(merged.values());
+
+    const density = sumBranches(branches);
+    densityHistory.push(keepHistory(i + 1) ? density : null);
+    checkpointStride = addCheckpoint(checkpoints, {
+      completedColumns: i + 1,
+      snapshot: { branches, density },
+      measurementCount: measurements.length,
+      warningCount: warnings.length
+    }, checkpointStride, checkpointLimit);
+    if (onProgress?.(i + 1, activeColumns.length) === false) break;
+  }
+
+  if (cache) {
+    cache.densityMatrix = {
+      runKey,
+      columnKeys: columnKeys.slice(0, densityHistory.length - 1),
+      history: densityHistory,
+      checkpoints,
+      checkpointStride,
+      measurements,
+      warnings
+    };
+  }
+
+  const rho = checkpoints[checkpoints.length - 1].snapshot.density;
+  return {
+    finalDensity: rho,
+    densityHistory,
+    activeColumns,
+    measurements,
+    populatedRows,
+    warnings
+  };
+};
+
+// --- Circuit Unitary ---
+
+/** Most rows a circuit unitary spans (a 2^n × 2^n matrix built from 2^n simulations) */
+export const MAX_UNITARY_QUBITS = 6;
+
+/** Matrix implemented by a range of columns */
+export interface CircuitUnitary {
+  /** Rows the matrix acts on (rows with a gate in the range); the first is the most significant bit */
+  rows: number[];
+  /** matrix[i][j] = ⟨i|U|j⟩ */
+  matrix: Complex[][];
+  /** Warnings from simulation */
+  warnings: SimulationWarning[];
+}
+
+/** A known gate that a unitary equals up to global phase */
+export interface KnownGateMatch {
+  /** Gate name and the rows it acts on, e.g. "CX (control q0, target q2)" */
+  name: string;
+  /** φ such that U = e^(iφ)·G */
+  globalPhase: number;
+}
+
+/** Gates with no unitary: they discard information (or model its loss) */
+const isNonUnitaryGate = (type: GateType): boolean =>
+  type === GateType.MEASURE || type === GateType.RESET || isNoiseGate(type);
+
+/**
+ * Build the unitary of the columns startColumn..endColumn (inclusive).
+ * Column j of the matrix is the state that basis state |j⟩ evolves to, so each
+ * basis state is simulated through the same column logic as a circuit run.
+ * Classical controls act as quantum controls on their wire (see SimulateColumnOptions).
+ *
+ * @param grid The circuit grid
+ * @param startColumn First column of the range (defaults to the first column)
+ * @param endColumn Last column of the range (defaults to the last column)
+ * @param timeParameter Optional time parameter for animated gates
+ * @param rows Rows to act on, in order; must include every row with a gate in the range
+ *   (defaults to exactly those rows)
+ * @throws Error if the range holds a non-unitary gate or spans more than MAX_UNITARY_QUBITS rows
+ */
+export const buildCircuitUnitary = (
+  grid: CircuitGrid,
+  startColumn = 0,
+  endColumn = (grid[0]?.length ?? 0) - 1,
+  timeParameter?: number,
+  rows?: number[]
+): CircuitUnitary => {
+  const columns: number[] = [];
+  const rowSet = new Set<number>();
+  for (let col = Math.max(0, startColumn); col <= endColumn && col < (grid[0]?.length ?? 0); col++) {
+    let active = false;
+    for (let row = 0; row < grid.length; row++) {
+      const type = grid[row][col].gate;
+      if (type === null) continue;
+      if (isNonUnitaryGate(type)) {
+        throw new Error(`${GATE_DEFS[type]?.fullName ?? type} in column ${col + 1} is not unitary`);
+      }
+      rowSet.add(row);
+      active = true;
+    }
+    if (active) columns.push(col);
+  }
+
+  const missing = rows ? Array.from(rowSet).find(row => !rows.includes(row)) : undefined;
+  if (missing !== undefined) throw new Error(`Row q${missing} holds a gate but is not in the unitary`);
+  const unitaryRows = rows ?? Array.from(rowSet).sort((x, y) => x - y);
+  const numQubits = unitaryRows.length;
+  if (numQubits > MAX_UNITARY_QUBITS) {
+    throw new Error(`Unitaries are limited to ${MAX_UNITARY_QUBITS} qubits; this range uses ${numQubits}`);
+  }
+  const rowMapping = new Map(unitaryRows.map((row, filteredIdx) => [row, filteredIdx]));
+
+  const dim = 1 << numQubits;
+  const warnings: SimulationWarning[] = [];
+  const matrix: Complex[][] = Array.from({ length: dim }, () => new Array<Complex>(dim));
+  for (let j = 0; j < dim; j++) {
+    let state = createComplexArray(dim);
+    setComplexValues(state, j, 1, 0);
+    for (const col of columns) {
+      state = simulateColumn(state, grid, col, {
+        numQubits,
+        columnIndex: col,
+        rowMapping,
+        processAdvancedGates: true,
+        // Every basis state sees the same columns, so warnings come from the first only
+        warnings: j === 0 ? warnings : null,
+        timeParameter
+      }).state;
+    }
+    for (let i = 0; i < dim; i++) {
+      matrix[i][j] = getComplex(state, i);
+    }
+  }
+
+  return { rows: unitaryRows, matrix, warnings };
+};
+
+/** Last unitary built for each macro sub-circuit; instances share their definition's circuit */
+const macroUnitaryCache = new WeakMap<CircuitGrid, { timeParameter?: number; matrix: Complex[][] }>();
+
+/**
+ * Unitary of a MACRO gate's sub-circuit over all of its wires, top wire first.
+ * @throws Error if the sub-circuit is not unitary (see buildCircuitUnitary)
+ */
+export const getMacroUnitary = (circuit: CircuitGrid, timeParameter?: number): Complex[][] => {
+  const cached = macroUnitaryCache.get(circuit);
+  if (cached && cached.timeParameter === timeParameter) return cached.matrix;
+  const rows = Array.from({ length: circuit.length }, (_, row) => row);
+  const { matrix } = buildCircuitUnitary(circuit, 0, (circuit[0]?.length ?? 0) - 1, timeParameter, rows);
+  macroUnitaryCache.set(circuit, { timeParameter, matrix });
+  return matrix;
+};
+
+/** Single-qubit gates recognized by identifyKnownGate */
+const KNOWN_SINGLE_QUBIT_GATES: GateType[] = [
+  GateType.X, GateType.Y, GateType.Z, GateType.H, GateType.S, GateType.SDG, GateType.T,
+  GateType.SQRT_X, GateType.SQRT_X_DG, GateType.SQRT_Y, GateType.SQRT_Y_DG,
+];
+
+/** Known gates on numQubits rows, as one-column circuits with a name */
+const getKnownGateCandidates = (numQubits: number, rowLabels: string[]): { name: string; column: (GateType | null)[] }[] => {
+  const all = (gate: GateType) => Array<GateType>(numQubits).fill(gate);
+  const candidates: { name: string; column: (GateType | null)[] }[] = [];
+
+  if (numQubits === 1) {
+    for (const gate of KNOWN_SINGLE_QUBIT_GATES) {
+      candidates.push({ name: `${GATE_DEFS[gate]?.label ?? gate} on ${rowLabels[0]}`, column: [gate] });
+    }
+  }
+  if (numQubits === 2) {
+    candidates.push(
+      { name: `CX (control ${rowLabels[0]}, target ${rowLabels[1]})`, column: [GateType.CONTROL, GateType.X] },
+      { name: `CX (control ${rowLabels[1]}, target ${rowLabels[0]})`, column: [GateType.X, GateType.CONTROL] },
+      { name: `CZ (${rowLabels[0]}, ${rowLabels[1]})`, column: [GateType.CONTROL, GateType.Z] },
+      { name: `SWAP (${rowLabels[0]}, ${rowLabels[1]})`, column: [GateType.SWAP, GateType.SWAP] }
+    );
+  }
+  if (numQubits === 3) {
+    for (let target = 0; target < 3; target++) {
+      const controls = rowLabels.filter((_, r) => r !== target);
+      candidates.push({
+        name: `CCX (controls ${controls.join(', ')}, target ${rowLabels[target]})`,
+        column: rowLabels.map((_, r) => (r === target ? GateType.X : GateType.CONTROL)),
+      });
+    }
+  }
+  if (numQubits >= 2) {
+    const span = `${rowLabels[0]}–${rowLabels[numQubits - 1]}`;
+    candidates.push(
+      { name: `QFT on ${span}`, column: all(GateType.QFT) },
+      { name: `QFT† on ${span}`, column: all(GateType.QFT_DG) },
+      { name: `Reverse on ${span}`, column: all(GateType.REVERSE) }
+    );
+  }
+  return candidates;
+};
+
+/** How a matrix compares with another up to global phase */
+interface PhaseComparison {
+  /** φ with a ≈ e^(iφ)·b, taken from the first nonzero entry of b (0 if there is none) */
+  globalPhase: number;
+  /** First entry where a ≠ e^(iφ)·b, scanning inputs (columns) in order; null if none */
+  mismatch: { input: number; output: number } | null;
+}
+
+const compareUpToGlobalPhase = (a: Complex[][], b: Complex[][], tolerance = 1e-9): PhaseComparison => {
+  let phase: Complex | null = null;
+  const toAngle = () => (phase ? Math.atan2(phase.im, phase.re) : 0);
+  for (let j = 0; j < a.length; j++) {
+    for (let i = 0; i < a.length; i++) {
+      if (phase === null && complexAbsSq(b[i][j]) > tolerance) {
+        // a_ij / b_ij, which must be a unit phase
+        const scale = 1 / complexAbsSq(b[i][j]);
+        const ratio = complexMul(a[i][j], { re: b[i][j].re * scale, im: -b[i][j].im * scale });
+        if (Math.abs(complexAbsSq(ratio) - 1) > tolerance) return { globalPhase: 0, mismatch: { input: j, output: i } };
+        phase = ratio;
+      }
+      const expected = phase ? complexMul(phase, b[i][j]) : b[i][j];
+      if (Math.abs(a[i][j].re - expected.re) > tolerance || Math.abs(a[i][j].im - expected.im) > tolerance) {
+        return { globalPhase: toAngle(), mismatch: { input: j, output: i } };
+      }
+    }
+  }
+  return { globalPhase: toAngle(), mismatch: null };
+};
+
+/**
+ * Name the known gate a unitary equals up to global phase: the identity, a
+ * single-qubit Clifford+T or √ gate, CX, CZ, SWAP, CCX, QFT, QFT† or a
+ * bit-reversal over its rows. Returns null if it matches none of them.
+ */
+export const identifyKnownGate = ({ rows, matrix }: CircuitUnitary): KnownGateMatch | null => {
+  const numQubits = rows.length;
+  const identity = matrix.map((row, i) => row.map((_, j) => (i === j ? ONE_COMPLEX : ZERO_COMPLEX)));
+  const identityComparison = compareUpToGlobalPhase(matrix, identity);
+  if (!identityComparison.mismatch) return { name: 'Identity', globalPhase: identityComparison.globalPhase };
+
+  const rowLabels = rows.map(row => `q${row}`);
+  for (const { name, column } of getKnownGateCandidates(numQubits, rowLabels)) {
+    const spanParams = { reverseSpan: { startRow: 0, endRow: numQubits - 1 } };
+    const candidateGrid: CircuitGrid = column.map((gate, r) => [{
+      gate,
+      id: `known-${r}`,
+      params: gate !== null && (isQFTGate(gate) || gate === GateType.REVERSE)
+        ? (r === 0 ? spanParams : { isSpanContinuation: true })
+        : undefined,
+    }]);
+    const { globalPhase, mismatch } = compareUpToGlobalPhase(matrix, buildCircuitUnitary(candidateGrid).matrix);
+    if (!mismatch) return { name, globalPhase };
+  }
+  return null;
+};
+
+/** A circuit, or a column range of one (inclusive, defaulting to the whole circuit) */
+export interface CircuitSection {
+  grid: CircuitGrid;
+  startColumn?: number;
+  endColumn?: number;
+}
+
+/** Outcome of comparing the unitaries of two circuit sections */
+export interface EquivalenceResult {
+  /** Whether the unitaries match up to global phase */
+  equivalent: boolean;
+  /** Rows both unitaries act on: every row either section uses */
+  rows: number[];
+  /** φ with U_A ≈ e^(iφ)·U_B */
+  globalPhase: number;
+  /**
+   * First basis input whose outputs differ, at the first output amplitude that
+   * differs. delta = amplitudeA - e^(iφ)·amplitudeB. Null when equivalent.
+   */
+  difference: {
+    input: number;
+    output: number;
+    amplitudeA: Complex;
+    amplitudeB: Complex;
+    delta: Complex;
+  } | null;
+}
+
+/** Copy of grid with at least numRows rows (extra rows are empty) */
+const padGridRows = (grid: CircuitGrid, numRows: number): CircuitGrid => {
+  if (grid.length >= numRows) return grid;
+  const numCols = grid[0]?.length ?? 0;
+  const extra = Array.from({ length: numRows - grid.length }, (_, i) =>
+    Array.from({ length: numCols }, (_, col) => ({ gate: null, id: `pad-${grid.length + i}-${col}` }))
+  );
+  return [...grid, ...extra];
+};
+
+/**
+ * Check whether two circuit sections implement the same unitary up to global
+ * phase. Both are built over the union of their rows, so a wire used by only
+ * one section must be left unchanged by it.
+ *
+ * @throws Error if either section cannot be built (see buildCircuitUnitary)
+ */
+export const checkCircuitEquivalence = (
+  a: CircuitSection,
+  b: CircuitSection,
+  timeParameter?: number
+): EquivalenceResult => {
+  const unitaryA = buildCircuitUnitary(a.grid, a.startColumn, a.endColumn, timeParameter);
+  const unitaryB = buildCircuitUnitary(b.grid, b.startColumn, b.endColumn, timeParameter);
+  const rows = Array.from(new Set([...unitaryA.rows, ...unitaryB.rows])).sort((x, y) => x - y);
+  const numRows = Math.max(a.grid.length, b.grid.length);
+
+  const rebuild = (section: CircuitSection, unitary: CircuitUnitary): Complex[][] =>
+    unitary.rows.length === rows.length
+      ? unitary.matrix
+      : buildCircuitUnitary(
+          padGridRows(section.grid, numRows), section.startColumn, section.endColumn, timeParameter, rows
+        ).matrix;
+  const matrixA = rebuild(a, unitaryA);
+  const matrixB = rebuild(b, unitaryB);
+
+  const { globalPhase, mismatch } = compareUpToGlobalPhase(matrixA, matrixB);
+  if (!mismatch) return { equivalent: true, rows, globalPhase, difference: null };
+
+  const { input, output } = mismatch;
+  const amplitudeA = matrixA[output][input];
+  const amplitudeB = matrixB[output][input];
+  const rotatedB = complexMul({ re: Math.cos(globalPhase), im: Math.sin(globalPhase) }, amplitudeB);
+  return {
+    equivalent: false,
+    rows,
+    globalPhase,
+    difference: {
+      input,
+      output,
+      amplitudeA,
+      amplitudeB,
+      delta: { re: amplitudeA.re - rotatedB.re, im: amplitudeA.im - rotatedB.im },
+    },
   };
 };
@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import { exportQuirkCircuit, importQuirkCircuit, quirkCircuitToUrl, QUIRK_URL_PREFIX } from './quirkConverter';
+import { runCircuitWithMeasurements } from './quantum';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** Place an anchor plus continuation cells for a spanning gate */
+const placeSpan = (grid: CircuitGrid, gate: GateType, col: number, startRow: number, endRow: number) => {
+  for (let r = startRow; r <= endRow; r++) {
+    grid[r][col] = {
+      gate,
+      id: `cell-${r}-${col}`,
+      params: r === startRow ? { reverseSpan: { startRow, endRow } } : { isSpanContinuation: true },
+    };
+  }
+};
+
+/** Import and return the grid, failing the test when no file is produced */
+const importGrid = (input: unknown): CircuitGrid => {
+  const { file, report } = importQuirkCircuit(input);
+  if (!file) throw new Error(report.errors.join('\n'));
+  return file.circuit.grid;
+};
+
+const layout = (grid: CircuitGrid): string[] =>
+  grid.map(row => row.map(cell => cell.gate ?? '.').join(' '));
+
+const expectSameState = (actualGrid: CircuitGrid, expectedGrid: CircuitGrid) => {
+  const expected = runCircuitWithMeasurements(expectedGrid).finalState;
+  const actual = runCircuitWithMeasurements(actualGrid).finalState;
+  expect(actual).toHaveLength(expected.length);
+  expect(Array.from(actual)).toEqual(Array.from(expected).map(v => expect.closeTo(v, 10)));
+};
+
+describe('exportQuirkCircuit', () => {
+  it('should export gates and controls column by column', () => {
+    const grid = createGrid(4, 4);
+    grid[0][0].gate = GateType.H;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.CX;
+    grid[1][2].gate = GateType.S;
+
+    const { circuit, report } = exportQuirkCircuit(grid);
+    expect(circuit).toEqual({ cols: [['H'], ['•', 'X'], [1, 'Z^½']] });
+    expect(report).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('should export rotations as formula gates', () => {
+    const grid = createGrid(1, 2);
+    grid[0][0] = { gate: GateType.RX, id: 'cell-0-0', params: { angle: Math.PI / 3, angleExpression: 'π/3' } };
+    grid[0][1].gate = GateType.RZ_PI_4;
+
+    const { circuit } = exportQuirkCircuit(grid);
+    expect(circuit.cols).toEqual([[{ id: 'Rxft', arg: 'pi/3' }], [{ id: 'Rzft', arg: 'pi/4' }]]);
+  });
+
+  it('should export spanning gates with their size', () => {
+    const grid = createGrid(3, 2);
+    placeSpan(grid, GateType.INPUT_A, 0, 0, 0);
+    placeSpan(grid, GateType.ADD_A, 0, 1, 2);
+    placeSpan(grid, GateType.PHASE_GRADIENT, 1, 0, 2);
+
+    const { circuit } = exportQuirkCircuit(grid);
+    expect(circuit.cols).toEqual([['inputA1', '+=A2'], ['PhaseGradient3']]);
+  });
+
+  it('should wrap QFT columns in bit reversals', () => {
+    const grid = createGrid(3, 1);
+    placeSpan(grid, GateType.QFT, 0, 0, 2);
+
+    const { circuit } = exportQuirkCircuit(grid);
+    expect(circuit.cols).toEqual([['rev3'], ['QFT3'], ['rev3']]);
+  });
+
+  it('should define custom gates once per distinct matrix', () => {
+    const grid = createGrid(2, 1);
+    const customMatrix = [[{ re: 0, im: 0 }, { re: 1, im: 0 }], [{ re: 0, im: 1 }, { re: 0, im: 0 }]];
+    grid[0][0] = { gate: GateType.CUSTOM, id: 'cell-0-0', params: { customMatrix, customLabel: 'U' } };
+    grid[1][0] = { gate: GateType.CUSTOM, id: 'cell-1-0', params: { customMatrix, customLabel: 'U' } };
+
+    const { circuit } = exportQuirkCircuit(grid);
+    expect(circuit.gates).toEqual([{ id: '~U1', name: 'U', matrix: '{{0,1},{i,0}}' }]);
+    expect(circuit.cols).toEqual([['~U1', '~U1']]);
+  });
+
+  it('should report gates that only match up to global phase under control', () => {
+    const grid = createGrid(2, 2);
+    grid[0][0].gate = GateType.SQRT_X;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.SQRT_Y;
+
+    const { report } = exportQuirkCircuit(grid);
+    expect(report.valid).toBe(true);
+    expect(report.warnings).toEqual([
+      "cell [1,1]: SQRT_Y matches Quirk's Y^½ only up to global phase; controlled result differs",
+    ]);
+  });
+
+  it('should export initial states as init', () => {
+    const grid = createGrid(4, 1);
+    grid[0][0].gate = GateType.H;
+    const custom = { alpha: { re: 0.6, im: 0 }, beta: { re: 0.8, im: 0 } };
+
+    const { circuit, report } = exportQuirkCircuit(grid, ['1', '+i', custom, '0']);
+    expect(circuit).toEqual({ cols: [['H']], init: [1, 'i'] });
+    expect(report.warnings).toEqual(['wire 2: custom initial state has no Quirk equivalent; starting in |0⟩']);
+  });
+
+  it('should produce a Quirk link', () => {
+    const url = quirkCircuitToUrl({ cols: [['H']] });
+    expect(url).toBe(`${QUIRK_URL_PREFIX}${encodeURIComponent('{"cols":[["H"]]}')}`);
+  });
+});
+
+describe('importQuirkCircuit', () => {
+  it('should import a Quirk link', () => {
+    const url = 'https://algassert.com/quirk#circuit=%7B%22cols%22%3A%5B%5B%22H%22%5D%2C%5B%22%E2%80%A2%22%2C%22X%22%5D%5D%7D';
+    const { file, report } = importQuirkCircuit(url, 'bell');
+    expect(report).toEqual({ valid: true, errors: [], warnings: [] });
+    expect(file?.metadata.name).toBe('bell');
+    expect(file?.circuit.rows).toBe(2);
+    expect(layout(file!.circuit.grid)).toEqual(['H CONTROL', '. CX']);
+  });
+
+  it('should accept raw JSON and parsed objects', () => {
+    expect(layout(importGrid('{"cols":[["X","Y"]]}'))).toEqual(['X', 'Y']);
+    expect(layout(importGrid({ cols: [[1, 'Z']] }))).toEqual(['.', 'Z']);
+  });
+
+  it('should import sized gates as spans', () => {
+    const grid = importGrid({ cols: [['inputA2', 1, 'inc2']] });
+    expect(grid[0][0].params?.reverseSpan).toEqual({ startRow: 0, endRow: 1 });
+    expect(grid[1][0].params?.isSpanContinuation).toBe(true);
+    expect(grid[2][0].gate).toBe(GateType.INC);
+    expect(grid[2][0].params?.reverseSpan).toEqual({ startRow: 2, endRow: 3 });
+    expect(grid).toHaveLength(4);
+  });
+
+  it('should import fixed Pauli powers without a grid gate as exact custom gates', () => {
+    const grid = importGrid({ cols: [['Z^-¼']] });
+    expect(grid[0][0].gate).toBe(GateType.CUSTOM);
+    expect(grid[0][0].params?.customLabel).toBe('Z^-¼');
+    expect(grid[0][0].params?.customMatrix?.[1][1].re).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(grid[0][0].params?.customMatrix?.[1][1].im).toBeCloseTo(-Math.SQRT1_2, 10);
+  });
+
+  it('should import matrix custom gates into the grid and library', () => {
+    const { file } = importQuirkCircuit({
+      cols: [['~phase']],
+      gates: [{ id: '~phase', name: 'P', matrix: '{{1,0},{0,√½+√½i}}' }],
+    });
+    const cell = file!.circuit.grid[0][0];
+    expect(cell.gate).toBe(GateType.CUSTOM);
+    expect(cell.params?.customLabel).toBe('P');
+    expect(cell.params?.customMatrix?.[1][1].re).toBeCloseTo(Math.SQRT1_2, 10);
+    expect(file!.customGates).toHaveLength(1);
+  });
+
+  it('should import multi-qubit matrix gates as spans, converting from Quirk\'s little-endian order', () => {
+    // Quirk's top wire is the low bit, so this is a CNOT controlled by the top wire
+    const grid = importGrid({
+      cols: [['X'], ['~cn']],
+      gates: [{ id: '~cn', name: 'CN', matrix: '{{1,0,0,0},{0,0,0,1},{0,0,1,0},{0,1,0,0}}' }],
+    });
+    expect(layout(grid)).toEqual(['X CUSTOM_MULTI', '. CUSTOM_MULTI']);
+    expect(grid[0][1].params?.reverseSpan).toEqual({ startRow: 0, endRow: 1 });
+    expect(grid[1][1].params?.isSpanContinuation).toBe(true);
+    // |10⟩ → |11⟩
+    expect(runCircuitWithMeasurements(grid).finalState[6]).toBeCloseTo(1, 10);
+  });
+
+  it('should turn initial states into preparation columns', () => {
+    const grid = importGrid({ cols: [['Measure']], init: [1, '+', 0, '-i'] });
+    expect(layout(grid)).toEqual(['X . . MEASURE', '. H . .', '. . . .', '. H SDG .']);
+  });
+
+  it('should report gates without an equivalent instead of dropping them silently', () => {
+    const { file, report } = importQuirkCircuit({ cols: [['H', 'Z^-t', { id: 'Rxft', arg: 'pi*t' }]] });
+    expect(report.valid).toBe(true);
+    expect(report.warnings).toEqual([
+      'column 0, wire 1: Quirk gate "Z^-t" has no Qbit Weaver equivalent; dropped',
+      'column 0, wire 2: Rxft argument "pi*t" is not a constant angle; dropped',
+    ]);
+    expect(layout(file!.circuit.grid)).toEqual(['H']);
+  });
+
+  it('should fail on input that is not a Quirk circuit', () => {
+    expect(importQuirkCircuit('not json').report).toEqual({
+      valid: false,
+      errors: ['Input is neither a Quirk link nor Quirk circuit JSON'],
+      warnings: [],
+    });
+    const missingCols = importQuirkCircuit({ gates: [] });
+    expect(missingCols.file).toBeNull();
+    expect(missingCols.report.errors).toEqual(['Quirk circuit must have a "cols" array']);
+  });
+});
+
+describe('Quirk round trip', () => {
+  it('should reproduce the simulated state of an exported circuit', () => {
+    const grid = createGrid(4, 6);
+    grid[0][0].gate = GateType.H;
+    grid[1][0] = { gate: GateType.RY, id: 'cell-1-0', params: { angle: 0.7 } };
+    grid[2][0].gate = GateType.T;
+    grid[0][1].gate = GateType.ANTI_CONTROL;
+    grid[3][1].gate = GateType.CX;
+    placeSpan(grid, GateType.QFT, 2, 1, 3);
+    grid[0][3].gate = GateType.CONTROL;
+    grid[2][3].gate = GateType.CZ;
+    placeSpan(grid, GateType.INPUT_A, 4, 0, 1);
+    placeSpan(grid, GateType.ADD_A, 4, 2, 3);
+    placeSpan(grid, GateType.QFT_DG, 5, 0, 3);
+
+    const imported = importGrid(exportQuirkCircuit(grid).circuit);
+    expectSameState(imported, grid);
+  });
+  it('should keep the qubit order of multi-qubit custom gates', () => {
+    const O = { re: 0, im: 0 };
+    const L = { re: 1, im: 0 };
+    // |00⟩ → |01⟩, |01⟩ → |10⟩, |10⟩ → |11⟩, |11⟩ → |00⟩ (top wire is the high bit)
+    const customMatrix = [[O, O, O, L], [L, O, O, O], [O, L, O, O], [O, O, L, O]];
+    const grid = createGrid(3, 2);
+    grid[1][0].gate = GateType.H;
+    grid[1][1] = { gate: GateType.CUSTOM_MULTI, id: 'cell-1-1', params: { customMatrix, customLabel: 'Ad', reverseSpan: { startRow: 1, endRow: 2 } } };
+    grid[2][1] = { gate: GateType.CUSTOM_MULTI, id: 'cell-2-1', params: { customMatrix, customLabel: 'Ad', reverseSpan: { startRow: 1, endRow: 2 }, isSpanContinuation: true } };
+
+    const imported = importGrid(exportQuirkCircuit(grid).circuit);
+    expectSameState(imported, grid);
+  });
+});
@@ -0,0 +1,677 @@
+/**
+ * Quirk interoperability.
+ *
+ * Converts between Quirk's `{"cols": [...]}` circuit JSON (the payload of
+ * `algassert.com/quirk#circuit=...` links) and CircuitFile. Gates that have
+ * no equivalent on the other side are listed in a ValidationResult-style
+ * report instead of being dropped silently.
+ */
+
+import {
+  CircuitFile,
+  CircuitGrid,
+  Cell,
+  GateType,
+  GateParams,
+  Complex,
+  CustomGateDefinition,
+  WireInitialState,
+  isControlGate,
+} from '../types';
+import { CIRCUIT_FILE_VERSION, ValidationResult } from './circuitSerializer';
+import { isDefaultInitialState } from './initialStates';
+import { parseAngleExpression } from './angleParser';
+import { parseComplexExpression } from './complexParser';
+import { getCustomGateType, getMatrixQubits, reverseMatrixQubitOrder } from './customGates';
+import { MAX_CUSTOM_GATE_QUBITS } from '../constants';
+import { expandMacroGates } from './macroGates';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A single wire entry in a Quirk column: 1 is an empty slot */
+export type QuirkEntry = string | number | { id: string; arg?: string };
+
+/** A matrix-defined custom gate in Quirk's `gates` list */
+export interface QuirkCustomGate {
+  id: string;
+  name?: string;
+  matrix?: string;
+  circuit?: unknown;
+}
+
+/** Quirk's circuit JSON */
+export interface QuirkCircuit {
+  cols: QuirkEntry[][];
+  gates?: QuirkCustomGate[];
+  init?: (string | number)[];
+}
+
+export interface QuirkImportResult {
+  /** The converted circuit, or null when the input could not be read */
+  file: CircuitFile | null;
+  report: ValidationResult;
+}
+
+export interface QuirkExportResult {
+  circuit: QuirkCircuit;
+  report: ValidationResult;
+}
+
+/** A gate placed on one row of an imported column */
+type PlacedGate = GateParams & { gate: GateType };
+
+/** Imported column, keyed by row */
+type PlacedColumn = Map<number, PlacedGate>;
+
+// ============================================================================
+// Gate Tables
+// ============================================================================
+
+/** Base of a Quirk link; the circuit JSON follows URI-encoded */
+export const QUIRK_URL_PREFIX = 'https://algassert.com/quirk#circuit=';
+
+/**
+ * Single-wire gates with an exact counterpart.
+ * Basis controls: ⊕ = |+⟩, ⊖ = |−⟩, ⊗ = |+i⟩, (/) = |−i⟩.
+ */
+const GATE_TO_QUIRK: Partial<Record<GateType, string>> = {
+  [GateType.X]: 'X',
+  [GateType.Y]: 'Y',
+  [GateType.Z]: 'Z',
+  [GateType.H]: 'H',
+  [GateType.S]: 'Z^½',
+  [GateType.SDG]: 'Z^-½',
+  [GateType.T]: 'Z^¼',
+  [GateType.I]: '…',
+  [GateType.SQRT_X]: 'X^½',
+  [GateType.SQRT_X_DG]: 'X^-½',
+  [GateType.SQRT_Y]: 'Y^½',
+  [GateType.SQRT_Y_DG]: 'Y^-½',
+  [GateType.SWAP]: 'Swap',
+  [GateType.MEASURE]: 'Measure',
+  [GateType.CONTROL]: '•',
+  [GateType.ANTI_CONTROL]: '◦',
+  [GateType.X_CONTROL]: '⊕',
+  [GateType.X_ANTI_CONTROL]: '⊖',
+  [GateType.Y_CONTROL]: '⊗',
+  [GateType.Y_ANTI_CONTROL]: '(/)',
+  [GateType.ZT]: 'Z^t',
+  [GateType.XT]: 'X^t',
+  [GateType.YT]: 'Y^t',
+  [GateType.EXP_Z]: 'e^iZt',
+  [GateType.EXP_X]: 'e^iXt',
+  [GateType.EXP_Y]: 'e^iYt',
+  [GateType.ZA]: 'Z^(A/2^n)',
+  [GateType.XA]: 'X^(A/2^n)',
+  [GateType.YA]: 'Y^(A/2^n)',
+  [GateType.ZB]: 'Z^(B/2^n)',
+  [GateType.XB]: 'X^(B/2^n)',
+  [GateType.YB]: 'Y^(B/2^n)',
+  [GateType.A_LT_B]: '^A<B',
+  [GateType.A_LEQ_B]: '^A<=B',
+  [GateType.A_GT_B]: '^A>B',
+  [GateType.A_GEQ_B]: '^A>=B',
+  [GateType.A_EQ_B]: '^A=B',
+  [GateType.A_NEQ_B]: '^A!=B',
+  [GateType.SCALE_I]: 'i',
+  [GateType.SCALE_NEG_I]: '-i',
+  [GateType.SCALE_SQRT_I]: '√i',
+  [GateType.SCALE_SQRT_NEG_I]: '√-i',
+  [GateType.BLOCH_VIS]: 'Bloch',
+  [GateType.PERCENT_VIS]: 'Chance',
+};
+
+const QUIRK_TO_GATE: Record<string, GateType> = Object.fromEntries(
+  Object.entries(GATE_TO_QUIRK).map(([gate, id]) => [id, gate as GateType])
+);
+
+/** Classical controls export as plain controls: Quirk controls on measured wires act classically */
+const QUIRK_CLASSICAL_CONTROLS: Partial<Record<GateType, string>> = {
+  [GateType.CLASSICAL_CONTROL]: '•',
+  [GateType.CLASSICAL_ANTI_CONTROL]: '◦',
+};
+
+/** Target gates that also read as Quirk's X/CNOT target */
+const QUIRK_X_TARGETS: readonly GateType[] = [GateType.CX, GateType.CCX];
+
+/** Target gates that also read as Quirk's Z target */
+const QUIRK_Z_TARGETS: readonly GateType[] = [GateType.CZ];
+
+/**
+ * Gates whose Quirk counterpart is the phase-correct Pauli power, while ours
+ * is the phase-free rotation. Equal up to global phase, which only shows when
+ * the column carries controls.
+ */
+const GLOBAL_PHASE_GATES: ReadonlySet<GateType> = new Set([
+  GateType.SQRT_X, GateType.SQRT_X_DG, GateType.SQRT_Y, GateType.SQRT_Y_DG,
+  GateType.XT, GateType.YT,
+  GateType.XA, GateType.YA, GateType.XB, GateType.YB,
+]);
+
+/** Spanning gates whose Quirk id is a prefix followed by the wire count */
+const SIZED_GATE_TO_QUIRK: Partial<Record<GateType, string>> = {
+  [GateType.QFT]: 'QFT',
+  [GateType.QFT_DG]: 'QFT†',
+  [GateType.REVERSE]: 'rev',
+  [GateType.PHASE_GRADIENT]: 'PhaseGradient',
+  [GateType.INC]: 'inc',
+  [GateType.DEC]: 'dec',
+  [GateType.ADD_A]: '+=A',
+  [GateType.SUB_A]: '-=A',
+  [GateType.MUL_A]: '*A',
+  [GateType.DIV_A]: '/A',
+  [GateType.MUL_B]: '*B',
+  [GateType.DIV_B]: '/B',
+  [GateType.INC_MOD_R]: 'incmodR',
+  [GateType.DEC_MOD_R]: 'decmodR',
+  [GateType.ADD_A_MOD_R]: '+AmodR',
+  [GateType.SUB_A_MOD_R]: '-AmodR',
+  [GateType.MUL_A_MOD_R]: '*AmodR',
+  [GateType.DIV_A_MOD_R]: '/AmodR',
+  [GateType.INPUT_A]: 'inputA',
+  [GateType.INPUT_B]: 'inputB',
+  [GateType.INPUT_R]: 'inputR',
+};
+
+const QUIRK_SIZED_TO_GATE: Record<string, GateType> = Object.fromEntries(
+  Object.entries(SIZED_GATE_TO_QUIRK).map(([gate, id]) => [id, gate as GateType])
+);
+
+/** Rotation gates and Quirk's formula-argument equivalents */
+const ROTATION_TO_QUIRK: Partial<Record<GateType, string>> = {
+  [GateType.RX]: 'Rxft',
+  [GateType.RY]: 'Ryft',
+  [GateType.RZ]: 'Rzft',
+};
+
+const QUIRK_TO_ROTATION: Record<string, GateType> = Object.fromEntries(
+  Object.entries(ROTATION_TO_QUIRK).map(([gate, id]) => [id, gate as GateType])
+);
+
+/** Preset rotations, exported as formula rotations with a fixed argument */
+const PRESET_ROTATIONS: Partial<Record<GateType, { id: string; arg: string }>> = {
+  [GateType.RX_PI_2]: { id: 'Rxft', arg: 'pi/2' },
+  [GateType.RX_PI_4]: { id: 'Rxft', arg: 'pi/4' },
+  [GateType.RX_PI_8]: { id: 'Rxft', arg: 'pi/8' },
+  [GateType.RX_PI_12]: { id: 'Rxft', arg: 'pi/12' },
+  [GateType.RY_PI_2]: { id: 'Ryft', arg: 'pi/2' },
+  [GateType.RY_PI_4]: { id: 'Ryft', arg: 'pi/4' },
+  [GateType.RY_PI_8]: { id: 'Ryft', arg: 'pi/8' },
+  [GateType.RY_PI_12]: { id: 'Ryft', arg: 'pi/12' },
+  [GateType.RZ_PI_2]: { id: 'Rzft', arg: 'pi/2' },
+  [GateType.RZ_PI_4]: { id: 'Rzft', arg: 'pi/4' },
+  [GateType.RZ_PI_8]: { id: 'Rzft', arg: 'pi/8' },
+  [GateType.RZ_PI_12]: { id: 'Rzft', arg: 'pi/12' },
+};
+
+/** Unicode fractions used in Quirk's fixed-power gate ids (e.g. "X^-¼") */
+const QUIRK_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '¼': 1 / 4, '⅙': 1 / 6, '⅛': 1 / 8,
+};
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Convert a circuit grid to Quirk's circuit JSON.
+ *
+ * Rows are Quirk wires top to bottom and trailing empty rows and columns are
+ * dropped. Our QFT reads its span with the top row as the most significant
+ * bit while Quirk's is little-endian, so every QFT column is wrapped in a
+ * pair of bit-reversal columns to keep the exported circuit exact.
+ * Preset initial states become Quirk's `init`; custom ones have no equivalent.
+ * Macro gates are exported as the gates they hold.
+ */
+export function exportQuirkCircuit(
+  source: CircuitGrid,
+  initialStates: readonly (WireInitialState | undefined)[] = []
+): QuirkExportResult {
+  const grid = expandMacroGates(source);
+  const warnings: string[] = [];
+  const cols: QuirkEntry[][] = [];
+  const gates: QuirkCustomGate[] = [];
+  const gateIds = new Map<string, string>();
+
+  const numRows = countUsedRows(grid, initialStates);
+  const numCols = grid[0]?.length ?? 0;
+
+  for (let col = 0; col < numCols; col++) {
+    const column: QuirkEntry[] = Array(numRows).fill(1);
+    const reversals: QuirkEntry[] = Array(numRows).fill(1);
+    let hasReversals = false;
+    const hasControls = grid.some(row => {
+      const gate = row[col].gate;
+      return gate !== null && isControlGate(gate);
+    });
+
+    for (let row = 0; row < numRows; row++) {
+      const cell = grid[row][col];
+      if (!cell.gate || cell.params?.isSpanContinuation) continue;
+      const location = `cell [${row},${col}]`;
+      const span = cell.params?.reverseSpan;
+      const size = span ? span.endRow - span.startRow + 1 : 1;
+
+      const sized = SIZED_GATE_TO_QUIRK[cell.gate];
+      if (sized !== undefined) {
+        if (!span) {
+          warnings.push(`${location}: ${cell.gate} has no span; dropped`);
+          continue;
+        }
+        column[span.startRow] = `${sized}${size}`;
+        if (cell.gate === GateType.QFT || cell.gate === GateType.QFT_DG) {
+          reversals[span.startRow] = `rev${size}`;
+          hasReversals = true;
+        }
+        continue;
+      }
+
+      const preset = PRESET_ROTATIONS[cell.gate];
+      if (preset) {
+        column[row] = { ...preset };
+        continue;
+      }
+
+      const rotation = ROTATION_TO_QUIRK[cell.gate];
+      if (rotation) {
+        column[row] = { id: rotation, arg: formatQuirkArgument(cell.params) };
+        continue;
+      }
+
+      if (cell.gate === GateType.CUSTOM || cell.gate === GateType.CUSTOM_MULTI) {
+        const matrix = cell.params?.customMatrix;
+        if (!matrix) {
+          warnings.push(`${location}: ${cell.gate} gate has no matrix; dropped`);
+          continue;
+        }
+        // Quirk's matrix index has the top wire as its least significant bit
+        const quirkMatrix = formatQuirkMatrix(matrix.length > 2 ? reverseMatrixQubitOrder(matrix) : matrix);
+        const name = cell.params?.customLabel ?? 'U';
+        const key = `${name}|${quirkMatrix}`;
+        let id = gateIds.get(key);
+        if (!id) {
+          id = `~${name.replace(/\s+/g, '')}${gates.length + 1}`;
+          gateIds.set(key, id);
+          gates.push({ id, name, matrix: quirkMatrix });
+        }
+        column[row] = id;
+        continue;
+      }
+
+      const id = QUIRK_X_TARGETS.includes(cell.gate) ? 'X'
+        : QUIRK_Z_TARGETS.includes(cell.gate) ? 'Z'
+        : GATE_TO_QUIRK[cell.gate] ?? QUIRK_CLASSICAL_CONTROLS[cell.gate];
+      if (id === undefined) {
+        warnings.push(`${location}: ${cell.gate} has no Quirk equivalent; dropped`);
+        continue;
+      }
+      if (hasControls && GLOBAL_PHASE_GATES.has(cell.gate)) {
+        warnings.push(`${location}: ${cell.gate} matches Quirk's ${id} only up to global phase; controlled result differs`);
+      }
+      column[row] = id;
+    }
+
+    if (hasReversals) cols.push(trimQuirkColumn(reversals));
+    cols.push(trimQuirkColumn(column));
+    if (hasReversals) cols.push(trimQuirkColumn(reversals));
+  }
+
+  while (cols.length > 0 && cols[cols.length - 1].length === 0) {
+    cols.pop();
+  }
+
+  const init = exportQuirkInitialStates(initialStates.slice(0, numRows), warnings);
+  const circuit: QuirkCircuit = {
+    cols,
+    ...(gates.length > 0 ? { gates } : {}),
+    ...(init ? { init } : {}),
+  };
+  return { circuit, report: { valid: true, errors: [], warnings } };
+}
+
+/**
+ * Build a Quirk link that opens the given circuit.
+ */
+export function quirkCircuitToUrl(circuit: QuirkCircuit): string {
+  return QUIRK_URL_PREFIX + encodeURIComponent(JSON.stringify(circuit));
+}
+
+/** Number of rows up to and including the last one holding a gate */
+function countUsedRows(grid: CircuitGrid, initialStates: readonly (WireInitialState | undefined)[]): number {
+  for (let row = grid.length - 1; row >= 0; row--) {
+    if (!isDefaultInitialState(initialStates[row]) || grid[row].some(cell => cell.gate !== null)) return row + 1;
+  }
+  return 0;
+}
+
+/** Quirk `init` entries for preset initial states, or undefined when every wire starts in |0⟩ */
+function exportQuirkInitialStates(
+  initialStates: readonly (WireInitialState | undefined)[],
+  warnings: string[]
+): (string | number)[] | undefined {
+  const init = initialStates.map((state, row): string | number => {
+    if (state === undefined || state === '0') return 0;
+    if (state === '1') return 1;
+    if (typeof state === 'string') return state === '+i' ? 'i' : state;
+    warnings.push(`wire ${row}: custom initial state has no Quirk equivalent; starting in |0⟩`);
+    return 0;
+  });
+  while (init.length > 0 && init[init.length - 1] === 0) init.pop();
+  return init.length > 0 ? init : undefined;
+}
+
+/** Drop trailing empty slots, as Quirk does */
+function trimQuirkColumn(column: QuirkEntry[]): QuirkEntry[] {
+  let end = column.length;
+  while (end > 0 && column[end - 1] === 1) end--;
+  return column.slice(0, end);
+}
+
+/** Rotation argument for a Quirk formula gate */
+function formatQuirkArgument(params: GateParams | undefined): string {
+  const expression = params?.angleExpression?.trim();
+  if (expression && parseAngleExpression(expression) !== null) {
+    return expression.replace(/π/g, 'pi');
+  }
+  return formatQuirkNumber(params?.angle ?? 0);
+}
+
+/** Matrix in Quirk's "{{a,b},{c,d}}" notation */
+function formatQuirkMatrix(matrix: Complex[][]): string {
+  return `{${matrix.map(row => `{${row.map(formatQuirkComplex).join(',')}}`).join(',')}}`;
+}
+
+function formatQuirkComplex(value: Complex): string {
+  const re = formatQuirkNumber(value.re);
+  const im = formatQuirkNumber(value.im);
+  if (im === '0') return re;
+  const imPart = im === '1' ? 'i' : im === '-1' ? '-i' : `${im}i`;
+  if (re === '0') return imPart;
+  return imPart.startsWith('-') ? `${re}${imPart}` : `${re}+${imPart}`;
+}
+
+function formatQuirkNumber(value: number): string {
+  const rounded = Number(value.toPrecision(12));
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Convert Quirk circuit JSON into a CircuitFile.
+ *
+ * Accepts a Quirk link, the raw JSON text, or an already parsed object.
+ * Gates with no equivalent are reported as warnings and left out; input
+ * that is not a Quirk circuit at all is reported as an error with a null
+ * file. Non-zero initial states (`init`) become leading preparation columns.
+ */
+export function importQuirkCircuit(input: unknown, name: string = 'Imported from Quirk'): QuirkImportResult {
+  const warnings: string[] = [];
+  const fail = (message: string): QuirkImportResult => ({
+    file: null,
+    report: { valid: false, errors: [message], warnings: [] },
+  });
+
+  let data = input;
+  if (typeof input === 'string') {
+    const hashIndex = input.indexOf('circuit=');
+    let text = input.trim();
+    if (hashIndex !== -1) {
+      try {
+        text = decodeURIComponent(input.slice(hashIndex + 'circuit='.length).trim());
+      } catch {
+        return fail('Quirk link is not validly encoded');
+      }
+    }
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return fail('Input is neither a Quirk link nor Quirk circuit JSON');
+    }
+  }
+
+  if (!data || typeof data !== 'object' || !Array.isArray((data as QuirkCircuit).cols)) {
+    return fail('Quirk circuit must have a "cols" array');
+  }
+  const quirk = data as QuirkCircuit;
+  if (!quirk.cols.every(Array.isArray)) {
+    return fail('Every Quirk column must be an array');
+  }
+
+  const customGates = readQuirkCustomGates(quirk.gates, warnings);
+  const columns: PlacedColumn[] = [];
+  let numRows = 0;
+
+  const place = (column: PlacedColumn, row: number, gate: GateType, params?: GateParams) => {
+    column.set(row, { gate, ...params });
+    numRows = Math.max(numRows, row + 1);
+  };
+
+  columns.push(...initialStateColumns(quirk.init, warnings, place));
+
+  quirk.cols.forEach((quirkColumn, col) => {
+    const column: PlacedColumn = new Map();
+    const reversals: PlacedColumn = new Map();
+    const numControls = quirkColumn.filter(entry => {
+      const gate = typeof entry === 'string' ? QUIRK_TO_GATE[entry] : undefined;
+      return gate !== undefined && isControlGate(gate);
+    }).length;
+
+    quirkColumn.forEach((entry, wire) => {
+      if (entry === 1 || entry === null || entry === undefined) return;
+      const id = typeof entry === 'object' ? entry.id : String(entry);
+      const arg = typeof entry === 'object' ? entry.arg : undefined;
+      const location = `column ${col}, wire ${wire}`;
+
+      const gate = resolveControlledTarget(QUIRK_TO_GATE[id], numControls);
+      if (gate !== undefined) {
+        if (numControls > 0 && GLOBAL_PHASE_GATES.has(gate)) {
+          warnings.push(`${location}: Quirk's ${id} matches ${gate} only up to global phase; controlled result differs`);
+        }
+        place(column, wire, gate);
+        return;
+      }
+
+      const sizedMatch = /^(.*?)(\d+)$/.exec(id);
+      const sizedGate = sizedMatch ? QUIRK_SIZED_TO_GATE[sizedMatch[1]] : undefined;
+      if (sizedMatch && sizedGate !== undefined && Number(sizedMatch[2]) > 0) {
+        const size = Number(sizedMatch[2]);
+        const reverseSpan = { startRow: wire, endRow: wire + size - 1 };
+        place(column, wire, sizedGate, { reverseSpan });
+        for (let row = wire + 1; row <= reverseSpan.endRow; row++) {
+          place(column, row, sizedGate, { isSpanContinuation: true });
+        }
+        if (sizedGate === GateType.QFT || sizedGate === GateType.QFT_DG) {
+          reversals.set(wire, { gate: GateType.REVERSE, reverseSpan });
+          for (let row = wire + 1; row <= reverseSpan.endRow; row++) {
+            reversals.set(row, { gate: GateType.REVERSE, isSpanContinuation: true });
+          }
+        }
+        return;
+      }
+
+      const rotation = QUIRK_TO_ROTATION[id];
+      if (rotation !== undefined) {
+        const angle = arg !== undefined ? parseAngleExpression(arg) : null;
+        if (angle === null) {
+          warnings.push(`${location}: ${id} argument "${arg ?? ''}" is not a constant angle; dropped`);
+          return;
+        }
+        place(column, wire, rotation, { angle, angleExpression: arg });
+        return;
+      }
+
+      const powerMatch = /^([XYZ])\^(-?)(.+)$/.exec(id);
+      const fraction = powerMatch ? QUIRK_FRACTIONS[powerMatch[3]] : undefined;
+      if (powerMatch && fraction !== undefined) {
+        const exponent = powerMatch[2] === '-' ? -fraction : fraction;
+        place(column, wire, GateType.CUSTOM, {
+          customMatrix: pauliPowerMatrix(powerMatch[1] as 'X' | 'Y' | 'Z', exponent),
+          customLabel: id,
+        });
+        return;
+      }
+
+      const custom = customGates.get(id);
+      if (custom) {
+        const type = getCustomGateType(custom.matrix);
+        if (type === GateType.CUSTOM) {
+          place(column, wire, type, { customMatrix: custom.matrix, customLabel: custom.label });
+          return;
+        }
+        const reverseSpan = { startRow: wire, endRow: wire + Math.log2(custom.matrix.length) - 1 };
+        const spanParams = { customMatrix: custom.matrix, customLabel: custom.label, reverseSpan };
+        place(column, wire, type, spanParams);
+        for (let row = wire + 1; row <= reverseSpan.endRow; row++) {
+          place(column, row, type, { ...spanParams, isSpanContinuation: true });
+        }
+        return;
+      }
+
+      warnings.push(`${location}: Quirk gate "${id}" has no Qbit Weaver equivalent; dropped`);
+    });
+
+    if (reversals.size > 0) columns.push(reversals);
+    columns.push(column);
+    if (reversals.size > 0) columns.push(new Map(reversals));
+  });
+
+  const rows = Math.max(1, numRows);
+  const cols = Math.max(1, columns.length);
+  const grid: CircuitGrid = Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c): Cell => {
+      const placed = columns[c]?.get(r);
+      const id = `cell-${r}-${c}`;
+      if (!placed) return { gate: null, id };
+      const { gate, ...params } = placed;
+      return Object.keys(params).length > 0 ? { gate, id, params } : { gate, id };
+    })
+  );
+
+  const definitions = [...new Map([...customGates.values()].map(def => [def.label, def])).values()];
+  const file: CircuitFile = {
+    version: CIRCUIT_FILE_VERSION,
+    metadata: { name, createdAt: new Date().toISOString() },
+    circuit: { rows, cols, grid },
+    ...(definitions.length > 0 ? { customGates: definitions } : {}),
+  };
+
+  return { file, report: { valid: true, errors: [], warnings } };
+}
+
+/** Controlled X and Z read as the grid's target gates, as in the QASM import */
+function resolveControlledTarget(gate: GateType | undefined, numControls: number): GateType | undefined {
+  if (numControls === 0) return gate;
+  if (gate === GateType.X) return numControls === 2 ? GateType.CCX : GateType.CX;
+  if (gate === GateType.Z) return GateType.CZ;
+  return gate;
+}
+
+/** Read matrix gates on up to MAX_CUSTOM_GATE_QUBITS qubits from Quirk's `gates` list; others are reported */
+function readQuirkCustomGates(
+  gates: QuirkCustomGate[] | undefined,
+  warnings: string[]
+): Map<string, Required<Omit<CustomGateDefinition, 'circuit'>>> {
+  const result = new Map<string, Required<Omit<CustomGateDefinition, 'circuit'>>>();
+  if (!Array.isArray(gates)) return result;
+
+  for (const gate of gates) {
+    if (!gate || typeof gate.id !== 'string') continue;
+    const matrix = typeof gate.matrix === 'string' ? parseQuirkMatrix(gate.matrix) : null;
+    if (!matrix || getMatrixQubits(matrix) === null) {
+      warnings.push(`custom gate "${gate.id}": only matrix gates on 1 to ${MAX_CUSTOM_GATE_QUBITS} qubits are supported; its uses are dropped`);
+      continue;
+    }
+    result.set(gate.id, {
+      label: gate.name || gate.id.replace(/^~/, ''),
+      matrix: matrix.length > 2 ? reverseMatrixQubitOrder(matrix) : matrix,
+    });
+  }
+  return result;
+}
+
+/** Parse Quirk's "{{a,b},{c,d}}" matrix notation */
+function parseQuirkMatrix(text: string): Complex[][] | null {
+  const rows = text.trim().replace(/^\{\s*\{/, '').replace(/\}\s*\}$/, '').split(/\}\s*,\s*\{/);
+  const matrix: Complex[][] = [];
+  for (const row of rows) {
+    const values: Complex[] = [];
+    for (const entry of row.split(',')) {
+      const normalized = entry
+        .replace(/½/g, '(1/2)')
+        .replace(/√(\d+(?:\.\d+)?|\(1\/2\))/g, 'sqrt($1)')
+        .replace(/√\(/g, 'sqrt(');
+      const value = parseComplexExpression(normalized);
+      if (!value || normalized.trim() === '') return null;
+      values.push(value);
+    }
+    matrix.push(values);
+  }
+  return matrix;
+}
+
+/** Quirk's phase-correct Pauli power P^e = e^(iπe/2)(cos(πe/2)I - i sin(πe/2)P) */
+function pauliPowerMatrix(axis: 'X' | 'Y' | 'Z', exponent: number): Complex[][] {
+  const half = (Math.PI * exponent) / 2;
+  const phase = { re: Math.cos(half), im: Math.sin(half) };
+  const c = Math.cos(half);
+  const s = Math.sin(half);
+  // Rotation part before the global phase
+  const rotation: Complex[][] = axis === 'Z'
+    ? [[{ re: c, im: -s }, { re: 0, im: 0 }], [{ re: 0, im: 0 }, { re: c, im: s }]]
+    : axis === 'X'
+      ? [[{ re: c, im: 0 }, { re: 0, im: -s }], [{ re: 0, im: -s }, { re: c, im: 0 }]]
+      : [[{ re: c, im: 0 }, { re: -s, im: 0 }], [{ re: s, im: 0 }, { re: c, im: 0 }]];
+  return rotation.map(row => row.map(value => ({
+    re: phase.re * value.re - phase.im * value.im,
+    im: phase.re * value.im + phase.im * value.re,
+  })));
+}
+
+/**
+ * Preparation columns for Quirk's per-wire initial states:
+ * X for |1⟩/|−⟩/|−i⟩, then H for the superpositions, then S or S† for |±i⟩.
+ */
+function initialStateColumns(
+  init: (string | number)[] | undefined,
+  warnings: string[],
+  place: (column: PlacedColumn, row: number, gate: GateType) => void
+): PlacedColumn[] {
+  if (!Array.isArray(init)) return [];
+  const flips: PlacedColumn = new Map();
+  const hadamards: PlacedColumn = new Map();
+  const phases: PlacedColumn = new Map();
+
+  init.forEach((state, wire) => {
+    switch (String(state)) {
+      case '0':
+        break;
+      case '1':
+        place(flips, wire, GateType.X);
+        break;
+      case '+':
+        place(hadamards, wire, GateType.H);
+        break;
+      case '-':
+        place(flips, wire, GateType.X);
+        place(hadamards, wire, GateType.H);
+        break;
+      case 'i':
+        place(hadamards, wire, GateType.H);
+        place(phases, wire, GateType.S);
+        break;
+      case '-i':
+        place(hadamards, wire, GateType.H);
+        place(phases, wire, GateType.SDG);
+        break;
+      default:
+        warnings.push(`wire ${wire}: initial state "${state}" is not supported; starting in |0⟩`);
+    }
+  });
+
+  return [flips, hadamards, phases].filter(column => column.size > 0);
+}
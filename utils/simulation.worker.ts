@@ -0,0 +1,87 @@
+import { createSimulationCache } from './quantum';
+import {
+  runSimulationRequest,
+  SimulationRequest,
+  SimulationWorkerRequest,
+  SimulationWorkerResponse,
+} from './simulationRunner';
+
+/**
+ * Simulation worker entry point
+ *
+ * Runs one request at a time, in slices: after SLICE_MS a run stops at the end
+ * of a column and resumes from the cache on the next task, so 'cancel' and
+ * newer 'run' messages are seen between slices without terminating the worker.
+ *
+ * Column states of the previous run are kept so edits and time animation only
+ * re-simulate from the first changed column. The cache shares its arrays with
+ * results, so results are copied to the main thread rather than transferred.
+ */
+
+/** Runs shorter than this report no progress, so quick edits don't flash a progress bar */
+const PROGRESS_DELAY_MS = 150;
+/** Minimum time between progress messages */
+const PROGRESS_INTERVAL_MS = 50;
+/** Longest a run blocks the worker before checking for new messages (plus one column) */
+const SLICE_MS = 50;
+
+const cache = createSimulationCache();
+
+/** The request being run, if any */
+let current: { id: number; request: SimulationRequest; startedAt: number; lastReportAt: number } | null = null;
+let sliceScheduled = false;
+
+const post = (message: SimulationWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const scheduleSlice = () => {
+  if (sliceScheduled) return;
+  sliceScheduled = true;
+  setTimeout(() => {
+    sliceScheduled = false;
+    runSlice();
+  });
+};
+
+const runSlice = () => {
+  const run = current;
+  if (!run) return;
+  const sliceEnd = performance.now() + SLICE_MS;
+  let paused = false;
+
+  try {
+    const response = runSimulationRequest(run.request, (completedColumns, totalColumns) => {
+      const now = performance.now();
+      if (now - run.startedAt >= PROGRESS_DELAY_MS && now - run.lastReportAt >= PROGRESS_INTERVAL_MS) {
+        run.lastReportAt = now;
+        post({ type: 'progress', id: run.id, completedColumns, totalColumns });
+      }
+      if (now >= sliceEnd && completedColumns < totalColumns) {
+        paused = true;
+        return false;
+      }
+    }, cache);
+    if (paused) {
+      scheduleSlice();
+      return;
+    }
+    post({ type: 'result', id: run.id, response });
+  } catch (error) {
+    post({ type: 'error', id: run.id, message: error instanceof Error ? error.message : 'Simulation failed' });
+  }
+  current = null;
+};
+
+self.onmessage = (event: MessageEvent<SimulationWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'run':
+      current = { id: message.id, request: message.request, startedAt: performance.now(), lastReportAt: 0 };
+      scheduleSlice();
+      break;
+    case 'cancel':
+      if (current?.id === message.id) current = null;
+      break;
+  }
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runSimulationRequest } from './simulationRunner';
+import { runCircuitWithMeasurements, runDensityMatrixSimulation, createSimulationCache } from './quantum';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** H, CX and a measurement: three active columns */
+const createBellGrid = (): CircuitGrid => {
+  const grid = createGrid(2, 4);
+  grid[0][0].gate = GateType.H;
+  grid[0][1].gate = GateType.CONTROL;
+  grid[1][1].gate = GateType.X;
+  grid[1][3].gate = GateType.MEASURE;
+  return grid;
+};
+
+describe('runSimulationRequest', () => {
+  it('should run the state-vector engine', () => {
+    const grid = createBellGrid();
+    const response = runSimulationRequest({ engine: 'stateVector', grid, measurementSeed: 7, initialStates: ['+'] });
+    expect(response).toEqual({ engine: 'stateVector', result: runCircuitWithMeasurements(grid, undefined, 7, ['+']) });
+  });
+
+  it('should run the density-matrix engine', () => {
+    const grid = createBellGrid();
+    const noiseModel = { channel: GateType.DEPOLARIZE, strength: 0.1 } as const;
+    const response = runSimulationRequest({ engine: 'densityMatrix', grid, noiseModel, initialStates: [] });
+    expect(response).toEqual({ engine: 'densityMatrix', result: runDensityMatrixSimulation(grid, noiseModel) });
+  });
+
+  it('should report progress after every active column', () => {
+    for (const engine of ['stateVector', 'densityMatrix'] as const) {
+      const onProgress = vi.fn();
+      runSimulationRequest({ engine, grid: createBellGrid(), noiseModel: null, initialStates: [] }, onProgress);
+      expect(onProgress.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+    }
+  });
+
+  it('should resume from the cache of the previous run', () => {
+    const cache = createSimulationCache();
+    const grid = createBellGrid();
+    runSimulationRequest({ engine: 'stateVector', grid, measurementSeed: 7, initialStates: [] }, undefined, cache);
+    grid[0][2].gate = GateType.Z;
+
+    const onProgress = vi.fn();
+    const response = runSimulationRequest({ engine: 'stateVector', grid, measurementSeed: 7, initialStates: [] }, onProgress, cache);
+
+    expect(onProgress.mock.calls).toEqual([[3, 4], [4, 4]]);
+    expect(response.result).toEqual(runCircuitWithMeasurements(grid, undefined, 7));
+  });
+
+  it('should stop when onProgress returns false and resume where it stopped', () => {
+    for (const engine of ['stateVector', 'densityMatrix'] as const) {
+      const cache = createSimulationCache();
+      const request = { engine, grid: createBellGrid(), measurementSeed: 7, noiseModel: null, initialStates: [] };
+      runSimulationRequest(request, completed => completed < 1, cache);
+
+      const onProgress = vi.fn();
+      const response = runSimulationRequest(request, onProgress, cache);
+
+      expect(onProgress.mock.calls).toEqual([[2, 3], [3, 3]]);
+      expect(response).toEqual(runSimulationRequest(request));
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import { CircuitGrid, WireInitialState } from '../types';
+import {
+  runCircuitWithMeasurements,
+  runDensityMatrixSimulation,
+  CircuitSimulationResult,
+  DensityMatrixSimulationResult,
+  NoiseModel,
+  SimulationCache,
+  SimulationProgressCallback,
+} from './quantum';
+
+/**
+ * Simulation requests and the message protocol of the simulation worker
+ *
+ * The worker (simulation.worker.ts) only parses messages and calls
+ * runSimulationRequest, so the same requests run on the main thread when
+ * workers are unavailable (tests, older browsers).
+ */
+
+/** What to simulate, and with which engine */
+export type SimulationRequest =
+  | {
+      engine: 'stateVector';
+      grid: CircuitGrid;
+      timeParameter?: number;
+      measurementSeed?: number;
+      initialStates: WireInitialState[];
+    }
+  | {
+      engine: 'densityMatrix';
+      grid: CircuitGrid;
+      noiseModel: NoiseModel | null;
+      timeParameter?: number;
+      initialStates: WireInitialState[];
+    };
+
+/** Result of a SimulationRequest, tagged with the engine that produced it */
+export type SimulationResponse =
+  | { engine: 'stateVector'; result: CircuitSimulationResult }
+  | { engine: 'densityMatrix'; result: DensityMatrixSimulationResult };
+
+/** Main thread → worker; a new run replaces the one in progress */
+export type SimulationWorkerRequest =
+  | { type: 'run'; id: number; request: SimulationRequest }
+  | { type: 'cancel'; id: number };
+
+/** Worker → main thread; `id` echoes the run it belongs to */
+export type SimulationWorkerResponse =
+  | { type: 'progress'; id: number; completedColumns: number; totalColumns: number }
+  | { type: 'result'; id: number; response: SimulationResponse }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Run a request to completion on the calling thread.
+ * With a cache, the run resumes from the first column that changed since the
+ * previous run of the same engine.
+ */
+export const runSimulationRequest = (
+  request: SimulationRequest,
+  onProgress?: SimulationProgressCallback,
+  cache?: SimulationCache
+): SimulationResponse => {
+  switch (request.engine) {
+    case 'stateVector':
+      return {
+        engine: 'stateVector',
+        result: runCircuitWithMeasurements(
+          request.grid, request.timeParameter, request.measurementSeed, request.initialStates, onProgress, cache
+        ),
+      };
+    case 'densityMatrix':
+      return {
+        engine: 'densityMatrix',
+        result: runDensityMatrixSimulation(
+          request.grid, request.noiseModel, request.timeParameter, request.initialStates, onProgress, cache
+        ),
+      };
+  }
+};
+
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { transpileCircuit, BasisGateSet } from './transpiler';
+import { CircuitGrid, GateType, GateParams } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+const placeSpan = (grid: CircuitGrid, gate: GateType, col: number, startRow: number, endRow: number) => {
+  for (let row = startRow; row <= endRow; row++) {
+    grid[row][col].gate = gate;
+    grid[row][col].params = row === startRow ? { reverseSpan: { startRow, endRow } } : { isSpanContinuation: true };
+  }
+};
+
+const ALLOWED_GATES: Record<BasisGateSet, GateType[]> = {
+  'cx-rz-sx-x': [GateType.CONTROL, GateType.CX, GateType.RZ, GateType.SQRT_X, GateType.X],
+  'cz-rx-ry': [GateType.CONTROL, GateType.CZ, GateType.RX, GateType.RY],
+};
+
+/** Transpile into a basis and check the result is equivalent and uses only that basis */
+const expectTranspiles = (grid: CircuitGrid, basis: BasisGateSet, timeParameter?: number) => {
+  const result = transpileCircuit(grid, basis, timeParameter);
+  expect(result.verificationError).toBeNull();
+  expect(result.verification?.equivalent).toBe(true);
+
+  for (let col = 0; col < (result.grid[0]?.length ?? 0); col++) {
+    const gates = result.grid.map(row => row[col].gate).filter((gate): gate is GateType => gate !== null);
+    for (const gate of gates) expect(ALLOWED_GATES[basis]).toContain(gate);
+    // A control never shares its column with anything but its target
+    if (gates.includes(GateType.CONTROL)) expect(gates).toHaveLength(2);
+  }
+  return result;
+};
+
+const BASES: BasisGateSet[] = ['cx-rz-sx-x', 'cz-rx-ry'];
+
+describe('transpiler', () => {
+  describe.each(BASES)('into %s', (basis) => {
+    it('should decompose a Toffoli', () => {
+      const grid = createGrid(3, 1);
+      grid[0][0].gate = GateType.CONTROL;
+      grid[1][0].gate = GateType.CONTROL;
+      grid[2][0].gate = GateType.CCX;
+      const { grid: transpiled } = expectTranspiles(grid, basis);
+      const twoQubitColumns = transpiled[0].filter((_, col) => transpiled.some(row => row[col].gate === GateType.CONTROL));
+      expect(twoQubitColumns).toHaveLength(6);
+    });
+
+    it('should decompose QFT, QFT† and reverse spans', () => {
+      const grid = createGrid(3, 2);
+      placeSpan(grid, GateType.QFT, 0, 0, 2);
+      placeSpan(grid, GateType.REVERSE, 1, 0, 2);
+      expectTranspiles(grid, basis);
+      const inverse = createGrid(4, 1);
+      placeSpan(inverse, GateType.QFT_DG, 0, 1, 3);
+      expectTranspiles(inverse, basis);
+    });
+
+    it('should decompose controlled rotations and square-root gates', () => {
+      const rotation = (gate: GateType, angle: number): { gate: GateType; params: GateParams } =>
+        ({ gate, params: { angle } });
+      const grid = createGrid(2, 5);
+      grid[0][0].gate = GateType.SQRT_Y_DG;
+      grid[1][0].gate = GateType.H;
+      grid[0][1].gate = GateType.CONTROL;
+      Object.assign(grid[1][1], rotation(GateType.RY, 0.7));
+      grid[1][2].gate = GateType.ANTI_CONTROL;
+      Object.assign(grid[0][2], rotation(GateType.RZ, -1.3));
+      grid[0][3].gate = GateType.X_CONTROL;
+      grid[1][3].gate = GateType.SQRT_Y_DG;
+      grid[0][4].gate = GateType.Y_ANTI_CONTROL;
+      grid[1][4].gate = GateType.T;
+      expectTranspiles(grid, basis);
+    });
+
+    it('should decompose gates with three controls and controlled spans', () => {
+      const grid = createGrid(5, 3);
+      grid[0][0].gate = GateType.CONTROL;
+      grid[1][0].gate = GateType.ANTI_CONTROL;
+      grid[2][0].gate = GateType.CONTROL;
+      grid[3][0].gate = GateType.H;
+      grid[0][1].gate = GateType.CONTROL;
+      grid[1][1].gate = GateType.SWAP;
+      grid[4][1].gate = GateType.SWAP;
+      grid[0][2].gate = GateType.CONTROL;
+      placeSpan(grid, GateType.PHASE_GRADIENT, 2, 1, 3);
+      expectTranspiles(grid, basis);
+    });
+  });
+
+  it('should keep basis gates as they are', () => {
+    const grid = createGrid(2, 2);
+    grid[0][0].gate = GateType.SQRT_X;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1].gate = GateType.CX;
+    const { grid: transpiled } = expectTranspiles(grid, 'cx-rz-sx-x');
+    expect(transpiled[0][0].gate).toBe(GateType.SQRT_X);
+    expect(transpiled[0][1].gate).toBe(GateType.CONTROL);
+    expect(transpiled[1][1].gate).toBe(GateType.CX);
+    expect(transpiled.flat().filter(cell => cell.gate !== null)).toHaveLength(3);
+  });
+
+  it('should write angles the way the angle prompt does', () => {
+    const grid = createGrid(1, 1);
+    grid[0][0].gate = GateType.T;
+    const { grid: transpiled } = expectTranspiles(grid, 'cx-rz-sx-x');
+    expect(transpiled[0][0]).toMatchObject({ gate: GateType.RZ, params: { angleExpression: 'π/4' } });
+    expect(transpiled[0][0].params?.angle).toBeCloseTo(Math.PI / 4, 12);
+  });
+
+  it('should copy measurements and display gates and report that the check cannot run', () => {
+    const grid = createGrid(2, 3);
+    grid[0][0].gate = GateType.H;
+    grid[0][1].gate = GateType.BLOCH_VIS;
+    grid[1][1].gate = GateType.MEASURE;
+    const result = transpileCircuit(grid, 'cz-rx-ry');
+    const gates = result.grid.flat().map(cell => cell.gate).filter(gate => gate !== null);
+    expect(gates).toContain(GateType.BLOCH_VIS);
+    expect(gates).toContain(GateType.MEASURE);
+    expect(result.verification).toBeNull();
+    expect(result.verificationError).toBe('Measure in column 2 is not unitary');
+  });
+
+  it('should reject gates that have no decomposition', () => {
+    const grid = createGrid(2, 2);
+    grid[0][1].gate = GateType.INC;
+    grid[0][1].params = { reverseSpan: { startRow: 0, endRow: 1 } };
+    grid[1][1].gate = GateType.INC;
+    grid[1][1].params = { isSpanContinuation: true };
+    expect(() => transpileCircuit(grid, 'cx-rz-sx-x')).toThrow('in column 2 has no decomposition into basis gates');
+  });
+});
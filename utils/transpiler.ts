@@ -0,0 +1,603 @@
+import {
+  Cell,
+  CircuitGrid,
+  Complex,
+  GateParams,
+  GateType,
+  isArithmeticComparisonGate,
+  isArithmeticFixed2x1Gate,
+  isArithmeticInputGate,
+  isArithmeticScalarGate,
+  isClassicalControlGate,
+  isInputParameterizedGate,
+  isNoiseGate,
+  isQFTGate,
+  isVisualizationGate,
+} from '../types';
+import { GATE_DEFS } from '../constants';
+import { getGateMatrix, checkCircuitEquivalence, EquivalenceResult } from './quantum';
+import { formatAngle } from './angleParser';
+import { expandMacroGates } from './macroGates';
+import { mul as complexMul, absSq as complexAbsSq, arg as complexArg } from './complex';
+
+/**
+ * Transpiler: rewrite a circuit into a small basis gate set
+ *
+ * Every column becomes controlled single-qubit gates and SWAPs (QFT, reverse
+ * and phase-gradient spans are expanded first), which are lowered to CX or CZ
+ * plus single-qubit gates: CCX uses the standard 6-CX Toffoli, other
+ * multi-controlled gates use the V = √U recursion (no ancillas), and single
+ * controls use the A·X·B·X·C construction. Each single-qubit gate is then
+ * synthesized from Euler angles in the target basis. Global phase is dropped.
+ * Measurements, resets, noise and display gates are copied unchanged.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BasisGateSet = 'cx-rz-sx-x' | 'cz-rx-ry';
+
+/** Target bases offered by the transpiler, in display order */
+export const BASIS_GATE_SETS: { id: BasisGateSet; name: string }[] = [
+  { id: 'cx-rz-sx-x', name: 'CX, RZ, SX, X' },
+  { id: 'cz-rx-ry', name: 'CZ, RX, RY' },
+];
+
+/** Outcome of transpiling a circuit */
+export interface TranspileResult {
+  /** The rewritten circuit, on the same wires as the source */
+  grid: CircuitGrid;
+  /** Unitary check of the rewrite against the source; null when it could not run */
+  verification: EquivalenceResult | null;
+  /** Why the unitary check could not run (non-unitary gates, too many qubits) */
+  verificationError: string | null;
+}
+
+type Matrix = Complex[][];
+
+/** A control on a row: fires on |1⟩, or on |0⟩ when negated */
+interface Control {
+  row: number;
+  negated: boolean;
+}
+
+/** A step of the source circuit, in time order */
+type SourceOp =
+  | { kind: 'gate'; target: number; matrix: Matrix; controls: Control[] }
+  | { kind: 'swap'; rows: [number, number]; controls: Control[] }
+  | { kind: 'keep'; cells: { row: number; cell: Cell }[] };
+
+/** A step after lowering: single-qubit gates, two-qubit basis gates and copied cells */
+type LoweredOp =
+  | { kind: 'u'; row: number; matrix: Matrix }
+  | { kind: 'cx' | 'cz'; control: number; target: number }
+  | { kind: 'keep'; cells: { row: number; cell: Cell }[] };
+
+/** A gate of the target basis on one row */
+interface BasisGate {
+  type: GateType;
+  angle?: number;
+}
+
+// ============================================================================
+// 2×2 matrices
+// ============================================================================
+
+const TOLERANCE = 1e-9;
+
+const matMul = (a: Matrix, b: Matrix): Matrix => [
+  [
+    addComplex(complexMul(a[0][0], b[0][0]), complexMul(a[0][1], b[1][0])),
+    addComplex(complexMul(a[0][0], b[0][1]), complexMul(a[0][1], b[1][1])),
+  ],
+  [
+    addComplex(complexMul(a[1][0], b[0][0]), complexMul(a[1][1], b[1][0])),
+    addComplex(complexMul(a[1][0], b[0][1]), complexMul(a[1][1], b[1][1])),
+  ],
+];
+
+const addComplex = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+const dagger = (m: Matrix): Matrix => [
+  [{ re: m[0][0].re, im: -m[0][0].im }, { re: m[1][0].re, im: -m[1][0].im }],
+  [{ re: m[0][1].re, im: -m[0][1].im }, { re: m[1][1].re, im: -m[1][1].im }],
+];
+
+const isClose = (a: Matrix, b: Matrix): boolean =>
+  a.every((row, i) => row.every((entry, j) =>
+    Math.abs(entry.re - b[i][j].re) < TOLERANCE && Math.abs(entry.im - b[i][j].im) < TOLERANCE
+  ));
+
+/** Whether m is e^(iφ)·I for some φ */
+const isPhaseTimesIdentity = (m: Matrix): boolean =>
+  complexAbsSq(m[0][1]) < TOLERANCE && complexAbsSq(m[1][0]) < TOLERANCE &&
+  Math.abs(m[0][0].re - m[1][1].re) < TOLERANCE && Math.abs(m[0][0].im - m[1][1].im) < TOLERANCE;
+
+const determinant = (m: Matrix): Complex =>
+  addComplex(complexMul(m[0][0], m[1][1]), complexMul({ re: -m[0][1].re, im: -m[0][1].im }, m[1][0]));
+
+/** diag(1, e^(iθ)) */
+const phaseMatrix = (theta: number): Matrix => [
+  [{ re: 1, im: 0 }, { re: 0, im: 0 }],
+  [{ re: 0, im: 0 }, { re: Math.cos(theta), im: Math.sin(theta) }],
+];
+
+const rzMatrix = (theta: number): Matrix => getGateMatrix(GateType.RZ, { angle: theta });
+const ryMatrix = (theta: number): Matrix => getGateMatrix(GateType.RY, { angle: theta });
+
+const X_MATRIX = getGateMatrix(GateType.X);
+const Z_MATRIX = getGateMatrix(GateType.Z);
+const H_MATRIX = getGateMatrix(GateType.H);
+const T_MATRIX = phaseMatrix(Math.PI / 4);
+const T_DAGGER_MATRIX = phaseMatrix(-Math.PI / 4);
+/** Basis change for Y controls, and back: S†, then H */
+const Y_BASIS_IN = matMul(H_MATRIX, getGateMatrix(GateType.SDG));
+const Y_BASIS_OUT = dagger(Y_BASIS_IN);
+
+/** A unitary V with V² = U */
+const sqrtUnitary = (u: Matrix): Matrix => {
+  // V = (U + s·I) / t with s² = det U and t² = tr U + 2s; pick s so t is not 0
+  const det = determinant(u);
+  const detAngle = complexArg(det) / 2;
+  const trace = addComplex(u[0][0], u[1][1]);
+  const candidates = [1, -1].map(sign => {
+    const s = { re: sign * Math.cos(detAngle), im: sign * Math.sin(detAngle) };
+    return { s, t2: { re: trace.re + 2 * s.re, im: trace.im + 2 * s.im } };
+  });
+  const { s, t2 } = complexAbsSq(candidates[0].t2) >= complexAbsSq(candidates[1].t2) ? candidates[0] : candidates[1];
+  const tAbs = Math.sqrt(Math.sqrt(complexAbsSq(t2)));
+  const tAngle = complexArg(t2) / 2;
+  const inverseT = { re: Math.cos(-tAngle) / tAbs, im: Math.sin(-tAngle) / tAbs };
+  return u.map((row, i) => row.map((entry, j) => complexMul(i === j ? addComplex(entry, s) : entry, inverseT)));
+};
+
+/** Angle in (-π, π] */
+const normalizeAngle = (theta: number): number => {
+  const wrapped = theta - 2 * Math.PI * Math.round(theta / (2 * Math.PI));
+  return wrapped <= -Math.PI + TOLERANCE ? wrapped + 2 * Math.PI : wrapped;
+};
+
+const isZeroAngle = (theta: number): boolean => Math.abs(normalizeAngle(theta)) < TOLERANCE;
+
+/** U = e^(iα)·RZ(β)·RY(γ)·RZ(δ), with γ in [0, π] */
+const zyzAngles = (u: Matrix): { alpha: number; beta: number; gamma: number; delta: number } => {
+  const det = determinant(u);
+  const alpha = complexArg(det) / 2;
+  const unphase = { re: Math.cos(-alpha), im: Math.sin(-alpha) };
+  // W = e^(-iα)·U has W₁₁ = e^(i(β+δ)/2)·cos(γ/2) and W₁₀ = e^(i(β-δ)/2)·sin(γ/2)
+  const w11 = complexMul(unphase, u[1][1]);
+  const w10 = complexMul(unphase, u[1][0]);
+  const cos = Math.sqrt(complexAbsSq(w11));
+  const sin = Math.sqrt(complexAbsSq(w10));
+  const gamma = 2 * Math.atan2(sin, cos);
+  const sum = cos > TOLERANCE ? 2 * complexArg(w11) : 0;
+  const difference = sin > TOLERANCE ? 2 * complexArg(w10) : 0;
+  return { alpha, beta: (sum + difference) / 2, gamma, delta: (sum - difference) / 2 };
+};
+
+// ============================================================================
+// Source circuit → controlled gates
+// ============================================================================
+
+/** Gates that only make sense on a whole register or a classical record, and arbitrary multi-qubit unitaries */
+const hasNoDecomposition = (type: GateType): boolean =>
+  type === GateType.CUSTOM_MULTI ||
+  isClassicalControlGate(type) ||
+  isArithmeticFixed2x1Gate(type) ||
+  isArithmeticInputGate(type) ||
+  isArithmeticComparisonGate(type) ||
+  isArithmeticScalarGate(type) ||
+  isInputParameterizedGate(type);
+
+/** Gates copied into the transpiled circuit as they are */
+const isKeptGate = (type: GateType): boolean =>
+  type === GateType.MEASURE || type === GateType.RESET || isNoiseGate(type) || isVisualizationGate(type);
+
+const gateName = (type: GateType): string => GATE_DEFS[type]?.fullName ?? type;
+
+/** QFT on rows (first row is the most significant bit): H and controlled phases, then a bit reversal */
+const expandQFT = (rows: number[], isDagger: boolean, controls: Control[]): SourceOp[] => {
+  const ops: SourceOp[] = [];
+  for (let i = 0; i < rows.length; i++) {
+    ops.push({ kind: 'gate', target: rows[i], matrix: H_MATRIX, controls });
+    for (let j = i + 1; j < rows.length; j++) {
+      ops.push({
+        kind: 'gate',
+        target: rows[i],
+        matrix: phaseMatrix(Math.PI / (1 << (j - i))),
+        controls: [...controls, { row: rows[j], negated: false }],
+      });
+    }
+  }
+  for (let i = 0; i < Math.floor(rows.length / 2); i++) {
+    ops.push({ kind: 'swap', rows: [rows[i], rows[rows.length - 1 - i]], controls });
+  }
+  if (!isDagger) return ops;
+  // QFT† runs the same gates backwards, each inverted
+  return ops.reverse().map(op => (op.kind === 'gate' ? { ...op, matrix: dagger(op.matrix) } : op));
+};
+
+/** Split one column into time-ordered source ops, following simulateColumn's order */
+const getColumnOps = (grid: CircuitGrid, col: number, timeParameter?: number): SourceOp[] => {
+  const controls: Control[] = [];
+  const basisChanges: { row: number; into: Matrix; out: Matrix }[] = [];
+  const swapRows: number[] = [];
+  const targets: SourceOp[] = [];
+  // Spans run after the other gates: reverse, then phase gradient, then QFT
+  const spanOrder = (type: GateType) => (type === GateType.REVERSE ? 0 : type === GateType.PHASE_GRADIENT ? 1 : 2);
+  const spanGroups: { order: number; build: (controls: Control[]) => SourceOp[] }[] = [];
+  const kept: SourceOp[] = [];
+
+  for (let row = 0; row < grid.length; row++) {
+    const cell = grid[row][col];
+    const type = cell.gate;
+    if (type === null || type === GateType.I) continue;
+
+    if (hasNoDecomposition(type)) {
+      throw new Error(`${gateName(type)} in column ${col + 1} has no decomposition into basis gates`);
+    }
+    if (isKeptGate(type)) {
+      if (cell.params?.isSpanContinuation) continue;
+      const span = cell.params?.reverseSpan ?? { startRow: row, endRow: row };
+      const cells: { row: number; cell: Cell }[] = [];
+      for (let r = span.startRow; r <= span.endRow; r++) cells.push({ row: r, cell: grid[r][col] });
+      kept.push({ kind: 'keep', cells });
+      continue;
+    }
+
+    switch (type) {
+      case GateType.CONTROL:
+        controls.push({ row, negated: false });
+        break;
+      case GateType.ANTI_CONTROL:
+        controls.push({ row, negated: true });
+        break;
+      // After the basis change |+⟩ and |+i⟩ read as |0⟩, |−⟩ and |−i⟩ as |1⟩
+      case GateType.X_CONTROL:
+      case GateType.X_ANTI_CONTROL:
+        controls.push({ row, negated: type === GateType.X_CONTROL });
+        basisChanges.push({ row, into: H_MATRIX, out: H_MATRIX });
+        break;
+      case GateType.Y_CONTROL:
+      case GateType.Y_ANTI_CONTROL:
+        controls.push({ row, negated: type === GateType.Y_CONTROL });
+        basisChanges.push({ row, into: Y_BASIS_IN, out: Y_BASIS_OUT });
+        break;
+      case GateType.SWAP:
+        swapRows.push(row);
+        break;
+      case GateType.REVERSE:
+      case GateType.PHASE_GRADIENT:
+      case GateType.QFT:
+      case GateType.QFT_DG: {
+        const span = cell.params?.reverseSpan;
+        if (cell.params?.isSpanContinuation || !span) break;
+        const rows = Array.from({ length: span.endRow - span.startRow + 1 }, (_, k) => span.startRow + k);
+        spanGroups.push({
+          order: spanOrder(type),
+          build: (spanControls) => {
+            if (isQFTGate(type)) return expandQFT(rows, type === GateType.QFT_DG, spanControls);
+            if (type === GateType.PHASE_GRADIENT) {
+              // The register is little-endian, so e^(2πik/2ⁿ) puts a phase of π/2^(n-1-j) on its j-th row
+              return rows.map((target, j): SourceOp => ({
+                kind: 'gate', target, matrix: phaseMatrix(Math.PI / (1 << (rows.length - 1 - j))), controls: spanControls,
+              }));
+            }
+            return rows.slice(0, Math.floor(rows.length / 2)).map((top, k): SourceOp => ({
+              kind: 'swap', rows: [top, rows[rows.length - 1 - k]], controls: spanControls,
+            }));
+          },
+        });
+        break;
+      }
+      default: {
+        const matrix = getGateMatrix(type, cell.params, timeParameter);
+        if (matrix.length !== 2) {
+          throw new Error(`${gateName(type)} in column ${col + 1} has no decomposition into basis gates`);
+        }
+        targets.push({ kind: 'gate', target: row, matrix, controls });
+      }
+    }
+  }
+
+  // SWAP cells pair up top to bottom
+  const swaps: SourceOp[] = [];
+  for (let i = 0; i + 1 < swapRows.length; i += 2) {
+    swaps.push({ kind: 'swap', rows: [swapRows[i], swapRows[i + 1]], controls });
+  }
+  const spans = spanGroups.sort((a, b) => a.order - b.order).flatMap(group => group.build(controls));
+
+  const controlled = [...swaps, ...targets, ...spans];
+  if (controlled.length === 0) return kept;
+  return [
+    ...basisChanges.map(({ row, into }): SourceOp => ({ kind: 'gate', target: row, matrix: into, controls: [] })),
+    ...controlled,
+    ...basisChanges.map(({ row, out }): SourceOp => ({ kind: 'gate', target: row, matrix: out, controls: [] })),
+    ...kept,
+  ];
+};
+
+// ============================================================================
+// Controlled gates → CX/CZ and single-qubit gates
+// ============================================================================
+
+/** Append a CX or CZ, conjugating the target by H when the basis only has the other one */
+const pushTwoQubit = (
+  out: LoweredOp[],
+  kind: 'cx' | 'cz',
+  control: number,
+  target: number,
+  basis: BasisGateSet
+): void => {
+  const native = basis === 'cx-rz-sx-x' ? 'cx' : 'cz';
+  if (kind === native) {
+    out.push({ kind, control, target });
+    return;
+  }
+  out.push({ kind: 'u', row: target, matrix: H_MATRIX });
+  out.push({ kind: native, control, target });
+  out.push({ kind: 'u', row: target, matrix: H_MATRIX });
+};
+
+/** Toffoli with controls a, b and target t, in 6 CX */
+const pushToffoli = (out: LoweredOp[], a: number, b: number, t: number, basis: BasisGateSet): void => {
+  const u = (row: number, matrix: Matrix) => out.push({ kind: 'u', row, matrix });
+  const cx = (control: number, target: number) => pushTwoQubit(out, 'cx', control, target, basis);
+  u(t, H_MATRIX);
+  cx(b, t); u(t, T_DAGGER_MATRIX);
+  cx(a, t); u(t, T_MATRIX);
+  cx(b, t); u(t, T_DAGGER_MATRIX);
+  cx(a, t); u(b, T_MATRIX); u(t, T_MATRIX);
+  u(t, H_MATRIX);
+  cx(a, b); u(a, T_MATRIX); u(b, T_DAGGER_MATRIX);
+  cx(a, b);
+};
+
+/** U on target when every control row is |1⟩ */
+const pushControlled = (
+  out: LoweredOp[],
+  target: number,
+  u: Matrix,
+  controls: number[],
+  basis: BasisGateSet
+): void => {
+  if (controls.length === 0) {
+    out.push({ kind: 'u', row: target, matrix: u });
+    return;
+  }
+
+  if (controls.length === 1) {
+    const [control] = controls;
+    if (isClose(u, X_MATRIX)) return pushTwoQubit(out, 'cx', control, target, basis);
+    if (isClose(u, Z_MATRIX)) return pushTwoQubit(out, 'cz', control, target, basis);
+    // U = e^(iα)·A·X·B·X·C with A·B·C = I; the phase goes on the control
+    const { alpha, beta, gamma, delta } = zyzAngles(u);
+    out.push({ kind: 'u', row: target, matrix: rzMatrix((delta - beta) / 2) });
+    pushTwoQubit(out, 'cx', control, target, basis);
+    out.push({ kind: 'u', row: target, matrix: matMul(ryMatrix(-gamma / 2), rzMatrix(-(delta + beta) / 2)) });
+    pushTwoQubit(out, 'cx', control, target, basis);
+    out.push({ kind: 'u', row: target, matrix: matMul(rzMatrix(beta), ryMatrix(gamma / 2)) });
+    out.push({ kind: 'u', row: control, matrix: phaseMatrix(alpha) });
+    return;
+  }
+
+  if (controls.length === 2 && isClose(u, X_MATRIX)) {
+    return pushToffoli(out, controls[0], controls[1], target, basis);
+  }
+
+  // C^k(U) from V = √U: C-V, flip the last control if the rest are set, C-V†, flip back, C^(k-1)-V
+  const v = sqrtUnitary(u);
+  const last = controls[controls.length - 1];
+  const rest = controls.slice(0, -1);
+  pushControlled(out, target, v, [last], basis);
+  pushControlled(out, last, X_MATRIX, rest, basis);
+  pushControlled(out, target, dagger(v), [last], basis);
+  pushControlled(out, last, X_MATRIX, rest, basis);
+  pushControlled(out, target, v, rest, basis);
+};
+
+/** Merge back-to-back single-qubit gates on the same row */
+const mergeSingleQubitRuns = (ops: LoweredOp[]): LoweredOp[] => {
+  const merged: LoweredOp[] = [];
+  const openRun = new Map<number, number>();
+  for (const op of ops) {
+    if (op.kind === 'u') {
+      const index = openRun.get(op.row);
+      if (index !== undefined) {
+        const previous = merged[index] as { kind: 'u'; row: number; matrix: Matrix };
+        merged[index] = { ...previous, matrix: matMul(op.matrix, previous.matrix) };
+      } else {
+        openRun.set(op.row, merged.length);
+        merged.push(op);
+      }
+    } else {
+      const rows = op.kind === 'keep' ? op.cells.map(c => c.row) : [op.control, op.target];
+      for (const row of rows) openRun.delete(row);
+      merged.push(op);
+    }
+  }
+  return merged;
+};
+
+/** Lower one source op, merging single-qubit gates only within its own decomposition */
+const lowerOp = (op: SourceOp, basis: BasisGateSet): LoweredOp[] => {
+  if (op.kind === 'keep') return [op];
+
+  const out: LoweredOp[] = [];
+  // Anti-controls are controls with X on both sides
+  const negated = op.controls.filter(c => c.negated).map(c => c.row);
+  const controlRows = op.controls.map(c => c.row);
+  for (const row of negated) out.push({ kind: 'u', row, matrix: X_MATRIX });
+
+  if (op.kind === 'gate') {
+    pushControlled(out, op.target, op.matrix, controlRows, basis);
+  } else {
+    // Controlled SWAP is a Toffoli between two CX
+    const [a, b] = op.rows;
+    pushTwoQubit(out, 'cx', b, a, basis);
+    pushControlled(out, b, X_MATRIX, [...controlRows, a], basis);
+    pushTwoQubit(out, 'cx', b, a, basis);
+  }
+
+  for (const row of negated) out.push({ kind: 'u', row, matrix: X_MATRIX });
+  return mergeSingleQubitRuns(out);
+};
+
+// ============================================================================
+// Single-qubit synthesis
+// ============================================================================
+
+const rotation = (type: GateType, angle: number): BasisGate[] =>
+  isZeroAngle(angle) ? [] : [{ type, angle: normalizeAngle(angle) }];
+
+/**
+ * Basis gates for a single-qubit unitary up to global phase, in time order.
+ * {RZ, SX, X}: RZ(δ)·SX·RZ(γ+π)·SX·RZ(β+π), with one-SX and X shortcuts.
+ * {RX, RY}: RX(δ)·RY(−γ)·RX(β) from the Z-Y-Z angles of H·U·H.
+ */
+const synthesizeSingleQubit = (u: Matrix, basis: BasisGateSet): BasisGate[] => {
+  if (isPhaseTimesIdentity(u)) return [];
+
+  if (basis === 'cz-rx-ry') {
+    const { beta, gamma, delta } = zyzAngles(matMul(H_MATRIX, matMul(u, H_MATRIX)));
+    if (isZeroAngle(gamma)) return rotation(GateType.RX, beta + delta);
+    return [...rotation(GateType.RX, delta), ...rotation(GateType.RY, -gamma), ...rotation(GateType.RX, beta)];
+  }
+
+  const { beta, gamma, delta } = zyzAngles(u);
+  if (isZeroAngle(gamma)) return rotation(GateType.RZ, beta + delta);
+  if (Math.abs(gamma - Math.PI) < TOLERANCE) {
+    return [{ type: GateType.X }, ...rotation(GateType.RZ, beta - delta + Math.PI)];
+  }
+  if (Math.abs(gamma - Math.PI / 2) < TOLERANCE) {
+    return [...rotation(GateType.RZ, delta - Math.PI / 2), { type: GateType.SQRT_X }, ...rotation(GateType.RZ, beta + Math.PI / 2)];
+  }
+  return [
+    ...rotation(GateType.RZ, delta),
+    { type: GateType.SQRT_X },
+    ...rotation(GateType.RZ, gamma + Math.PI),
+    { type: GateType.SQRT_X },
+    ...rotation(GateType.RZ, beta + Math.PI),
+  ];
+};
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Place gates as early as their wires allow. Columns holding a two-qubit gate
+ * hold nothing else, since a control acts on its whole column.
+ */
+const createLayout = (numRows: number) => {
+  const columns: (Cell | null)[][] = [];
+  const nextFree: number[] = new Array(numRows).fill(0);
+  const exclusive = new Set<number>();
+
+  const isEmptyColumn = (col: number) => !columns[col] || columns[col].every(cell => cell === null);
+
+  const place = (cells: { row: number; gate: GateType; params?: GateParams }[], isExclusive: boolean): void => {
+    let col = Math.max(...cells.map(({ row }) => nextFree[row]));
+    while (isExclusive ? !isEmptyColumn(col) : exclusive.has(col)) col++;
+    while (columns.length <= col) columns.push(new Array(numRows).fill(null));
+    for (const { row, gate, params } of cells) {
+      columns[col][row] = { gate, id: '', ...(params ? { params } : {}) };
+      nextFree[row] = col + 1;
+    }
+    if (isExclusive) exclusive.add(col);
+  };
+
+  const toGrid = (minColumns: number): CircuitGrid => {
+    const numCols = Math.max(columns.length, minColumns, 1);
+    return Array.from({ length: numRows }, (_, row) =>
+      Array.from({ length: numCols }, (_, col) => {
+        const cell = columns[col]?.[row];
+        return { ...(cell ?? { gate: null }), id: `cell-${row}-${col}` };
+      })
+    );
+  };
+
+  return { place, toGrid };
+};
+
+const basisGateParams = ({ angle }: BasisGate): GateParams | undefined =>
+  angle === undefined ? undefined : { angle, angleExpression: formatAngle(angle) };
+
+// ============================================================================
+// Transpiler
+// ============================================================================
+
+/**
+ * Number of CX gates the circuit lowers to in the CX, RZ, SX, X basis,
+ * without synthesizing the single-qubit gates or checking the result.
+ *
+ * @throws Error for the same gates transpileCircuit rejects
+ */
+export const countTwoQubitGates = (grid: CircuitGrid, timeParameter?: number): number => {
+  const expanded = expandMacroGates(grid);
+  let count = 0;
+  for (let col = 0; col < (expanded[0]?.length ?? 0); col++) {
+    for (const sourceOp of getColumnOps(expanded, col, timeParameter)) {
+      count += lowerOp(sourceOp, 'cx-rz-sx-x').filter(op => op.kind === 'cx' || op.kind === 'cz').length;
+    }
+  }
+  return count;
+};
+
+/**
+ * Rewrite a circuit into a basis gate set and check the result against the
+ * source unitary. Animated gates are taken at timeParameter.
+ *
+ * @throws Error if a column holds a gate with no decomposition (arithmetic,
+ *   input registers, classical controls)
+ */
+export const transpileCircuit = (
+  grid: CircuitGrid,
+  basis: BasisGateSet,
+  timeParameter?: number
+): TranspileResult => {
+  // Macro gates are lowered through their sub-circuits
+  const expanded = expandMacroGates(grid);
+  const numRows = expanded.length;
+  const numCols = expanded[0]?.length ?? 0;
+  const layout = createLayout(numRows);
+
+  for (let col = 0; col < numCols; col++) {
+    for (const sourceOp of getColumnOps(expanded, col, timeParameter)) {
+      for (const op of lowerOp(sourceOp, basis)) {
+        if (op.kind === 'u') {
+          for (const gate of synthesizeSingleQubit(op.matrix, basis)) {
+            layout.place([{ row: op.row, gate: gate.type, params: basisGateParams(gate) }], false);
+          }
+        } else if (op.kind === 'keep') {
+          layout.place(op.cells.map(({ row, cell }) => ({
+            row,
+            gate: cell.gate as GateType,
+            params: cell.params ? { ...cell.params } : undefined,
+          })), false);
+        } else {
+          layout.place([
+            { row: op.control, gate: GateType.CONTROL },
+            { row: op.target, gate: op.kind === 'cx' ? GateType.CX : GateType.CZ },
+          ], true);
+        }
+      }
+    }
+  }
+
+  const transpiled = layout.toGrid(numCols);
+  try {
+    return {
+      grid: transpiled,
+      verification: checkCircuitEquivalence({ grid }, { grid: transpiled }, timeParameter),
+      verificationError: null,
+    };
+  } catch (error) {
+    return {
+      grid: transpiled,
+      verification: null,
+      verificationError: error instanceof Error ? error.message : 'Could not check the transpiled circuit',
+    };
+  }
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { createOptimizer, createVariationalOptimizer, OptimizerMethod, VariationalIterate } from './variationalOptimizer';
+import { CircuitGrid, GateType } from '../types';
+
+const createGrid = (rows: number, cols: number): CircuitGrid =>
+  Array.from({ length: rows }, (_, r) =>
+    Array.from({ length: cols }, (_, c) => ({ gate: null, id: `cell-${r}-${c}` }))
+  );
+
+/** RY(expression) on q0 */
+const ryGrid = (expression: string): CircuitGrid => {
+  const grid = createGrid(1, 1);
+  grid[0][0] = { ...grid[0][0], gate: GateType.RY, params: { angle: 0, angleExpression: expression } };
+  return grid;
+};
+
+const theta = (value: number) => ({ name: 'θ', value, min: 0, max: 2 * Math.PI });
+const z = { kind: 'expectation' as const, observable: [{ coefficient: 1, pauli: 'Z' }] };
+
+const run = (step: () => VariationalIterate, iterations: number): VariationalIterate => {
+  let last = step();
+  for (let i = 1; i < iterations && !last.converged; i++) last = step();
+  return last;
+};
+
+describe('variationalOptimizer', () => {
+  const bounds = [{ min: -3, max: 3 }, { min: -3, max: 3 }];
+  const bowl = ([x, y]: number[]) => (x - 1) ** 2 + 2 * (y + 0.5) ** 2;
+
+  it('should find the minimum of a smooth function with Nelder–Mead', () => {
+    const optimizer = createOptimizer('nelder-mead', bowl, [0, 0], { bounds });
+    let iterate = optimizer.initial;
+    for (let i = 0; i < 200 && !iterate.converged; i++) iterate = optimizer.step();
+    expect(iterate.converged).toBe(true);
+    expect(iterate.point[0]).toBeCloseTo(1, 3);
+    expect(iterate.point[1]).toBeCloseTo(-0.5, 3);
+    expect(iterate.evaluations).toBeGreaterThan(iterate.iteration);
+  });
+
+  it('should keep every point inside the bounds', () => {
+    const optimizer = createOptimizer('nelder-mead', ([x]) => x, [1], { bounds: [{ min: 0.5, max: 2 }] });
+    let iterate = optimizer.initial;
+    for (let i = 0; i < 100 && !iterate.converged; i++) iterate = optimizer.step();
+    expect(iterate.point[0]).toBeCloseTo(0.5, 6);
+  });
+
+  it('should descend with SPSA and repeat runs with the same seed', () => {
+    const runSpsa = () => {
+      const optimizer = createOptimizer('spsa', bowl, [0, 0], { bounds, seed: 7 });
+      let iterate = optimizer.initial;
+      for (let i = 0; i < 300; i++) iterate = optimizer.step();
+      return iterate;
+    };
+    const iterate = runSpsa();
+    expect(iterate.cost).toBeLessThan(0.01);
+    expect(iterate.evaluations).toBe(1 + 3 * 300);
+    expect(runSpsa().point).toEqual(iterate.point);
+  });
+
+  it('should require a gradient for parameter-shift', () => {
+    expect(() => createOptimizer('parameter-shift', bowl, [0, 0], { bounds })).toThrow(
+      'Parameter-shift gradient descent needs a gradient'
+    );
+  });
+
+  it('should take exact parameter-shift gradients through angle expressions', () => {
+    // ⟨Z⟩ = cos 2θ, so d⟨Z⟩/dθ = -2 sin 2θ
+    const optimizer = createVariationalOptimizer(ryGrid('2*θ'), [theta(0.4)], z, 'parameter-shift', 0, [], { learningRate: 0.1 });
+    expect(optimizer.initial.value).toBeCloseTo(Math.cos(0.8));
+    const iterate = optimizer.step();
+    expect(iterate.values.θ).toBeCloseTo(0.4 + 0.1 * 2 * Math.sin(0.8), 10);
+    // Two shifted circuits for the gradient, one for the new point
+    expect(iterate.evaluations).toBe(4);
+  });
+
+  it.each<OptimizerMethod>(['nelder-mead', 'spsa', 'parameter-shift'])('should minimize ⟨Z⟩ with %s', method => {
+    const optimizer = createVariationalOptimizer(ryGrid('θ'), [theta(0.5)], z, method);
+    expect(optimizer.names).toEqual(['θ']);
+    const iterate = run(optimizer.step, 300);
+    expect(iterate.value).toBeLessThan(-0.999);
+    expect(iterate.values.θ).toBeCloseTo(Math.PI, 1);
+  });
+
+  it('should maximize an outcome probability', () => {
+    const optimizer = createVariationalOptimizer(ryGrid('θ'), [theta(0.5)], { kind: 'probability', bitstring: '1' }, 'nelder-mead');
+    expect(run(optimizer.step, 200).value).toBeGreaterThan(0.999);
+  });
+
+  it('should fall back to finite differences for controlled rotations', () => {
+    // Controlled RY(θ) on |1⟩|0⟩: ⟨IZ⟩ = cos θ
+    const grid = createGrid(2, 2);
+    grid[0][0].gate = GateType.X;
+    grid[0][1].gate = GateType.CONTROL;
+    grid[1][1] = { ...grid[1][1], gate: GateType.RY, params: { angle: 0, angleExpression: 'θ' } };
+    const iz = { kind: 'expectation' as const, observable: [{ coefficient: 1, pauli: 'IZ' }] };
+    const optimizer = createVariationalOptimizer(grid, [theta(1)], iz, 'parameter-shift', 0, [], { learningRate: 0.1 });
+    expect(optimizer.step().values.θ).toBeCloseTo(1 + 0.1 * Math.sin(1), 6);
+  });
+
+  it('should differentiate parameters used inside macro gates', () => {
+    const grid = createGrid(1, 1);
+    grid[0][0] = {
+      ...grid[0][0],
+      gate: GateType.MACRO,
+      params: { customLabel: 'M', customCircuit: ryGrid('2*θ'), reverseSpan: { startRow: 0, endRow: 0 } },
+    };
+    const optimizer = createVariationalOptimizer(grid, [theta(0.4)], z, 'parameter-shift', 0, [], { learningRate: 0.1 });
+    expect(optimizer.names).toEqual(['θ']);
+    expect(optimizer.initial.value).toBeCloseTo(Math.cos(0.8), 10);
+    expect(optimizer.step().values.θ).toBeCloseTo(0.4 + 0.1 * 2 * Math.sin(0.8), 6);
+  });
+
+  it('should only optimize parameters that gates use', () => {
+    const unused = { name: 'φ', value: 1, min: 0, max: 1 };
+    const optimizer = createVariationalOptimizer(ryGrid('θ'), [unused, theta(0.5)], z, 'nelder-mead');
+    expect(optimizer.names).toEqual(['θ']);
+    expect(() => createVariationalOptimizer(ryGrid('pi/2'), [theta(0)], z, 'nelder-mead')).toThrow(
+      'No gate angle uses a parameter'
+    );
+  });
+});
@@ -0,0 +1,335 @@
+import { CircuitGrid, CircuitParameter, GateType, WireInitialState, isControlGate, isParameterizedGate } from '../types';
+import { createSeededRandom } from './quantum';
+import { bindCircuitParameters, countParameterUses, getExpressionParameterNames, getParameterScope } from './circuitParameters';
+import { parseAngleExpression } from './angleParser';
+import { evaluateSweepQuantity, SweepQuantity } from './parameterSweep';
+
+/**
+ * Variational optimization
+ *
+ * Local optimizers over the circuit's named parameters: the cost is an
+ * expectation value to minimize (VQE, QAOA) or an outcome probability to
+ * maximize. Optimizers run one iteration per step() so callers can show
+ * every iterate as it arrives.
+ */
+
+// ============================================================================
+// Generic optimizers
+// ============================================================================
+
+export type OptimizerMethod = 'nelder-mead' | 'spsa' | 'parameter-shift';
+
+export const OPTIMIZER_METHODS: { id: OptimizerMethod; name: string; description: string }[] = [
+  { id: 'nelder-mead', name: 'Nelder–Mead', description: 'Derivative-free simplex search' },
+  { id: 'spsa', name: 'SPSA', description: 'Two evaluations per iteration along a random direction' },
+  { id: 'parameter-shift', name: 'Parameter-shift gradient descent', description: 'Exact gradients from shifted circuits' },
+];
+
+/** State of an optimizer after an iteration */
+export interface OptimizerIterate {
+  /** Iterations done so far (0 before the first step) */
+  iteration: number;
+  /** Current point (the best vertex for Nelder–Mead) */
+  point: number[];
+  /** Objective at the point */
+  cost: number;
+  /** Objective evaluations so far, including gradient evaluations */
+  evaluations: number;
+  /** True once further steps would not move the point */
+  converged: boolean;
+}
+
+export interface Optimizer {
+  /** Iterate before any step */
+  initial: OptimizerIterate;
+  /** Run one iteration */
+  step: () => OptimizerIterate;
+}
+
+export interface OptimizerOptions {
+  /** Range per coordinate; every point is clamped into it */
+  bounds: readonly { min: number; max: number }[];
+  /** Gradient of the objective and the evaluations it took (required for parameter-shift) */
+  gradient?: (point: number[]) => { gradient: number[]; evaluations: number };
+  /** Step size of gradient descent (default 0.2) */
+  learningRate?: number;
+  /** Seed for the SPSA perturbations (default 1) */
+  seed?: number;
+  /** Objective change below which an optimizer counts as converged (default 1e-9) */
+  tolerance?: number;
+}
+
+// Nelder–Mead coefficients: reflection, expansion, contraction, shrink
+const NM_REFLECT = 1;
+const NM_EXPAND = 2;
+const NM_CONTRACT = 0.5;
+const NM_SHRINK = 0.5;
+/** Initial simplex edge as a fraction of each coordinate's range */
+const NM_INITIAL_STEP = 0.1;
+
+// SPSA gain sequences a_k = a / (k + 1 + A)^α and c_k = c / (k + 1)^γ (Spall's defaults for α, γ)
+const SPSA_A = 1;
+const SPSA_STABILITY = 10;
+const SPSA_ALPHA = 0.602;
+const SPSA_C = 0.2;
+const SPSA_GAMMA = 0.101;
+
+const DEFAULT_LEARNING_RATE = 0.2;
+const DEFAULT_TOLERANCE = 1e-9;
+
+/**
+ * Create an optimizer that minimizes `objective` from `initial`.
+ *
+ * @throws Error if parameter-shift is requested without a gradient
+ */
+export const createOptimizer = (
+  method: OptimizerMethod,
+  objective: (point: number[]) => number,
+  initial: readonly number[],
+  options: OptimizerOptions
+): Optimizer => {
+  const { gradient } = options;
+  if (method === 'parameter-shift' && !gradient) {
+    throw new Error('Parameter-shift gradient descent needs a gradient');
+  }
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const clamp = (point: number[]): number[] =>
+    point.map((x, i) => Math.min(options.bounds[i].max, Math.max(options.bounds[i].min, x)));
+
+  let evaluations = 0;
+  let iteration = 0;
+  const evaluate = (point: number[]): number => {
+    evaluations++;
+    return objective(point);
+  };
+
+  const start = clamp([...initial]);
+  const startCost = evaluate(start);
+  const iterate = (point: number[], cost: number, converged: boolean): OptimizerIterate =>
+    ({ iteration, point, cost, evaluations, converged });
+
+  if (method === 'nelder-mead') {
+    const n = start.length;
+    // Simplex of n + 1 vertices, sorted best first after every step
+    let simplex = [{ point: start, cost: startCost }];
+    for (let i = 0; i < n; i++) {
+      const { min, max } = options.bounds[i];
+      const edge = (max - min) * NM_INITIAL_STEP || NM_INITIAL_STEP;
+      const point = [...start];
+      point[i] = point[i] + edge <= max ? point[i] + edge : point[i] - edge;
+      simplex.push({ point: clamp(point), cost: evaluate(clamp(point)) });
+    }
+    simplex.sort((a, b) => a.cost - b.cost);
+    const vertex = (point: number[]) => {
+      const clamped = clamp(point);
+      return { point: clamped, cost: evaluate(clamped) };
+    };
+    const lerp = (from: number[], to: number[], t: number) => from.map((x, i) => x + t * (to[i] - x));
+    const hasConverged = () => simplex[n].cost - simplex[0].cost <= tolerance;
+
+    return {
+      initial: iterate(simplex[0].point, simplex[0].cost, hasConverged()),
+      step: () => {
+        if (!hasConverged()) {
+          const worst = simplex[n];
+          const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, v) => sum + v.point[i], 0) / n);
+          const reflected = vertex(lerp(centroid, worst.point, -NM_REFLECT));
+          if (reflected.cost < simplex[0].cost) {
+            const expanded = vertex(lerp(centroid, worst.point, -NM_EXPAND));
+            simplex[n] = expanded.cost < reflected.cost ? expanded : reflected;
+          } else if (reflected.cost < simplex[n - 1].cost) {
+            simplex[n] = reflected;
+          } else {
+            // Contract towards the better of the reflected and worst points, or shrink towards the best vertex
+            const outside = reflected.cost < worst.cost;
+            const contracted = vertex(lerp(centroid, outside ? reflected.point : worst.point, NM_CONTRACT));
+            if (contracted.cost < Math.min(reflected.cost, worst.cost)) {
+              simplex[n] = contracted;
+            } else {
+              simplex = [simplex[0], ...simplex.slice(1).map(v => vertex(lerp(simplex[0].point, v.point, NM_SHRINK)))];
+            }
+          }
+          simplex.sort((a, b) => a.cost - b.cost);
+        }
+        iteration++;
+        return iterate(simplex[0].point, simplex[0].cost, hasConverged());
+      },
+    };
+  }
+
+  if (method === 'spsa') {
+    const random = createSeededRandom(options.seed ?? 1);
+    let point = start;
+    let cost = startCost;
+    return {
+      initial: iterate(point, cost, false),
+      step: () => {
+        const a = SPSA_A / Math.pow(iteration + 1 + SPSA_STABILITY, SPSA_ALPHA);
+        const c = SPSA_C / Math.pow(iteration + 1, SPSA_GAMMA);
+        const delta = point.map(() => (random() < 0.5 ? -1 : 1));
+        const plus = evaluate(clamp(point.map((x, i) => x + c * delta[i])));
+        const minus = evaluate(clamp(point.map((x, i) => x - c * delta[i])));
+        point = clamp(point.map((x, i) => x - a * (plus - minus) / (2 * c * delta[i])));
+        cost = evaluate(point);
+        iteration++;
+        return iterate(point, cost, false);
+      },
+    };
+  }
+
+  const learningRate = options.learningRate ?? DEFAULT_LEARNING_RATE;
+  let point = start;
+  let cost = startCost;
+  let converged = false;
+  return {
+    initial: iterate(point, cost, false),
+    step: () => {
+      if (!converged) {
+        const grad = gradient!(point);
+        evaluations += grad.evaluations;
+        const next = clamp(point.map((x, i) => x - learningRate * grad.gradient[i]));
+        const nextCost = evaluate(next);
+        converged = Math.abs(cost - nextCost) <= tolerance;
+        point = next;
+        cost = nextCost;
+      }
+      iteration++;
+      return iterate(point, cost, converged);
+    },
+  };
+};
+
+// ============================================================================
+// Circuit costs
+// ============================================================================
+
+/** One iteration of a variational run, in terms of the circuit */
+export interface VariationalIterate {
+  iteration: number;
+  /** Values of the optimized parameters */
+  values: Record<string, number>;
+  /** Expectation value or probability at those values */
+  value: number;
+  evaluations: number;
+  converged: boolean;
+}
+
+export interface VariationalOptimizer {
+  /** Parameters being optimized: those some gate angle uses */
+  names: string[];
+  initial: VariationalIterate;
+  step: () => VariationalIterate;
+}
+
+/** Angle shift of the parameter-shift rule for RX, RY and RZ */
+const PARAMETER_SHIFT = Math.PI / 2;
+/** Angle step of the central difference used where the shift rule does not hold */
+const FINITE_DIFFERENCE_STEP = 1e-4;
+/** Parameter step for differentiating angle expressions */
+const EXPRESSION_STEP = 1e-6;
+
+/** Copy of the grid with one cell's angle replaced */
+const withAngle = (grid: CircuitGrid, row: number, col: number, angle: number): CircuitGrid =>
+  grid.map((cells, r) => r !== row ? cells : cells.map((cell, c) =>
+    c !== col ? cell : { ...cell, params: { ...cell.params, angle } }
+  ));
+
+/**
+ * Optimize the parameters the circuit's angles use: minimize an expectation
+ * value, or maximize an outcome probability. Parameters stay within their
+ * slider ranges.
+ *
+ * Parameter-shift gradients shift each gate that uses a parameter by ±π/2 and
+ * apply the chain rule through its angle expression. The rule is exact for
+ * uncontrolled RX, RY and RZ; rotations with controls in their column use a
+ * central difference instead.
+ *
+ * @throws Error if no gate angle uses a parameter, or as evaluateSweepQuantity
+ */
+export const createVariationalOptimizer = (
+  grid: CircuitGrid,
+  parameters: readonly CircuitParameter[],
+  quantity: SweepQuantity,
+  method: OptimizerMethod,
+  timeParameter?: number,
+  initialStates: readonly (WireInitialState | undefined)[] = [],
+  options: { learningRate?: number; seed?: number } = {}
+): VariationalOptimizer => {
+  const optimized = parameters.filter(p => countParameterUses(grid, p.name) > 0);
+  if (optimized.length === 0) {
+    throw new Error('No gate angle uses a parameter');
+  }
+  const names = optimized.map(p => p.name);
+  const sign = quantity.kind === 'probability' ? -1 : 1;
+
+  const withValues = (point: readonly number[]): CircuitParameter[] =>
+    parameters.map(p => {
+      const index = names.indexOf(p.name);
+      return index === -1 ? p : { ...p, value: point[index] };
+    });
+  const cost = (bound: CircuitGrid) => sign * evaluateSweepQuantity(bound, quantity, timeParameter, initialStates);
+  const objective = (point: number[]) => cost(bindCircuitParameters(grid, withValues(point)));
+
+  // Gates whose angle uses an optimized parameter
+  const gates = grid.flatMap((cells, row) => cells.flatMap((cell, col) => {
+    const expression = cell.params?.angleExpression;
+    if (!cell.gate || expression === undefined) return [];
+    const used = getExpressionParameterNames(expression).filter(name => names.includes(name));
+    if (used.length === 0) return [];
+    const controlled = grid.some(r => r[col].gate !== null && isControlGate(r[col].gate as GateType));
+    return [{ row, col, expression, used, shiftRule: isParameterizedGate(cell.gate) && !controlled }];
+  }));
+
+  // Angles inside macro gates have no cell of their own to shift, so parameters
+  // used there are differentiated through the whole circuit instead
+  const macroCircuits = grid.flat()
+    .filter(cell => cell.gate === GateType.MACRO && !cell.params?.isSpanContinuation)
+    .flatMap(cell => (cell.params?.customCircuit ? [cell.params.customCircuit] : []));
+  const macroNames = names.filter(name => macroCircuits.some(circuit => countParameterUses(circuit, name) > 0));
+
+  const gradient = (point: number[]) => {
+    const current = withValues(point);
+    const scope = getParameterScope(current);
+    const bound = bindCircuitParameters(grid, current);
+    const result = names.map(() => 0);
+    for (const { row, col, expression, used, shiftRule } of gates) {
+      const angle = bound[row][col].params?.angle ?? 0;
+      const shift = shiftRule ? PARAMETER_SHIFT : FINITE_DIFFERENCE_STEP;
+      const difference = cost(withAngle(bound, row, col, angle + shift)) - cost(withAngle(bound, row, col, angle - shift));
+      const slope = shiftRule ? difference / 2 : difference / (2 * shift);
+      for (const name of used) {
+        if (macroNames.includes(name)) continue;
+        // d(angle)/d(parameter), numerically, since expressions can be any arithmetic
+        const at = (delta: number) => parseAngleExpression(expression, { ...scope, [name]: scope[name] + delta }) ?? angle;
+        const index = names.indexOf(name);
+        result[index] += slope * (at(EXPRESSION_STEP) - at(-EXPRESSION_STEP)) / (2 * EXPRESSION_STEP);
+      }
+    }
+    for (const name of macroNames) {
+      const index = names.indexOf(name);
+      const shifted = (delta: number) => point.map((value, i) => (i === index ? value + delta : value));
+      result[index] = (objective(shifted(FINITE_DIFFERENCE_STEP)) - objective(shifted(-FINITE_DIFFERENCE_STEP))) / (2 * FINITE_DIFFERENCE_STEP);
+    }
+    return { gradient: result, evaluations: 2 * (gates.length + macroNames.length) };
+  };
+
+  const optimizer = createOptimizer(method, objective, optimized.map(p => p.value), {
+    bounds: optimized,
+    gradient,
+    learningRate: options.learningRate,
+    seed: options.seed,
+  });
+  const toCircuit = (iterate: OptimizerIterate): VariationalIterate => ({
+    iteration: iterate.iteration,
+    values: Object.fromEntries(names.map((name, i) => [name, iterate.point[i]])),
+    value: sign * iterate.cost,
+    evaluations: iterate.evaluations,
+    converged: iterate.converged,
+  });
+
+  return {
+    names,
+    initial: toCircuit(optimizer.initial),
+    step: () => toCircuit(optimizer.step()),
+  };
+};